@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import SearchBar from './components/SearchBar';
 import ResultView from './components/ResultView';
 import FavoritesList from './components/FavoritesList';
@@ -7,14 +7,40 @@ import OverlayContent from './components/OverlayContent';
 import ChatWidget from './components/ChatWidget';
 import SearchHistory from './components/SearchHistory';
 import DeploymentDashboard from './components/DeploymentDashboard';
-import { discoverJsonPrompts } from './services/geminiService';
-import { AppState, SearchResult, SavedResult } from './types';
+import ProviderSettingsPanel from './components/ProviderSettingsPanel';
+import DiscoveryTimeline from './components/DiscoveryTimeline';
+import CacheManager from './components/CacheManager';
+import SpecImportPanel from './components/SpecImportPanel';
+import BatchRunner from './components/BatchRunner';
+import UsagePanel from './components/UsagePanel';
+import { DiscoveryEvent, discoverJsonPrompts, isAbortError } from './services/geminiService';
+import { getCachedResult, isExpired, putCachedResult } from './services/discoveryCache';
+import { classifyError } from './services/engineErrors';
+import { formatUsd, monthUsage, subscribeUsage } from './services/usageLedger';
+import { createRevision, recordRevision, restoreRevision } from './services/revisionHistory';
+import { SHARE_FILE_EXTENSION, hasSharedResult, parseShareFile, readSharedResult } from './services/shareLink';
+import { AppState, ArtifactKey, EngineFault, Revision, RevisionSource, SearchResult, SavedResult } from './types';
 
 const STORAGE_KEYS = {
   FAVORITES: 'json_prompter_favs_v8_violet',
   HISTORY: 'json_prompter_hist_v8_violet'
 };
 
+const shareFault = (message: string): EngineFault => ({
+  kind: 'unknown',
+  title: 'Shared Result Unreadable',
+  message,
+  remediation: `Ask the sender to share it again. Large results are shared as a ${SHARE_FILE_EXTENSION} file, which you can open with Import Shared Result.`,
+  retryable: false
+});
+
+// Results opened from favorites carry the favorite's id; fresh discoveries only match by title
+const findFavorite = (favorites: SavedResult[], result: SearchResult | null) => {
+  if (!result) return undefined;
+  const id = (result as Partial<SavedResult>).id;
+  return id ? favorites.find(f => f.id === id) : favorites.find(f => f.title === result.title);
+};
+
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>(() => {
     try {
@@ -26,6 +52,7 @@ const App: React.FC = () => {
         isSearching: false,
         query: '',
         results: null,
+        cacheStatus: null,
         error: null,
         favorites: Array.isArray(favorites) ? favorites : [],
         searchHistory: Array.isArray(searchHistory) ? searchHistory : [],
@@ -37,6 +64,7 @@ const App: React.FC = () => {
         isSearching: false,
         query: '',
         results: null,
+        cacheStatus: null,
         error: null,
         favorites: [],
         searchHistory: [],
@@ -47,7 +75,11 @@ const App: React.FC = () => {
   });
 
   const [hasApiKey, setHasApiKey] = useState(false);
-  const [activeModal, setActiveModal] = useState<'docs' | 'api' | 'privacy' | 'terms' | 'deploy' | 'dashboard' | null>(null);
+  const [discoveryEvents, setDiscoveryEvents] = useState<DiscoveryEvent[]>([]);
+  const discoveryAbort = useRef<AbortController | null>(null);
+  const [monthSpend, setMonthSpend] = useState(() => monthUsage().costUsd);
+  const shareFileInput = useRef<HTMLInputElement>(null);
+  const [activeModal, setActiveModal] = useState<'docs' | 'api' | 'privacy' | 'terms' | 'deploy' | 'dashboard' | 'engine' | 'cache' | 'spec' | 'batch' | 'usage' | null>(null);
 
   useEffect(() => {
     const checkKey = async () => {
@@ -64,45 +96,166 @@ const App: React.FC = () => {
     checkKey();
   }, []);
 
+  useEffect(() => subscribeUsage(() => setMonthSpend(monthUsage().costUsd)), []);
+
+  // Shared links carry the whole result in the fragment, so opening one makes no API call
+  useEffect(() => {
+    const openSharedLink = async () => {
+      const hash = window.location.hash;
+      if (!hasSharedResult(hash)) return;
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      try {
+        openSharedResult(await readSharedResult(hash));
+      } catch (e: any) {
+        setState(prev => ({ ...prev, results: null, query: '', error: shareFault(e.message) }));
+      }
+    };
+    openSharedLink();
+    window.addEventListener('hashchange', openSharedLink);
+    return () => window.removeEventListener('hashchange', openSharedLink);
+  }, []);
+
   useEffect(() => {
     localStorage.setItem(STORAGE_KEYS.FAVORITES, JSON.stringify(state.favorites));
     localStorage.setItem(STORAGE_KEYS.HISTORY, JSON.stringify(state.searchHistory));
   }, [state.favorites, state.searchHistory]);
 
-  const handleSearch = async (query: string) => {
+  const handleSearch = async (query: string, forceRefresh = false) => {
     if (!query.trim()) return;
-    setState(prev => ({ ...prev, isSearching: true, query, error: null, results: null }));
+    discoveryAbort.current?.abort();
+    const controller = new AbortController();
+    discoveryAbort.current = controller;
+    setDiscoveryEvents([]);
+    setState(prev => ({ ...prev, isSearching: true, query, error: null, results: null, cacheStatus: null }));
     try {
-      const results = await discoverJsonPrompts(query);
+      const cached = forceRefresh ? null : await getCachedResult(query);
+      if (discoveryAbort.current !== controller) return;
+      if (cached) {
+        setState(prev => ({
+          ...prev,
+          results: cached.result,
+          cacheStatus: cached.status,
+          isSearching: false,
+          searchHistory: [query, ...prev.searchHistory.filter(h => h !== query)].slice(0, 10)
+        }));
+        return;
+      }
+
+      const results = await discoverJsonPrompts(query, {
+        signal: controller.signal,
+        onEvent: (event) => {
+          if (discoveryAbort.current !== controller) return;
+          // Streaming ticks replace each other so the log stays one entry per stage
+          setDiscoveryEvents(prev => event.type === 'synthesis-streaming' && prev[prev.length - 1]?.type === 'synthesis-streaming'
+            ? [...prev.slice(0, -1), event]
+            : [...prev, event]);
+        }
+      });
+      putCachedResult(query, results);
       setState(prev => ({ 
         ...prev, 
         results, 
+        favorites: prev.favorites.map(f => (f.title === results.title ? recordRevision(f, results, 'rediscovery') : f)),
         isSearching: false,
         searchHistory: [query, ...prev.searchHistory.filter(h => h !== query)].slice(0, 10)
       }));
     } catch (err: any) {
+      if (isAbortError(err)) {
+        if (discoveryAbort.current === controller) {
+          setState(prev => ({ ...prev, isSearching: false }));
+        }
+        return;
+      }
       setState(prev => ({ 
         ...prev, 
         isSearching: false, 
-        error: err.message || 'The neural link was severed. Please try again.' 
+        error: classifyError(err).toFault()
       }));
     }
   };
 
+  const handleCancelSearch = () => {
+    discoveryAbort.current?.abort();
+  };
+
+  const openSharedResult = (result: SearchResult) => {
+    discoveryAbort.current?.abort();
+    setState(prev => ({ ...prev, results: result, query: result.title, error: null, isSearching: false, cacheStatus: null }));
+  };
+
+  const handleImportShareFile = async (file: File) => {
+    try {
+      openSharedResult(parseShareFile(await file.text()));
+    } catch (e: any) {
+      setState(prev => ({ ...prev, results: null, query: '', error: shareFault(e.message) }));
+    }
+  };
+
+  const handleSaveAll = (results: SearchResult[]) => {
+    setState(prev => {
+      const saved = new Set(prev.favorites.map(f => f.title));
+      const additions: SavedResult[] = results
+        .filter(result => !saved.has(result.title))
+        .map(result => ({ ...result, id: Math.random().toString(36).substring(7), savedAt: Date.now(), revisions: [createRevision(result, 'saved')] }));
+      return { ...prev, favorites: [...additions, ...prev.favorites] };
+    });
+  };
+
   const handleToggleSave = (result: SearchResult) => {
-    const isAlreadySaved = state.favorites.some(f => f.title === result.title);
-    if (isAlreadySaved) {
-      setState(prev => ({ ...prev, favorites: prev.favorites.filter(f => f.title !== result.title) }));
+    const saved = findFavorite(state.favorites, result);
+    if (saved) {
+      const history = saved.revisions?.length || 0;
+      if (history > 1 && !window.confirm(`Remove "${saved.title}" from favorites? Its ${history} revisions will be lost.`)) return;
+      setState(prev => ({ ...prev, favorites: prev.favorites.filter(f => f.id !== saved.id) }));
     } else {
       const newFav: SavedResult = {
         ...result,
         id: Math.random().toString(36).substring(7),
-        savedAt: Date.now()
+        savedAt: Date.now(),
+        revisions: [createRevision(result, 'saved')]
       };
-      setState(prev => ({ ...prev, favorites: [newFav, ...prev.favorites] }));
+      setState(prev => ({
+        ...prev,
+        results: prev.results === result ? newFav : prev.results,
+        favorites: [newFav, ...prev.favorites]
+      }));
     }
   };
 
+  // Keeps a saved favorite in step when the open result changes, recording a revision
+  const handleUpdateResult = (result: SearchResult, source: RevisionSource = 'edit') => {
+    setState(prev => ({
+      ...prev,
+      results: result,
+      favorites: prev.favorites.map(f => (f === findFavorite(prev.favorites, result) ? recordRevision(f, result, source) : f))
+    }));
+  };
+
+  const handleRestoreRevision = (revision: Revision) => {
+    if (state.results) handleUpdateResult(restoreRevision(state.results, revision), 'restore');
+  };
+
+  const handleApplyFromChat = (artifact: ArtifactKey, text: string) => {
+    if (state.results) handleUpdateResult({ ...state.results, [artifact]: text }, 'chat');
+  };
+
+  // Edited results are kept next to the original, under a title that does not collide with it
+  const handleSaveCopy = (result: SearchResult) => {
+    const original = result.editedFrom || result.title;
+    const titles = new Set(state.favorites.map(f => f.title));
+    let title = `${original} (edited)`;
+    for (let n = 2; titles.has(title); n++) title = `${original} (edited ${n})`;
+    const copy: SavedResult = {
+      ...result,
+      title,
+      editedFrom: original,
+      id: Math.random().toString(36).substring(7),
+      savedAt: Date.now(),
+      revisions: [createRevision(result, 'edit')]
+    };
+    setState(prev => ({ ...prev, results: copy, favorites: [copy, ...prev.favorites] }));
+  };
+
   return (
     <div className="min-h-screen flex flex-col items-center bg-[#050505] text-white selection:bg-purple-900">
       {/* Precision Deployment Header */}
@@ -126,10 +279,22 @@ const App: React.FC = () => {
             <i className="fas fa-chart-line"></i>
             Deployment Center
           </button>
-          <div className="flex items-center gap-3 text-[9px] font-black text-gray-600 uppercase tracking-widest">
+          <button
+            onClick={() => setActiveModal('usage')}
+            className="flex items-center gap-2 text-[9px] font-black text-gray-600 hover:text-purple-400 uppercase tracking-widest transition-colors"
+            title="Month-to-date model spend"
+          >
+            <i className="fas fa-coins"></i>
+            <span>{formatUsd(monthSpend)}</span>
+          </button>
+          <button
+            onClick={() => setActiveModal('engine')}
+            className="flex items-center gap-3 text-[9px] font-black text-gray-600 hover:text-purple-400 uppercase tracking-widest transition-colors"
+          >
+            <i className="fas fa-sliders"></i>
             <span className="hidden sm:inline">Engine: V8.2</span>
             <span className="text-purple-500 font-bold">Cyber Violet</span>
-          </div>
+          </button>
         </div>
       </div>
 
@@ -149,6 +314,40 @@ const App: React.FC = () => {
               onSelect={handleSearch} 
               onClear={() => setState(prev => ({ ...prev, searchHistory: [] }))} 
             />
+            <div className="mt-4 flex flex-wrap justify-center gap-6">
+              <button
+                onClick={() => setActiveModal('spec')}
+                className="inline-flex items-center gap-2 text-[9px] font-black text-gray-600 hover:text-purple-400 uppercase tracking-widest transition-colors"
+              >
+                <i className="fas fa-file-import"></i>
+                Import OpenAPI / GraphQL Spec
+              </button>
+              <button
+                onClick={() => setActiveModal('batch')}
+                className="inline-flex items-center gap-2 text-[9px] font-black text-gray-600 hover:text-purple-400 uppercase tracking-widest transition-colors"
+              >
+                <i className="fas fa-layer-group"></i>
+                Batch Discovery
+              </button>
+              <button
+                onClick={() => shareFileInput.current?.click()}
+                className="inline-flex items-center gap-2 text-[9px] font-black text-gray-600 hover:text-purple-400 uppercase tracking-widest transition-colors"
+              >
+                <i className="fas fa-share-from-square"></i>
+                Import Shared Result
+              </button>
+              <input
+                ref={shareFileInput}
+                type="file"
+                accept={`${SHARE_FILE_EXTENSION},.json,application/json`}
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) handleImportShareFile(file);
+                }}
+              />
+            </div>
           </div>
 
           {!state.results && !state.isSearching && (
@@ -170,13 +369,7 @@ const App: React.FC = () => {
 
       <main className="w-full px-4 sm:px-6 flex-grow pb-24">
         {state.isSearching && (
-          <div className="max-w-xl mx-auto mt-16 sm:mt-24 text-center space-y-6 sm:space-y-8 animate-pulse">
-            <div className="w-14 h-14 sm:w-20 sm:h-20 border-2 border-white/5 border-t-purple-500 rounded-full animate-spin mx-auto shadow-[0_0_30px_rgba(168,85,247,0.2)]"></div>
-            <div className="space-y-2">
-               <h3 className="text-lg sm:text-2xl font-black text-purple-300 uppercase tracking-widest">Scanning Grid...</h3>
-               <p className="text-[9px] sm:text-[10px] text-gray-600 uppercase tracking-widest font-bold">Grounding Data via Gemini Flash</p>
-            </div>
-          </div>
+          <DiscoveryTimeline query={state.query} events={discoveryEvents} onCancel={handleCancelSearch} />
         )}
 
         {state.error && (
@@ -185,21 +378,39 @@ const App: React.FC = () => {
               <i className="fas fa-exclamation-triangle"></i>
             </div>
             <div>
-              <h4 className="font-black text-white uppercase tracking-widest mb-1 text-sm sm:text-base">System Fault</h4>
-              <p className="text-gray-500 text-[10px] sm:text-xs font-mono">{state.error}</p>
+              <h4 className="font-black text-white uppercase tracking-widest mb-1 text-sm sm:text-base">{state.error.title}</h4>
+              {state.error.stage && (
+                <span className="inline-block mb-3 px-2 py-0.5 rounded-md bg-red-500/10 text-red-400 text-[8px] font-black uppercase tracking-widest">
+                  Failed at: {state.error.stage}
+                </span>
+              )}
+              <p className="text-gray-500 text-[10px] sm:text-xs font-mono break-words">{state.error.message}</p>
             </div>
-            <button onClick={() => handleSearch(state.query)} className="w-full sm:w-auto px-8 py-3 bg-purple-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-purple-500 transition-all shadow-xl">
-              Retry Link
-            </button>
+            <p className="text-gray-300 text-[11px] sm:text-xs leading-relaxed bg-black/40 border border-white/5 rounded-2xl p-4 text-left">
+              <i className="fas fa-lightbulb text-yellow-500 mr-2"></i>
+              {state.error.remediation}
+            </p>
+            {state.query && (
+              <button onClick={() => handleSearch(state.query)} className="w-full sm:w-auto px-8 py-3 bg-purple-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-purple-500 transition-all shadow-xl">
+                Retry Link
+              </button>
+            )}
           </div>
         )}
 
         {!state.isSearching && state.results && (
           <ResultView 
             result={state.results} 
-            isSaved={state.favorites.some(f => f.title === state.results?.title)}
+            cacheStatus={state.cacheStatus}
+            onRefresh={() => handleSearch(state.query, true)}
+            isSaved={!!findFavorite(state.favorites, state.results)}
             onSave={handleToggleSave}
             onRemove={(id) => setState(prev => ({ ...prev, favorites: prev.favorites.filter(f => f.id !== id) }))}
+            onUpdate={handleUpdateResult}
+            onSaveCopy={handleSaveCopy}
+            revisions={findFavorite(state.favorites, state.results)?.revisions}
+            onRestoreRevision={handleRestoreRevision}
+            favorites={state.favorites}
           />
         )}
 
@@ -207,7 +418,7 @@ const App: React.FC = () => {
           <FavoritesList 
             favorites={state.favorites} 
             onRemove={(id) => setState(prev => ({ ...prev, favorites: prev.favorites.filter(f => f.id !== id) }))}
-            onSelect={(fav) => setState(prev => ({ ...prev, results: fav, query: fav.title }))}
+            onSelect={(fav) => setState(prev => ({ ...prev, results: fav, query: fav.title, cacheStatus: null }))}
           />
         )}
       </main>
@@ -218,6 +429,7 @@ const App: React.FC = () => {
           <div className="flex flex-wrap justify-center gap-4 sm:gap-8 text-gray-500 text-[8px] sm:text-[10px] font-black uppercase tracking-widest">
             <button onClick={() => setActiveModal('docs')} className="hover:text-purple-400 transition-colors">Docs</button>
             <button onClick={() => setActiveModal('api')} className="hover:text-purple-400 transition-colors">API</button>
+            <button onClick={() => setActiveModal('cache')} className="hover:text-purple-400 transition-colors">Cache</button>
             <button onClick={() => setActiveModal('dashboard')} className="text-orange-500 hover:text-white transition-colors underline underline-offset-4 decoration-orange-500/30">Deployment Status</button>
           </div>
         </div>
@@ -225,11 +437,49 @@ const App: React.FC = () => {
 
       {activeModal === 'dashboard' ? (
         <DeploymentDashboard onClose={() => setActiveModal(null)} />
-      ) : activeModal && (
+      ) : activeModal === 'engine' ? (
+        <ProviderSettingsPanel onClose={() => setActiveModal(null)} />
+      ) : activeModal === 'cache' ? (
+        <CacheManager
+          onClose={() => setActiveModal(null)}
+          onOpen={(entry) => {
+            setActiveModal(null);
+            setState(prev => ({
+              ...prev,
+              results: entry.result,
+              query: entry.query,
+              error: null,
+              cacheStatus: { cachedAt: entry.cachedAt, stale: isExpired(entry) }
+            }));
+          }}
+        />
+      ) : activeModal === 'usage' ? (
+        <UsagePanel onClose={() => setActiveModal(null)} />
+      ) : activeModal === 'spec' ? (
+        <SpecImportPanel
+          onClose={() => setActiveModal(null)}
+          onImported={(result, label) => {
+            setActiveModal(null);
+            discoveryAbort.current?.abort();
+            setState(prev => ({ ...prev, results: result, query: label, error: null, isSearching: false, cacheStatus: null }));
+          }}
+        />
+      ) : activeModal && activeModal !== 'batch' && (
         <OverlayContent type={activeModal as any} onClose={() => setActiveModal(null)} />
       )}
       
-      <ChatWidget currentContext={state.results} />
+      <BatchRunner
+        open={activeModal === 'batch'}
+        onClose={() => setActiveModal(null)}
+        onSaveAll={handleSaveAll}
+        onOpenResult={(result, query) => {
+          setActiveModal(null);
+          discoveryAbort.current?.abort();
+          setState(prev => ({ ...prev, results: result, query, error: null, isSearching: false, cacheStatus: null }));
+        }}
+      />
+
+      <ChatWidget currentContext={state.results} onApply={handleApplyFromChat} />
     </div>
   );
 };
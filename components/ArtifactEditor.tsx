@@ -0,0 +1,73 @@
+import React, { useRef } from 'react';
+import { ArtifactDiagnostic } from '../services/artifactDiagnostics';
+
+interface ArtifactEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  diagnostics: ArtifactDiagnostic[];
+  modified: boolean;
+  compact?: boolean;
+}
+
+const ArtifactEditor: React.FC<ArtifactEditorProps> = ({ value, onChange, diagnostics, modified, compact }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const errors = diagnostics.filter(d => d.severity === 'error').length;
+
+  const jumpTo = (diagnostic: ArtifactDiagnostic) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !diagnostic.line) return;
+    const lines = value.split('\n');
+    const offset = lines.slice(0, diagnostic.line - 1).reduce((sum, line) => sum + line.length + 1, 0) + Math.max(0, (diagnostic.column || 1) - 1);
+    textarea.focus();
+    textarea.setSelectionRange(offset, offset);
+    const lineHeight = textarea.scrollHeight / Math.max(1, lines.length);
+    textarea.scrollTop = Math.max(0, (diagnostic.line - 3) * lineHeight);
+  };
+
+  // Tab inserts two spaces instead of leaving the editor
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab' || e.shiftKey) return;
+    e.preventDefault();
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    onChange(`${value.slice(0, selectionStart)}  ${value.slice(selectionEnd)}`);
+    requestAnimationFrame(() => textareaRef.current?.setSelectionRange(selectionStart + 2, selectionStart + 2));
+  };
+
+  return (
+    <div className="flex-grow flex flex-col gap-3">
+      <div className="flex items-center gap-3 text-[9px] font-black uppercase tracking-widest">
+        {modified && <span className="px-2 py-0.5 rounded-md bg-yellow-500/10 text-yellow-400">Modified</span>}
+        <span className={errors ? 'text-red-400' : diagnostics.length ? 'text-yellow-400' : 'text-green-500'}>
+          <i className={`fas ${errors ? 'fa-circle-xmark' : diagnostics.length ? 'fa-triangle-exclamation' : 'fa-circle-check'} mr-1`}></i>
+          {diagnostics.length === 0 ? 'No problems' : `${diagnostics.length} problem${diagnostics.length === 1 ? '' : 's'}`}
+        </span>
+      </div>
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        spellCheck={false}
+        className={`w-full flex-grow bg-black/40 border rounded-2xl p-4 sm:p-5 font-mono text-gray-300 leading-relaxed resize-y focus:outline-none scrollbar-thin ${compact ? 'text-[10px] min-h-[160px]' : 'text-[12px] sm:text-[13px] min-h-[420px]'} ${errors ? 'border-red-500/30 focus:border-red-500/60' : 'border-white/5 focus:border-purple-600'}`}
+      />
+      {diagnostics.length > 0 && (
+        <div className="bg-black/40 rounded-2xl border border-white/5 max-h-40 overflow-y-auto scrollbar-thin divide-y divide-white/5">
+          {diagnostics.map((diagnostic, i) => (
+            <button
+              key={i}
+              onClick={() => jumpTo(diagnostic)}
+              disabled={!diagnostic.line}
+              className="w-full flex items-start gap-3 px-4 py-2 text-left text-[10px] font-mono hover:bg-white/5 transition-all disabled:hover:bg-transparent"
+            >
+              <i className={`fas ${diagnostic.severity === 'error' ? 'fa-circle-xmark text-red-500' : 'fa-triangle-exclamation text-yellow-500'} mt-0.5`}></i>
+              <span className="flex-1 text-gray-300 break-words">{diagnostic.message}</span>
+              {diagnostic.line && <span className="text-gray-600 whitespace-nowrap">{diagnostic.line}:{diagnostic.column || 1}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArtifactEditor;
@@ -0,0 +1,293 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SearchResult } from '../types';
+import {
+  BatchItem,
+  BatchItemStatus,
+  MAX_CONCURRENCY,
+  createBatchBundle,
+  createBatchItems,
+  parseBatchInput,
+  runBatch
+} from '../services/batchRunner';
+
+interface BatchRunnerProps {
+  open: boolean;
+  onClose: () => void;
+  onOpenResult: (result: SearchResult, query: string) => void;
+  onSaveAll: (results: SearchResult[]) => void;
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  queued: 'bg-white/5 text-gray-500',
+  running: 'bg-purple-500/10 text-purple-300',
+  done: 'bg-green-500/10 text-green-400',
+  failed: 'bg-red-500/10 text-red-400',
+  cancelled: 'bg-yellow-500/10 text-yellow-400'
+};
+
+const BatchRunner: React.FC<BatchRunnerProps> = ({ open, onClose, onOpenResult, onSaveAll }) => {
+  const [input, setInput] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [concurrency, setConcurrency] = useState(2);
+  const [requestsPerMinute, setRequestsPerMinute] = useState(10);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const abort = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abort.current?.abort(), []);
+
+  const run = async (subset: BatchItem[]) => {
+    if (subset.length === 0) return;
+    const controller = new AbortController();
+    abort.current = controller;
+    setIsRunning(true);
+    setSaved(false);
+    const ids = new Set(subset.map(item => item.id));
+    setItems(prev => prev.map(item => (ids.has(item.id) ? { ...item, status: 'queued', fault: undefined } : item)));
+    try {
+      await runBatch(subset, {
+        concurrency,
+        requestsPerMinute,
+        signal: controller.signal,
+        onUpdate: (id, patch) => setItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)))
+      });
+    } finally {
+      if (abort.current === controller) setIsRunning(false);
+    }
+  };
+
+  const handleStart = () => {
+    const queries = parseBatchInput(input, fileName);
+    const fresh = createBatchItems(queries);
+    setItems(fresh);
+    run(fresh);
+  };
+
+  const handleFile = async (file: File) => {
+    setInput(await file.text());
+    setFileName(file.name);
+  };
+
+  const retryable = items.filter(item => item.status === 'failed' || item.status === 'cancelled');
+  const results = items.filter(item => item.result);
+  const finished = items.filter(item => item.status !== 'queued' && item.status !== 'running').length;
+  const pending = parseBatchInput(input, fileName).length;
+
+  const downloadBundle = () => {
+    const a = document.createElement("a");
+    const file = new Blob([JSON.stringify(createBatchBundle(items), null, 2)], { type: 'application/json' });
+    a.href = URL.createObjectURL(file);
+    a.download = `prompt_packages_${new Date().toISOString().slice(0, 10)}.json`;
+    a.click();
+    URL.revokeObjectURL(a.href);
+  };
+
+  if (!open) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-8 animate-in fade-in duration-300"
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="absolute inset-0 bg-black/90 backdrop-blur-xl" onClick={onClose} />
+      <div className="relative w-full max-w-5xl bg-[#141414] border border-gray-800 rounded-[2.5rem] shadow-2xl flex flex-col max-h-[90vh] overflow-hidden animate-in zoom-in-95 duration-500">
+
+        <div className="flex items-center justify-between p-8 border-b border-gray-800 bg-[#161616]">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 rounded-2xl flex items-center justify-center text-xl bg-purple-600/10 text-purple-400">
+              <i className="fas fa-layer-group"></i>
+            </div>
+            <div>
+              <h2 className="text-2xl font-black text-white leading-none mb-1">Batch Discovery</h2>
+              <p className="text-xs text-gray-500 uppercase tracking-[0.2em] font-bold">
+                {items.length > 0
+                  ? `${finished}/${items.length} finished // ${results.length} packages // ${items.filter(i => i.status === 'failed').length} failed`
+                  : 'One query per line // CSV or TXT'}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-12 h-12 rounded-2xl hover:bg-gray-800 flex items-center justify-center transition-all text-gray-400 hover:text-white hover:rotate-90 active:scale-90"
+            aria-label="Close"
+            title={isRunning ? 'The batch keeps running in the background' : undefined}
+          >
+            <i className="fas fa-times text-xl"></i>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-6 scrollbar-thin">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="md:col-span-2 space-y-2">
+              <div className="flex items-center justify-between">
+                <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Queries</label>
+                <label className="px-3 py-1.5 bg-white/5 text-gray-400 hover:text-white rounded-lg text-[9px] font-black uppercase tracking-widest transition-all cursor-pointer">
+                  <i className="fas fa-upload mr-2"></i>Upload
+                  <input
+                    type="file"
+                    accept=".csv,.txt"
+                    className="hidden"
+                    onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+                  />
+                </label>
+              </div>
+              <textarea
+                value={input}
+                onChange={(e) => {
+                  setInput(e.target.value);
+                  setFileName('');
+                }}
+                disabled={isRunning}
+                placeholder={'Customer\nInvoice\nShipment\nSupport Ticket'}
+                spellCheck={false}
+                className="w-full h-40 bg-black/40 border border-white/5 rounded-2xl p-4 text-[11px] font-mono text-gray-300 focus:outline-none focus:border-purple-600 resize-none scrollbar-thin disabled:opacity-50"
+              />
+              <p className="text-[9px] font-mono text-gray-600">{fileName ? `${fileName} // ` : ''}{pending} unique queries</p>
+            </div>
+
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Concurrency</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_CONCURRENCY}
+                  value={concurrency}
+                  disabled={isRunning}
+                  onChange={(e) => setConcurrency(Math.min(MAX_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))}
+                  className="w-full bg-[#151515] border border-white/5 rounded-xl px-3 py-2 text-[11px] font-mono text-white focus:outline-none focus:border-purple-600 disabled:opacity-50"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Discoveries / Minute</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={requestsPerMinute}
+                  disabled={isRunning}
+                  onChange={(e) => setRequestsPerMinute(Math.max(0, Number(e.target.value) || 0))}
+                  className="w-full bg-[#151515] border border-white/5 rounded-xl px-3 py-2 text-[11px] font-mono text-white focus:outline-none focus:border-purple-600 disabled:opacity-50"
+                />
+                <p className="text-[9px] text-gray-600">0 = unlimited. Cached queries do not count.</p>
+              </div>
+              {isRunning ? (
+                <button
+                  onClick={() => abort.current?.abort()}
+                  className="w-full py-3 bg-red-600/10 text-red-400 hover:bg-red-600/20 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all"
+                >
+                  <i className="fas fa-stop mr-2"></i>Cancel Batch
+                </button>
+              ) : (
+                <button
+                  onClick={handleStart}
+                  disabled={pending === 0}
+                  className="w-full py-3 bg-purple-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-purple-500 transition-all shadow-xl disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <i className="fas fa-play mr-2"></i>Run {pending} Discoveries
+                </button>
+              )}
+            </div>
+          </div>
+
+          {items.length > 0 && (
+            <>
+              <div className="h-1.5 bg-white/5 rounded-full overflow-hidden">
+                <div className="h-full bg-purple-500 transition-all duration-500" style={{ width: `${(finished / items.length) * 100}%` }} />
+              </div>
+
+              <div className="bg-black/40 rounded-2xl border border-white/5 overflow-hidden">
+                <table className="w-full text-left">
+                  <thead>
+                    <tr className="text-[9px] font-black text-gray-600 uppercase tracking-widest border-b border-white/5">
+                      <th className="px-5 py-3">Query</th>
+                      <th className="px-3 py-3">Status</th>
+                      <th className="px-3 py-3 hidden sm:table-cell">Tries</th>
+                      <th className="px-3 py-3 hidden sm:table-cell">Time</th>
+                      <th className="px-5 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/5">
+                    {items.map(item => (
+                      <tr key={item.id} className="text-[11px]">
+                        <td className="px-5 py-2.5 max-w-0 w-1/2">
+                          <p className="font-bold text-white truncate">{item.query}</p>
+                          {item.fault && (
+                            <p className="text-[9px] font-mono text-red-400/80 truncate" title={`${item.fault.message}\n\n${item.fault.remediation}`}>
+                              {item.fault.title}{item.fault.stage ? ` @ ${item.fault.stage}` : ''}: {item.fault.message}
+                            </p>
+                          )}
+                        </td>
+                        <td className="px-3 py-2.5">
+                          <span className={`px-2 py-0.5 rounded-md text-[8px] font-black uppercase tracking-widest ${STATUS_STYLES[item.status]}`}>
+                            {item.status === 'running' && <i className="fas fa-circle-notch animate-spin mr-1"></i>}
+                            {item.status}{item.fromCache && item.status === 'done' ? ' // cache' : ''}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2.5 font-mono text-gray-500 hidden sm:table-cell">{item.attempts}</td>
+                        <td className="px-3 py-2.5 font-mono text-gray-500 hidden sm:table-cell">
+                          {item.durationMs !== undefined ? `${(item.durationMs / 1000).toFixed(1)}s` : '—'}
+                        </td>
+                        <td className="px-5 py-2.5 text-right whitespace-nowrap">
+                          {item.result && (
+                            <button
+                              onClick={() => onOpenResult(item.result!, item.query)}
+                              className="text-[9px] font-black text-purple-400 hover:text-purple-300 uppercase tracking-widest"
+                            >
+                              Open
+                            </button>
+                          )}
+                          {(item.status === 'failed' || item.status === 'cancelled') && !isRunning && (
+                            <button
+                              onClick={() => run([item])}
+                              className="text-[9px] font-black text-gray-400 hover:text-white uppercase tracking-widest"
+                            >
+                              <i className="fas fa-rotate mr-1"></i>Retry
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+
+        {items.length > 0 && (
+          <div className="p-6 border-t border-gray-800 bg-[#161616] flex flex-wrap items-center gap-3">
+            <button
+              onClick={() => run(retryable)}
+              disabled={isRunning || retryable.length === 0}
+              className="px-4 py-2 bg-white/5 text-gray-400 hover:text-white rounded-xl text-[9px] font-black uppercase tracking-widest transition-all disabled:opacity-40"
+            >
+              <i className="fas fa-rotate mr-2"></i>Retry Failed ({retryable.length})
+            </button>
+            <div className="flex-grow"></div>
+            <button
+              onClick={downloadBundle}
+              disabled={results.length === 0}
+              className="px-4 py-2 bg-white/5 text-gray-400 hover:text-white rounded-xl text-[9px] font-black uppercase tracking-widest transition-all disabled:opacity-40"
+            >
+              <i className="fas fa-file-arrow-down mr-2"></i>Download Bundle
+            </button>
+            <button
+              onClick={() => {
+                onSaveAll(results.map(item => item.result!));
+                setSaved(true);
+              }}
+              disabled={results.length === 0}
+              className={`px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all disabled:opacity-40 ${saved ? 'bg-green-600 text-white' : 'bg-purple-600 text-white hover:bg-purple-500'}`}
+            >
+              <i className={`fas ${saved ? 'fa-check' : 'fa-bookmark'} mr-2`}></i>{saved ? 'Saved' : `Save ${results.length} To Favorites`}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchRunner;
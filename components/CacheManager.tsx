@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import {
+  CacheEntry,
+  CacheStats,
+  deleteCacheEntry,
+  getCacheStats,
+  getTtlHours,
+  isExpired,
+  listCacheEntries,
+  purgeCache,
+  setTtlHours
+} from '../services/discoveryCache';
+
+interface CacheManagerProps {
+  onClose: () => void;
+  onOpen: (entry: CacheEntry) => void;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
+const CacheManager: React.FC<CacheManagerProps> = ({ onClose, onOpen }) => {
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [ttl, setTtl] = useState(getTtlHours());
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = async () => {
+    try {
+      setEntries(await listCacheEntries());
+      setStats(await getCacheStats());
+      setError(null);
+    } catch (e: any) {
+      setError(e?.message || 'IndexedDB is unavailable in this browser.');
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  // IndexedDB writes can fail (quota, blocked upgrade, private mode); the list is reloaded either way
+  const mutate = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await action();
+      await refresh();
+    } catch (e: any) {
+      setError(e?.message || 'The cache could not be updated.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePurge = (onlyExpired: boolean) => mutate(() => purgeCache(onlyExpired));
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-8 animate-in fade-in duration-300"
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="absolute inset-0 bg-black/90 backdrop-blur-xl" onClick={onClose} />
+      <div className="relative w-full max-w-3xl bg-[#141414] border border-gray-800 rounded-[2.5rem] shadow-2xl flex flex-col max-h-[85vh] overflow-hidden animate-in zoom-in-95 duration-500">
+
+        <div className="flex items-center justify-between p-8 border-b border-gray-800 bg-[#161616]">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 rounded-2xl flex items-center justify-center text-xl bg-purple-600/10 text-purple-400">
+              <i className="fas fa-database"></i>
+            </div>
+            <div>
+              <h2 className="text-2xl font-black text-white leading-none mb-1">Discovery Cache</h2>
+              <p className="text-xs text-gray-500 uppercase tracking-[0.2em] font-bold">
+                {stats ? `${stats.entries} entries // ${formatBytes(stats.bytes)} // ${stats.expired} stale` : 'Loading'}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-12 h-12 rounded-2xl hover:bg-gray-800 flex items-center justify-center transition-all text-gray-400 hover:text-white hover:rotate-90 active:scale-90"
+            aria-label="Close"
+          >
+            <i className="fas fa-times text-xl"></i>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-6 scrollbar-thin">
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest">TTL (hours)</label>
+            <input
+              type="number"
+              min={1}
+              value={ttl}
+              onChange={(e) => {
+                const hours = Math.max(1, Number(e.target.value) || 1);
+                setTtl(hours);
+                setTtlHours(hours);
+              }}
+              className="w-24 bg-[#151515] border border-white/5 rounded-xl px-3 py-2 text-[11px] font-mono text-white focus:outline-none focus:border-purple-600"
+            />
+            <div className="flex-grow"></div>
+            <button
+              onClick={() => handlePurge(true)}
+              disabled={busy}
+              className="px-4 py-2 bg-white/5 text-gray-400 hover:text-white rounded-xl text-[9px] font-black uppercase tracking-widest transition-all disabled:opacity-40"
+            >
+              Purge Stale
+            </button>
+            <button
+              onClick={() => handlePurge(false)}
+              disabled={busy}
+              className="px-4 py-2 bg-red-600/10 text-red-400 hover:bg-red-600/20 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all disabled:opacity-40"
+            >
+              Purge All
+            </button>
+          </div>
+
+          {error && <p className="text-[11px] font-mono text-red-400">{error}</p>}
+
+          {entries.length === 0 && !error ? (
+            <p className="text-[11px] text-gray-600 text-center py-10">No cached discoveries yet.</p>
+          ) : (
+            <div className="divide-y divide-white/5 bg-black/40 rounded-2xl border border-white/5">
+              {entries.map(entry => (
+                <div key={entry.key} className="flex items-center gap-4 px-5 py-3">
+                  <button onClick={() => onOpen(entry)} className="min-w-0 flex-1 text-left group">
+                    <p className="text-[12px] font-bold text-white group-hover:text-purple-300 truncate">{entry.result.title}</p>
+                    <p className="text-[9px] font-mono text-gray-600 truncate">
+                      "{entry.query}" // {entry.fingerprint} // {new Date(entry.cachedAt).toLocaleString()}
+                    </p>
+                  </button>
+                  {isExpired(entry, ttl) && (
+                    <span className="px-2 py-0.5 rounded-md bg-yellow-500/10 text-yellow-400 text-[8px] font-black uppercase tracking-widest">Stale</span>
+                  )}
+                  <button
+                    onClick={() => mutate(() => deleteCacheEntry(entry.key))}
+                    disabled={busy}
+                    className="w-8 h-8 text-gray-600 hover:text-red-500 hover:bg-red-500/10 rounded-lg transition-all flex items-center justify-center disabled:opacity-40"
+                  >
+                    <i className="fas fa-trash-alt text-xs"></i>
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CacheManager;
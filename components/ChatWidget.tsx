@@ -1,7 +1,8 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { SearchResult } from '../types';
+import { ArtifactKey, SearchResult } from '../types';
+import { ChatTurn, resolveStage } from '../services/llmProvider';
+import { BudgetExceededError } from '../services/engineErrors';
 
 interface Message {
   id: string;
@@ -11,9 +12,35 @@ interface Message {
 
 interface ChatWidgetProps {
   currentContext?: SearchResult | null;
+  onApply?: (artifact: ArtifactKey, text: string) => void;
 }
 
-const ChatWidget: React.FC<ChatWidgetProps> = ({ currentContext }) => {
+const APPLY_LABELS: Record<ArtifactKey, string> = {
+  jsonSchema: 'Apply Schema',
+  exampleJson: 'Apply Example',
+  tsInterface: 'Apply Interface',
+  jsonPrompt: 'Apply Prompt'
+};
+
+// The last fenced block of a reply, matched to the artifact it can replace
+const findApplicable = (text: string): { artifact: ArtifactKey; content: string } | null => {
+  const blocks = Array.from(text.matchAll(/```(\w*)\n([\s\S]*?)```/g));
+  const last = blocks[blocks.length - 1];
+  if (!last) return null;
+  const [, lang, body] = last;
+  const content = body.trim();
+  if (/^(ts|typescript)$/i.test(lang)) return { artifact: 'tsInterface', content };
+  if (/^(prompt|text|markdown|md)$/i.test(lang)) return { artifact: 'jsonPrompt', content };
+  try {
+    const parsed = JSON.parse(content);
+    const isSchema = parsed && typeof parsed === 'object' && ('$schema' in parsed || ('type' in parsed && ('properties' in parsed || 'items' in parsed)));
+    return { artifact: isSchema ? 'jsonSchema' : 'exampleJson', content: JSON.stringify(parsed, null, 2) };
+  } catch (e) {
+    return null;
+  }
+};
+
+const ChatWidget: React.FC<ChatWidgetProps> = ({ currentContext, onApply }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [messages, setMessages] = useState<Message[]>([
     { id: '1', role: 'model', text: 'Assistant active. Need help refining structural logic?' }
@@ -21,11 +48,12 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ currentContext }) => {
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [appliedId, setAppliedId] = useState<string | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
-  const chatInstance = useRef<any>(null);
+  const history = useRef<ChatTurn[]>([]);
 
   useEffect(() => {
-    chatInstance.current = null;
+    history.current = [];
     if (currentContext) {
       setMessages([{ id: Date.now().toString(), role: 'model', text: `I've analyzed the "${currentContext.title}" structure. Ready for refinements.` }]);
     }
@@ -43,18 +71,8 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ currentContext }) => {
     setTimeout(() => setCopiedId(null), 2000);
   };
 
-  const initChat = () => {
-    if (!chatInstance.current) {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      chatInstance.current = ai.chats.create({
-        model: 'gemini-3-flash-preview',
-        config: {
-          systemInstruction: `You are the JSON Prompter Assistant. Expert in data schemas and prompt engineering. Focus on structural integrity. Page context: ${currentContext ? JSON.stringify({ title: currentContext.title, prompt: currentContext.jsonPrompt }) : 'No active context.'}`,
-        },
-      });
-    }
-    return chatInstance.current;
-  };
+  const getSystemInstruction = () =>
+    `You are the JSON Prompter Assistant. Expert in data schemas and prompt engineering. Focus on structural integrity. Page context: ${currentContext ? JSON.stringify({ title: currentContext.title, prompt: currentContext.jsonPrompt }) : 'No active context.'}`;
 
   const handleSend = async (e?: React.FormEvent) => {
     if (e) e.preventDefault();
@@ -67,16 +85,19 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ currentContext }) => {
     setIsTyping(true);
 
     try {
-      const chat = initChat();
-      const result = await chat.sendMessageStream({ message: userMessage });
+      const { provider, model } = resolveStage('chat');
+      const turns: ChatTurn[] = [...history.current, { role: 'user', text: userMessage }];
+      const result = provider.generateStream({
+        model,
+        prompt: turns,
+        systemInstruction: getSystemInstruction()
+      });
       
       let fullResponse = '';
       const responseId = (Date.now() + 1).toString();
       setMessages(prev => [...prev, { id: responseId, role: 'model', text: '' }]);
 
-      for await (const chunk of result) {
-        const c = chunk as GenerateContentResponse;
-        const textChunk = c.text || '';
+      for await (const textChunk of result) {
         fullResponse += textChunk;
         
         setMessages(prev => {
@@ -85,8 +106,10 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ currentContext }) => {
           return newMessages;
         });
       }
+      history.current = [...turns, { role: 'model', text: fullResponse }];
     } catch (err) {
-      setMessages(prev => [...prev, { id: 'err', role: 'model', text: 'Logic trace failed.' }]);
+      const text = err instanceof BudgetExceededError ? `${err.message} ${err.remediation}` : 'Logic trace failed.';
+      setMessages(prev => [...prev, { id: 'err', role: 'model', text }]);
     } finally {
       setIsTyping(false);
     }
@@ -120,32 +143,50 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ currentContext }) => {
             ref={scrollRef}
             className="flex-1 overflow-y-auto p-6 sm:p-8 space-y-6 sm:space-y-8 scrollbar-thin bg-black/50"
           >
-            {messages.map((msg) => (
-              <div 
-                key={msg.id} 
-                className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}
-              >
+            {messages.map((msg) => {
+              const applicable = msg.role === 'model' && currentContext && onApply ? findApplicable(msg.text) : null;
+              return (
                 <div 
-                  className={`relative group max-w-[90%] p-4 sm:p-5 rounded-[1.5rem] sm:rounded-[2rem] text-[12px] sm:text-[13px] leading-relaxed shadow-xl ${
-                    msg.role === 'user' 
-                      ? 'bg-purple-600 text-white rounded-tr-none' 
-                      : 'bg-[#222] text-gray-100 border border-white/5 rounded-tl-none'
-                  }`}
+                  key={msg.id} 
+                  className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}
                 >
-                  {msg.text || (msg.role === 'model' && isTyping && <span className="animate-pulse">Tracing...</span>)}
-                  
-                  {msg.role === 'model' && msg.text && !isTyping && (
-                    <button 
-                      onClick={() => copyToClipboard(msg.text, msg.id)}
-                      className={`absolute -bottom-7 right-0 text-[9px] font-black uppercase tracking-widest transition-all ${copiedId === msg.id ? 'text-green-400' : 'text-gray-600 hover:text-white'}`}
-                    >
-                       <i className={`fas ${copiedId === msg.id ? 'fa-check' : 'fa-copy'} mr-1`}></i>
-                       {copiedId === msg.id ? 'Copied' : 'Copy'}
-                    </button>
-                  )}
+                  <div 
+                    className={`relative group max-w-[90%] p-4 sm:p-5 rounded-[1.5rem] sm:rounded-[2rem] text-[12px] sm:text-[13px] leading-relaxed shadow-xl ${
+                      msg.role === 'user' 
+                        ? 'bg-purple-600 text-white rounded-tr-none' 
+                        : 'bg-[#222] text-gray-100 border border-white/5 rounded-tl-none'
+                    }`}
+                  >
+                    {msg.text || (msg.role === 'model' && isTyping && <span className="animate-pulse">Tracing...</span>)}
+                    
+                    {msg.role === 'model' && msg.text && !isTyping && (
+                      <div className="absolute -bottom-7 right-0 flex items-center gap-4">
+                        {applicable && (
+                          <button
+                            onClick={() => {
+                              onApply!(applicable.artifact, applicable.content);
+                              setAppliedId(msg.id);
+                            }}
+                            title="Replace this artifact of the open result and record a revision"
+                            className={`text-[9px] font-black uppercase tracking-widest transition-all ${appliedId === msg.id ? 'text-green-400' : 'text-purple-400 hover:text-white'}`}
+                          >
+                            <i className={`fas ${appliedId === msg.id ? 'fa-check' : 'fa-file-import'} mr-1`}></i>
+                            {appliedId === msg.id ? 'Applied' : APPLY_LABELS[applicable.artifact]}
+                          </button>
+                        )}
+                        <button 
+                          onClick={() => copyToClipboard(msg.text, msg.id)}
+                          className={`text-[9px] font-black uppercase tracking-widest transition-all ${copiedId === msg.id ? 'text-green-400' : 'text-gray-600 hover:text-white'}`}
+                        >
+                           <i className={`fas ${copiedId === msg.id ? 'fa-check' : 'fa-copy'} mr-1`}></i>
+                           {copiedId === msg.id ? 'Copied' : 'Copy'}
+                        </button>
+                      </div>
+                    )}
+                  </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
 
           {/* Input */}
@@ -0,0 +1,301 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { UsageSummary } from '../types';
+import { EvalRun, MAX_EVAL_RUNS } from '../services/promptEvaluation';
+import { CandidateReport, buildCandidateReport, buildCandidates, comparePrompts, pickWinner } from '../services/promptComparison';
+import { formatTokens, formatUsd } from '../services/usageLedger';
+
+interface ComparisonPanelProps {
+  title: string;
+  schema: string;
+  jsonPrompt: string;
+  variations: string[];
+  onPromote: (variation: number) => void;
+  onClose: () => void;
+}
+
+interface MetricRow {
+  label: string;
+  better: 'high' | 'low';
+  value: (report: CandidateReport) => number | null;
+  format: (value: number) => string;
+}
+
+const MAX_COMPARE_RUNS = Math.floor(MAX_EVAL_RUNS / 4);
+const MAX_COMPARE_CONCURRENCY = 5;
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const METRICS: MetricRow[] = [
+  { label: 'Parse Success', better: 'high', value: r => (r.summary.completed > r.summary.errored ? r.summary.parseRate : null), format: percent },
+  { label: 'Schema Pass', better: 'high', value: r => (r.summary.completed > r.summary.errored ? r.summary.passRate : null), format: percent },
+  { label: 'Diversity', better: 'high', value: r => r.diversity, format: v => v.toFixed(2) },
+  { label: 'Latency p50', better: 'low', value: r => r.summary.latency?.p50 ?? null, format: v => `${(v / 1000).toFixed(1)}s` },
+  { label: 'Latency p90', better: 'low', value: r => r.summary.latency?.p90 ?? null, format: v => `${(v / 1000).toFixed(1)}s` },
+  { label: 'Tokens / Run', better: 'low', value: r => (r.usage && r.usage.calls ? (r.usage.promptTokens + r.usage.outputTokens) / r.usage.calls : null), format: v => formatTokens(Math.round(v)) },
+  { label: 'Cost / Run', better: 'low', value: r => r.costPerRun, format: formatUsd }
+];
+
+const ComparisonPanel: React.FC<ComparisonPanelProps> = ({ title, schema, jsonPrompt, variations, onPromote, onClose }) => {
+  const [runCount, setRunCount] = useState(5);
+  const [temperature, setTemperature] = useState(1);
+  const [concurrency, setConcurrency] = useState(3);
+  const [runs, setRuns] = useState<Record<string, EvalRun[]>>({});
+  const [usage, setUsage] = useState<Record<string, UsageSummary>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const [schemaError, setSchemaError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const candidates = useMemo(() => buildCandidates(jsonPrompt, variations), [jsonPrompt, variations]);
+
+  const parsedSchema = useMemo(() => {
+    try {
+      return JSON.parse(schema);
+    } catch (e) {
+      return null;
+    }
+  }, [schema]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const reports = useMemo(
+    () => (parsedSchema
+      ? candidates.filter(c => runs[c.id]).map(c => buildCandidateReport(parsedSchema, c, runs[c.id], usage[c.id] || null))
+      : []),
+    [parsedSchema, candidates, runs, usage]
+  );
+  const winner = pickWinner(reports);
+
+  const start = async () => {
+    if (!parsedSchema) {
+      setSchemaError('The schema is not valid JSON, so outputs cannot be validated.');
+      return;
+    }
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setSchemaError(null);
+    setUsage({});
+    setRuns(Object.fromEntries(candidates.map(c => [c.id, Array.from({ length: runCount }, (_, index): EvalRun => ({ index, status: 'pending' }))])));
+    setIsRunning(true);
+    try {
+      await comparePrompts(parsedSchema, candidates, {
+        runs: runCount,
+        temperature,
+        concurrency,
+        signal: controller.signal,
+        onRun: (id, run) => setRuns(prev => ({ ...prev, [id]: prev[id].map(r => (r.index === run.index ? run : r)) })),
+        onUsage: (id, summary) => setUsage(prev => ({ ...prev, [id]: summary }))
+      });
+    } finally {
+      setIsRunning(false);
+      controllerRef.current = null;
+    }
+  };
+
+  const bestFor = (metric: MetricRow) => {
+    const values = reports.map(metric.value).filter((v): v is number => v !== null);
+    if (values.length < 2) return null;
+    return metric.better === 'high' ? Math.max(...values) : Math.min(...values);
+  };
+
+  const chartData = reports
+    .filter(r => r.summary.completed > r.summary.errored)
+    .map(r => ({ name: r.candidate.label, parse: Math.round(r.summary.parseRate * 100), pass: Math.round(r.summary.passRate * 100) }));
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-8 animate-in fade-in duration-300"
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="absolute inset-0 bg-black/90 backdrop-blur-xl" onClick={onClose} />
+      <div className="relative w-full max-w-6xl bg-[#141414] border border-gray-800 rounded-[2.5rem] shadow-2xl flex flex-col max-h-[90vh] overflow-hidden animate-in zoom-in-95 duration-500">
+
+        <div className="flex items-center justify-between p-8 border-b border-gray-800 bg-[#161616]">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 rounded-2xl flex items-center justify-center text-xl bg-purple-600/10 text-purple-400">
+              <i className="fas fa-code-compare"></i>
+            </div>
+            <div>
+              <h2 className="text-2xl font-black text-white leading-none mb-1">Prompt Comparison</h2>
+              <p className="text-xs text-gray-500 uppercase tracking-[0.2em] font-bold truncate max-w-md">{title}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-12 h-12 rounded-2xl hover:bg-gray-800 flex items-center justify-center transition-all text-gray-400 hover:text-white hover:rotate-90 active:scale-90"
+            aria-label="Close"
+          >
+            <i className="fas fa-times text-xl"></i>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8 scrollbar-thin">
+          <div className="flex flex-wrap items-end gap-6">
+            <label className="space-y-2">
+              <span className="block text-[9px] font-black text-gray-500 uppercase tracking-widest">Runs per Prompt</span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_COMPARE_RUNS}
+                value={runCount}
+                disabled={isRunning}
+                onChange={(e) => setRunCount(Math.min(MAX_COMPARE_RUNS, Math.max(1, Number(e.target.value) || 1)))}
+                className="w-24 bg-[#151515] border border-white/5 rounded-xl px-3 py-2 text-[11px] font-mono text-white focus:outline-none focus:border-purple-600"
+              />
+            </label>
+            <label className="space-y-2">
+              <span className="block text-[9px] font-black text-gray-500 uppercase tracking-widest">Temperature {temperature.toFixed(1)}</span>
+              <input
+                type="range"
+                min={0}
+                max={2}
+                step={0.1}
+                value={temperature}
+                disabled={isRunning}
+                onChange={(e) => setTemperature(Number(e.target.value))}
+                className="w-48 accent-purple-500"
+              />
+            </label>
+            <label className="space-y-2">
+              <span className="block text-[9px] font-black text-gray-500 uppercase tracking-widest">Parallel</span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_COMPARE_CONCURRENCY}
+                value={concurrency}
+                disabled={isRunning}
+                onChange={(e) => setConcurrency(Math.min(MAX_COMPARE_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))}
+                className="w-20 bg-[#151515] border border-white/5 rounded-xl px-3 py-2 text-[11px] font-mono text-white focus:outline-none focus:border-purple-600"
+              />
+            </label>
+            <div className="flex-grow text-[9px] font-mono text-gray-600 self-center">
+              {candidates.length} prompts x {runCount} runs = {candidates.length * runCount} calls
+            </div>
+            {isRunning ? (
+              <button
+                onClick={() => controllerRef.current?.abort()}
+                className="px-6 py-3 bg-red-600/10 text-red-400 hover:bg-red-600/20 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all"
+              >
+                <i className="fas fa-stop mr-2"></i>
+                Cancel
+              </button>
+            ) : (
+              <button
+                onClick={start}
+                className="px-6 py-3 bg-purple-600 hover:bg-purple-500 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95 shadow-xl"
+              >
+                <i className="fas fa-play mr-2"></i>
+                {reports.length ? 'Run Again' : 'Run Comparison'}
+              </button>
+            )}
+          </div>
+
+          {schemaError && <p className="text-[11px] text-red-400">{schemaError}</p>}
+
+          <div className="overflow-x-auto scrollbar-thin">
+            <table className="w-full text-left border-separate border-spacing-0">
+              <thead>
+                <tr>
+                  <th className="w-36"></th>
+                  {candidates.map(c => {
+                    const report = reports.find(r => r.candidate.id === c.id);
+                    const isWinner = winner?.candidate.id === c.id;
+                    return (
+                      <th key={c.id} className={`align-top p-4 rounded-t-2xl ${isWinner ? 'bg-green-500/5' : ''}`}>
+                        <div className="flex items-center gap-2 mb-2">
+                          <span className="text-[10px] font-black text-white uppercase tracking-widest">{c.label}</span>
+                          {isWinner && (
+                            <span className="px-2 py-0.5 rounded-md bg-green-500/10 text-green-400 text-[8px] font-black uppercase tracking-widest">
+                              <i className="fas fa-trophy mr-1"></i>Winner
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-[9px] font-mono font-normal text-gray-500 leading-relaxed line-clamp-4" title={c.prompt}>{c.prompt}</p>
+                        {report && (
+                          <div className="mt-3 h-1 bg-white/5 rounded-full overflow-hidden">
+                            <div className="h-full bg-purple-500 transition-all" style={{ width: `${(report.summary.completed / report.summary.total) * 100}%` }} />
+                          </div>
+                        )}
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+              <tbody>
+                {METRICS.map(metric => {
+                  const best = bestFor(metric);
+                  return (
+                    <tr key={metric.label}>
+                      <td className="py-3 pr-4 text-[9px] font-black text-gray-500 uppercase tracking-widest border-t border-white/5">{metric.label}</td>
+                      {candidates.map(c => {
+                        const report = reports.find(r => r.candidate.id === c.id);
+                        const value = report ? metric.value(report) : null;
+                        return (
+                          <td
+                            key={c.id}
+                            className={`p-4 text-sm font-black font-mono border-t border-white/5 ${winner?.candidate.id === c.id ? 'bg-green-500/5' : ''} ${value !== null && value === best ? 'text-green-400' : 'text-gray-300'}`}
+                          >
+                            {value === null ? <span className="text-gray-700">—</span> : metric.format(value)}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+                <tr>
+                  <td className="border-t border-white/5"></td>
+                  {candidates.map(c => (
+                    <td key={c.id} className={`p-4 border-t border-white/5 rounded-b-2xl ${winner?.candidate.id === c.id ? 'bg-green-500/5' : ''}`}>
+                      {c.variation !== undefined ? (
+                        <button
+                          onClick={() => onPromote(c.variation)}
+                          disabled={isRunning}
+                          className={`w-full py-2.5 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all active:scale-95 disabled:opacity-50 ${winner?.candidate.id === c.id ? 'bg-green-600 hover:bg-green-500 text-white' : 'bg-white/5 hover:bg-white/10 text-gray-400 hover:text-white'}`}
+                        >
+                          <i className="fas fa-arrow-up mr-2"></i>
+                          Promote to Main
+                        </button>
+                      ) : (
+                        <span className="block text-center text-[9px] font-black text-gray-700 uppercase tracking-widest">Current Main</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          {chartData.length > 0 && (
+            <div className="bg-black/40 border border-white/5 rounded-2xl p-4 h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData}>
+                  <CartesianGrid strokeDasharray="4 4" vertical={false} stroke="#1a1a1a" />
+                  <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fill: '#555', fontSize: 9, fontWeight: 900 }} />
+                  <YAxis domain={[0, 100]} unit="%" axisLine={false} tickLine={false} tick={{ fill: '#555', fontSize: 9, fontWeight: 900 }} width={40} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#0d0d0d', border: '1px solid #222', borderRadius: '12px', padding: '8px 12px' }}
+                    itemStyle={{ color: '#fff', fontSize: '11px', fontWeight: 900 }}
+                    labelStyle={{ color: '#555', fontSize: '9px', fontWeight: 900, textTransform: 'uppercase', letterSpacing: '0.1em' }}
+                    cursor={{ fill: 'rgba(255,255,255,0.03)' }}
+                  />
+                  <Legend wrapperStyle={{ fontSize: '9px', fontWeight: 900, textTransform: 'uppercase', letterSpacing: '0.1em' }} />
+                  <Bar dataKey="parse" name="Parse %" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="pass" name="Schema Pass %" fill="#8b5cf6" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          {reports.length === 0 && (
+            <p className="text-[11px] text-gray-500 leading-relaxed">
+              Runs the main prompt and each variation through the same evaluation batch: identical run count, temperature and validator. The winner is the prompt with the highest schema pass rate, then parse rate, then output diversity, then the lower cost.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonPanel;
@@ -0,0 +1,220 @@
+import React, { useMemo, useState } from 'react';
+import { Revision, SavedResult } from '../types';
+import { CHANGE_IMPACTS, ChangeImpact, CompatibilityReport, compareSchemaTexts, formatChangelog, nextVersion } from '../services/schemaCompatibility';
+import { projectSlug } from '../services/projectScaffold';
+
+interface CompatibilityPanelProps {
+  title: string;
+  currentSchema: string;
+  revisions?: Revision[];
+  favorites: SavedResult[];
+  onClose: () => void;
+}
+
+interface SchemaOption {
+  id: string;
+  label: string;
+  schema?: string;
+}
+
+const IMPACT_STYLES: Record<ChangeImpact, { label: string; tone: string }> = {
+  breaking: { label: 'Breaking', tone: 'bg-red-500/10 text-red-400' },
+  risky: { label: 'Risky', tone: 'bg-yellow-500/10 text-yellow-400' },
+  'non-breaking': { label: 'Non-breaking', tone: 'bg-green-500/10 text-green-400' }
+};
+
+const BUMP_STYLES: Record<CompatibilityReport['bump'], string> = {
+  major: 'text-red-400',
+  minor: 'text-yellow-400',
+  patch: 'text-green-400',
+  none: 'text-gray-500'
+};
+
+const PASTED = 'pasted';
+
+const CompatibilityPanel: React.FC<CompatibilityPanelProps> = ({ title, currentSchema, revisions, favorites, onClose }) => {
+  const options = useMemo(() => {
+    const list: SchemaOption[] = [{ id: 'current', label: 'Current schema', schema: currentSchema }];
+    (revisions || []).forEach((revision, index) => {
+      if (revision.snapshot.jsonSchema) {
+        list.push({ id: `rev:${index}`, label: `r${index + 1} · ${revision.source} · ${new Date(revision.createdAt).toLocaleString()}`, schema: revision.snapshot.jsonSchema });
+      }
+    });
+    favorites.forEach(favorite => {
+      if (favorite.jsonSchema) list.push({ id: `fav:${favorite.id}`, label: `Favorite · ${favorite.title}`, schema: favorite.jsonSchema });
+    });
+    list.push({ id: PASTED, label: 'Pasted schema' });
+    return list;
+  }, [currentSchema, revisions, favorites]);
+
+  const previousRevision = revisions && revisions.length > 1 ? `rev:${revisions.length - 2}` : PASTED;
+  const [baselineId, setBaselineId] = useState(previousRevision);
+  const [candidateId, setCandidateId] = useState('current');
+  const [pasted, setPasted] = useState('');
+  const [version, setVersion] = useState('1.0.0');
+  const [copied, setCopied] = useState(false);
+
+  const schemaFor = (id: string) => (id === PASTED ? pasted : options.find(option => option.id === id)?.schema || '');
+  const labelFor = (id: string) => options.find(option => option.id === id)?.label || id;
+
+  const comparison = useMemo((): { report?: CompatibilityReport; error?: string } => {
+    const before = schemaFor(baselineId);
+    const after = schemaFor(candidateId);
+    if (!before.trim() || !after.trim()) return {};
+    try {
+      return { report: compareSchemaTexts(before, after) };
+    } catch (e: any) {
+      return { error: e?.message || String(e) };
+    }
+  }, [baselineId, candidateId, pasted, options]);
+  const report = comparison.report;
+
+  const changelog = report ? formatChangelog(report, { title, from: labelFor(baselineId), to: labelFor(candidateId), version }) : '';
+
+  const copyChangelog = () => {
+    navigator.clipboard.writeText(changelog);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const downloadChangelog = () => {
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(new Blob([changelog], { type: 'text/markdown' }));
+    a.download = `${projectSlug(title)}-schema-changelog.md`;
+    a.click();
+    URL.revokeObjectURL(a.href);
+  };
+
+  const selector = (label: string, value: string, onChange: (id: string) => void, tone: string) => (
+    <label className="block space-y-2">
+      <span className={`text-[9px] font-black uppercase tracking-widest ${tone}`}>{label}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-[11px] font-mono text-gray-200 outline-none focus:border-purple-500/50"
+      >
+        {options.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-8 animate-in fade-in duration-300"
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="absolute inset-0 bg-black/90 backdrop-blur-xl" onClick={onClose} />
+      <div className="relative w-full max-w-5xl bg-[#141414] border border-gray-800 rounded-[2.5rem] shadow-2xl flex flex-col max-h-[90vh] overflow-hidden animate-in zoom-in-95 duration-500">
+
+        <div className="flex items-center justify-between p-8 border-b border-gray-800 bg-[#161616]">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 rounded-2xl flex items-center justify-center text-xl bg-purple-600/10 text-purple-400">
+              <i className="fas fa-code-branch"></i>
+            </div>
+            <div>
+              <h2 className="text-2xl font-black text-white leading-none mb-1">Schema Compatibility</h2>
+              <p className="text-xs text-gray-500 uppercase tracking-[0.2em] font-bold truncate max-w-md">{title}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-12 h-12 rounded-2xl hover:bg-gray-800 flex items-center justify-center transition-all text-gray-400 hover:text-white hover:rotate-90 active:scale-90"
+            aria-label="Close"
+          >
+            <i className="fas fa-times text-xl"></i>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto scrollbar-thin p-8 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] items-end gap-4">
+            {selector('Baseline', baselineId, setBaselineId, 'text-red-300')}
+            <button
+              onClick={() => {
+                setBaselineId(candidateId);
+                setCandidateId(baselineId);
+              }}
+              title="Swap"
+              className="w-10 h-10 rounded-xl bg-white/5 text-gray-500 hover:text-white transition-all"
+            >
+              <i className="fas fa-right-left"></i>
+            </button>
+            {selector('New', candidateId, setCandidateId, 'text-green-300')}
+          </div>
+
+          {(baselineId === PASTED || candidateId === PASTED) && (
+            <textarea
+              value={pasted}
+              onChange={(e) => setPasted(e.target.value)}
+              placeholder="Paste a JSON schema to compare"
+              rows={6}
+              className="w-full bg-black/40 border border-white/5 rounded-xl p-3 text-[11px] font-mono text-gray-300 placeholder-gray-700 focus:outline-none focus:border-purple-600"
+            />
+          )}
+
+          {comparison.error && <p className="text-[11px] font-mono text-red-400">{comparison.error}</p>}
+
+          {report && (
+            <>
+              <div className="flex flex-wrap items-center gap-4 bg-black/20 border border-white/5 rounded-2xl px-5 py-4">
+                {CHANGE_IMPACTS.map(impact => (
+                  <span key={impact} className={`px-2 py-0.5 rounded-md text-[9px] font-black uppercase tracking-widest ${IMPACT_STYLES[impact].tone}`}>
+                    {report.counts[impact]} {IMPACT_STYLES[impact].label}
+                  </span>
+                ))}
+                <span className="text-[10px] font-black uppercase tracking-widest text-gray-500">
+                  Suggested bump <span className={BUMP_STYLES[report.bump]}>{report.bump}</span>
+                </span>
+                <label className="ml-auto flex items-center gap-2 text-[9px] font-black text-gray-500 uppercase tracking-widest">
+                  Version
+                  <input
+                    value={version}
+                    onChange={(e) => setVersion(e.target.value)}
+                    className="w-20 bg-black/40 border border-white/10 rounded-xl px-3 py-1.5 text-[10px] font-mono text-gray-200 outline-none focus:border-purple-500/50"
+                  />
+                  <i className="fas fa-arrow-right text-gray-700"></i>
+                  <span className="font-mono text-[11px] text-white normal-case tracking-normal">{nextVersion(version, report.bump)}</span>
+                </label>
+              </div>
+
+              {report.changes.length === 0 ? (
+                <p className="text-[11px] text-gray-500">The schemas are equivalent; consumers are not affected.</p>
+              ) : (
+                <div className="bg-black/40 rounded-2xl border border-white/5 divide-y divide-white/5">
+                  {report.changes.map((change, i) => (
+                    <div key={i} className="flex items-start gap-4 px-5 py-2.5 text-[10px]">
+                      <span className={`flex-none w-24 text-center px-2 py-0.5 rounded-md text-[8px] font-black uppercase tracking-widest ${IMPACT_STYLES[change.impact].tone}`}>
+                        {IMPACT_STYLES[change.impact].label}
+                      </span>
+                      <span className="flex-none w-48 font-mono text-gray-300 truncate" title={change.path}>{change.path}</span>
+                      <span className="flex-1 text-gray-400">{change.message}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={copyChangelog}
+                  className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${copied ? 'bg-green-600 text-white' : 'bg-white/5 text-gray-400 hover:text-white hover:bg-white/10'}`}
+                >
+                  <i className={`fas ${copied ? 'fa-check' : 'fa-copy'} mr-2`}></i>
+                  Copy Changelog
+                </button>
+                <button
+                  onClick={downloadChangelog}
+                  className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-purple-600 hover:bg-purple-500 text-white transition-all active:scale-95"
+                >
+                  <i className="fas fa-file-arrow-down mr-2"></i>
+                  Download .md
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompatibilityPanel;
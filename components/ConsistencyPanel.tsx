@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { ArtifactKey, ConsistencyReport } from '../types';
+
+interface ConsistencyPanelProps {
+  report: ConsistencyReport;
+}
+
+const ARTIFACT_NAMES: Record<ArtifactKey, string> = {
+  exampleJson: 'JSON',
+  jsonSchema: 'Schema',
+  tsInterface: 'TS',
+  jsonPrompt: 'Prompt'
+};
+
+const ConsistencyPanel: React.FC<ConsistencyPanelProps> = ({ report }) => {
+  const [expanded, setExpanded] = useState(false);
+  const failed = report.failedRepairs || [];
+  const tone = report.score >= 90 ? 'text-green-400' : report.score >= 70 ? 'text-yellow-400' : 'text-red-400';
+
+  return (
+    <div className="space-y-3 mb-10">
+      <button onClick={() => setExpanded(!expanded)} className="w-full flex items-center justify-between group">
+        <h4 className="text-[10px] font-black text-purple-400 uppercase tracking-widest">Artifact Consistency</h4>
+        <div className="flex items-center gap-3">
+          <span className={`text-lg font-black ${tone}`}>{report.score}%</span>
+          <i className={`fas fa-chevron-${expanded ? 'up' : 'down'} text-[10px] text-gray-600 group-hover:text-white`}></i>
+        </div>
+      </button>
+      <p className="text-[9px] text-gray-600 font-bold uppercase tracking-widest">
+        {report.repaired.length} auto-repaired // {report.discrepancies.length} open
+        {failed.length > 0 && <span className="text-red-400"> // {failed.length} repair{failed.length === 1 ? '' : 's'} failed</span>}
+      </p>
+
+      {expanded && (
+        <div className="bg-black/40 border border-white/5 rounded-2xl divide-y divide-white/5 max-h-56 overflow-y-auto scrollbar-thin">
+          {[...report.repaired.map(d => ({ ...d, fixed: true })), ...report.discrepancies.map(d => ({ ...d, fixed: false }))].map((d, i) => (
+            <div key={i} className="px-4 py-2 space-y-0.5">
+              <div className="flex items-center gap-2">
+                <i className={`fas ${d.fixed ? 'fa-wrench text-green-500' : 'fa-circle-exclamation text-yellow-500'} text-[9px]`}></i>
+                <span className="text-[10px] font-mono text-gray-300 truncate">{d.path || '(root)'}</span>
+                <span className="ml-auto px-1.5 py-0.5 rounded bg-white/5 text-[8px] font-black uppercase tracking-widest text-gray-500">
+                  {ARTIFACT_NAMES[d.artifact]} // {d.issue}
+                </span>
+              </div>
+              <p className="text-[9px] font-mono text-gray-600 truncate" title={d.detail}>{d.detail}</p>
+            </div>
+          ))}
+          {failed.map((f, i) => (
+            <div key={`failed-${i}`} className="px-4 py-2 space-y-0.5">
+              <div className="flex items-center gap-2">
+                <i className="fas fa-triangle-exclamation text-red-500 text-[9px]"></i>
+                <span className="text-[10px] font-mono text-gray-300 truncate">Repair not applied</span>
+                <span className="ml-auto px-1.5 py-0.5 rounded bg-white/5 text-[8px] font-black uppercase tracking-widest text-gray-500">
+                  {ARTIFACT_NAMES[f.artifact]}
+                </span>
+              </div>
+              <p className="text-[9px] font-mono text-gray-600 truncate" title={f.reason}>{f.reason}</p>
+            </div>
+          ))}
+          {report.repaired.length + report.discrepancies.length + failed.length === 0 && (
+            <p className="px-4 py-3 text-[10px] text-gray-500">All four artifacts agree field by field.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConsistencyPanel;
@@ -0,0 +1,120 @@
+import React from 'react';
+import { DiscoveryEvent, DiscoveryStage } from '../services/geminiService';
+
+interface DiscoveryTimelineProps {
+  query: string;
+  events: DiscoveryEvent[];
+  onCancel: () => void;
+}
+
+const STAGES: { id: DiscoveryStage; label: string; icon: string }[] = [
+  { id: 'research', label: 'Research', icon: 'fa-magnifying-glass' },
+  { id: 'sources', label: 'Sources', icon: 'fa-link' },
+  { id: 'synthesis', label: 'Synthesis', icon: 'fa-wand-magic-sparkles' },
+  { id: 'parse', label: 'Artifacts', icon: 'fa-cubes' },
+  { id: 'consistency', label: 'Consistency', icon: 'fa-scale-balanced' }
+];
+
+const STAGE_EVENT: Record<DiscoveryStage, DiscoveryEvent['type']> = {
+  research: 'research-started',
+  sources: 'sources-found',
+  synthesis: 'synthesis-started',
+  parse: 'artifacts-parsed',
+  // Consistency starts as soon as the artifacts parse
+  consistency: 'artifacts-parsed'
+};
+
+const DiscoveryTimeline: React.FC<DiscoveryTimelineProps> = ({ query, events, onCancel }) => {
+  const find = <T extends DiscoveryEvent['type']>(type: T) =>
+    [...events].reverse().find(e => e.type === type) as Extract<DiscoveryEvent, { type: T }> | undefined;
+
+  const research = find('research-started');
+  const sources = find('sources-found');
+  const synthesis = find('synthesis-started');
+  const streaming = find('synthesis-streaming');
+  const retries = events.filter((e): e is Extract<DiscoveryEvent, { type: 'retrying' }> => e.type === 'retrying');
+
+  const reached = STAGES.map(stage => events.some(e => e.type === STAGE_EVENT[stage.id]));
+  const activeIndex = reached.lastIndexOf(true);
+
+  const detailFor = (stage: DiscoveryStage) => {
+    switch (stage) {
+      case 'research':
+        return research ? `${research.provider} / ${research.model}${research.grounded ? ' // grounded' : ' // ungrounded'}` : 'Waiting';
+      case 'sources':
+        return sources ? `${sources.chunks.length} grounding chunk${sources.chunks.length === 1 ? '' : 's'}` : 'Pending';
+      case 'synthesis':
+        return streaming ? `${streaming.chars.toLocaleString()} chars streamed` : synthesis ? `${synthesis.provider} / ${synthesis.model}` : 'Pending';
+      case 'parse':
+        return events.some(e => e.type === 'artifacts-parsed') ? 'Parsed' : 'Pending';
+      case 'consistency':
+        return events.some(e => e.type === 'artifacts-parsed') ? 'Comparing example, schema, TS and prompt' : 'Pending';
+    }
+  };
+
+  return (
+    <div className="max-w-xl mx-auto mt-16 sm:mt-24 glass rounded-3xl sm:rounded-[3rem] p-6 sm:p-10 space-y-8 animate-in fade-in duration-500">
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <h3 className="text-lg sm:text-2xl font-black text-purple-300 uppercase tracking-widest">Scanning Grid...</h3>
+          <p className="text-[9px] sm:text-[10px] text-gray-600 uppercase tracking-widest font-bold truncate">{query}</p>
+        </div>
+        <button
+          onClick={onCancel}
+          className="flex-none px-5 py-2.5 bg-white/5 border border-white/10 hover:border-red-500/40 hover:text-red-400 text-gray-400 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all active:scale-95"
+        >
+          <i className="fas fa-stop mr-2"></i>
+          Cancel
+        </button>
+      </div>
+
+      <ol className="space-y-5">
+        {STAGES.map((stage, i) => {
+          const isActive = i === activeIndex;
+          const isDone = i < activeIndex;
+          return (
+            <li key={stage.id} className="flex items-start gap-4">
+              <div className={`w-10 h-10 flex-none rounded-xl flex items-center justify-center text-sm transition-all ${
+                isDone ? 'bg-green-500/10 text-green-400' : isActive ? 'bg-purple-600 text-white shadow-[0_0_20px_rgba(168,85,247,0.3)]' : 'bg-white/5 text-gray-700'
+              }`}>
+                <i className={`fas ${isDone ? 'fa-check' : isActive ? `${stage.icon} animate-pulse` : stage.icon}`}></i>
+              </div>
+              <div className="min-w-0 flex-1 pt-1">
+                <h5 className={`text-[10px] font-black uppercase tracking-widest ${isDone || isActive ? 'text-white' : 'text-gray-700'}`}>{stage.label}</h5>
+                <p className="text-[10px] font-mono text-gray-500 truncate">{detailFor(stage.id)}</p>
+                {stage.id === 'sources' && sources && sources.chunks.length > 0 && (
+                  <ul className="mt-2 space-y-1 max-h-28 overflow-y-auto scrollbar-thin">
+                    {sources.chunks.map((chunk, idx) => (
+                      <li key={idx} className="text-[10px] truncate">
+                        {chunk.web?.uri ? (
+                          <a href={chunk.web.uri} target="_blank" rel="noopener noreferrer" className="text-purple-400/80 hover:text-purple-300">
+                            {chunk.web.title || chunk.web.uri}
+                          </a>
+                        ) : (
+                          <span className="text-gray-600">{chunk.web?.title || chunk.retrievedContext?.title || 'Untitled chunk'}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {retries.filter(r => r.stage === stage.id || (stage.id === 'synthesis' && r.stage === 'parse')).map((retry, idx) => (
+                  <p key={idx} className="text-[9px] font-mono text-yellow-500/80 truncate" title={retry.message}>
+                    <i className="fas fa-rotate mr-1"></i>
+                    {retry.kind} // retry {retry.attempt} in {(retry.delayMs / 1000).toFixed(1)}s
+                  </p>
+                ))}
+                {stage.id === 'synthesis' && streaming && isActive && (
+                  <pre className="mt-2 bg-black/60 rounded-xl p-3 text-[9px] font-mono text-gray-600 whitespace-pre-wrap break-all max-h-20 overflow-hidden">
+                    {streaming.preview}
+                  </pre>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default DiscoveryTimeline;
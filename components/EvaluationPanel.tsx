@@ -0,0 +1,359 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, ResponsiveContainer, Tooltip, TooltipPayloadEntry, TooltipValueType, XAxis, YAxis } from 'recharts';
+import { UsageSummary } from '../types';
+import { EvalRun, FieldFailure, MAX_EVAL_RUNS, runEvaluation, summarizeEvaluation } from '../services/promptEvaluation';
+import { formatTokens, formatUsd } from '../services/usageLedger';
+
+interface EvaluationPanelProps {
+  title: string;
+  schema: string;
+  jsonPrompt: string;
+  onClose: () => void;
+}
+
+type FailureRow = FieldFailure & { detail: string };
+
+const MAX_EVAL_CONCURRENCY = 5;
+
+const TOOLTIP_PROPS = {
+  contentStyle: { backgroundColor: '#0d0d0d', border: '1px solid #222', borderRadius: '12px', padding: '8px 12px' },
+  itemStyle: { color: '#fff', fontSize: '11px', fontWeight: 900 },
+  labelStyle: { color: '#555', fontSize: '9px', fontWeight: 900, textTransform: 'uppercase' as const, letterSpacing: '0.1em' },
+  cursor: { fill: 'rgba(255,255,255,0.03)' }
+};
+
+const AXIS_TICK = { fill: '#555', fontSize: 9, fontWeight: 900 };
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const StatCard: React.FC<{ label: string; value: string; detail?: string; tone?: string }> = ({ label, value, detail, tone = 'text-white' }) => (
+  <div className="bg-black/40 border border-white/5 rounded-2xl p-4 space-y-1">
+    <p className="text-[9px] font-black text-gray-500 uppercase tracking-widest">{label}</p>
+    <p className={`text-2xl font-black ${tone}`}>{value}</p>
+    {detail && <p className="text-[9px] font-mono text-gray-600">{detail}</p>}
+  </div>
+);
+
+const ChartBlock: React.FC<{ title: string; subtitle?: string; height?: number; children: React.ReactElement }> = ({ title, subtitle, height = 160, children }) => (
+  <div className="bg-black/40 border border-white/5 rounded-2xl p-4 space-y-3">
+    <div className="flex items-baseline justify-between gap-3">
+      <h5 className="text-[10px] font-black text-gray-300 font-mono truncate">{title}</h5>
+      {subtitle && <span className="text-[9px] font-mono text-gray-600 whitespace-nowrap">{subtitle}</span>}
+    </div>
+    <div style={{ height }} className="w-full">
+      <ResponsiveContainer width="100%" height="100%">{children}</ResponsiveContainer>
+    </div>
+  </div>
+);
+
+const EvaluationPanel: React.FC<EvaluationPanelProps> = ({ title, schema, jsonPrompt, onClose }) => {
+  const [runCount, setRunCount] = useState(10);
+  const [temperature, setTemperature] = useState(1);
+  const [concurrency, setConcurrency] = useState(3);
+  const [runs, setRuns] = useState<EvalRun[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [schemaError, setSchemaError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const parsedSchema = useMemo(() => {
+    try {
+      return JSON.parse(schema);
+    } catch (e) {
+      return null;
+    }
+  }, [schema]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const summary = useMemo(() => (parsedSchema ? summarizeEvaluation(parsedSchema, runs) : null), [parsedSchema, runs]);
+
+  const start = async () => {
+    if (!parsedSchema) {
+      setSchemaError('The schema is not valid JSON, so outputs cannot be validated.');
+      return;
+    }
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setSchemaError(null);
+    setUsage(null);
+    setExpanded(null);
+    setRuns(Array.from({ length: runCount }, (_, index) => ({ index, status: 'pending' })));
+    setIsRunning(true);
+    try {
+      const total = await runEvaluation(parsedSchema, jsonPrompt, {
+        runs: runCount,
+        temperature,
+        concurrency,
+        signal: controller.signal,
+        onRun: (run) => setRuns(prev => prev.map(r => (r.index === run.index ? run : r)))
+      });
+      setUsage(total);
+    } finally {
+      setIsRunning(false);
+      controllerRef.current = null;
+    }
+  };
+
+  const verdict = summary && summary.completed - summary.errored > 0
+    ? summary.parseRate === 1 && summary.passRate >= 0.95
+      ? { label: 'Production Ready', tone: 'text-green-400', icon: 'fa-circle-check' }
+      : summary.passRate >= 0.8
+        ? { label: 'Needs Hardening', tone: 'text-yellow-400', icon: 'fa-triangle-exclamation' }
+        : { label: 'Not Ready', tone: 'text-red-400', icon: 'fa-circle-xmark' }
+    : null;
+
+  const latencyData = runs
+    .filter(run => run.latencyMs !== undefined && run.status === 'done')
+    .map(run => ({ run: `#${run.index + 1}`, ms: run.latencyMs, valid: run.valid }));
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-8 animate-in fade-in duration-300"
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="absolute inset-0 bg-black/90 backdrop-blur-xl" onClick={onClose} />
+      <div className="relative w-full max-w-5xl bg-[#141414] border border-gray-800 rounded-[2.5rem] shadow-2xl flex flex-col max-h-[90vh] overflow-hidden animate-in zoom-in-95 duration-500">
+
+        <div className="flex items-center justify-between p-8 border-b border-gray-800 bg-[#161616]">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 rounded-2xl flex items-center justify-center text-xl bg-purple-600/10 text-purple-400">
+              <i className="fas fa-flask-vial"></i>
+            </div>
+            <div>
+              <h2 className="text-2xl font-black text-white leading-none mb-1">Prompt Evaluation</h2>
+              <p className="text-xs text-gray-500 uppercase tracking-[0.2em] font-bold truncate max-w-md">{title}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-12 h-12 rounded-2xl hover:bg-gray-800 flex items-center justify-center transition-all text-gray-400 hover:text-white hover:rotate-90 active:scale-90"
+            aria-label="Close"
+          >
+            <i className="fas fa-times text-xl"></i>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8 scrollbar-thin">
+          <div className="flex flex-wrap items-end gap-6">
+            <label className="space-y-2">
+              <span className="block text-[9px] font-black text-gray-500 uppercase tracking-widest">Runs</span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_EVAL_RUNS}
+                value={runCount}
+                disabled={isRunning}
+                onChange={(e) => setRunCount(Math.min(MAX_EVAL_RUNS, Math.max(1, Number(e.target.value) || 1)))}
+                className="w-24 bg-[#151515] border border-white/5 rounded-xl px-3 py-2 text-[11px] font-mono text-white focus:outline-none focus:border-purple-600"
+              />
+            </label>
+            <label className="space-y-2">
+              <span className="block text-[9px] font-black text-gray-500 uppercase tracking-widest">Temperature {temperature.toFixed(1)}</span>
+              <input
+                type="range"
+                min={0}
+                max={2}
+                step={0.1}
+                value={temperature}
+                disabled={isRunning}
+                onChange={(e) => setTemperature(Number(e.target.value))}
+                className="w-48 accent-purple-500"
+              />
+            </label>
+            <label className="space-y-2">
+              <span className="block text-[9px] font-black text-gray-500 uppercase tracking-widest">Parallel</span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_EVAL_CONCURRENCY}
+                value={concurrency}
+                disabled={isRunning}
+                onChange={(e) => setConcurrency(Math.min(MAX_EVAL_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))}
+                className="w-20 bg-[#151515] border border-white/5 rounded-xl px-3 py-2 text-[11px] font-mono text-white focus:outline-none focus:border-purple-600"
+              />
+            </label>
+            <div className="flex-grow"></div>
+            {isRunning ? (
+              <button
+                onClick={() => controllerRef.current?.abort()}
+                className="px-6 py-3 bg-red-600/10 text-red-400 hover:bg-red-600/20 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all"
+              >
+                <i className="fas fa-stop mr-2"></i>
+                Cancel
+              </button>
+            ) : (
+              <button
+                onClick={start}
+                className="px-6 py-3 bg-purple-600 hover:bg-purple-500 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95 shadow-xl"
+              >
+                <i className="fas fa-play mr-2"></i>
+                {runs.length ? 'Run Again' : 'Run Evaluation'}
+              </button>
+            )}
+          </div>
+
+          {schemaError && <p className="text-[11px] text-red-400">{schemaError}</p>}
+
+          {summary && runs.length > 0 && (
+            <>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-[9px] font-black uppercase tracking-widest">
+                  <span className="text-gray-500">{summary.completed} / {summary.total} runs{summary.errored ? ` // ${summary.errored} provider errors` : ''}</span>
+                  {verdict && (
+                    <span className={`${verdict.tone} flex items-center gap-2`}>
+                      <i className={`fas ${verdict.icon}`}></i>
+                      {verdict.label}
+                    </span>
+                  )}
+                </div>
+                <div className="h-1.5 bg-white/5 rounded-full overflow-hidden">
+                  <div className="h-full bg-purple-500 transition-all" style={{ width: `${(summary.completed / summary.total) * 100}%` }} />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <StatCard
+                  label="Parse Success"
+                  value={percent(summary.parseRate)}
+                  tone={summary.parseRate === 1 ? 'text-green-400' : 'text-yellow-400'}
+                />
+                <StatCard
+                  label="Schema Pass"
+                  value={percent(summary.passRate)}
+                  tone={summary.passRate >= 0.95 ? 'text-green-400' : summary.passRate >= 0.8 ? 'text-yellow-400' : 'text-red-400'}
+                />
+                <StatCard
+                  label="Latency p50"
+                  value={summary.latency ? `${(summary.latency.p50 / 1000).toFixed(1)}s` : '—'}
+                  detail={summary.latency ? `p90 ${(summary.latency.p90 / 1000).toFixed(1)}s // p99 ${(summary.latency.p99 / 1000).toFixed(1)}s` : undefined}
+                />
+                <StatCard
+                  label="Cost"
+                  value={usage ? formatUsd(usage.costUsd) : isRunning ? '…' : '—'}
+                  detail={usage ? `${formatTokens(usage.promptTokens + usage.outputTokens)} tokens // ${usage.calls} calls` : undefined}
+                />
+              </div>
+
+              {latencyData.length > 0 && (
+                <ChartBlock
+                  title="Latency per run"
+                  subtitle={summary.latency ? `min ${summary.latency.min}ms // mean ${summary.latency.mean}ms // max ${summary.latency.max}ms` : undefined}
+                >
+                  <BarChart data={latencyData}>
+                    <CartesianGrid strokeDasharray="4 4" vertical={false} stroke="#1a1a1a" />
+                    <XAxis dataKey="run" axisLine={false} tickLine={false} tick={AXIS_TICK} />
+                    <YAxis axisLine={false} tickLine={false} tick={AXIS_TICK} width={40} />
+                    <Tooltip {...TOOLTIP_PROPS} />
+                    <Bar dataKey="ms" radius={[4, 4, 0, 0]}>
+                      {latencyData.map((entry, i) => <Cell key={i} fill={entry.valid ? '#8b5cf6' : '#ef4444'} />)}
+                    </Bar>
+                  </BarChart>
+                </ChartBlock>
+              )}
+
+              {summary.failures.length > 0 && (
+                <ChartBlock title="Failures by field" subtitle="runs with at least one violation" height={Math.max(120, summary.failures.length * 28)}>
+                  <BarChart data={summary.failures.map(f => ({ ...f, detail: Object.keys(f.keywords).join(', ') }))} layout="vertical">
+                    <CartesianGrid strokeDasharray="4 4" horizontal={false} stroke="#1a1a1a" />
+                    <XAxis type="number" allowDecimals={false} axisLine={false} tickLine={false} tick={AXIS_TICK} />
+                    <YAxis type="category" dataKey="field" axisLine={false} tickLine={false} tick={AXIS_TICK} width={160} />
+                    <Tooltip {...TOOLTIP_PROPS} formatter={(value: TooltipValueType | undefined, _name: unknown, item: TooltipPayloadEntry) => [`${value} runs (${(item.payload as FailureRow | undefined)?.detail})`, 'failed']} />
+                    <Bar dataKey="count" fill="#ef4444" radius={[0, 4, 4, 0]} />
+                  </BarChart>
+                </ChartBlock>
+              )}
+
+              {(summary.enums.length > 0 || summary.numbers.length > 0) && (
+                <div className="space-y-3">
+                  <h4 className="text-[10px] font-black text-purple-400 uppercase tracking-widest">Value Distributions</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {summary.enums.map(dist => (
+                      <ChartBlock key={dist.field} title={dist.field} subtitle="enum">
+                        <BarChart data={dist.counts}>
+                          <CartesianGrid strokeDasharray="4 4" vertical={false} stroke="#1a1a1a" />
+                          <XAxis dataKey="value" axisLine={false} tickLine={false} tick={AXIS_TICK} interval={0} />
+                          <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={AXIS_TICK} width={30} />
+                          <Tooltip {...TOOLTIP_PROPS} />
+                          <Bar dataKey="count" fill="#8b5cf6" radius={[4, 4, 0, 0]} />
+                        </BarChart>
+                      </ChartBlock>
+                    ))}
+                    {summary.numbers.map(dist => (
+                      <ChartBlock
+                        key={dist.field}
+                        title={dist.field}
+                        subtitle={`min ${+dist.min.toPrecision(4)} // mean ${+dist.mean.toPrecision(4)} // max ${+dist.max.toPrecision(4)}`}
+                      >
+                        <BarChart data={dist.bins} barCategoryGap={1}>
+                          <CartesianGrid strokeDasharray="4 4" vertical={false} stroke="#1a1a1a" />
+                          <XAxis dataKey="label" axisLine={false} tickLine={false} tick={AXIS_TICK} />
+                          <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={AXIS_TICK} width={30} />
+                          <Tooltip {...TOOLTIP_PROPS} />
+                          <Bar dataKey="count" fill="#3b82f6" />
+                        </BarChart>
+                      </ChartBlock>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-3">
+                <h4 className="text-[10px] font-black text-purple-400 uppercase tracking-widest">Runs</h4>
+                <div className="bg-black/40 rounded-2xl border border-white/5 divide-y divide-white/5">
+                  {runs.map(run => (
+                    <div key={run.index}>
+                      <button
+                        onClick={() => setExpanded(expanded === run.index ? null : run.index)}
+                        disabled={run.status !== 'done' && run.status !== 'failed'}
+                        className="w-full flex items-center gap-4 px-5 py-3 text-left hover:bg-white/5 transition-all disabled:hover:bg-transparent"
+                      >
+                        <span className="text-[10px] font-mono text-gray-600 w-8">#{run.index + 1}</span>
+                        <i className={`fas text-[11px] ${
+                          run.status === 'running' ? 'fa-sync fa-spin text-purple-400'
+                            : run.status === 'failed' ? 'fa-plug-circle-xmark text-red-500'
+                              : run.status === 'pending' ? 'fa-clock text-gray-700'
+                                : run.valid ? 'fa-check text-green-500'
+                                  : run.parsed ? 'fa-triangle-exclamation text-yellow-500' : 'fa-code text-red-500'
+                        }`}></i>
+                        <span className="text-[10px] font-mono text-gray-400 flex-1 truncate">
+                          {run.status === 'failed' ? run.fault?.title
+                            : run.status !== 'done' ? run.status
+                              : run.valid ? 'valid' : run.parsed ? `${run.errors?.length} violation${run.errors?.length === 1 ? '' : 's'}` : 'unparseable JSON'}
+                        </span>
+                        {run.latencyMs !== undefined && <span className="text-[10px] font-mono text-gray-600">{run.latencyMs}ms</span>}
+                      </button>
+                      {expanded === run.index && (
+                        <div className="px-5 pb-4 space-y-2">
+                          {run.fault && <p className="text-[10px] text-red-400">{run.fault.message}</p>}
+                          {(run.errors || []).map((err, i) => (
+                            <p key={i} className="text-[10px] font-mono text-yellow-200/70">
+                              <span className="text-yellow-400">{err.instancePath || '/'}</span> [{err.keyword}] {err.message}
+                            </p>
+                          ))}
+                          {run.output && (
+                            <pre className="bg-black/80 rounded-xl p-4 text-[10px] font-mono text-gray-400 overflow-auto max-h-60 scrollbar-thin">{run.output}</pre>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+
+          {runs.length === 0 && (
+            <p className="text-[11px] text-gray-500 leading-relaxed">
+              Runs the master prompt repeatedly through the <span className="font-mono text-gray-400">test</span> stage model and validates every output against the schema in your browser. Use it to check parse reliability, schema compliance, latency and how values spread before shipping a prompt.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EvaluationPanel;
@@ -63,7 +63,8 @@ const FavoritesList: React.FC<FavoritesListProps> = ({ favorites, onRemove, onSe
                 {fav.title}
               </h3>
               <p className="text-[9px] sm:text-[10px] text-gray-600 font-black uppercase tracking-[0.2em] mt-2">
-                SYNTHESIZED {new Date(fav.savedAt).toLocaleDateString()}
+                {fav.editedFrom ? 'EDITED' : 'SYNTHESIZED'} {new Date(fav.savedAt).toLocaleDateString()}
+                {fav.editedFrom && <span className="ml-2 px-2 py-0.5 rounded-md bg-yellow-500/10 text-yellow-400 normal-case tracking-normal">from {fav.editedFrom}</span>}
               </p>
             </div>
 
@@ -0,0 +1,67 @@
+import React from 'react';
+import { InferenceConfidence, InferenceResult } from '../services/schemaInference';
+
+interface InferencePanelProps {
+  inference: InferenceResult;
+  extraSamples: string;
+  sampleErrors: string[];
+  onSamplesChange: (text: string) => void;
+  onReinfer: () => void;
+  onDiscard: () => void;
+}
+
+const CONFIDENCE_STYLES: Record<InferenceConfidence, string> = {
+  high: 'bg-green-500/10 text-green-400',
+  medium: 'bg-yellow-500/10 text-yellow-400',
+  low: 'bg-red-500/10 text-red-400'
+};
+
+const InferencePanel: React.FC<InferencePanelProps> = ({ inference, extraSamples, sampleErrors, onSamplesChange, onReinfer, onDiscard }) => {
+  return (
+    <div className="mb-6 bg-purple-600/5 border border-purple-500/20 rounded-2xl p-5 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h5 className="text-[10px] font-black text-white uppercase tracking-widest">Inferred Schema</h5>
+          <p className="text-[9px] text-gray-500 font-medium">
+            Merged from {inference.sampleCount} sample{inference.sampleCount === 1 ? '' : 's'}. Add more samples to raise confidence.
+          </p>
+        </div>
+        <button onClick={onDiscard} className="text-[9px] font-black text-gray-600 hover:text-red-400 uppercase tracking-widest transition-colors">
+          Discard
+        </button>
+      </div>
+
+      <div className="max-h-48 overflow-y-auto scrollbar-thin divide-y divide-white/5 bg-black/40 rounded-xl border border-white/5">
+        {inference.fields.map(field => (
+          <div key={field.path} className="flex items-start gap-3 px-4 py-2">
+            <span className={`px-2 py-0.5 rounded-md text-[8px] font-black uppercase tracking-widest ${CONFIDENCE_STYLES[field.confidence]}`}>
+              {field.confidence}
+            </span>
+            <span className="text-[11px] font-mono text-purple-300 whitespace-nowrap">{field.path}</span>
+            <span className="text-[10px] text-gray-500">{field.notes.join(' · ')}</span>
+          </div>
+        ))}
+      </div>
+
+      <textarea
+        value={extraSamples}
+        onChange={(e) => onSamplesChange(e.target.value)}
+        placeholder="Paste extra JSON samples (one document, or NDJSON with one per line)"
+        rows={3}
+        className="w-full bg-black/40 border border-white/5 rounded-xl p-3 text-[11px] font-mono text-gray-300 placeholder-gray-700 focus:outline-none focus:border-purple-600"
+      />
+      {sampleErrors.length > 0 && (
+        <p className="text-[10px] font-mono text-red-400">{sampleErrors.join(' / ')}</p>
+      )}
+      <button
+        onClick={onReinfer}
+        className="px-5 py-2 bg-purple-600 hover:bg-purple-500 text-white rounded-xl text-[9px] font-black uppercase tracking-widest transition-all active:scale-95"
+      >
+        <i className="fas fa-layer-group mr-2"></i>
+        Merge Samples
+      </button>
+    </div>
+  );
+};
+
+export default InferencePanel;
@@ -0,0 +1,199 @@
+import React, { useMemo, useState } from 'react';
+import {
+  LINT_PRESETS, LINT_RULES, LintFinding, LintRuleId, LintSettings, LintSeverity, NAMING_CONVENTIONS, NamingConvention,
+  applyAllFixes, lintSchema, loadLintSettings, resolveLintConfig, saveLintSettings
+} from '../services/schemaLinter';
+import { JsonSchema } from '../services/schemaValidator';
+
+interface LintPanelProps {
+  schema: string;
+  example: string;
+  onApplySchema: (schema: string) => void;
+  onClose: () => void;
+}
+
+const SEVERITIES: LintSeverity[] = ['error', 'warning', 'info', 'off'];
+
+const SEVERITY_STYLES: Record<LintSeverity, string> = {
+  error: 'bg-red-500/10 text-red-400',
+  warning: 'bg-yellow-500/10 text-yellow-400',
+  info: 'bg-blue-500/10 text-blue-400',
+  off: 'bg-white/5 text-gray-600'
+};
+
+const COUNT_STYLES: Record<string, string> = { error: 'text-red-400', warning: 'text-yellow-400', info: 'text-blue-400' };
+
+const parseJson = (text: string): { value?: unknown; error?: string } => {
+  try {
+    return { value: JSON.parse(text) };
+  } catch (e: any) {
+    return { error: e?.message || String(e) };
+  }
+};
+
+const LintPanel: React.FC<LintPanelProps> = ({ schema, example, onApplySchema, onClose }) => {
+  const [settings, setSettings] = useState<LintSettings>(loadLintSettings);
+  const [showRules, setShowRules] = useState(false);
+  const config = resolveLintConfig(settings);
+
+  const parsedSchema = useMemo(() => parseJson(schema), [schema]);
+  // The example only sharpens the rules (whole numbers, date values, always-present keys), so a broken one is ignored
+  const parsedExample = useMemo(() => (example.trim() ? parseJson(example).value : undefined), [example]);
+  const findings = useMemo(
+    () => (parsedSchema.error ? [] : lintSchema(parsedSchema.value as JsonSchema, parsedExample, config)),
+    [parsedSchema, parsedExample, settings]
+  );
+
+  const updateSettings = (next: LintSettings) => {
+    setSettings(next);
+    saveLintSettings(next);
+  };
+  const setSeverity = (rule: LintRuleId, severity: LintSeverity) =>
+    updateSettings({ ...settings, overrides: { ...settings.overrides, [rule]: severity } });
+
+  const apply = (next: Record<string, any>) => onApplySchema(JSON.stringify(next, null, 2));
+  const applyFix = (finding: LintFinding) => apply(finding.fix!.apply(parsedSchema.value as Record<string, any>));
+  const fixable = findings.filter(f => f.fix).length;
+  const counts = SEVERITIES.slice(0, 3).map(severity => ({ severity, count: findings.filter(f => f.severity === severity).length }));
+  const customized = Object.keys(settings.overrides).length > 0 || settings.naming !== undefined || settings.maxDepth !== undefined;
+
+  return (
+    <div className="glass rounded-3xl p-6 sm:p-10 animate-in slide-in-from-top-4 duration-500 relative shadow-2xl border-purple-500/20 bg-purple-500/5">
+      <button onClick={onClose} className="absolute top-6 right-6 text-gray-600 hover:text-white transition-all">
+        <i className="fas fa-times-circle text-xl"></i>
+      </button>
+      <div className="flex items-center gap-5 mb-6">
+        <div className="w-12 h-12 rounded-2xl bg-purple-600 flex items-center justify-center text-white shadow-lg shadow-purple-900/40">
+          <i className="fas fa-list-check text-xl"></i>
+        </div>
+        <div>
+          <h4 className="text-[11px] font-black text-white uppercase tracking-widest">Schema Lint</h4>
+          <p className="text-[9px] font-bold uppercase tracking-widest text-gray-500">
+            {counts.map(({ severity, count }) => (
+              <span key={severity} className={`mr-3 ${count ? COUNT_STYLES[severity] : ''}`}>{count} {severity}</span>
+            ))}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {LINT_PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => updateSettings({ preset: preset.id, overrides: {} })}
+            title={preset.description}
+            className={`px-3 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${settings.preset === preset.id ? 'bg-purple-600/20 border-purple-500/40 text-purple-300' : 'bg-black/40 border-white/10 text-gray-500 hover:text-white'}`}
+          >
+            {preset.label}{settings.preset === preset.id && customized ? ' *' : ''}
+          </button>
+        ))}
+        <button
+          onClick={() => setShowRules(!showRules)}
+          className="ml-auto text-[9px] font-black text-gray-500 hover:text-purple-300 uppercase tracking-widest transition-colors"
+        >
+          <i className={`fas ${showRules ? 'fa-chevron-up' : 'fa-sliders'} mr-1`}></i>
+          Rules
+        </button>
+      </div>
+
+      {showRules && (
+        <div className="bg-black/20 border border-white/5 rounded-2xl p-4 mb-4 space-y-2">
+          {LINT_RULES.map(rule => (
+            <div key={rule.id} className="grid grid-cols-[1fr_auto] items-center gap-3">
+              <span className="min-w-0">
+                <span className="block text-[10px] font-black text-gray-300 uppercase tracking-widest">{rule.label}</span>
+                <span className="block text-[10px] text-gray-500">{rule.description}</span>
+              </span>
+              <select
+                value={config.severities[rule.id]}
+                onChange={(e) => setSeverity(rule.id, e.target.value as LintSeverity)}
+                className="bg-black/40 border border-white/10 rounded-xl px-3 py-1.5 text-[10px] font-mono text-gray-200 outline-none focus:border-purple-500/50"
+              >
+                {SEVERITIES.map(severity => <option key={severity} value={severity}>{severity}</option>)}
+              </select>
+            </div>
+          ))}
+          <div className="flex flex-wrap items-center gap-3 pt-3 border-t border-white/5">
+            <label className="flex items-center gap-2 text-[9px] font-black text-gray-500 uppercase tracking-widest">
+              Naming
+              <select
+                value={config.naming}
+                onChange={(e) => updateSettings({ ...settings, naming: e.target.value as NamingConvention })}
+                className="bg-black/40 border border-white/10 rounded-xl px-3 py-1.5 text-[10px] font-mono text-gray-200 normal-case outline-none focus:border-purple-500/50"
+              >
+                {NAMING_CONVENTIONS.map(naming => <option key={naming} value={naming}>{naming}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-[9px] font-black text-gray-500 uppercase tracking-widest">
+              Max depth
+              <input
+                type="number"
+                min={1}
+                max={20}
+                value={config.maxDepth}
+                onChange={(e) => updateSettings({ ...settings, maxDepth: Math.min(20, Math.max(1, Math.floor(Number(e.target.value)) || 1)) })}
+                className="w-16 bg-black/40 border border-white/10 rounded-xl px-3 py-1.5 text-[10px] font-mono text-gray-200 outline-none focus:border-purple-500/50"
+              />
+            </label>
+            {customized && (
+              <button
+                onClick={() => updateSettings({ preset: settings.preset, overrides: {} })}
+                className="ml-auto text-[9px] font-black text-gray-500 hover:text-purple-300 uppercase tracking-widest transition-colors"
+              >
+                <i className="fas fa-rotate-left mr-1"></i>
+                Preset Defaults
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {parsedSchema.error ? (
+        <p className="text-[11px] font-mono text-red-400">The schema is not valid JSON: {parsedSchema.error}</p>
+      ) : findings.length === 0 ? (
+        <p className="text-[10px] font-black text-green-400 uppercase tracking-widest">
+          <i className="fas fa-circle-check mr-2"></i>
+          No findings
+        </p>
+      ) : (
+        <>
+          <div className="text-[11px] text-gray-300 bg-black/40 rounded-2xl border border-white/5 max-h-[360px] overflow-y-auto scrollbar-thin divide-y divide-white/5">
+            {findings.map(finding => (
+              <div key={`${finding.rule} ${finding.pointer}`} className="p-4 flex items-start gap-3">
+                <span className={`px-2 py-0.5 rounded-md text-[8px] font-black uppercase tracking-widest ${SEVERITY_STYLES[finding.severity]}`}>
+                  {finding.severity}
+                </span>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-3 font-mono">
+                    <span className="text-purple-300 truncate" title={finding.pointer || '/'}>{finding.path}</span>
+                    <span className="px-2 py-0.5 rounded-md bg-white/5 text-[9px] font-black uppercase tracking-widest text-gray-500">{finding.rule}</span>
+                  </div>
+                  <p className="text-gray-400">{finding.message}</p>
+                </div>
+                {finding.fix && (
+                  <button
+                    onClick={() => applyFix(finding)}
+                    className="flex-none px-3 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest bg-white/5 text-gray-400 hover:text-white hover:bg-purple-600/40 transition-all"
+                  >
+                    {finding.fix.label}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          {fixable > 0 && (
+            <button
+              onClick={() => apply(applyAllFixes(parsedSchema.value as Record<string, any>, parsedExample, config))}
+              className="mt-4 px-5 py-2 bg-purple-600 hover:bg-purple-500 text-white rounded-xl text-[9px] font-black uppercase tracking-widest transition-all active:scale-95"
+            >
+              <i className="fas fa-wand-magic-sparkles mr-2"></i>
+              Fix All ({fixable})
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LintPanel;
@@ -16,6 +16,10 @@ const OverlayContent: React.FC<OverlayContentProps> = ({ type, onClose }) => {
 
 Scale your synthesis engine across Google's elite cloud infrastructure.
 
+The **Cloud Node** tab renders a ready-to-deploy endpoint for the current result on Google Cloud Functions, Firebase, Cloud Run, AWS Lambda, Cloudflare Workers, Deno Deploy, Vercel (Next.js route handler), Python (FastAPI), Go, or as a plain curl script. Pick the model and temperature, protect the endpoint with an API key or bearer token, and toggle CORS. Every snippet checks the model output against the result schema and answers 502 instead of returning JSON that does not match.
+
+**Download Project** in the same tab packages a runnable project as a zip for Cloud Run, Firebase Functions or plain Node. It contains the prompt harness, \`schema.json\`, generated \`types.ts\`, an Ajv validation step on the model output, a Vitest unit test against a mocked model response, and the target's deployment files (a Dockerfile, or a \`firebase.json\` laid out like this app's own).
+
 ### 1. Firebase Ecosystem
 The preferred choice for web-centric developers and mobile application ecosystems.
 - **Firebase Hosting**: High-speed global CDN for the front-end workbench.
@@ -82,14 +86,41 @@ The **JSON Prompt Discovery Engine** is a specialized workbench for finding, aud
 ### 1. Smart Discovery
 Our system utilizes **Google Search Grounding** to bypass typical AI hallucinations. It searches live technical documentation and public APIs to ensure the structures we provide are based on real-world implementations.
 
+Every field is traced back to the grounded passages that name it. Hover a key in the JSON pane to see which documentation page it came from; keys without grounding evidence are marked as possibly hallucinated, and **Field Provenance** in the sidebar lists them all.
+
 ### 2. Prompt Synthesis
 Once a structure is identified, we use a secondary AI pass to "Reverse Engineer" the prompt. This creates a high-fidelity instruction set that you can drop into any LLM (Gemini, GPT-4, etc.) to generate consistent mock or synthetic data.
 
+Already have a spec? **Import OpenAPI / GraphQL Spec** accepts OpenAPI 3.x, Swagger 2.0 (JSON or YAML) and GraphQL SDL. Pick a request body, response or type and the schema, TypeScript interface and example are generated locally from the spec; the model only writes the prompt and description.
+
+The **Codegen** tab turns the current schema (or one derived from the example) into Zod schemas, Pydantic v2 models, Go structs, Rust serde structs, Kotlin data classes, C# records or Protobuf messages. Generation runs locally and is deterministic, so the same schema always produces the same file.
+
+**LLM Export** converts the schema into a Gemini \`responseSchema\` (with the SDK's \`Type\` enum), a Gemini function declaration, an OpenAI strict-mode \`response_format\`, an OpenAI tool or an MCP tool definition. Keywords a target cannot express, such as \`oneOf\`, \`patternProperties\` or \`$ref\`, are listed with their path and what the export did instead.
+
+**Mock Data** generates up to 1,000 fixture records from the schema without calling a model. Values respect types, formats, enums, numeric ranges, string lengths, simple patterns, array sizes and required fields, and field names such as \`email\` or \`price\` get realistic values. Generation is seeded, so the same seed always gives the same records. Export as a JSON array, NDJSON, or CSV when the schema is flat.
+
+Switch the **Schema** tab to **Tree** to browse large schemas as a collapsible outline of properties with their type, required flag, format, constraints and description. You can add, rename, retype, delete or toggle required on properties right in the tree. Changes are written back into the schema text as unsaved edits, and **Regenerate TS** rebuilds the TypeScript interface from the edited schema locally.
+
+Need packages for a whole domain model? **Batch Discovery** takes one query per line (pasted, or a CSV/TXT upload), runs them with a configurable concurrency and rate limit, and lets you retry failures, save everything to favorites or download a JSON bundle with a run report.
+
 ### 3. Structural Auditing
-The **Audit Structure** tool runs a series of sanity checks:
-- **CamelCase Consistency**: Checks if keys follow standard JS/TS naming.
-- **Data Sanity**: Ensures dates, numbers, and strings are logically assigned.
-- **Type Compliance**: Cross-references nested structures for circularity or depth issues.
+The **Audit** tool validates the example JSON against the schema entirely in your browser (JSON Schema Draft 7, 2019-09 and 2020-12). Every violation is reported with its JSON Pointer path, the failing keyword and the expected vs. actual value, and the offending lines are highlighted in the JSON pane. It works offline and is fully deterministic.
+
+Press **Edit** on the JSON, TypeScript or Schema tab to change the prompt, example, schema and interface in place. While you type, the workspace reports JSON syntax errors, validates the example against the schema and checks the interface for syntax problems; click a problem to jump to its line. Unsaved changes are counted in the editing bar, and saving stores the result in favorites as a modified copy, leaving the original untouched.
+
+The **Share** button next to the bookmark copies a link that carries the whole result, including saved edits, compressed into the URL fragment. Opening it restores the result without a search or any API call, and the fragment never reaches a server. Results too large for a link (over 8,000 characters) are downloaded as a \`.promptforge.json\` file instead; open it with **Import Shared Result** under the search bar. Revision history and usage stay with the sender.
+
+Saved results keep a revision history: every edit, re-discovery of the same title and change applied from the chat assistant adds a revision. Open **Revisions** in the sidebar to compare any two of them (fields added, removed or retyped, and a word-level diff of the prompt) or to restore an earlier one.
+
+**Check Compatibility** compares two schemas (the current one, a revision, any favorite or a pasted schema) from the point of view of existing consumers. Each change is classified as breaking (a field removed or made required, a type narrowed, an enum value removed, a constraint tightened), risky (a type widened, a new enum value, a field made optional) or non-breaking (a new optional field, a looser constraint, documentation). It suggests a semver bump, shows the next version, and exports the changelog as Markdown. The revision history shows the same verdict for the two revisions being compared.
+
+**Evaluate** runs the master prompt up to 50 times at a chosen temperature and validates every output with the same local validator. It reports the parse success rate, the schema pass rate, latency percentiles, which fields fail most often and how enum and numeric values are distributed, so you can judge whether a prompt is ready for production.
+
+Prompts can contain typed template variables such as \`{{itemCount:int=5}}\`, \`{{ratio:number=0.5}}\`, \`{{strict:bool=true}}\` or \`{{locale:enum(en,de,fr)}}\`; a bare \`{{name}}\` is a text variable. The sidebar shows a form for them, and the values you enter are filled in for **Test**, **Evaluate** and **Compare Variations**. Deployment snippets and downloaded projects take the variables as request parameters (function arguments for the CLI project), defaulting to the form values.
+
+**Compare Variations** puts the main prompt and its three alternative strategies through the same evaluation batch and lists parse success, schema pass rate, output diversity, latency, tokens and cost side by side. Promote the winner and it becomes the main prompt, with the old one kept as a variation.
+
+**Audit** also lints the schema, using the example to see what the data really looks like. The rules cover key naming, missing descriptions, objects without \`required\`, objects that accept undeclared properties, arrays without item schemas, ambiguous number types, dates stored as free-form strings and excessive nesting depth. Pick a preset (Google JSON Style, JSON:API or JSON.prompter), then adjust the severity of each rule, the naming convention and the depth limit under **Rules**; the choice is remembered. Most findings offer a quick fix, and **Fix All** applies every fix at once. Fixes change the schema draft, so they can be reviewed and saved like any other edit.
         `;
       case 'api':
         return `
@@ -101,11 +132,15 @@ This application is powered by the **Google Gemini API**. To understand how to m
 The application expects a valid API Key provided through the \`process.env.API_KEY\` environment variable. 
 
 ### Model Selection
-- **Discovery Pass**: Uses \`gemini-3-flash-preview\` for high-speed search analysis.
-- **Synthesis Pass**: Uses \`gemini-3-flash-preview\` with structured output configuration.
+- **Discovery Pass**: Uses \`gemini-3-flash-preview\` for high-speed search analysis by default.
+- **Synthesis Pass**: Uses \`gemini-3-flash-preview\` with structured output configuration by default.
+- **Engine Providers**: Each stage (research, synthesis, test, chat) can be routed to Gemini, any OpenAI-compatible endpoint, or a local server such as Ollama or llama.cpp from the header's **Engine** settings. Only Gemini grounds research on Google Search.
 
 ### Rate Limits
 Users are subject to the standard quotas defined in the [Google AI Studio Pricing](https://ai.google.dev/pricing). 
+
+### Usage & Cost
+Every model call records its prompt, output and grounding token counts. Costs come from an editable price table in the **Usage** panel (the coin counter in the header), which also shows session and monthly totals and an optional monthly budget cap that blocks new calls once it is reached. Each discovery shows its own cost in the result sidebar.
         `;
       case 'privacy':
         return `
@@ -116,6 +151,8 @@ We take developer privacy seriously. Our architecture is designed to minimize da
 ### Browser-Level Storage
 **All "Saved Prompts"** stay on your device. We use browser \`localStorage\` to keep your curated list available. We do not maintain a backend database of your personal bookmarks.
 
+Completed discoveries are cached in your browser's IndexedDB so repeated queries load instantly. You can inspect and purge the cache from the **Cache** link in the footer.
+
 ### AI Processing
 Search queries are transmitted directly to Google's Gemini models. Please review [Google's Privacy Policy](https://policies.google.com/privacy) for details on how they process AI-grounded search data.
         `;
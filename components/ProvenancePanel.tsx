@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { FieldProvenance, Source } from '../types';
+
+interface ProvenancePanelProps {
+  fields: FieldProvenance[];
+  sources: Source[];
+}
+
+const SourceLink: React.FC<{ source: Source; index: number }> = ({ source, index }) => (
+  source.uri && source.uri !== '#' ? (
+    <a
+      href={source.uri}
+      target="_blank"
+      rel="noopener noreferrer"
+      title={source.uri}
+      className="px-1.5 py-0.5 rounded bg-purple-500/10 text-[8px] font-black text-purple-300 hover:bg-purple-500/20 transition-colors"
+    >
+      [{index + 1}]
+    </a>
+  ) : (
+    <span title={source.title} className="px-1.5 py-0.5 rounded bg-white/5 text-[8px] font-black text-gray-500">[{index + 1}]</span>
+  )
+);
+
+const ProvenancePanel: React.FC<ProvenancePanelProps> = ({ fields, sources }) => {
+  const [expanded, setExpanded] = useState(false);
+  const grounded = fields.filter(f => f.grounded).length;
+  const unverified = fields.filter(f => !f.grounded);
+
+  return (
+    <div className="space-y-3 mb-10">
+      <button onClick={() => setExpanded(!expanded)} className="w-full flex items-center justify-between group">
+        <h4 className="text-[10px] font-black text-purple-400 uppercase tracking-widest">Field Provenance</h4>
+        <div className="flex items-center gap-3">
+          <span className={`text-lg font-black ${unverified.length === 0 ? 'text-green-400' : 'text-yellow-400'}`}>
+            {grounded}/{fields.length}
+          </span>
+          <i className={`fas fa-chevron-${expanded ? 'up' : 'down'} text-[10px] text-gray-600 group-hover:text-white`}></i>
+        </div>
+      </button>
+      <p className="text-[9px] text-gray-600 font-bold uppercase tracking-widest">
+        {sources.length} sources // {unverified.length} possibly hallucinated
+      </p>
+
+      {expanded && (
+        <div className="space-y-3">
+          <div className="bg-black/40 border border-white/5 rounded-2xl divide-y divide-white/5 max-h-56 overflow-y-auto scrollbar-thin">
+            {[...unverified, ...fields.filter(f => f.grounded)].map(field => (
+              <div key={field.path} className="px-4 py-2 flex items-center gap-2" title={field.passages[0]}>
+                <i className={`fas ${field.grounded ? 'fa-link text-green-500' : 'fa-ghost text-yellow-500'} text-[9px]`}></i>
+                <span className="text-[10px] font-mono text-gray-300 truncate">{field.path}</span>
+                <span className="ml-auto flex gap-1 flex-none">
+                  {field.grounded
+                    ? field.sourceIndices.map(i => sources[i] && <SourceLink key={i} source={sources[i]} index={i} />)
+                    : <span className="text-[8px] font-black uppercase tracking-widest text-yellow-500/80">No Evidence</span>}
+                </span>
+              </div>
+            ))}
+          </div>
+          <ol className="space-y-1">
+            {sources.map((source, i) => (
+              <li key={i} className="flex items-center gap-2 text-[10px] text-gray-500 min-w-0">
+                <SourceLink source={source} index={i} />
+                <span className="truncate" title={source.uri}>{source.title}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProvenancePanel;
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { PipelineStage, ProviderKind, ProviderSettings } from '../types';
+import { DEFAULT_MODELS, PIPELINE_STAGES, loadProviderSettings, saveProviderSettings } from '../services/llmProvider';
+
+interface ProviderSettingsPanelProps {
+  onClose: () => void;
+}
+
+const PROVIDER_LABELS: Record<ProviderKind, string> = {
+  gemini: 'Gemini',
+  openai: 'OpenAI-Compatible',
+  local: 'Local (Ollama / llama.cpp)'
+};
+
+const STAGE_HINTS: Record<PipelineStage, string> = {
+  research: 'Grounded search pass. Only Gemini can ground on Google Search.',
+  synthesis: 'Structured JSON prompt package generation.',
+  test: 'Test runs against the generated prompt.',
+  chat: 'Architect assistant conversation.'
+};
+
+const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ onClose }) => {
+  const [settings, setSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [saved, setSaved] = useState(false);
+
+  const updateStage = (stage: PipelineStage, patch: Partial<ProviderSettings['stages'][PipelineStage]>) => {
+    setSaved(false);
+    setSettings(prev => ({
+      ...prev,
+      stages: { ...prev.stages, [stage]: { ...prev.stages[stage], ...patch } }
+    }));
+  };
+
+  const streamUsageToggle = (kind: 'openai' | 'local') => (
+    <label className="flex items-center gap-3 text-[9px] font-black text-gray-500 uppercase tracking-widest cursor-pointer">
+      <input
+        type="checkbox"
+        checked={settings[kind].streamUsage}
+        onChange={(e) => { setSaved(false); setSettings(prev => ({ ...prev, [kind]: { ...prev[kind], streamUsage: e.target.checked } })); }}
+        className="accent-purple-600"
+      />
+      Request usage in streams (stream_options)
+      <span className="normal-case tracking-normal font-medium text-gray-600">Turn off if the server rejects unknown fields; usage is then estimated</span>
+    </label>
+  );
+
+  const handleSave = () => {
+    saveProviderSettings(settings);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-8 animate-in fade-in duration-300"
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="absolute inset-0 bg-black/90 backdrop-blur-xl" onClick={onClose} />
+      <div className="relative w-full max-w-3xl bg-[#141414] border border-gray-800 rounded-[2.5rem] shadow-2xl flex flex-col max-h-[85vh] overflow-hidden animate-in zoom-in-95 duration-500">
+
+        <div className="flex items-center justify-between p-8 border-b border-gray-800 bg-[#161616]">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 rounded-2xl flex items-center justify-center text-xl bg-purple-600/10 text-purple-400">
+              <i className="fas fa-microchip"></i>
+            </div>
+            <div>
+              <h2 className="text-2xl font-black text-white leading-none mb-1">Engine Providers</h2>
+              <p className="text-xs text-gray-500 uppercase tracking-[0.2em] font-bold">Model Routing Per Stage</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-12 h-12 rounded-2xl hover:bg-gray-800 flex items-center justify-center transition-all text-gray-400 hover:text-white hover:rotate-90 active:scale-90"
+            aria-label="Close"
+          >
+            <i className="fas fa-times text-xl"></i>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8 scrollbar-thin">
+          <div className="space-y-4">
+            {PIPELINE_STAGES.map(stage => (
+              <div key={stage} className="grid grid-cols-1 sm:grid-cols-12 gap-3 items-center bg-black/40 border border-white/5 rounded-2xl p-4">
+                <div className="sm:col-span-4">
+                  <h5 className="text-[10px] font-black text-white uppercase tracking-widest">{stage}</h5>
+                  <p className="text-[9px] text-gray-600 font-medium">{STAGE_HINTS[stage]}</p>
+                </div>
+                <select
+                  value={settings.stages[stage].provider}
+                  onChange={(e) => {
+                    const provider = e.target.value as ProviderKind;
+                    updateStage(stage, { provider, model: DEFAULT_MODELS[provider] });
+                  }}
+                  className="sm:col-span-4 bg-[#151515] border border-white/5 rounded-xl px-3 py-2 text-[11px] text-white focus:outline-none focus:border-purple-600"
+                >
+                  {(Object.keys(PROVIDER_LABELS) as ProviderKind[]).map(kind => (
+                    <option key={kind} value={kind}>{PROVIDER_LABELS[kind]}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={settings.stages[stage].model}
+                  onChange={(e) => updateStage(stage, { model: e.target.value })}
+                  placeholder={DEFAULT_MODELS[settings.stages[stage].provider]}
+                  className="sm:col-span-4 bg-[#151515] border border-white/5 rounded-xl px-3 py-2 text-[11px] font-mono text-white placeholder-gray-700 focus:outline-none focus:border-purple-600"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3 pt-6 border-t border-white/5">
+            <h4 className="text-[10px] font-black text-purple-400 uppercase tracking-widest">OpenAI-Compatible Endpoint</h4>
+            <input
+              type="text"
+              value={settings.openai.baseUrl}
+              onChange={(e) => { setSaved(false); setSettings(prev => ({ ...prev, openai: { ...prev.openai, baseUrl: e.target.value } })); }}
+              className="w-full bg-[#151515] border border-white/5 rounded-xl px-4 py-3 text-[11px] font-mono text-white focus:outline-none focus:border-purple-600"
+            />
+            <input
+              type="password"
+              value={settings.openai.apiKey}
+              onChange={(e) => { setSaved(false); setSettings(prev => ({ ...prev, openai: { ...prev.openai, apiKey: e.target.value } })); }}
+              placeholder="API key (stored in this browser only)"
+              className="w-full bg-[#151515] border border-white/5 rounded-xl px-4 py-3 text-[11px] font-mono text-white placeholder-gray-700 focus:outline-none focus:border-purple-600"
+            />
+            {streamUsageToggle('openai')}
+          </div>
+
+          <div className="space-y-3 pt-6 border-t border-white/5">
+            <h4 className="text-[10px] font-black text-purple-400 uppercase tracking-widest">Local Server</h4>
+            <input
+              type="text"
+              value={settings.local.baseUrl}
+              onChange={(e) => { setSaved(false); setSettings(prev => ({ ...prev, local: { ...prev.local, baseUrl: e.target.value } })); }}
+              className="w-full bg-[#151515] border border-white/5 rounded-xl px-4 py-3 text-[11px] font-mono text-white focus:outline-none focus:border-purple-600"
+            />
+            <p className="text-[9px] text-gray-600 font-medium">
+              Requests go straight from the browser to this server, so confidential schemas never leave your network.
+            </p>
+            {streamUsageToggle('local')}
+          </div>
+        </div>
+
+        <div className="p-8 border-t border-gray-800 bg-[#111] flex items-center justify-end gap-4">
+          <button
+            onClick={onClose}
+            className="px-6 py-3 font-black rounded-2xl bg-white/5 text-gray-400 hover:text-white transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className={`px-10 py-3 font-black rounded-2xl transition-all active:scale-95 shadow-xl ${saved ? 'bg-green-600 text-white' : 'bg-purple-600 text-white hover:bg-purple-500'}`}
+          >
+            {saved ? 'Saved' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProviderSettingsPanel;
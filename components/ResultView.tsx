@@ -1,27 +1,89 @@
 
-import React, { useState } from 'react';
-import { SearchResult } from '../types';
-import { GoogleGenAI } from "@google/genai";
-import { marked } from 'marked';
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArtifactKey, CacheStatus, FieldProvenance, Revision, SavedResult, SearchResult } from '../types';
+import { renderSafeMarkdown } from '../services/safeMarkdown';
+import { resolveStage } from '../services/llmProvider';
+import { classifyError, withRetry } from '../services/engineErrors';
+import { ValidationReport, prettyPrintWithPointers, validateJson, validateJsonText } from '../services/schemaValidator';
+import { InferenceResult, inferSchema, parseSamples } from '../services/schemaInference';
+import InferencePanel from './InferencePanel';
+import ConsistencyPanel from './ConsistencyPanel';
+import ProvenancePanel from './ProvenancePanel';
+import { buildProvenance, pointerToFieldPath } from '../services/provenance';
+import { formatTokens, formatUsd } from '../services/usageLedger';
+import { CODEGEN_TARGETS, CodegenLanguage, generateCode } from '../services/codeGenerator';
+import { schemaToTypeScript, toPascalCase } from '../services/tsGenerator';
+import { SCHEMA_EXPORT_TARGETS, SchemaExportTarget, exportSchema } from '../services/schemaExport';
+import { buildTestPrompt } from '../services/promptEvaluation';
+import { PROJECT_TARGETS, ProjectTarget, buildProject, projectSlug } from '../services/projectScaffold';
+import { createZip } from '../services/zipArchive';
+import { createShareTarget } from '../services/shareLink';
+import { SNIPPET_AUTH_MODES, SNIPPET_TARGETS, SnippetParams, SnippetTargetId, loadSnippetParams, renderSnippet, saveSnippetParams } from '../services/snippetTemplates';
+import { MAX_MOCK_RECORDS, MOCK_FORMATS, MockFormat, flatColumns, formatMockRecords, generateMockRecords } from '../services/mockData';
+import EvaluationPanel from './EvaluationPanel';
+import ComparisonPanel from './ComparisonPanel';
+import ArtifactEditor from './ArtifactEditor';
+import RevisionHistory from './RevisionHistory';
+import CompatibilityPanel from './CompatibilityPanel';
+import SchemaTreeEditor from './SchemaTreeEditor';
+import LintPanel from './LintPanel';
+import TemplateVariablesForm from './TemplateVariablesForm';
+import { TemplateValues, parseTemplate, renderTemplate } from '../services/promptTemplate';
+import { EditableArtifacts, diagnoseArtifacts } from '../services/artifactDiagnostics';
+import { checkConsistency } from '../services/consistencyChecker';
 
 interface ResultViewProps {
   result: SearchResult;
+  cacheStatus?: CacheStatus | null;
+  onRefresh?: () => void;
   isSaved: boolean;
   onSave: (result: SearchResult) => void;
   onRemove: (id: string) => void;
+  onUpdate: (result: SearchResult) => void;
+  onSaveCopy: (result: SearchResult) => void;
+  revisions?: Revision[];
+  onRestoreRevision: (revision: Revision) => void;
+  favorites: SavedResult[];
 }
 
-const ResultView: React.FC<ResultViewProps> = ({ result, isSaved, onSave, onRemove }) => {
+const TAB_ARTIFACTS: Record<string, ArtifactKey> = { json: 'exampleJson', ts: 'tsInterface', schema: 'jsonSchema' };
+
+const ResultView: React.FC<ResultViewProps> = ({ result, cacheStatus, onRefresh, isSaved, onSave, onRemove, onUpdate, onSaveCopy, revisions, onRestoreRevision, favorites }) => {
   const [copied, setCopied] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'json' | 'ts' | 'schema' | 'cloud' | 'integration'>('json');
-  const [cloudMode, setCloudMode] = useState<'functions' | 'run' | 'firebase'>('functions');
+  const [activeTab, setActiveTab] = useState<'json' | 'ts' | 'code' | 'llm' | 'mock' | 'schema' | 'cloud' | 'integration'>('json');
+  const [codeLanguage, setCodeLanguage] = useState<CodegenLanguage>('zod');
+  const [mockCount, setMockCount] = useState(10);
+  const [mockSeed, setMockSeed] = useState('1');
+  const [mockFormat, setMockFormat] = useState<MockFormat>('json');
+  const [schemaView, setSchemaView] = useState<'source' | 'tree'>('source');
+  const [exportTarget, setExportTarget] = useState<SchemaExportTarget>('gemini-response-schema');
+  const [snippetTarget, setSnippetTarget] = useState<SnippetTargetId>('gcp-functions');
+  const [snippetParams, setSnippetParams] = useState<SnippetParams>(loadSnippetParams);
+  const [projectTarget, setProjectTarget] = useState<ProjectTarget>('cloud-run');
   const [isTestingPrompt, setIsTestingPrompt] = useState(false);
+  const [showEvaluation, setShowEvaluation] = useState(false);
+  const [showComparison, setShowComparison] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showLint, setShowLint] = useState(false);
+  const [showCompatibility, setShowCompatibility] = useState(false);
   const [testResult, setTestResult] = useState<string | null>(null);
-  const [isValidatingSchema, setIsValidatingSchema] = useState(false);
-  const [validationReport, setValidationReport] = useState<string | null>(null);
-  const [isDerivingSchema, setIsDerivingSchema] = useState(false);
+  const [validationReport, setValidationReport] = useState<ValidationReport | null>(null);
   const [derivedSchema, setDerivedSchema] = useState<string | null>(null);
-  const [schemaError, setSchemaError] = useState<string | null>(null);
+  const [inference, setInference] = useState<InferenceResult | null>(null);
+  const [extraSamples, setExtraSamples] = useState('');
+  const [sampleErrors, setSampleErrors] = useState<string[]>([]);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<Partial<Record<ArtifactKey, string>>>({});
+  const [templateValues, setTemplateValues] = useState<TemplateValues>({});
+  const [shareNotice, setShareNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsEditing(false);
+    setDraft({});
+  }, [result]);
+
+  // Saving an edit replaces `result`, so the values are only reset when another result is opened
+  useEffect(() => setTemplateValues({}), [result.title]);
 
   const copyToClipboard = (text: string | undefined, id: string) => {
     if (!text) return;
@@ -30,7 +92,7 @@ const ResultView: React.FC<ResultViewProps> = ({ result, isSaved, onSave, onRemo
     setTimeout(() => setCopied(null), 2000);
   };
 
-  const downloadFile = (content: string, fileName: string, contentType: string) => {
+  const downloadFile = (content: BlobPart, fileName: string, contentType: string) => {
     const a = document.createElement("a");
     const file = new Blob([content], { type: contentType });
     a.href = URL.createObjectURL(file);
@@ -39,6 +101,33 @@ const ResultView: React.FC<ResultViewProps> = ({ result, isSaved, onSave, onRemo
     URL.revokeObjectURL(a.href);
   };
 
+  // Copies a link that restores the result without an API call; results too large for a URL are downloaded as a file
+  const shareResult = async () => {
+    try {
+      const target = await createShareTarget(result, window.location.href);
+      if (target.kind === 'link') {
+        await navigator.clipboard.writeText(target.url);
+        setShareNotice('Share link copied to the clipboard');
+      } else {
+        downloadFile(target.content, target.fileName, 'application/json');
+        setShareNotice(`Too large for a link (${target.urlLength.toLocaleString()} characters), so it was downloaded as ${target.fileName}`);
+      }
+    } catch (e: any) {
+      setShareNotice(`Sharing failed: ${e?.message || e}`);
+    }
+    setTimeout(() => setShareNotice(null), 5000);
+  };
+
+  // Swaps the chosen variation with the main prompt so the old main stays available as a variation
+  const promoteVariation = (index: number) => {
+    const variations = [...(result.promptVariations || [])];
+    const promoted = variations[index];
+    if (!promoted) return;
+    variations[index] = result.jsonPrompt;
+    onUpdate({ ...result, jsonPrompt: promoted, promptVariations: variations });
+    setShowComparison(false);
+  };
+
   const safeJson = (str: string | undefined) => {
     if (!str) return "";
     try {
@@ -51,178 +140,245 @@ const ResultView: React.FC<ResultViewProps> = ({ result, isSaved, onSave, onRemo
 
   const getRefinedHarness = () => `Act as a high-precision data synthesis node. Generate a JSON object strictly following these instructions:
     
-${result.jsonPrompt}
+${working.jsonPrompt}
 
 OUTPUT CONSTRAINTS:
 - Return ONLY valid JSON.
 - No markdown formatting.
 - Ensure 100% adherence to specified keys, data types, and nesting logic.`;
 
-  const getCloudFunctionSnippet = () => {
-    return `/**
- * Google Cloud Function (2nd Gen)
- * Runtime: Node.js 20
- */
-import { GoogleGenAI } from "@google/genai";
-import * as functions from '@google-cloud/functions-framework';
-
-const ai = new GoogleGenAI({ 
-  apiKey: process.env.GEMINI_API_KEY || '' 
-});
-
-functions.http('generateData', async (req, res) => {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: \`${getRefinedHarness().replace(/`/g, '\\`').replace(/\${/g, '\\${')}\`,
-      config: { responseMimeType: "application/json" }
-    });
-    res.set('Content-Type', 'application/json');
-    res.status(200).send(response.text);
-  } catch (error) {
-    res.status(500).send({ error: 'Internal Synthesis Fault' });
-  }
-});`;
-  };
-
-  const getFirebaseFunctionSnippet = () => {
-    return `/**
- * Firebase Cloud Function (v2)
- * Framework: firebase-functions/v2
- */
-const { onRequest } = require("firebase-functions/v2/https");
-const { GoogleGenAI } = require("@google/genai");
-
-const ai = new GoogleGenAI({ 
-  apiKey: process.env.GEMINI_API_KEY 
-});
-
-exports.generateData = onRequest({ cors: true }, async (req, res) => {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: \`${getRefinedHarness().replace(/`/g, '\\`').replace(/\${/g, '\\${')}\`,
-      config: { responseMimeType: "application/json" }
-    });
-    
-    res.status(200).json(JSON.parse(response.text));
-  } catch (error) {
-    res.status(500).send("Synthesis Error");
-  }
-});
-
-// Deployment Command:
-// firebase deploy --only functions:generateData`;
-  };
-
-  const getCloudRunSnippet = () => {
-    return `/**
- * Google Cloud Run Service (Dockerized Node.js)
- * Port: $PORT (Default: 8080)
- */
-import express from 'express';
-import { GoogleGenAI } from "@google/genai";
-
-const app = express();
-const port = process.env.PORT || 8080;
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || '' });
-
-app.get('/', async (req, res) => {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: \`${getRefinedHarness().replace(/`/g, '\\`').replace(/\${/g, '\\${')}\`,
-      config: { responseMimeType: "application/json" }
-    });
-    res.json(JSON.parse(response.text));
-  } catch (error) {
-    res.status(500).json({ error: 'Synthesis Error' });
-  }
-});
-
-app.listen(port, () => console.log(\`Cloud Run Service Active on :\${port}\`));
-
-// --- Dockerfile ---
-/*
-FROM node:20-slim
-WORKDIR /usr/src/app
-COPY package*.json ./
-RUN npm install --only=production
-COPY . .
-EXPOSE 8080
-CMD [ "node", "index.js" ]
-*/`;
-  };
+  // Template variables are filled from the form wherever a prompt is sent to the model. Test runs,
+  // evaluation, comparison and exported code all read `working.jsonPrompt`, the prompt the form is parsed from
+  const fillTemplate = (prompt: string) => renderTemplate(parseTemplate(prompt), templateValues);
 
   const runTest = async () => {
     setIsTestingPrompt(true);
     setTestResult(null);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const promptHarness = `Act as a professional data generator. 
-      Generate a single JSON object based on the following explicit structural instructions:
-
-      --- INSTRUCTIONS START ---
-      ${result.jsonPrompt}
-      --- INSTRUCTIONS END ---
-
-      REQUIREMENTS:
-      1. Use correct data types. Populated with realistic entries.
-      2. Return ONLY the raw JSON string. No preamble.`;
-
-      const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: promptHarness,
-        config: { responseMimeType: "application/json" }
-      });
+      const { provider, model } = resolveStage('test');
+      const response = await withRetry(() => provider.generate({
+        model,
+        prompt: buildTestPrompt(fillTemplate(working.jsonPrompt)),
+        json: true
+      }), { stage: 'test' });
       setTestResult(response.text || 'No data generated.');
     } catch (e) {
-      setTestResult("Synthesis failed. Check connection.");
+      const fault = classifyError(e, 'test').toFault();
+      setTestResult(`${fault.title}: ${fault.message}\n\n${fault.remediation}`);
     } finally {
       setIsTestingPrompt(false);
     }
   };
 
-  const validateAgainstSchema = async () => {
+  const validateAgainstSchema = () => {
     const schemaToUse = derivedSchema || result.jsonSchema;
+    setShowLint(true);
     if (!schemaToUse || !result.exampleJson) return;
-    setIsValidatingSchema(true);
+    setValidationReport(validateJsonText(schemaToUse, result.exampleJson));
+    setActiveTab('json');
+  };
+
+  const formatValidationReport = (report: ValidationReport) => report.valid
+    ? `Example is valid against the schema (${report.draft}).`
+    : report.errors.map(err => `${err.instancePath || '/'} [${err.keyword}] ${err.message} (expected ${JSON.stringify(err.expected)}, actual ${JSON.stringify(err.actual)})`).join('\n');
+
+  const displayedSchema = draft.jsonSchema ?? (derivedSchema || result.jsonSchema);
+  const baseArtifacts: EditableArtifacts = {
+    jsonPrompt: result.jsonPrompt,
+    exampleJson: result.exampleJson,
+    jsonSchema: derivedSchema || result.jsonSchema || '',
+    tsInterface: result.tsInterface || ''
+  };
+  const working: EditableArtifacts = { ...baseArtifacts, ...draft };
+  const dirtyKeys = (Object.keys(draft) as ArtifactKey[]).filter(key => draft[key] !== baseArtifacts[key]);
+  const diagnostics = useMemo(
+    () => (isEditing ? diagnoseArtifacts(working) : []),
+    [isEditing, working.jsonPrompt, working.exampleJson, working.jsonSchema, working.tsInterface]
+  );
+  const diagnosticsFor = (artifact: ArtifactKey) => diagnostics.filter(d => d.artifact === artifact);
+  const promptTemplate = useMemo(() => parseTemplate(working.jsonPrompt), [working.jsonPrompt]);
+  const filledVariations = useMemo(
+    () => (result.promptVariations || []).map(fillTemplate),
+    [result.promptVariations, templateValues]
+  );
+
+  useEffect(() => {
+    if (dirtyKeys.length === 0) return;
+    const warn = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [dirtyKeys.length]);
+
+  const editArtifact = (key: ArtifactKey, value: string) => setDraft(prev => ({ ...prev, [key]: value }));
+
+  // Tree edits, lint fixes and local TS regeneration go through the same draft as manual edits
+  const editSchemaDraft = (schema: string) => {
+    editArtifact('jsonSchema', schema);
+    setIsEditing(true);
+  };
+
+  const regenerateTsInterface = () => {
+    try {
+      editArtifact('tsInterface', schemaToTypeScript(JSON.parse(displayedSchema || ''), rootTypeName));
+      setIsEditing(true);
+    } catch (e) {
+      // The tree only offers this for a parseable schema
+    }
+  };
+
+  const discardEdits = () => {
+    setDraft({});
+    setIsEditing(false);
+  };
+
+  // A copy that is already saved is updated in place; anything else becomes a new modified favorite
+  const saveEdits = () => {
+    const edited: SearchResult = { ...result, ...working, consistency: checkConsistency(working) };
+    if (result.editedFrom && isSaved) onUpdate(edited);
+    else onSaveCopy(edited);
+    setInference(null);
+    setDerivedSchema(null);
     setValidationReport(null);
+  };
+  const provenance = useMemo(() => buildProvenance(result, displayedSchema), [result, displayedSchema]);
+  const codeTarget = CODEGEN_TARGETS.find(target => target.id === codeLanguage) || CODEGEN_TARGETS[0];
+  const rootTypeName = toPascalCase(result.title || 'Root');
+  const generatedCode = useMemo(() => {
+    if (activeTab !== 'code' || !displayedSchema) return '';
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const auditPrompt = `Validate JSON against Schema. Report in Markdown. Schema: ${schemaToUse} JSON: ${result.exampleJson}`;
-      const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: auditPrompt,
-      });
-      setValidationReport(response.text || 'Validation complete.');
+      return generateCode(JSON.parse(displayedSchema), codeLanguage, rootTypeName);
+    } catch (e: any) {
+      return `// Schema is not valid JSON: ${e?.message || e}`;
+    }
+  }, [activeTab, displayedSchema, codeLanguage, rootTypeName]);
+  const snippetInfo = SNIPPET_TARGETS.find(target => target.id === snippetTarget) || SNIPPET_TARGETS[0];
+  // Invalid schema text leaves this null; snippets then skip validation and say so
+  const parsedSchema = useMemo(() => {
+    try {
+      const schema = JSON.parse(displayedSchema || '');
+      return schema && typeof schema === 'object' ? schema : null;
     } catch (e) {
-      setValidationReport("Schema audit failed.");
-    } finally {
-      setIsValidatingSchema(false);
+      return null;
     }
+  }, [displayedSchema]);
+
+  const snippet = useMemo(
+    () => (activeTab === 'cloud'
+      ? renderSnippet(snippetTarget, { prompt: getRefinedHarness(), schema: parsedSchema, variables: templateValues }, snippetParams)
+      : null),
+    [activeTab, snippetTarget, snippetParams, parsedSchema, working.jsonPrompt, templateValues]
+  );
+
+  const downloadProject = () => {
+    if (!parsedSchema) return;
+    const files = buildProject({
+      title: result.title,
+      description: result.description,
+      prompt: getRefinedHarness(),
+      schema: parsedSchema,
+      exampleJson: working.exampleJson,
+      rootName: rootTypeName,
+      variables: templateValues
+    }, projectTarget, snippetParams);
+    downloadFile(createZip(files), `${projectSlug(result.title)}-${projectTarget}.zip`, 'application/zip');
   };
 
-  const deriveSchemaFromExample = async () => {
-    if (!result.exampleJson) return;
-    setIsDerivingSchema(true);
+  const updateSnippetParams = (changes: Partial<SnippetParams>) => {
+    const next = { ...snippetParams, ...changes };
+    setSnippetParams(next);
+    saveSnippetParams(next);
+  };
+
+  const exportInfo = SCHEMA_EXPORT_TARGETS.find(target => target.id === exportTarget) || SCHEMA_EXPORT_TARGETS[0];
+  const schemaExport = useMemo(() => {
+    if (activeTab !== 'llm' || !displayedSchema) return null;
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: `Architect: Reverse engineer JSON Schema from: ${result.exampleJson}`,
-        config: { responseMimeType: "application/json" }
-      });
-      setDerivedSchema(response.text?.trim());
-      setActiveTab('schema');
+      return exportSchema(JSON.parse(displayedSchema), exportTarget, { name: result.title, description: result.description });
     } catch (e: any) {
-      setSchemaError("Architectural Fault.");
-    } finally {
-      setIsDerivingSchema(false);
+      return { code: `// Schema is not valid JSON: ${e?.message || e}`, warnings: [] };
+    }
+  }, [activeTab, displayedSchema, exportTarget, result.title, result.description]);
+
+  const mockData = useMemo(() => {
+    if (activeTab !== 'mock' || !displayedSchema) return null;
+    try {
+      const schema = JSON.parse(displayedSchema);
+      const columns = flatColumns(schema);
+      const format = mockFormat === 'csv' && !columns ? 'json' : mockFormat;
+      const records = generateMockRecords(schema, mockCount, mockSeed);
+      const invalid = records.filter(record => !validateJson(schema, record).valid).length;
+      return { columns, format, invalid, total: records.length, text: formatMockRecords(records, format, columns || undefined) };
+    } catch (e: any) {
+      return { columns: null, format: mockFormat, invalid: 0, total: 0, text: `// Schema is not valid JSON: ${e?.message || e}` };
+    }
+  }, [activeTab, displayedSchema, mockCount, mockSeed, mockFormat]);
+  const mockFormatInfo = MOCK_FORMATS.find(format => format.id === mockData?.format) || MOCK_FORMATS[0];
+  const mockFileName = `${rootTypeName.replace(/^./, c => c.toLowerCase())}.mock.${mockFormatInfo.extension}`;
+
+  const describeProvenance = (field: FieldProvenance) => field.grounded
+    ? `Grounded in: ${field.sourceIndices.map(i => result.sources[i]?.title).filter(Boolean).join(', ')}\n"${field.passages[0].slice(0, 200)}"`
+    : `No grounding evidence for "${field.key}": possibly hallucinated`;
+
+  const renderExampleJson = () => {
+    const errors = validationReport && !validationReport.valid ? validationReport.errors : [];
+    if (errors.length === 0 && !provenance) return safeJson(result.exampleJson);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(result.exampleJson);
+    } catch (e) {
+      return result.exampleJson;
+    }
+    const { text, lines } = prettyPrintWithPointers(parsed);
+    const flagged = new Map<number, string[]>();
+    for (const err of errors) {
+      const line = lines.get(err.instancePath);
+      if (line === undefined) continue;
+      flagged.set(line, [...(flagged.get(line) || []), err.message]);
     }
+    const origins = new Map<number, FieldProvenance>();
+    if (provenance) {
+      const byPath = new Map<string, FieldProvenance>(provenance.map(field => [field.path, field]));
+      lines.forEach((line, pointer) => {
+        const field = byPath.get(pointerToFieldPath(pointer));
+        if (field && !origins.has(line)) origins.set(line, field);
+      });
+    }
+    return text.split('\n').map((line, i) => {
+      const origin = origins.get(i);
+      const tone = flagged.has(i)
+        ? 'bg-red-500/10 text-red-300 border-l-2 border-red-500 -ml-3 pl-[10px]'
+        : origin && !origin.grounded
+          ? 'text-yellow-200/80 border-l-2 border-yellow-500/60 -ml-3 pl-[10px] cursor-help'
+          : origin ? 'cursor-help' : '';
+      return (
+        <div
+          key={i}
+          title={[...(flagged.get(i) || []), ...(origin ? [describeProvenance(origin)] : [])].join('\n') || undefined}
+          className={tone}
+        >
+          {line || ' '}
+        </div>
+      );
+    });
+  };
+
+  const deriveSchemaFromExample = () => {
+    if (!result.exampleJson) return;
+    const { samples, errors } = parseSamples([result.exampleJson, extraSamples]);
+    setSampleErrors(errors);
+    if (samples.length === 0) return;
+    const inferred = inferSchema(samples);
+    setInference(inferred);
+    setDerivedSchema(JSON.stringify(inferred.schema, null, 2));
+    setActiveTab('schema');
+  };
+
+  const discardDerivedSchema = () => {
+    setInference(null);
+    setDerivedSchema(null);
+    setSampleErrors([]);
   };
 
-  const displayedSchema = derivedSchema || result.jsonSchema;
 
   return (
     <div className="w-full max-w-7xl mx-auto mt-6 sm:mt-10 animate-in fade-in slide-in-from-bottom-6 duration-700 px-2 sm:px-0">
@@ -233,45 +389,152 @@ CMD [ "node", "index.js" ]
           <div className="glass rounded-[2rem] sm:rounded-[3rem] p-6 sm:p-10 relative shadow-2xl overflow-visible">
             
             <div className="flex justify-between items-start mb-6">
-              <h2 className="text-xl sm:text-3xl font-black text-white leading-tight tracking-tighter max-w-[80%]">
+              <h2 className="text-xl sm:text-3xl font-black text-white leading-tight tracking-tighter max-w-[70%]">
                 {result.title}
               </h2>
-              <button 
-                onClick={() => onSave(result)} 
-                className={`w-10 h-10 sm:w-12 sm:h-12 rounded-2xl flex items-center justify-center transition-all shadow-lg active:scale-90 ${isSaved ? 'bg-purple-600 text-white shadow-purple-900/40' : 'bg-white/5 text-gray-500 hover:bg-white/10 hover:text-purple-400'}`}
-                title={isSaved ? "Saved to Favorites" : "Save to Favorites"}
-              >
-                <i className={`fas ${isSaved ? 'fa-check' : 'fa-bookmark'}`}></i>
-              </button>
+              <div className="flex gap-2">
+                <button
+                  onClick={shareResult}
+                  className="w-10 h-10 sm:w-12 sm:h-12 rounded-2xl flex items-center justify-center transition-all shadow-lg active:scale-90 bg-white/5 text-gray-500 hover:bg-white/10 hover:text-purple-400"
+                  title="Share as a link"
+                >
+                  <i className="fas fa-share-nodes"></i>
+                </button>
+                <button 
+                  onClick={() => onSave(result)} 
+                  className={`w-10 h-10 sm:w-12 sm:h-12 rounded-2xl flex items-center justify-center transition-all shadow-lg active:scale-90 ${isSaved ? 'bg-purple-600 text-white shadow-purple-900/40' : 'bg-white/5 text-gray-500 hover:bg-white/10 hover:text-purple-400'}`}
+                  title={isSaved ? "Saved to Favorites" : "Save to Favorites"}
+                >
+                  <i className={`fas ${isSaved ? 'fa-check' : 'fa-bookmark'}`}></i>
+                </button>
+              </div>
             </div>
+
+            {shareNotice && (
+              <p className="-mt-3 mb-6 text-[9px] font-black text-purple-300 uppercase tracking-widest">
+                <i className="fas fa-share-nodes mr-1"></i>
+                {shareNotice}
+              </p>
+            )}
             
+            {result.usage && result.usage.calls > 0 && (
+              <div
+                className="flex items-center gap-2 mb-6 text-[9px] font-black text-gray-500 uppercase tracking-widest"
+                title={`${result.usage.promptTokens} prompt // ${result.usage.outputTokens} output // ${result.usage.groundingTokens} grounding tokens // ${result.usage.groundedRequests} grounded requests`}
+              >
+                <i className="fas fa-coins text-purple-500"></i>
+                Cost {formatUsd(result.usage.costUsd)}
+                <span className="text-gray-700">//</span>
+                {formatTokens(result.usage.promptTokens + result.usage.outputTokens + result.usage.groundingTokens)} tokens
+                <span className="text-gray-700">//</span>
+                {result.usage.calls} calls
+              </div>
+            )}
+
+            {isSaved && revisions && revisions.length > 1 && (
+              <button
+                onClick={() => setShowHistory(true)}
+                className="w-full flex items-center justify-between gap-3 mb-6 px-4 py-3 rounded-2xl border bg-white/5 border-white/5 hover:border-purple-500/30 transition-all"
+              >
+                <span className="flex items-center gap-2 text-[9px] font-black text-gray-400 uppercase tracking-widest">
+                  <i className="fas fa-clock-rotate-left text-purple-500"></i>
+                  {revisions.length} Revisions
+                </span>
+                <span className="text-[9px] font-mono text-gray-600 truncate">
+                  last {new Date(revisions[revisions.length - 1].createdAt).toLocaleString()}
+                </span>
+              </button>
+            )}
+
+            {cacheStatus && (
+              <div className={`flex items-center justify-between gap-3 mb-6 px-4 py-3 rounded-2xl border ${cacheStatus.stale ? 'bg-yellow-500/5 border-yellow-500/20' : 'bg-white/5 border-white/5'}`}>
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className={`px-2 py-0.5 rounded-md text-[8px] font-black uppercase tracking-widest ${cacheStatus.stale ? 'bg-yellow-500/10 text-yellow-400' : 'bg-green-500/10 text-green-400'}`}>
+                    {cacheStatus.stale ? 'Stale' : 'Cached'}
+                  </span>
+                  <span className="text-[9px] font-mono text-gray-500 truncate">{new Date(cacheStatus.cachedAt).toLocaleString()}</span>
+                </div>
+                {onRefresh && (
+                  <button
+                    onClick={onRefresh}
+                    className="flex-none text-[9px] font-black text-purple-400 hover:text-purple-300 uppercase tracking-widest transition-colors"
+                  >
+                    <i className="fas fa-rotate mr-1"></i>
+                    Refresh From Source
+                  </button>
+                )}
+              </div>
+            )}
+
             <div 
               className="markdown-content text-gray-400 text-sm mb-10 leading-relaxed"
-              dangerouslySetInnerHTML={{ __html: marked.parse(result.description || '') as string }} 
+              dangerouslySetInnerHTML={{ __html: renderSafeMarkdown(result.description || '') }} 
             />
 
+            {result.consistency && <ConsistencyPanel report={result.consistency} />}
+            {provenance && <ProvenancePanel fields={provenance} sources={result.sources} />}
+
             <div className="space-y-4 mb-10">
               <h4 className="text-[10px] font-black text-purple-400 uppercase tracking-widest">Prompt Logic</h4>
-              <div className="relative group/prompt">
-                <div className="bg-black/40 border border-white/5 rounded-2xl p-4 sm:p-5 text-[10px] font-mono text-gray-500 leading-relaxed max-h-32 overflow-y-auto no-scrollbar">
-                  {result.jsonPrompt}
+              {isEditing ? (
+                <ArtifactEditor
+                  value={working.jsonPrompt}
+                  onChange={(value) => editArtifact('jsonPrompt', value)}
+                  diagnostics={diagnosticsFor('jsonPrompt')}
+                  modified={dirtyKeys.includes('jsonPrompt')}
+                  compact
+                />
+              ) : (
+                <div className="relative group/prompt">
+                  <div className="bg-black/40 border border-white/5 rounded-2xl p-4 sm:p-5 text-[10px] font-mono text-gray-500 leading-relaxed max-h-32 overflow-y-auto no-scrollbar">
+                    {result.jsonPrompt}
+                  </div>
+                  <button 
+                    onClick={() => copyToClipboard(working.jsonPrompt, 'side-copy')}
+                    className={`absolute top-2 right-2 px-3 py-1.5 rounded-xl text-[9px] font-black uppercase transition-all shadow-xl ${copied === 'side-copy' ? 'bg-green-600 text-white' : 'bg-purple-600/90 hover:bg-purple-500 text-white opacity-0 group-hover/prompt:opacity-100'}`}
+                  >
+                    <i className={`fas ${copied === 'side-copy' ? 'fa-check' : 'fa-copy'} mr-1`}></i>
+                    {copied === 'side-copy' ? 'Copied' : 'Copy'}
+                  </button>
                 </div>
-                <button 
-                  onClick={() => copyToClipboard(result.jsonPrompt, 'side-copy')}
-                  className={`absolute top-2 right-2 px-3 py-1.5 rounded-xl text-[9px] font-black uppercase transition-all shadow-xl ${copied === 'side-copy' ? 'bg-green-600 text-white' : 'bg-purple-600/90 hover:bg-purple-500 text-white opacity-0 group-hover/prompt:opacity-100'}`}
-                >
-                  <i className={`fas ${copied === 'side-copy' ? 'fa-check' : 'fa-copy'} mr-1`}></i>
-                  {copied === 'side-copy' ? 'Copied' : 'Copy'}
-                </button>
-              </div>
+              )}
 
               <button 
-                onClick={() => copyToClipboard(result.jsonPrompt, 'main-copy')}
+                onClick={() => copyToClipboard(working.jsonPrompt, 'main-copy')}
                 className={`w-full py-4 bg-purple-600 hover:bg-purple-500 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all flex items-center justify-center gap-3 shadow-xl active:scale-95 ${copied === 'main-copy' ? 'bg-green-600' : ''}`}
               >
                 <i className={`fas ${copied === 'main-copy' ? 'fa-check' : 'fa-terminal'}`}></i>
                 {copied === 'main-copy' ? 'Ready' : 'Copy Master Prompt'}
               </button>
+
+              {(promptTemplate.variables.length > 0 || promptTemplate.issues.length > 0) && (
+                <TemplateVariablesForm
+                  variables={promptTemplate.variables}
+                  issues={promptTemplate.issues}
+                  values={templateValues}
+                  onChange={setTemplateValues}
+                />
+              )}
+
+              {(result.promptVariations?.length ?? 0) > 0 && (
+                <button 
+                  onClick={() => setShowComparison(true)}
+                  disabled={!displayedSchema}
+                  className="w-full py-3 bg-transparent border border-white/10 text-gray-400 rounded-2xl text-[9px] font-black uppercase tracking-widest hover:border-purple-500/40 hover:text-purple-300 transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                  <i className="fas fa-code-compare"></i>
+                  Compare {result.promptVariations!.length} Variations
+                </button>
+              )}
+
+              <button
+                onClick={() => setShowCompatibility(true)}
+                disabled={!displayedSchema}
+                className="w-full py-3 bg-transparent border border-white/10 text-gray-400 rounded-2xl text-[9px] font-black uppercase tracking-widest hover:border-purple-500/40 hover:text-purple-300 transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                <i className="fas fa-code-branch"></i>
+                Check Compatibility
+              </button>
             </div>
 
             <div className="space-y-4 pt-6 border-t border-white/5">
@@ -298,20 +561,21 @@ CMD [ "node", "index.js" ]
 
                 <button 
                   onClick={deriveSchemaFromExample}
-                  disabled={isDerivingSchema || !result.exampleJson}
+                  disabled={!result.exampleJson}
+                  title="Derive Schema"
                   className={`flex-none px-5 py-3 bg-purple-600/10 border border-purple-500/30 hover:bg-purple-600/30 text-purple-300 rounded-2xl text-[10px] font-black uppercase transition-all flex items-center justify-center gap-2 active:scale-95 disabled:opacity-50`}
                 >
-                  <i className={`fas ${isDerivingSchema ? 'fa-sync fa-spin' : 'fa-wand-magic-sparkles'}`}></i>
+                  <i className="fas fa-wand-magic-sparkles"></i>
                 </button>
               </div>
 
-              <div className="grid grid-cols-2 gap-2">
+              <div className="grid grid-cols-3 gap-2">
                 <button 
                   onClick={validateAgainstSchema}
-                  disabled={isValidatingSchema || !displayedSchema}
+                  disabled={!displayedSchema}
                   className={`py-3 bg-transparent border border-white/10 text-gray-400 rounded-2xl text-[9px] font-black uppercase tracking-widest hover:border-purple-500/40 hover:text-purple-300 transition-all flex items-center justify-center gap-2 disabled:opacity-50`}
                 >
-                  <i className={`fas ${isValidatingSchema ? 'fa-sync fa-spin' : 'fa-shield-check'}`}></i>
+                  <i className="fas fa-shield-check"></i>
                   Audit
                 </button>
 
@@ -323,6 +587,15 @@ CMD [ "node", "index.js" ]
                   <i className={`fas ${isTestingPrompt ? 'fa-sync fa-spin' : 'fa-vial'}`}></i>
                   Test
                 </button>
+
+                <button 
+                  onClick={() => setShowEvaluation(true)}
+                  disabled={!displayedSchema}
+                  className="py-3 bg-transparent border border-white/10 text-gray-400 rounded-2xl text-[9px] font-black uppercase tracking-widest hover:border-purple-500/40 hover:text-purple-300 transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                  <i className="fas fa-flask-vial"></i>
+                  Evaluate
+                </button>
               </div>
             </div>
           </div>
@@ -343,10 +616,10 @@ CMD [ "node", "index.js" ]
           
           {/* Audit Report */}
           {validationReport && (
-            <div className="glass border-green-500/20 rounded-3xl p-6 sm:p-10 animate-in slide-in-from-top-4 duration-500 relative bg-green-500/5 shadow-2xl">
+            <div className={`glass rounded-3xl p-6 sm:p-10 animate-in slide-in-from-top-4 duration-500 relative shadow-2xl ${validationReport.valid ? 'border-green-500/20 bg-green-500/5' : 'border-red-500/20 bg-red-500/5'}`}>
               <div className="absolute top-6 right-6 flex items-center gap-3">
                 <button 
-                  onClick={() => copyToClipboard(validationReport, 'report-copy')}
+                  onClick={() => copyToClipboard(formatValidationReport(validationReport), 'report-copy')}
                   className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase transition-all shadow-xl ${copied === 'report-copy' ? 'bg-green-600 text-white' : 'bg-white/10 text-gray-400 hover:text-white'}`}
                 >
                   <i className={`fas ${copied === 'report-copy' ? 'fa-check' : 'fa-copy'} mr-2`}></i>
@@ -357,18 +630,44 @@ CMD [ "node", "index.js" ]
                 </button>
               </div>
               <div className="flex items-center gap-5 mb-8">
-                <div className="w-12 h-12 rounded-2xl bg-green-600 flex items-center justify-center text-white shadow-lg shadow-green-900/40"><i className="fas fa-clipboard-check text-xl"></i></div>
+                <div className={`w-12 h-12 rounded-2xl flex items-center justify-center text-white shadow-lg ${validationReport.valid ? 'bg-green-600 shadow-green-900/40' : 'bg-red-600 shadow-red-900/40'}`}>
+                  <i className={`fas ${validationReport.valid ? 'fa-clipboard-check' : 'fa-triangle-exclamation'} text-xl`}></i>
+                </div>
                 <div>
                   <h4 className="text-[11px] font-black text-white uppercase tracking-widest">Audit Result</h4>
-                  <p className="text-[9px] text-green-400 font-bold uppercase tracking-widest">Structural Compliance Met</p>
+                  <p className={`text-[9px] font-bold uppercase tracking-widest ${validationReport.valid ? 'text-green-400' : 'text-red-400'}`}>
+                    {validationReport.valid ? 'Structural Compliance Met' : `${validationReport.errors.length} Violation${validationReport.errors.length === 1 ? '' : 's'}`} // {validationReport.draft}
+                  </p>
                 </div>
               </div>
-              <div className="markdown-content text-[12px] text-gray-300 bg-black/40 p-6 rounded-2xl border border-white/5 max-h-[300px] overflow-y-auto scrollbar-thin">
-                <div dangerouslySetInnerHTML={{ __html: marked.parse(validationReport) as string }} />
-              </div>
+              {!validationReport.valid && (
+                <div className="text-[11px] text-gray-300 bg-black/40 rounded-2xl border border-white/5 max-h-[300px] overflow-y-auto scrollbar-thin divide-y divide-white/5">
+                  {validationReport.errors.map((err, i) => (
+                    <div key={i} className="p-4 space-y-1">
+                      <div className="flex items-center gap-3 font-mono">
+                        <span className="text-red-400">{err.instancePath || '/'}</span>
+                        <span className="px-2 py-0.5 rounded-md bg-white/5 text-[9px] font-black uppercase tracking-widest text-gray-500">{err.keyword}</span>
+                      </div>
+                      <p className="text-gray-300">{err.message}</p>
+                      <p className="text-[10px] font-mono text-gray-600">
+                        expected <span className="text-green-500/80">{JSON.stringify(err.expected)}</span> / actual <span className="text-red-400/80">{JSON.stringify(err.actual)}</span>
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           )}
 
+          {showLint && displayedSchema && (
+            <LintPanel
+              schema={displayedSchema}
+              example={working.exampleJson}
+              onApplySchema={editSchemaDraft}
+              onClose={() => setShowLint(false)}
+            />
+          )}
+
           {/* Test Synthesis Output */}
           {testResult && (
             <div className="glass border-purple-500/20 rounded-3xl p-6 sm:p-10 animate-in slide-in-from-top-4 duration-500 relative bg-purple-500/5">
@@ -397,12 +696,51 @@ CMD [ "node", "index.js" ]
             </div>
           )}
 
+          {isEditing && (
+            <div className="glass rounded-3xl px-6 py-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4 border-yellow-500/20 bg-yellow-500/5 animate-in slide-in-from-top-4 duration-500">
+              <div className="flex items-center gap-3 text-[10px] font-black uppercase tracking-widest">
+                <i className="fas fa-pen-to-square text-yellow-400"></i>
+                <span className="text-white">Editing</span>
+                <span className="text-gray-700">//</span>
+                <span className={dirtyKeys.length ? 'text-yellow-400' : 'text-gray-500'}>
+                  {dirtyKeys.length ? `${dirtyKeys.length} unsaved change${dirtyKeys.length === 1 ? '' : 's'}` : 'No changes'}
+                </span>
+                {diagnostics.some(d => d.severity === 'error') && (
+                  <>
+                    <span className="text-gray-700">//</span>
+                    <span className="text-red-400">{diagnostics.filter(d => d.severity === 'error').length} errors</span>
+                  </>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={discardEdits}
+                  className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-white/5 text-gray-400 hover:text-white hover:bg-white/10 transition-all"
+                >
+                  {dirtyKeys.length ? 'Discard' : 'Close'}
+                </button>
+                <button
+                  onClick={saveEdits}
+                  disabled={dirtyKeys.length === 0}
+                  title={result.editedFrom && isSaved ? 'Update this saved copy' : 'Save the edited result to favorites as a modified copy'}
+                  className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-purple-600 hover:bg-purple-500 text-white transition-all active:scale-95 disabled:opacity-40"
+                >
+                  <i className="fas fa-floppy-disk mr-2"></i>
+                  {result.editedFrom && isSaved ? 'Save Changes' : 'Save as Copy'}
+                </button>
+              </div>
+            </div>
+          )}
+
           <div className="glass rounded-[2rem] sm:rounded-[3.5rem] overflow-hidden flex flex-col h-full shadow-2xl min-h-[500px] sm:min-h-[700px] border-white/5">
             {/* User Friendly Tab Selection */}
             <div className="flex items-center bg-black/60 border-b border-white/5 p-3 overflow-x-auto no-scrollbar scroll-smooth">
               {[
                 {id: 'json', label: 'JSON Preview', icon: 'fa-code'},
                 {id: 'ts', label: 'TypeScript', icon: 'fa-brackets-curly'},
+                {id: 'code', label: 'Codegen', icon: 'fa-layer-group'},
+                {id: 'llm', label: 'LLM Export', icon: 'fa-plug'},
+                {id: 'mock', label: 'Mock Data', icon: 'fa-dice'},
                 {id: 'schema', label: 'Schema', icon: 'fa-project-diagram'},
                 {id: 'cloud', label: 'Cloud Node', icon: 'fa-cloud-bolt'},
                 {id: 'integration', label: 'Setup', icon: 'fa-terminal'}
@@ -415,16 +753,45 @@ CMD [ "node", "index.js" ]
                   <i className={`fas ${tab.icon} opacity-50`}></i>
                   {tab.label}
                   {tab.id === 'cloud' && <span className="w-1.5 h-1.5 rounded-full bg-blue-500 animate-pulse"></span>}
+                  {isEditing && TAB_ARTIFACTS[tab.id] && diagnosticsFor(TAB_ARTIFACTS[tab.id]).some(d => d.severity === 'error') && (
+                    <span className="w-1.5 h-1.5 rounded-full bg-red-500"></span>
+                  )}
                 </button>
               ))}
               <div className="flex-grow"></div>
               {activeTab !== 'integration' && (
                 <div className="flex items-center gap-2 mr-3">
+                  {activeTab === 'schema' && (
+                    <div className="flex p-1 bg-black/40 rounded-xl border border-white/5">
+                      {(['source', 'tree'] as const).map(view => (
+                        <button
+                          key={view}
+                          onClick={() => setSchemaView(view)}
+                          className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase transition-all ${schemaView === view ? 'bg-purple-600 text-white shadow-lg' : 'text-gray-600 hover:text-gray-400'}`}
+                        >
+                          <i className={`fas ${view === 'tree' ? 'fa-sitemap' : 'fa-code'} mr-1.5`}></i>
+                          {view === 'tree' ? 'Tree' : 'Source'}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {!isEditing && TAB_ARTIFACTS[activeTab] && !(activeTab === 'schema' && schemaView === 'tree') && (
+                    <button
+                      onClick={() => setIsEditing(true)}
+                      className="px-5 py-2.5 rounded-xl text-[10px] font-black uppercase transition-all flex items-center gap-3 shadow-xl active:scale-90 bg-white/5 text-gray-500 hover:text-white hover:bg-white/10"
+                    >
+                      <i className="fas fa-pen"></i>
+                      <span>Edit</span>
+                    </button>
+                  )}
                   <button 
                     onClick={() => {
-                      const content = activeTab === 'json' ? result.exampleJson : 
-                                    activeTab === 'ts' ? result.tsInterface : 
-                                    activeTab === 'cloud' ? (cloudMode === 'functions' ? getCloudFunctionSnippet() : cloudMode === 'firebase' ? getFirebaseFunctionSnippet() : getCloudRunSnippet()) :
+                      const content = activeTab === 'json' ? working.exampleJson : 
+                                    activeTab === 'ts' ? working.tsInterface : 
+                                    activeTab === 'code' ? generatedCode :
+                                    activeTab === 'llm' ? schemaExport?.code :
+                                    activeTab === 'mock' ? mockData?.text :
+                                    activeTab === 'cloud' ? snippet?.code :
                                     displayedSchema;
                       copyToClipboard(content, 'tab-copy');
                     }}
@@ -443,45 +810,321 @@ CMD [ "node", "index.js" ]
                  <div className="h-full flex flex-col relative space-y-8">
                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-5 bg-blue-600/10 border border-blue-500/20 rounded-2xl">
                      <div className="flex items-center gap-4">
-                       <div className="w-12 h-12 rounded-xl bg-blue-600 flex items-center justify-center text-white"><i className={`fas ${cloudMode === 'functions' ? 'fa-bolt' : cloudMode === 'firebase' ? 'fa-fire' : 'fa-box'}`}></i></div>
+                       <div className="w-12 h-12 rounded-xl bg-blue-600 flex items-center justify-center text-white"><i className={snippetInfo.icon}></i></div>
                        <div>
                          <h5 className="text-[10px] font-black text-white uppercase tracking-widest">Deployment Paradigm</h5>
                          <p className="text-[9px] text-gray-400 font-medium">Switch between cloud ecosystems.</p>
                        </div>
                      </div>
                      <div className="flex p-1 bg-black/40 rounded-xl border border-white/5 overflow-x-auto no-scrollbar">
-                        <button 
-                          onClick={() => setCloudMode('functions')}
-                          className={`px-4 py-2 rounded-lg text-[9px] font-black uppercase transition-all whitespace-nowrap ${cloudMode === 'functions' ? 'bg-blue-600 text-white shadow-lg' : 'text-gray-600 hover:text-gray-400'}`}
-                        >
-                          GCP Func
-                        </button>
-                        <button 
-                          onClick={() => setCloudMode('firebase')}
-                          className={`px-4 py-2 rounded-lg text-[9px] font-black uppercase transition-all whitespace-nowrap ${cloudMode === 'firebase' ? 'bg-orange-600 text-white shadow-lg' : 'text-gray-600 hover:text-gray-400'}`}
+                       {SNIPPET_TARGETS.map(target => (
+                         <button
+                           key={target.id}
+                           onClick={() => setSnippetTarget(target.id)}
+                           className={`px-4 py-2 rounded-lg text-[9px] font-black uppercase transition-all whitespace-nowrap ${snippetTarget === target.id ? 'bg-blue-600 text-white shadow-lg' : 'text-gray-600 hover:text-gray-400'}`}
+                         >
+                           {target.label}
+                         </button>
+                       ))}
+                     </div>
+                   </div>
+
+                   <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                     <label className="space-y-2">
+                       <span className="block text-[9px] font-black text-gray-600 uppercase tracking-widest">Model</span>
+                       <input
+                         value={snippetParams.model}
+                         onChange={(e) => updateSnippetParams({ model: e.target.value })}
+                         className="w-full bg-black/40 border border-white/5 rounded-xl px-3 py-2 text-[11px] font-mono text-gray-300 focus:outline-none focus:border-blue-500/40"
+                       />
+                     </label>
+                     <label className="space-y-2">
+                       <span className="block text-[9px] font-black text-gray-600 uppercase tracking-widest">Temperature</span>
+                       <input
+                         type="number"
+                         min={0}
+                         max={2}
+                         step={0.1}
+                         value={snippetParams.temperature}
+                         onChange={(e) => updateSnippetParams({ temperature: Math.min(2, Math.max(0, Number(e.target.value) || 0)) })}
+                         className="w-full bg-black/40 border border-white/5 rounded-xl px-3 py-2 text-[11px] font-mono text-gray-300 focus:outline-none focus:border-blue-500/40"
+                       />
+                     </label>
+                     <div className="space-y-2">
+                       <span className="block text-[9px] font-black text-gray-600 uppercase tracking-widest">Auth</span>
+                       <div className="flex p-1 bg-black/40 rounded-xl border border-white/5">
+                         {SNIPPET_AUTH_MODES.map(mode => (
+                           <button
+                             key={mode.id}
+                             onClick={() => updateSnippetParams({ auth: mode.id })}
+                             disabled={!snippetInfo.server}
+                             title={mode.env ? `Checked against ${mode.env}` : 'No authentication'}
+                             className={`flex-1 px-2 py-1.5 rounded-lg text-[9px] font-black uppercase transition-all whitespace-nowrap disabled:opacity-30 ${snippetParams.auth === mode.id ? 'bg-blue-600 text-white shadow-lg' : 'text-gray-600 hover:text-gray-400'}`}
+                           >
+                             {mode.label}
+                           </button>
+                         ))}
+                       </div>
+                     </div>
+                     <div className="space-y-2">
+                       <span className="block text-[9px] font-black text-gray-600 uppercase tracking-widest">CORS</span>
+                       <button
+                         onClick={() => updateSnippetParams({ cors: !snippetParams.cors })}
+                         disabled={!snippetInfo.server}
+                         className={`w-full px-3 py-2 rounded-xl border text-[9px] font-black uppercase tracking-widest transition-all disabled:opacity-30 ${snippetParams.cors ? 'bg-blue-600/20 border-blue-500/30 text-blue-300' : 'bg-black/40 border-white/5 text-gray-600'}`}
+                       >
+                         <i className={`fas ${snippetParams.cors ? 'fa-globe' : 'fa-lock'} mr-2`}></i>
+                         {snippetParams.cors ? 'Any Origin' : 'Same Origin'}
+                       </button>
+                     </div>
+                   </div>
+
+                   <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-5 bg-black/40 border border-white/5 rounded-2xl">
+                     <div>
+                       <h5 className="text-[10px] font-black text-white uppercase tracking-widest">Project Scaffold</h5>
+                       <p className="text-[9px] text-gray-500 font-medium">
+                         Harness, schema.json, types, output validation, a mocked-model test and deploy files. {PROJECT_TARGETS.find(t => t.id === projectTarget)?.description}.
+                       </p>
+                     </div>
+                     <div className="flex items-center gap-2">
+                       <div className="flex p-1 bg-black/40 rounded-xl border border-white/5">
+                         {PROJECT_TARGETS.map(target => (
+                           <button
+                             key={target.id}
+                             onClick={() => setProjectTarget(target.id)}
+                             className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase transition-all whitespace-nowrap ${projectTarget === target.id ? 'bg-blue-600 text-white shadow-lg' : 'text-gray-600 hover:text-gray-400'}`}
+                           >
+                             <i className={`${target.icon} mr-1.5`}></i>
+                             {target.label}
+                           </button>
+                         ))}
+                       </div>
+                       <button
+                         onClick={downloadProject}
+                         disabled={!parsedSchema}
+                         title={parsedSchema ? undefined : 'The project needs a valid JSON schema'}
+                         className="px-4 py-2.5 rounded-xl text-[9px] font-black uppercase tracking-widest bg-blue-600 hover:bg-blue-500 text-white transition-all active:scale-95 disabled:opacity-30 whitespace-nowrap"
+                       >
+                         <i className="fas fa-file-zipper mr-2"></i>
+                         Download Project
+                       </button>
+                     </div>
+                   </div>
+
+                   {snippet && snippet.warnings.length > 0 && (
+                     <div className="space-y-1">
+                       {snippet.warnings.map(warning => (
+                         <p key={warning} className="text-[10px] text-yellow-400/80">
+                           <i className="fas fa-triangle-exclamation mr-2"></i>
+                           {warning}
+                         </p>
+                       ))}
+                     </div>
+                   )}
+
+                   <div className="flex-grow flex flex-col">
+                      <div className="flex items-center justify-between mb-4">
+                        <span className="text-[10px] font-black text-gray-700 uppercase tracking-widest">
+                          file: {snippetInfo.fileName} <span className="text-gray-800">//</span> {snippetInfo.runtime}
+                        </span>
+                        <div className="flex items-center gap-4">
+                          {snippetInfo.console && (
+                            <a href={snippetInfo.console.url} target="_blank" className="text-[9px] font-black text-blue-500 hover:text-blue-400 uppercase">
+                              {snippetInfo.console.label}
+                            </a>
+                          )}
+                          <button
+                            onClick={() => snippet && downloadFile(snippet.code, snippetInfo.fileName.split('/').pop()!, snippetInfo.contentType)}
+                            disabled={!snippet}
+                            className="text-[9px] font-black text-blue-500 hover:text-blue-400 uppercase disabled:opacity-30 flex items-center gap-2"
+                          >
+                            <i className="fas fa-download"></i>
+                            Download
+                          </button>
+                        </div>
+                      </div>
+                      <pre className="flex-grow text-[12px] sm:text-[14px] font-mono text-gray-400 leading-relaxed overflow-auto max-h-[500px] scrollbar-thin">
+                        {snippet?.code}
+                      </pre>
+                   </div>
+                 </div>
+               ) : activeTab === 'code' ? (
+                 <div className="h-full flex flex-col relative space-y-8">
+                   <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-5 bg-purple-600/10 border border-purple-500/20 rounded-2xl">
+                     <div className="flex items-center gap-4">
+                       <div className="w-12 h-12 rounded-xl bg-purple-600 flex items-center justify-center text-white"><i className={codeTarget.icon}></i></div>
+                       <div>
+                         <h5 className="text-[10px] font-black text-white uppercase tracking-widest">Local Code Generator</h5>
+                         <p className="text-[9px] text-gray-400 font-medium">Built from the schema in your browser. No model call.</p>
+                       </div>
+                     </div>
+                     <div className="flex p-1 bg-black/40 rounded-xl border border-white/5 overflow-x-auto no-scrollbar">
+                       {CODEGEN_TARGETS.map(target => (
+                         <button
+                           key={target.id}
+                           onClick={() => setCodeLanguage(target.id)}
+                           className={`px-4 py-2 rounded-lg text-[9px] font-black uppercase transition-all whitespace-nowrap ${codeLanguage === target.id ? 'bg-purple-600 text-white shadow-lg' : 'text-gray-600 hover:text-gray-400'}`}
+                         >
+                           {target.label}
+                         </button>
+                       ))}
+                     </div>
+                   </div>
+
+                   <div className="flex-grow flex flex-col">
+                      <div className="flex items-center justify-between mb-4">
+                        <span className="text-[10px] font-black text-gray-700 uppercase tracking-widest">
+                          file: {codeTarget.fileName(rootTypeName)}
+                        </span>
+                        <button
+                          onClick={() => downloadFile(generatedCode, codeTarget.fileName(rootTypeName), codeTarget.contentType)}
+                          disabled={!generatedCode}
+                          className="text-[9px] font-black text-purple-400 hover:text-purple-300 uppercase disabled:opacity-30 flex items-center gap-2"
                         >
-                          Firebase
+                          <i className="fas fa-download"></i>
+                          Download
                         </button>
-                        <button 
-                          onClick={() => setCloudMode('run')}
-                          className={`px-4 py-2 rounded-lg text-[9px] font-black uppercase transition-all whitespace-nowrap ${cloudMode === 'run' ? 'bg-blue-600 text-white shadow-lg' : 'text-gray-600 hover:text-gray-400'}`}
+                      </div>
+                      <pre className="flex-grow text-[12px] sm:text-[14px] font-mono text-gray-400 leading-relaxed overflow-auto max-h-[500px] scrollbar-thin selection:bg-purple-900/40">
+                        {generatedCode || "// No schema to generate from yet..."}
+                      </pre>
+                   </div>
+                 </div>
+               ) : activeTab === 'llm' ? (
+                 <div className="h-full flex flex-col relative space-y-8">
+                   <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-5 bg-purple-600/10 border border-purple-500/20 rounded-2xl">
+                     <div className="flex items-center gap-4">
+                       <div className="w-12 h-12 rounded-xl bg-purple-600 flex items-center justify-center text-white"><i className={exportInfo.icon}></i></div>
+                       <div>
+                         <h5 className="text-[10px] font-black text-white uppercase tracking-widest">Structured Output & Tools</h5>
+                         <p className="text-[9px] text-gray-400 font-medium">Ready to paste into the Gemini, OpenAI or MCP SDKs.</p>
+                       </div>
+                     </div>
+                     <div className="flex p-1 bg-black/40 rounded-xl border border-white/5 overflow-x-auto no-scrollbar">
+                       {SCHEMA_EXPORT_TARGETS.map(target => (
+                         <button
+                           key={target.id}
+                           onClick={() => setExportTarget(target.id)}
+                           className={`px-4 py-2 rounded-lg text-[9px] font-black uppercase transition-all whitespace-nowrap ${exportTarget === target.id ? 'bg-purple-600 text-white shadow-lg' : 'text-gray-600 hover:text-gray-400'}`}
+                         >
+                           {target.label}
+                         </button>
+                       ))}
+                     </div>
+                   </div>
+
+                   {schemaExport && schemaExport.warnings.length > 0 && (
+                     <div className="p-5 bg-yellow-500/5 border border-yellow-500/20 rounded-2xl space-y-2 max-h-48 overflow-y-auto scrollbar-thin">
+                       <h5 className="text-[10px] font-black text-yellow-400 uppercase tracking-widest flex items-center gap-2">
+                         <i className="fas fa-exclamation-triangle"></i>
+                         {schemaExport.warnings.length} unsupported {schemaExport.warnings.length === 1 ? 'keyword' : 'keywords'} for {exportInfo.label}
+                       </h5>
+                       {schemaExport.warnings.map((warning, i) => (
+                         <p key={i} className="text-[10px] font-mono text-yellow-200/70">
+                           <span className="text-yellow-400">{warning.path}</span> [{warning.keyword}] {warning.message}
+                         </p>
+                       ))}
+                     </div>
+                   )}
+
+                   <div className="flex-grow flex flex-col">
+                      <div className="flex items-center justify-between mb-4">
+                        <span className="text-[10px] font-black text-gray-700 uppercase tracking-widest">
+                          file: {exportInfo.fileName(rootTypeName)}
+                        </span>
+                        <button
+                          onClick={() => schemaExport && downloadFile(schemaExport.code, exportInfo.fileName(rootTypeName), exportInfo.contentType)}
+                          disabled={!schemaExport}
+                          className="text-[9px] font-black text-purple-400 hover:text-purple-300 uppercase disabled:opacity-30 flex items-center gap-2"
                         >
-                          Cloud Run
+                          <i className="fas fa-download"></i>
+                          Download
                         </button>
+                      </div>
+                      <pre className="flex-grow text-[12px] sm:text-[14px] font-mono text-gray-400 leading-relaxed overflow-auto max-h-[500px] scrollbar-thin selection:bg-purple-900/40">
+                        {schemaExport?.code || "// No schema to export yet..."}
+                      </pre>
+                   </div>
+                 </div>
+               ) : activeTab === 'mock' ? (
+                 <div className="h-full flex flex-col relative space-y-8">
+                   <div className="flex flex-col xl:flex-row xl:items-center justify-between gap-4 p-5 bg-purple-600/10 border border-purple-500/20 rounded-2xl">
+                     <div className="flex items-center gap-4">
+                       <div className="w-12 h-12 rounded-xl bg-purple-600 flex items-center justify-center text-white"><i className="fas fa-dice"></i></div>
+                       <div>
+                         <h5 className="text-[10px] font-black text-white uppercase tracking-widest">Offline Fixtures</h5>
+                         <p className="text-[9px] text-gray-400 font-medium">Seeded records from the schema. Same seed, same data. No model call.</p>
+                       </div>
+                     </div>
+                     <div className="flex flex-wrap items-center gap-3">
+                       <label className="flex items-center gap-2 text-[9px] font-black text-gray-500 uppercase tracking-widest">
+                         Records
+                         <input
+                           type="number"
+                           min={1}
+                           max={MAX_MOCK_RECORDS}
+                           value={mockCount}
+                           onChange={(e) => setMockCount(Math.min(MAX_MOCK_RECORDS, Math.max(1, Number(e.target.value) || 1)))}
+                           className="w-20 bg-black/40 border border-white/5 rounded-lg px-2 py-1.5 text-[10px] font-mono text-white focus:outline-none focus:border-purple-600"
+                         />
+                       </label>
+                       <label className="flex items-center gap-2 text-[9px] font-black text-gray-500 uppercase tracking-widest">
+                         Seed
+                         <input
+                           type="text"
+                           value={mockSeed}
+                           onChange={(e) => setMockSeed(e.target.value)}
+                           className="w-20 bg-black/40 border border-white/5 rounded-lg px-2 py-1.5 text-[10px] font-mono text-white focus:outline-none focus:border-purple-600"
+                         />
+                       </label>
+                       <button
+                         onClick={() => setMockSeed(Math.random().toString(36).slice(2, 8))}
+                         title="New random seed"
+                         className="w-8 h-8 rounded-lg bg-black/40 border border-white/5 text-gray-500 hover:text-white transition-all"
+                       >
+                         <i className="fas fa-shuffle text-[10px]"></i>
+                       </button>
+                       <div className="flex p-1 bg-black/40 rounded-xl border border-white/5">
+                         {MOCK_FORMATS.map(format => {
+                           const unavailable = format.id === 'csv' && !!mockData && !mockData.columns;
+                           return (
+                             <button
+                               key={format.id}
+                               onClick={() => setMockFormat(format.id)}
+                               disabled={unavailable}
+                               title={unavailable ? 'CSV needs an object schema with scalar properties only' : undefined}
+                               className={`px-4 py-2 rounded-lg text-[9px] font-black uppercase transition-all whitespace-nowrap disabled:opacity-30 ${mockData?.format === format.id ? 'bg-purple-600 text-white shadow-lg' : 'text-gray-600 hover:text-gray-400'}`}
+                             >
+                               {format.label}
+                             </button>
+                           );
+                         })}
+                       </div>
                      </div>
                    </div>
-                   
+
                    <div className="flex-grow flex flex-col">
                       <div className="flex items-center justify-between mb-4">
                         <span className="text-[10px] font-black text-gray-700 uppercase tracking-widest">
-                          {cloudMode === 'functions' ? 'entry_point: generateData' : cloudMode === 'firebase' ? 'sdk: firebase-functions/v2' : 'target: containerized_api'}
+                          file: {mockFileName}
+                          {!!mockData?.invalid && (
+                            <span className="ml-3 px-2 py-0.5 rounded-md bg-red-500/10 text-red-400" title="Some constraints (such as complex patterns) could not be met; these records fail the schema">
+                              <i className="fas fa-triangle-exclamation mr-1"></i>
+                              {mockData.invalid} of {mockData.total} invalid
+                            </span>
+                          )}
                         </span>
-                        <a href={cloudMode === 'firebase' ? "https://console.firebase.google.com" : (cloudMode === 'functions' ? "https://console.cloud.google.com/functions" : "https://console.cloud.google.com/run")} target="_blank" className="text-[9px] font-black text-blue-500 hover:text-blue-400 uppercase">
-                          {cloudMode === 'firebase' ? 'Firebase Console' : 'GCP Console'}
-                        </a>
+                        <button
+                          onClick={() => mockData && downloadFile(mockData.text, mockFileName, mockFormatInfo.contentType)}
+                          disabled={!mockData}
+                          className="text-[9px] font-black text-purple-400 hover:text-purple-300 uppercase disabled:opacity-30 flex items-center gap-2"
+                        >
+                          <i className="fas fa-download"></i>
+                          Download
+                        </button>
                       </div>
-                      <pre className="flex-grow text-[12px] sm:text-[14px] font-mono text-gray-400 leading-relaxed overflow-auto max-h-[500px] scrollbar-thin">
-                        {cloudMode === 'functions' ? getCloudFunctionSnippet() : cloudMode === 'firebase' ? getFirebaseFunctionSnippet() : getCloudRunSnippet()}
+                      <pre className="flex-grow text-[12px] sm:text-[14px] font-mono text-gray-400 leading-relaxed overflow-auto max-h-[500px] scrollbar-thin selection:bg-purple-900/40">
+                        {mockData?.text || "// No schema to generate records from yet..."}
                       </pre>
                    </div>
                  </div>
@@ -505,6 +1148,20 @@ CMD [ "node", "index.js" ]
                       </div>
                     </div>
                  </div>
+               ) : activeTab === 'schema' && schemaView === 'tree' ? (
+                 <SchemaTreeEditor
+                   schema={displayedSchema || ''}
+                   rootName={rootTypeName}
+                   onChange={editSchemaDraft}
+                   onRegenerateTs={regenerateTsInterface}
+                 />
+               ) : isEditing && TAB_ARTIFACTS[activeTab] ? (
+                 <ArtifactEditor
+                   value={working[TAB_ARTIFACTS[activeTab]] || ''}
+                   onChange={(value) => editArtifact(TAB_ARTIFACTS[activeTab], value)}
+                   diagnostics={diagnosticsFor(TAB_ARTIFACTS[activeTab])}
+                   modified={dirtyKeys.includes(TAB_ARTIFACTS[activeTab])}
+                 />
                ) : (
                  <div className="h-full flex flex-col relative">
                    <button 
@@ -518,8 +1175,19 @@ CMD [ "node", "index.js" ]
                      {copied === 'floating-copy' ? 'Copied' : 'Copy Code'}
                    </button>
 
+                   {activeTab === 'schema' && inference && (
+                     <InferencePanel
+                       inference={inference}
+                       extraSamples={extraSamples}
+                       sampleErrors={sampleErrors}
+                       onSamplesChange={setExtraSamples}
+                       onReinfer={deriveSchemaFromExample}
+                       onDiscard={discardDerivedSchema}
+                     />
+                   )}
+
                    <pre className="flex-grow text-[12px] sm:text-[14px] font-mono text-gray-400 leading-relaxed overflow-auto max-h-[600px] scrollbar-thin selection:bg-purple-900/40">
-                    {activeTab === 'json' ? safeJson(result.exampleJson) : 
+                    {activeTab === 'json' ? renderExampleJson() : 
                      activeTab === 'ts' ? (result.tsInterface || "// Processing TS structure...") : 
                      safeJson(displayedSchema)}
                   </pre>
@@ -539,6 +1207,48 @@ CMD [ "node", "index.js" ]
           </div>
         </section>
       </div>
+
+      {showEvaluation && (
+        <EvaluationPanel
+          title={result.title}
+          schema={displayedSchema}
+          jsonPrompt={fillTemplate(working.jsonPrompt)}
+          onClose={() => setShowEvaluation(false)}
+        />
+      )}
+
+      {showComparison && (
+        <ComparisonPanel
+          title={result.title}
+          schema={displayedSchema}
+          jsonPrompt={fillTemplate(working.jsonPrompt)}
+          variations={filledVariations}
+          onPromote={promoteVariation}
+          onClose={() => setShowComparison(false)}
+        />
+      )}
+
+      {showCompatibility && (
+        <CompatibilityPanel
+          title={result.title}
+          currentSchema={displayedSchema || ''}
+          revisions={isSaved ? revisions : undefined}
+          favorites={favorites}
+          onClose={() => setShowCompatibility(false)}
+        />
+      )}
+
+      {showHistory && revisions && (
+        <RevisionHistory
+          title={result.title}
+          revisions={revisions}
+          onRestore={(revision) => {
+            onRestoreRevision(revision);
+            setShowHistory(false);
+          }}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
     </div>
   );
 };
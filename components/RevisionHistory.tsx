@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import { Revision, RevisionSource } from '../types';
+import { diffRevisions } from '../services/revisionHistory';
+import { CompatibilityReport, compareSchemaTexts } from '../services/schemaCompatibility';
+
+interface RevisionHistoryProps {
+  title: string;
+  revisions: Revision[];
+  onRestore: (revision: Revision) => void;
+  onClose: () => void;
+}
+
+const SOURCE_STYLES: Record<RevisionSource, { label: string; icon: string; tone: string }> = {
+  saved: { label: 'Saved', icon: 'fa-bookmark', tone: 'bg-purple-500/10 text-purple-400' },
+  edit: { label: 'Edit', icon: 'fa-pen', tone: 'bg-yellow-500/10 text-yellow-400' },
+  rediscovery: { label: 'Re-discovery', icon: 'fa-rotate', tone: 'bg-blue-500/10 text-blue-400' },
+  chat: { label: 'Chat', icon: 'fa-wand-magic-sparkles', tone: 'bg-pink-500/10 text-pink-400' },
+  restore: { label: 'Restore', icon: 'fa-clock-rotate-left', tone: 'bg-green-500/10 text-green-400' }
+};
+
+const ARTIFACT_NAMES: Record<string, string> = {
+  description: 'Description',
+  jsonPrompt: 'Prompt',
+  exampleJson: 'Example',
+  jsonSchema: 'Schema',
+  tsInterface: 'TS Interface'
+};
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ title, revisions, onRestore, onClose }) => {
+  const latest = revisions.length - 1;
+  const [fromIndex, setFromIndex] = useState(Math.max(0, latest - 1));
+  const [toIndex, setToIndex] = useState(latest);
+
+  const diff = useMemo(
+    () => (revisions[fromIndex] && revisions[toIndex] ? diffRevisions(revisions[fromIndex].snapshot, revisions[toIndex].snapshot) : null),
+    [revisions, fromIndex, toIndex]
+  );
+
+  // Only schemas that parse on both sides can be checked for compatibility
+  const compatibility = useMemo((): CompatibilityReport | null => {
+    const from = revisions[fromIndex]?.snapshot.jsonSchema;
+    const to = revisions[toIndex]?.snapshot.jsonSchema;
+    if (!from || !to || from === to) return null;
+    try {
+      return compareSchemaTexts(from, to);
+    } catch (e) {
+      return null;
+    }
+  }, [revisions, fromIndex, toIndex]);
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-8 animate-in fade-in duration-300"
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="absolute inset-0 bg-black/90 backdrop-blur-xl" onClick={onClose} />
+      <div className="relative w-full max-w-6xl bg-[#141414] border border-gray-800 rounded-[2.5rem] shadow-2xl flex flex-col max-h-[90vh] overflow-hidden animate-in zoom-in-95 duration-500">
+
+        <div className="flex items-center justify-between p-8 border-b border-gray-800 bg-[#161616]">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 rounded-2xl flex items-center justify-center text-xl bg-purple-600/10 text-purple-400">
+              <i className="fas fa-clock-rotate-left"></i>
+            </div>
+            <div>
+              <h2 className="text-2xl font-black text-white leading-none mb-1">Revision History</h2>
+              <p className="text-xs text-gray-500 uppercase tracking-[0.2em] font-bold truncate max-w-md">{title}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-12 h-12 rounded-2xl hover:bg-gray-800 flex items-center justify-center transition-all text-gray-400 hover:text-white hover:rotate-90 active:scale-90"
+            aria-label="Close"
+          >
+            <i className="fas fa-times text-xl"></i>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-hidden grid grid-cols-1 md:grid-cols-5">
+          <div className="md:col-span-2 overflow-y-auto scrollbar-thin border-b md:border-b-0 md:border-r border-gray-800 divide-y divide-white/5">
+            {revisions.map((revision, index) => ({ revision, index })).reverse().map(({ revision, index }) => {
+              const style = SOURCE_STYLES[revision.source];
+              return (
+                <div key={revision.id} className={`px-6 py-4 flex items-center gap-4 ${index === fromIndex || index === toIndex ? 'bg-white/5' : ''}`}>
+                  <span className="text-[10px] font-mono text-gray-600 w-8">r{index + 1}</span>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className={`px-2 py-0.5 rounded-md text-[8px] font-black uppercase tracking-widest ${style.tone}`}>
+                        <i className={`fas ${style.icon} mr-1`}></i>
+                        {style.label}
+                      </span>
+                      {index === latest && <span className="text-[8px] font-black text-gray-500 uppercase tracking-widest">Current</span>}
+                    </div>
+                    <p className="text-[9px] font-mono text-gray-500">{new Date(revision.createdAt).toLocaleString()}</p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => setFromIndex(index)}
+                      title="Compare from this revision"
+                      className={`w-7 h-7 rounded-lg text-[9px] font-black transition-all ${index === fromIndex ? 'bg-red-500/20 text-red-300' : 'bg-white/5 text-gray-600 hover:text-white'}`}
+                    >
+                      A
+                    </button>
+                    <button
+                      onClick={() => setToIndex(index)}
+                      title="Compare to this revision"
+                      className={`w-7 h-7 rounded-lg text-[9px] font-black transition-all ${index === toIndex ? 'bg-green-500/20 text-green-300' : 'bg-white/5 text-gray-600 hover:text-white'}`}
+                    >
+                      B
+                    </button>
+                    <button
+                      onClick={() => onRestore(revision)}
+                      disabled={index === latest}
+                      title="Restore this revision"
+                      className="w-7 h-7 rounded-lg bg-white/5 text-gray-500 hover:text-purple-300 hover:bg-purple-500/10 transition-all disabled:opacity-20 disabled:hover:bg-white/5"
+                    >
+                      <i className="fas fa-rotate-left text-[10px]"></i>
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="md:col-span-3 overflow-y-auto scrollbar-thin p-8 space-y-8">
+            <div className="flex items-center gap-3 text-[10px] font-black uppercase tracking-widest">
+              <span className="text-red-300">r{fromIndex + 1}</span>
+              <i className="fas fa-arrow-right text-gray-700"></i>
+              <span className="text-green-300">r{toIndex + 1}</span>
+              {diff && diff.changedArtifacts.length > 0 && (
+                <span className="text-gray-500 normal-case tracking-normal font-mono">
+                  changed: {diff.changedArtifacts.map(a => ARTIFACT_NAMES[a]).join(', ')}
+                </span>
+              )}
+            </div>
+
+            {diff && diff.changedArtifacts.length === 0 && (
+              <p className="text-[11px] text-gray-500">These revisions are identical.</p>
+            )}
+
+            {diff && diff.changedArtifacts.length > 0 && (
+              <>
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <h4 className="text-[10px] font-black text-purple-400 uppercase tracking-widest">Fields</h4>
+                    {compatibility && (
+                      <span className={`text-[9px] font-black uppercase tracking-widest ${compatibility.counts.breaking ? 'text-red-400' : compatibility.counts.risky ? 'text-yellow-400' : 'text-green-400'}`}>
+                        {compatibility.counts.breaking} breaking // {compatibility.counts.risky} risky // suggest {compatibility.bump}
+                      </span>
+                    )}
+                  </div>
+                  {diff.fields.length === 0 ? (
+                    <p className="text-[11px] text-gray-500">No fields were added, removed or retyped.</p>
+                  ) : (
+                    <div className="bg-black/40 rounded-2xl border border-white/5 divide-y divide-white/5">
+                      {diff.fields.map(field => (
+                        <div key={field.path} className="flex items-center gap-4 px-5 py-2.5 text-[10px] font-mono">
+                          <span className={`w-4 text-center font-black ${field.change === 'added' ? 'text-green-400' : field.change === 'removed' ? 'text-red-400' : 'text-yellow-400'}`}>
+                            {field.change === 'added' ? '+' : field.change === 'removed' ? '−' : '~'}
+                          </span>
+                          <span className="flex-1 text-gray-300 truncate">{field.path}</span>
+                          <span className="text-gray-500">
+                            {field.change === 'retyped' ? `${field.before} → ${field.after}` : field.after || field.before}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-3">
+                  <h4 className="text-[10px] font-black text-purple-400 uppercase tracking-widest">Prompt</h4>
+                  {diff.changedArtifacts.includes('jsonPrompt') ? (
+                    <div className="bg-black/40 border border-white/5 rounded-2xl p-5 text-[11px] font-mono text-gray-400 leading-relaxed whitespace-pre-wrap max-h-96 overflow-y-auto scrollbar-thin">
+                      {diff.prompt.map((part, i) => (
+                        <span
+                          key={i}
+                          className={part.type === 'added' ? 'bg-green-500/15 text-green-300' : part.type === 'removed' ? 'bg-red-500/15 text-red-300 line-through' : ''}
+                        >
+                          {part.text}
+                        </span>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-[11px] text-gray-500">The prompt text did not change.</p>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RevisionHistory;
@@ -0,0 +1,282 @@
+import React, { useMemo, useState } from 'react';
+import {
+  SCHEMA_NODE_TYPES,
+  SchemaNodeType,
+  SchemaTreeNode,
+  addProperty,
+  buildSchemaTree,
+  deleteProperty,
+  renameProperty,
+  retypeNode,
+  setPropertyRequired
+} from '../services/schemaTree';
+
+interface SchemaTreeEditorProps {
+  schema: string;
+  rootName: string;
+  onChange: (schema: string) => void;
+  onRegenerateTs: () => void;
+}
+
+const TYPE_TONES: Record<string, string> = {
+  string: 'bg-green-500/10 text-green-400',
+  number: 'bg-blue-500/10 text-blue-400',
+  integer: 'bg-blue-500/10 text-blue-400',
+  boolean: 'bg-yellow-500/10 text-yellow-400',
+  object: 'bg-purple-500/10 text-purple-400',
+  array: 'bg-pink-500/10 text-pink-400',
+  null: 'bg-gray-500/10 text-gray-400'
+};
+
+const DEFAULT_OPEN_DEPTH = 2;
+
+const SchemaTreeEditor: React.FC<SchemaTreeEditorProps> = ({ schema, rootName, onChange, onRegenerateTs }) => {
+  const [openDepth, setOpenDepth] = useState(DEFAULT_OPEN_DEPTH);
+  const [toggled, setToggled] = useState<Set<string>>(new Set());
+  const [renaming, setRenaming] = useState<{ id: string; value: string } | null>(null);
+  const [adding, setAdding] = useState<{ id: string; name: string; type: SchemaNodeType } | null>(null);
+
+  const parsed = useMemo(() => {
+    try {
+      const value = JSON.parse(schema);
+      return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, any>) : null;
+    } catch (e) {
+      return null;
+    }
+  }, [schema]);
+  const tree = useMemo(() => (parsed ? buildSchemaTree(parsed, rootName) : null), [parsed, rootName]);
+
+  if (!parsed || !tree) {
+    return (
+      <div className="flex-grow flex items-center justify-center text-[11px] text-gray-500">
+        The schema is not a JSON object yet. Fix it in the source view to explore it as a tree.
+      </div>
+    );
+  }
+
+  const commit = (next: Record<string, any>) => onChange(JSON.stringify(next, null, 2));
+
+  const isOpen = (node: SchemaTreeNode, depth: number) => (depth < openDepth) !== toggled.has(node.id);
+  const toggle = (id: string) => setToggled(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+  const expandAll = (open: boolean) => {
+    setOpenDepth(open ? Infinity : 1);
+    setToggled(new Set());
+  };
+
+  const canHoldProperties = (node: SchemaTreeNode) =>
+    !node.recursive && (node.types.includes('object') || node.children.some(child => child.kind === 'property'));
+  const ownerOf = (node: SchemaTreeNode) => node.children.find(child => child.kind === 'property')?.owner || node.pointer;
+  const siblingNames = (node: SchemaTreeNode) => node.children.filter(child => child.kind === 'property').map(child => child.name);
+
+  const submitRename = (node: SchemaTreeNode, siblings: string[]) => {
+    const name = renaming?.value.trim();
+    setRenaming(null);
+    if (!name || name === node.name || siblings.includes(name)) return;
+    commit(renameProperty(parsed, node.owner!, node.name, name));
+  };
+
+  const submitAdd = (node: SchemaTreeNode, depth: number) => {
+    const name = adding?.name.trim();
+    if (!adding || !name || siblingNames(node).includes(name)) return;
+    commit(addProperty(parsed, ownerOf(node), name, adding.type));
+    setAdding(null);
+    if (!isOpen(node, depth)) toggle(node.id);
+  };
+
+  const renderNode = (node: SchemaTreeNode, depth: number, siblings: string[]): React.ReactNode => {
+    const open = isOpen(node, depth);
+    const editableType = !node.recursive && node.kind !== 'variant';
+    const currentType = node.types.length === 1 && (SCHEMA_NODE_TYPES as string[]).includes(node.types[0]) && !node.ref ? node.types[0] : '';
+    const nameTaken = adding?.id === node.id && siblingNames(node).includes(adding.name.trim());
+
+    return (
+      <div key={node.id || 'root'}>
+        <div
+          className="group/row flex items-start gap-3 py-2 pr-3 rounded-xl hover:bg-white/5 transition-all"
+          style={{ paddingLeft: `${depth * 20 + 8}px` }}
+        >
+          <button
+            onClick={() => toggle(node.id)}
+            disabled={node.children.length === 0}
+            className="w-4 mt-0.5 text-gray-600 hover:text-white disabled:opacity-0 transition-all"
+            aria-label={open ? 'Collapse' : 'Expand'}
+          >
+            <i className={`fas fa-chevron-${open ? 'down' : 'right'} text-[9px]`}></i>
+          </button>
+
+          <div className="flex-1 min-w-0 space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              {renaming?.id === node.id ? (
+                <input
+                  autoFocus
+                  value={renaming.value}
+                  onChange={(e) => setRenaming({ id: node.id, value: e.target.value })}
+                  onBlur={() => submitRename(node, siblings)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') submitRename(node, siblings);
+                    if (e.key === 'Escape') setRenaming(null);
+                  }}
+                  className="bg-black/60 border border-purple-500/40 rounded-lg px-2 py-0.5 text-[11px] font-mono text-white focus:outline-none w-40"
+                />
+              ) : (
+                <span
+                  onDoubleClick={() => node.kind === 'property' && setRenaming({ id: node.id, value: node.name })}
+                  className={`text-[11px] font-mono ${node.kind === 'property' ? 'text-white' : 'text-gray-500'}`}
+                >
+                  {node.name}
+                </span>
+              )}
+
+              {editableType ? (
+                <select
+                  value={currentType}
+                  onChange={(e) => commit(retypeNode(parsed, node.pointer, e.target.value as SchemaNodeType))}
+                  title={node.ref ? `References ${node.ref}; changing the type replaces the reference` : 'Change type'}
+                  className={`rounded-md px-1.5 py-0.5 text-[8px] font-black uppercase tracking-widest border-0 focus:outline-none cursor-pointer ${TYPE_TONES[currentType] || 'bg-white/5 text-gray-400'}`}
+                >
+                  {!currentType && <option value="">{node.types.join(' | ')}</option>}
+                  {SCHEMA_NODE_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                </select>
+              ) : (
+                <span className="px-1.5 py-0.5 rounded-md text-[8px] font-black uppercase tracking-widest bg-white/5 text-gray-400">
+                  {node.types.join(' | ')}
+                </span>
+              )}
+
+              {node.kind === 'property' && (
+                <button
+                  onClick={() => commit(setPropertyRequired(parsed, node.owner!, node.name, !node.required))}
+                  title="Toggle required"
+                  className={`px-1.5 py-0.5 rounded-md text-[8px] font-black uppercase tracking-widest transition-all ${node.required ? 'bg-red-500/10 text-red-300' : 'bg-white/5 text-gray-600 hover:text-gray-400'}`}
+                >
+                  {node.required ? 'Required' : 'Optional'}
+                </button>
+              )}
+              {node.format && (
+                <span className="px-1.5 py-0.5 rounded-md text-[8px] font-black uppercase tracking-widest bg-blue-500/10 text-blue-300">{node.format}</span>
+              )}
+              {node.ref && (
+                <span className="text-[9px] font-mono text-gray-600" title={node.recursive ? 'Recursive reference' : undefined}>
+                  {node.ref}
+                </span>
+              )}
+              {node.constraints.map(constraint => (
+                <span key={constraint} className="px-1.5 py-0.5 rounded-md text-[9px] font-mono bg-white/5 text-gray-500 max-w-xs truncate" title={constraint}>
+                  {constraint}
+                </span>
+              ))}
+
+              <div className="ml-auto flex items-center gap-1 opacity-0 group-hover/row:opacity-100 transition-all">
+                {canHoldProperties(node) && (
+                  <button
+                    onClick={() => setAdding({ id: node.id, name: '', type: 'string' })}
+                    title="Add property"
+                    className="w-6 h-6 rounded-lg bg-white/5 text-gray-500 hover:text-green-300 hover:bg-green-500/10 transition-all"
+                  >
+                    <i className="fas fa-plus text-[9px]"></i>
+                  </button>
+                )}
+                {node.kind === 'property' && (
+                  <>
+                    <button
+                      onClick={() => setRenaming({ id: node.id, value: node.name })}
+                      title="Rename property"
+                      className="w-6 h-6 rounded-lg bg-white/5 text-gray-500 hover:text-white hover:bg-white/10 transition-all"
+                    >
+                      <i className="fas fa-i-cursor text-[9px]"></i>
+                    </button>
+                    <button
+                      onClick={() => commit(deleteProperty(parsed, node.owner!, node.name))}
+                      title="Delete property"
+                      className="w-6 h-6 rounded-lg bg-white/5 text-gray-500 hover:text-red-300 hover:bg-red-500/10 transition-all"
+                    >
+                      <i className="fas fa-trash text-[9px]"></i>
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+            {node.description && <p className="text-[10px] text-gray-500 leading-relaxed">{node.description}</p>}
+          </div>
+        </div>
+
+        {adding?.id === node.id && (
+          <div className="flex items-center gap-2 py-2" style={{ paddingLeft: `${(depth + 1) * 20 + 36}px` }}>
+            <input
+              autoFocus
+              value={adding.name}
+              onChange={(e) => setAdding({ ...adding, name: e.target.value })}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') submitAdd(node, depth);
+                if (e.key === 'Escape') setAdding(null);
+              }}
+              placeholder="propertyName"
+              className={`bg-black/60 border rounded-lg px-2 py-1 text-[11px] font-mono text-white focus:outline-none w-40 ${nameTaken ? 'border-red-500/50' : 'border-white/10 focus:border-purple-500/40'}`}
+            />
+            <select
+              value={adding.type}
+              onChange={(e) => setAdding({ ...adding, type: e.target.value as SchemaNodeType })}
+              className="bg-black/60 border border-white/10 rounded-lg px-2 py-1 text-[10px] font-mono text-gray-300 focus:outline-none"
+            >
+              {SCHEMA_NODE_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+            </select>
+            <button
+              onClick={() => submitAdd(node, depth)}
+              disabled={!adding.name.trim() || nameTaken}
+              className="px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest bg-purple-600 hover:bg-purple-500 text-white transition-all disabled:opacity-40"
+            >
+              Add
+            </button>
+            <button
+              onClick={() => setAdding(null)}
+              className="px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest bg-white/5 text-gray-500 hover:text-white transition-all"
+            >
+              Cancel
+            </button>
+            {nameTaken && <span className="text-[9px] text-red-400">Already defined</span>}
+          </div>
+        )}
+
+        {open && node.children.map(child => renderNode(child, depth + 1, siblingNames(node)))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex-grow flex flex-col gap-4 min-h-0">
+      <div className="flex flex-wrap items-center gap-2 text-[9px] font-black uppercase tracking-widest">
+        <button
+          onClick={() => expandAll(true)}
+          className="px-3 py-1.5 rounded-lg bg-white/5 text-gray-500 hover:text-white hover:bg-white/10 transition-all"
+        >
+          <i className="fas fa-angles-down mr-1.5"></i>Expand All
+        </button>
+        <button
+          onClick={() => expandAll(false)}
+          className="px-3 py-1.5 rounded-lg bg-white/5 text-gray-500 hover:text-white hover:bg-white/10 transition-all"
+        >
+          <i className="fas fa-angles-up mr-1.5"></i>Collapse All
+        </button>
+        <span className="text-gray-700 normal-case tracking-normal font-medium">Double-click a property to rename it.</span>
+        <div className="flex-grow"></div>
+        <button
+          onClick={onRegenerateTs}
+          title="Rebuild the TypeScript interface from this schema"
+          className="px-3 py-1.5 rounded-lg bg-purple-500/10 text-purple-300 hover:bg-purple-500/20 transition-all"
+        >
+          <i className="fas fa-arrows-rotate mr-1.5"></i>Regenerate TS
+        </button>
+      </div>
+      <div className="flex-grow overflow-auto max-h-[600px] scrollbar-thin">
+        {renderNode(tree, 0, [])}
+      </div>
+    </div>
+  );
+};
+
+export default SchemaTreeEditor;
@@ -0,0 +1,196 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EngineFault, SearchResult } from '../types';
+import { ParsedSpec, SpecTargetKind, importSpecTarget, parseSpec } from '../services/specImport';
+import { classifyError } from '../services/engineErrors';
+import { isAbortError } from '../services/geminiService';
+
+interface SpecImportPanelProps {
+  onClose: () => void;
+  onImported: (result: SearchResult, label: string) => void;
+}
+
+const FORMAT_LABELS: Record<ParsedSpec['format'], string> = {
+  openapi3: 'OpenAPI 3.x',
+  swagger2: 'Swagger 2.0',
+  graphql: 'GraphQL SDL'
+};
+
+const KIND_ICONS: Record<SpecTargetKind, string> = {
+  request: 'fa-upload',
+  response: 'fa-download',
+  component: 'fa-cube',
+  type: 'fa-diagram-project'
+};
+
+const SpecImportPanel: React.FC<SpecImportPanelProps> = ({ onClose, onImported }) => {
+  const [specText, setSpecText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [spec, setSpec] = useState<ParsedSpec | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [fault, setFault] = useState<EngineFault | null>(null);
+  const abort = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abort.current?.abort(), []);
+
+  const handleParse = (text: string, name: string) => {
+    setSpec(null);
+    setSelectedId(null);
+    setFault(null);
+    if (!text.trim()) {
+      setParseError(null);
+      return;
+    }
+    try {
+      const parsed = parseSpec(text, name);
+      setSpec(parsed);
+      setSelectedId(parsed.targets[0]?.id ?? null);
+      setParseError(null);
+    } catch (e: any) {
+      setParseError(e.message);
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    const text = await file.text();
+    setSpecText(text);
+    setFileName(file.name);
+    handleParse(text, file.name);
+  };
+
+  const handleGenerate = async () => {
+    const target = spec?.targets.find(t => t.id === selectedId);
+    if (!spec || !target) return;
+    abort.current?.abort();
+    const controller = new AbortController();
+    abort.current = controller;
+    setIsGenerating(true);
+    setFault(null);
+    try {
+      const result = await importSpecTarget(spec, target, { signal: controller.signal });
+      onImported(result, `${spec.title}: ${target.label}`);
+    } catch (e: any) {
+      if (!isAbortError(e)) setFault(classifyError(e).toFault());
+    } finally {
+      if (abort.current === controller) setIsGenerating(false);
+    }
+  };
+
+  const visibleTargets = (spec?.targets || []).filter(t => t.label.toLowerCase().includes(filter.trim().toLowerCase()));
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-8 animate-in fade-in duration-300"
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="absolute inset-0 bg-black/90 backdrop-blur-xl" onClick={onClose} />
+      <div className="relative w-full max-w-4xl bg-[#141414] border border-gray-800 rounded-[2.5rem] shadow-2xl flex flex-col max-h-[85vh] overflow-hidden animate-in zoom-in-95 duration-500">
+
+        <div className="flex items-center justify-between p-8 border-b border-gray-800 bg-[#161616]">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 rounded-2xl flex items-center justify-center text-xl bg-purple-600/10 text-purple-400">
+              <i className="fas fa-file-import"></i>
+            </div>
+            <div>
+              <h2 className="text-2xl font-black text-white leading-none mb-1">Import Spec</h2>
+              <p className="text-xs text-gray-500 uppercase tracking-[0.2em] font-bold">
+                {spec
+                  ? `${FORMAT_LABELS[spec.format]} // ${spec.title}${spec.version ? ` v${spec.version}` : ''} // ${spec.targets.length} targets`
+                  : 'OpenAPI 3.x // Swagger 2.0 // GraphQL SDL'}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-12 h-12 rounded-2xl hover:bg-gray-800 flex items-center justify-center transition-all text-gray-400 hover:text-white hover:rotate-90 active:scale-90"
+            aria-label="Close"
+          >
+            <i className="fas fa-times text-xl"></i>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 grid grid-cols-1 md:grid-cols-2 gap-6 scrollbar-thin">
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Spec Source</label>
+              <label className="px-3 py-1.5 bg-white/5 text-gray-400 hover:text-white rounded-lg text-[9px] font-black uppercase tracking-widest transition-all cursor-pointer">
+                <i className="fas fa-upload mr-2"></i>Upload
+                <input
+                  type="file"
+                  accept=".json,.yaml,.yml,.graphql,.graphqls,.gql"
+                  className="hidden"
+                  onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+                />
+              </label>
+            </div>
+            <textarea
+              value={specText}
+              onChange={(e) => {
+                setSpecText(e.target.value);
+                setFileName('');
+              }}
+              onBlur={() => handleParse(specText, fileName)}
+              placeholder={'openapi: 3.0.3\ninfo:\n  title: Petstore\n...\n\n# or GraphQL SDL\ntype User { id: ID! }'}
+              spellCheck={false}
+              className="w-full h-72 bg-black/40 border border-white/5 rounded-2xl p-4 text-[11px] font-mono text-gray-300 focus:outline-none focus:border-purple-600 resize-none scrollbar-thin"
+            />
+            {fileName && <p className="text-[9px] font-mono text-gray-600 truncate">{fileName}</p>}
+            {parseError && <p className="text-[11px] font-mono text-red-400 break-words">{parseError}</p>}
+          </div>
+
+          <div className="space-y-3 flex flex-col min-h-0">
+            <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Target Body Or Type</label>
+            <input
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter operations and types"
+              disabled={!spec}
+              className="w-full bg-[#151515] border border-white/5 rounded-xl px-3 py-2 text-[11px] font-mono text-white focus:outline-none focus:border-purple-600 disabled:opacity-40"
+            />
+            <div className="flex-1 min-h-[12rem] max-h-72 overflow-y-auto divide-y divide-white/5 bg-black/40 rounded-2xl border border-white/5 scrollbar-thin">
+              {!spec && <p className="text-[11px] text-gray-600 text-center py-10">Paste or upload a spec to list its bodies and types.</p>}
+              {visibleTargets.map(target => (
+                <button
+                  key={target.id}
+                  onClick={() => setSelectedId(target.id)}
+                  className={`w-full flex items-center gap-3 px-4 py-2.5 text-left transition-all ${selectedId === target.id ? 'bg-purple-600/15' : 'hover:bg-white/5'}`}
+                >
+                  <i className={`fas ${KIND_ICONS[target.kind]} text-[10px] ${selectedId === target.id ? 'text-purple-400' : 'text-gray-600'}`}></i>
+                  <span className="text-[11px] font-mono text-gray-300 truncate">{target.label}</span>
+                  <span className="ml-auto text-[8px] font-black uppercase tracking-widest text-gray-600">{target.rootName}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-8 border-t border-gray-800 bg-[#161616] space-y-4">
+          {fault && (
+            <div className="bg-red-500/5 border border-red-900/50 rounded-2xl p-4 space-y-1">
+              <p className="text-[10px] font-black text-red-400 uppercase tracking-widest">{fault.title}</p>
+              <p className="text-[10px] font-mono text-gray-500 break-words">{fault.message}</p>
+              <p className="text-[11px] text-gray-300">{fault.remediation}</p>
+            </div>
+          )}
+          <div className="flex items-center gap-4">
+            <p className="text-[10px] text-gray-500 leading-relaxed flex-1">
+              Schema, TypeScript and example are generated locally from the spec. The synthesis model only writes the prompt and description.
+            </p>
+            <button
+              onClick={handleGenerate}
+              disabled={!selectedId || isGenerating}
+              className="px-8 py-3 bg-purple-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-purple-500 transition-all shadow-xl disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {isGenerating ? <><i className="fas fa-circle-notch animate-spin mr-2"></i>Generating</> : 'Generate Package'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SpecImportPanel;
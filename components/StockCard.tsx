@@ -1,7 +1,7 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { GoogleGenAI } from '@google/genai';
+import { resolveStage } from '../services/llmProvider';
 
 interface StockDataPoint {
   date: string;
@@ -43,21 +43,19 @@ const StockCard: React.FC<StockCardProps> = ({ symbol: initialSymbol }) => {
     setError(null);
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+      const { provider, model } = resolveStage('research');
       
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: `Fetch the current stock price and the last 7 days of daily closing prices for the symbol "${activeSymbol}". 
+      const response = await provider.generate({
+        model,
+        prompt: `Fetch the current stock price and the last 7 days of daily closing prices for the symbol "${activeSymbol}". 
                   Format the output strictly as a JSON object with keys: 
                   "currentPrice" (number), "changePercent" (number), and "history" (array of {date: string, price: number}). 
                   Keep dates very short, like 'Mon', 'Tue', etc.`,
-        config: {
-          tools: [{ googleSearch: {} }],
-        },
+        grounding: provider.supportsGrounding,
       });
 
       const text = response.text || '';
-      const sourceUrl = response.candidates?.[0]?.groundingMetadata?.groundingChunks?.[0]?.web?.uri;
+      const sourceUrl = response.groundingMetadata?.groundingChunks?.[0]?.web?.uri;
 
       const jsonMatch = text.match(/\{[\s\S]*\}/);
       if (!jsonMatch) {
@@ -0,0 +1,88 @@
+import React from 'react';
+import { TemplateIssue, TemplateValues, TemplateVariable, coerceTemplateValue } from '../services/promptTemplate';
+
+interface TemplateVariablesFormProps {
+  variables: TemplateVariable[];
+  issues: TemplateIssue[];
+  values: TemplateValues;
+  onChange: (values: TemplateValues) => void;
+}
+
+const inputClass = 'w-full bg-black/40 border rounded-xl px-3 py-2 text-[11px] font-mono text-gray-200 outline-none transition-colors';
+
+const TemplateVariablesForm: React.FC<TemplateVariablesFormProps> = ({ variables, issues, values, onChange }) => {
+  const set = (name: string, value: string | boolean) => onChange({ ...values, [name]: value });
+  const changed = variables.some(v => v.name in values && values[v.name] !== v.defaultValue);
+
+  const field = (variable: TemplateVariable) => {
+    const raw = variable.name in values ? values[variable.name] : variable.defaultValue;
+    const error = 'error' in coerceTemplateValue(variable, raw);
+    const border = error ? 'border-red-500/50' : 'border-white/10 focus:border-purple-500/50';
+
+    if (variable.type === 'bool') {
+      const on = raw === true || raw === 'true';
+      return (
+        <button
+          onClick={() => set(variable.name, !on)}
+          className={`px-3 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${on ? 'bg-purple-600/20 border-purple-500/40 text-purple-300' : 'bg-black/40 border-white/10 text-gray-500'}`}
+        >
+          {on ? 'true' : 'false'}
+        </button>
+      );
+    }
+    if (variable.type === 'enum') {
+      return (
+        <select value={String(raw)} onChange={(e) => set(variable.name, e.target.value)} className={`${inputClass} ${border}`}>
+          {variable.options!.map(option => <option key={option} value={option}>{option}</option>)}
+        </select>
+      );
+    }
+    return (
+      <input
+        type={variable.type === 'string' ? 'text' : 'number'}
+        step={variable.type === 'int' ? 1 : 'any'}
+        value={String(raw)}
+        onChange={(e) => set(variable.name, e.target.value)}
+        className={`${inputClass} ${border}`}
+      />
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-[10px] font-black text-purple-400 uppercase tracking-widest">Template Variables</h4>
+        {changed && (
+          <button
+            onClick={() => onChange({})}
+            className="text-[9px] font-black text-gray-500 hover:text-purple-300 uppercase tracking-widest transition-colors"
+          >
+            <i className="fas fa-rotate-left mr-1"></i>
+            Defaults
+          </button>
+        )}
+      </div>
+      {variables.length > 0 && (
+        <div className="bg-black/20 border border-white/5 rounded-2xl p-4 space-y-3">
+          {variables.map(variable => (
+            <label key={variable.name} className="grid grid-cols-[7rem_1fr] items-center gap-3">
+              <span className="min-w-0">
+                <span className="block text-[10px] font-mono text-gray-300 truncate" title={variable.name}>{variable.name}</span>
+                <span className="block text-[8px] font-black text-gray-600 uppercase tracking-widest">{variable.type}</span>
+              </span>
+              {field(variable)}
+            </label>
+          ))}
+        </div>
+      )}
+      {issues.map((issue, i) => (
+        <p key={i} className="text-[9px] font-mono text-yellow-500/80">
+          <i className="fas fa-triangle-exclamation mr-1"></i>
+          {issue.message}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default TemplateVariablesForm;
@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import { ModelPrice, PipelineStage, PricingSettings, UsageRecord, UsageSummary } from '../types';
+import {
+  clearUsage,
+  formatTokens,
+  formatUsd,
+  loadPricing,
+  loadUsageRecords,
+  monthUsage,
+  savePricing,
+  sessionUsage,
+  subscribeUsage,
+  summarizeUsage
+} from '../services/usageLedger';
+import { PIPELINE_STAGES } from '../services/llmProvider';
+
+interface UsagePanelProps {
+  onClose: () => void;
+}
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string }[] = [
+  { key: 'inputPerMillion', label: 'Input / 1M' },
+  { key: 'outputPerMillion', label: 'Output / 1M' },
+  { key: 'groundingPerThousand', label: 'Grounded / 1K' }
+];
+
+const SummaryCard: React.FC<{ label: string; summary: UsageSummary; budget?: number | null }> = ({ label, summary, budget }) => (
+  <div className="bg-black/40 border border-white/5 rounded-2xl p-5 space-y-2">
+    <p className="text-[9px] font-black text-gray-500 uppercase tracking-widest">{label}</p>
+    <p className="text-3xl font-black text-white">{formatUsd(summary.costUsd)}</p>
+    <p className="text-[10px] font-mono text-gray-500">
+      {summary.calls} calls // {formatTokens(summary.promptTokens)} in // {formatTokens(summary.outputTokens)} out // {formatTokens(summary.groundingTokens)} grounding // {summary.groundedRequests} grounded
+    </p>
+    {budget != null && (
+      <div className="pt-1 space-y-1">
+        <div className="h-1.5 bg-white/5 rounded-full overflow-hidden">
+          <div
+            className={`h-full transition-all ${summary.costUsd >= budget ? 'bg-red-500' : summary.costUsd >= budget * 0.8 ? 'bg-yellow-500' : 'bg-purple-500'}`}
+            style={{ width: `${Math.min(100, budget > 0 ? (summary.costUsd / budget) * 100 : 100)}%` }}
+          />
+        </div>
+        <p className="text-[9px] font-black text-gray-600 uppercase tracking-widest">of {formatUsd(budget)} cap</p>
+      </div>
+    )}
+  </div>
+);
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ onClose }) => {
+  const [records, setRecords] = useState<UsageRecord[]>(loadUsageRecords());
+  const [pricing, setPricing] = useState<PricingSettings>(loadPricing());
+  const [newModel, setNewModel] = useState('');
+
+  useEffect(() => subscribeUsage(() => setRecords(loadUsageRecords())), []);
+
+  const updatePricing = (next: PricingSettings) => {
+    setPricing(next);
+    savePricing(next);
+  };
+
+  const updatePrice = (model: string, key: keyof ModelPrice, value: number) =>
+    updatePricing({ ...pricing, prices: { ...pricing.prices, [model]: { ...pricing.prices[model], [key]: value } } });
+
+  const removeModel = (model: string) => {
+    const { [model]: _, ...rest } = pricing.prices;
+    updatePricing({ ...pricing, prices: rest });
+  };
+
+  const addModel = () => {
+    const model = newModel.trim();
+    if (!model || pricing.prices[model]) return;
+    updatePricing({ ...pricing, prices: { ...pricing.prices, [model]: { inputPerMillion: 0, outputPerMillion: 0, groundingPerThousand: 0 } } });
+    setNewModel('');
+  };
+
+  const month = monthUsage(records);
+  const byStage = PIPELINE_STAGES.map(stage => [stage, summarizeUsage(records.filter(r => r.stage === stage))] as [PipelineStage, UsageSummary]);
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-8 animate-in fade-in duration-300"
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="absolute inset-0 bg-black/90 backdrop-blur-xl" onClick={onClose} />
+      <div className="relative w-full max-w-4xl bg-[#141414] border border-gray-800 rounded-[2.5rem] shadow-2xl flex flex-col max-h-[85vh] overflow-hidden animate-in zoom-in-95 duration-500">
+
+        <div className="flex items-center justify-between p-8 border-b border-gray-800 bg-[#161616]">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 rounded-2xl flex items-center justify-center text-xl bg-purple-600/10 text-purple-400">
+              <i className="fas fa-coins"></i>
+            </div>
+            <div>
+              <h2 className="text-2xl font-black text-white leading-none mb-1">Usage & Cost</h2>
+              <p className="text-xs text-gray-500 uppercase tracking-[0.2em] font-bold">{records.length} recorded calls</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-12 h-12 rounded-2xl hover:bg-gray-800 flex items-center justify-center transition-all text-gray-400 hover:text-white hover:rotate-90 active:scale-90"
+            aria-label="Close"
+          >
+            <i className="fas fa-times text-xl"></i>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8 scrollbar-thin">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <SummaryCard label="This Session" summary={sessionUsage(records)} />
+            <SummaryCard label="This Month" summary={month} budget={pricing.monthlyBudgetUsd} />
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {byStage.map(([stage, summary]) => (
+              <div key={stage} className="bg-white/5 rounded-xl px-4 py-3">
+                <p className="text-[9px] font-black text-gray-500 uppercase tracking-widest">{stage}</p>
+                <p className="text-sm font-black text-white">{formatUsd(summary.costUsd)}</p>
+                <p className="text-[9px] font-mono text-gray-600">{summary.calls} calls</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <h4 className="text-[10px] font-black text-purple-400 uppercase tracking-widest">Monthly Budget Cap</h4>
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="text-[11px] font-mono text-gray-500">$</span>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={pricing.monthlyBudgetUsd ?? ''}
+                placeholder="No cap"
+                onChange={(e) => updatePricing({ ...pricing, monthlyBudgetUsd: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+                className="w-32 bg-[#151515] border border-white/5 rounded-xl px-3 py-2 text-[11px] font-mono text-white focus:outline-none focus:border-purple-600"
+              />
+              <p className="text-[10px] text-gray-500 flex-1">New model calls are blocked once month-to-date spend reaches the cap. Leave empty for no cap.</p>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <h4 className="text-[10px] font-black text-purple-400 uppercase tracking-widest">Price Table (USD)</h4>
+            <div className="bg-black/40 rounded-2xl border border-white/5 overflow-hidden">
+              <table className="w-full text-left">
+                <thead>
+                  <tr className="text-[9px] font-black text-gray-600 uppercase tracking-widest border-b border-white/5">
+                    <th className="px-5 py-3">Model</th>
+                    {PRICE_FIELDS.map(field => <th key={field.key} className="px-3 py-3">{field.label}</th>)}
+                    <th className="px-3 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5">
+                  {Object.entries(pricing.prices).map(([model, price]) => (
+                    <tr key={model}>
+                      <td className="px-5 py-2 text-[11px] font-mono text-gray-300">{model === '*' ? 'Any other model' : model}</td>
+                      {PRICE_FIELDS.map(field => (
+                        <td key={field.key} className="px-3 py-2">
+                          <input
+                            type="number"
+                            min={0}
+                            step={0.01}
+                            value={price[field.key]}
+                            onChange={(e) => updatePrice(model, field.key, Math.max(0, Number(e.target.value) || 0))}
+                            className="w-24 bg-[#151515] border border-white/5 rounded-lg px-2 py-1 text-[11px] font-mono text-white focus:outline-none focus:border-purple-600"
+                          />
+                        </td>
+                      ))}
+                      <td className="px-3 py-2 text-right">
+                        {model !== '*' && (
+                          <button onClick={() => removeModel(model)} className="w-7 h-7 text-gray-600 hover:text-red-500 hover:bg-red-500/10 rounded-lg transition-all">
+                            <i className="fas fa-trash-alt text-[10px]"></i>
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex items-center gap-3">
+              <input
+                value={newModel}
+                onChange={(e) => setNewModel(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addModel()}
+                placeholder="model id"
+                className="w-56 bg-[#151515] border border-white/5 rounded-xl px-3 py-2 text-[11px] font-mono text-white focus:outline-none focus:border-purple-600"
+              />
+              <button
+                onClick={addModel}
+                className="px-4 py-2 bg-white/5 text-gray-400 hover:text-white rounded-xl text-[9px] font-black uppercase tracking-widest transition-all"
+              >
+                Add Model
+              </button>
+              <div className="flex-grow"></div>
+              <button
+                onClick={clearUsage}
+                className="px-4 py-2 bg-red-600/10 text-red-400 hover:bg-red-600/20 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all"
+              >
+                Clear History
+              </button>
+            </div>
+            <p className="text-[9px] text-gray-600">Price changes apply to new calls; recorded costs are kept as billed at the time.</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { diagnoseArtifacts } from './artifactDiagnostics';
+
+const artifacts = (jsonSchema: object, example: unknown) => ({
+  jsonPrompt: 'Describe a product',
+  exampleJson: JSON.stringify(example),
+  jsonSchema: JSON.stringify(jsonSchema),
+  tsInterface: ''
+});
+
+describe('diagnoseArtifacts', () => {
+  const schema = { type: 'object', properties: { price: { $ref: '#/definitions/100%' } }, definitions: { '100%': { type: 'number' } } };
+
+  it('does not throw on a $ref containing a stray "%"', () => {
+    expect(() => diagnoseArtifacts(artifacts(schema, { price: 1 }))).not.toThrow();
+    expect(diagnoseArtifacts(artifacts(schema, { price: 1 })).filter(d => d.artifact !== 'tsInterface')).toEqual([]);
+  });
+
+  it('still reports example violations behind such a $ref', () => {
+    const [diagnostic] = diagnoseArtifacts(artifacts(schema, { price: 'free' }));
+    expect(diagnostic.artifact).toBe('exampleJson');
+    expect(diagnostic.message).toContain('/price');
+  });
+});
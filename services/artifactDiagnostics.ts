@@ -0,0 +1,216 @@
+import { ArtifactKey, SearchResult } from "../types";
+import { escapePointerToken, validateJson } from "./schemaValidator";
+import { parseTsDeclarations } from "./consistencyChecker";
+import { parseTemplate } from "./promptTemplate";
+
+export interface ArtifactDiagnostic {
+  artifact: ArtifactKey;
+  severity: 'error' | 'warning';
+  message: string;
+  // 1-based position in the artifact text, when it can be located
+  line?: number;
+  column?: number;
+}
+
+export type EditableArtifacts = Pick<SearchResult, ArtifactKey>;
+
+const positionAt = (text: string, offset: number) => {
+  const before = text.slice(0, Math.max(0, offset));
+  const line = before.split('\n').length;
+  return { line, column: offset - before.lastIndexOf('\n') };
+};
+
+// V8 reports "at position N"; Firefox and Safari report "line L column C"
+const jsonErrorPosition = (text: string, message: string) => {
+  const position = message.match(/position (\d+)/);
+  if (position) return positionAt(text, Number(position[1]));
+  const lineColumn = message.match(/line (\d+) column (\d+)/);
+  if (lineColumn) return { line: Number(lineColumn[1]), column: Number(lineColumn[2]) };
+  return {};
+};
+
+const parseJsonArtifact = (artifact: ArtifactKey, text: string, diagnostics: ArtifactDiagnostic[]) => {
+  if (!text.trim()) {
+    diagnostics.push({ artifact, severity: 'error', message: 'Empty document' });
+    return { ok: false as const };
+  }
+  try {
+    return { ok: true as const, value: JSON.parse(text) as unknown };
+  } catch (e: any) {
+    const message = String(e?.message || e);
+    diagnostics.push({ artifact, severity: 'error', message: message.replace(/^JSON\.parse: /, ''), ...jsonErrorPosition(text, message) });
+    return { ok: false as const };
+  }
+};
+
+/**
+ * Maps every JSON Pointer in a well-formed document to the position of its value in the
+ * original text, so diagnostics point at what the user typed rather than a reformatted copy.
+ */
+export const locatePointers = (text: string): Map<string, { line: number; column: number }> => {
+  const positions = new Map<string, { line: number; column: number }>();
+  let i = 0;
+  const skip = () => {
+    while (i < text.length && /\s/.test(text[i])) i++;
+  };
+  const readString = () => {
+    const start = i++;
+    while (i < text.length && text[i] !== '"') i += text[i] === '\\' ? 2 : 1;
+    i++;
+    return JSON.parse(text.slice(start, i)) as string;
+  };
+  const value = (pointer: string) => {
+    skip();
+    positions.set(pointer, positionAt(text, i));
+    if (text[i] === '{') {
+      i++;
+      skip();
+      while (text[i] !== '}' && i < text.length) {
+        skip();
+        const key = readString();
+        skip();
+        i++;
+        value(`${pointer}/${escapePointerToken(key)}`);
+        skip();
+        if (text[i] === ',') i++;
+        skip();
+      }
+      i++;
+    } else if (text[i] === '[') {
+      i++;
+      skip();
+      let index = 0;
+      while (text[i] !== ']' && i < text.length) {
+        value(`${pointer}/${index++}`);
+        skip();
+        if (text[i] === ',') i++;
+        skip();
+      }
+      i++;
+    } else if (text[i] === '"') {
+      readString();
+    } else {
+      while (i < text.length && !/[\s,\]}]/.test(text[i])) i++;
+    }
+  };
+  value('');
+  return positions;
+};
+
+const BRACKETS: Record<string, string> = { '{': '}', '(': ')', '[': ']' };
+
+/**
+ * A syntax pass over the TS interface: balanced brackets, terminated strings and comments, and
+ * members that read `name: type`. It is not a type checker; it catches what breaks a paste.
+ */
+const diagnoseTypeScript = (source: string, diagnostics: ArtifactDiagnostic[]) => {
+  const artifact: ArtifactKey = 'tsInterface';
+  if (!source.trim()) {
+    diagnostics.push({ artifact, severity: 'error', message: 'Empty interface' });
+    return;
+  }
+
+  const stack: { char: string; offset: number }[] = [];
+  let structural = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === '/' && source[i + 1] === '/') {
+      i = source.indexOf('\n', i) === -1 ? source.length : source.indexOf('\n', i);
+    } else if (ch === '/' && source[i + 1] === '*') {
+      const end = source.indexOf('*/', i + 2);
+      if (end === -1) {
+        diagnostics.push({ artifact, severity: 'error', message: 'Unterminated block comment', ...positionAt(source, i) });
+        structural = true;
+        break;
+      }
+      i = end + 1;
+    } else if (ch === '"' || ch === "'" || ch === '`') {
+      let j = i + 1;
+      while (j < source.length && source[j] !== ch && (ch === '`' || source[j] !== '\n')) j += source[j] === '\\' ? 2 : 1;
+      if (source[j] !== ch) {
+        diagnostics.push({ artifact, severity: 'error', message: 'Unterminated string literal', ...positionAt(source, i) });
+        structural = true;
+      }
+      i = j;
+    } else if (BRACKETS[ch]) {
+      stack.push({ char: ch, offset: i });
+    } else if (Object.values(BRACKETS).includes(ch)) {
+      const open = stack.pop();
+      if (!open || BRACKETS[open.char] !== ch) {
+        diagnostics.push({
+          artifact,
+          severity: 'error',
+          message: open ? `'${ch}' does not close '${open.char}'` : `Unexpected '${ch}'`,
+          ...positionAt(source, i)
+        });
+        structural = true;
+        break;
+      }
+    }
+  }
+  if (!structural && stack.length > 0) {
+    const open = stack[stack.length - 1];
+    diagnostics.push({ artifact, severity: 'error', message: `'${open.char}' is never closed`, ...positionAt(source, open.offset) });
+  }
+  if (structural || stack.length > 0) return;
+
+  const { declarations, aliases } = parseTsDeclarations(source);
+  if (declarations.size === 0 && aliases.size === 0) {
+    diagnostics.push({ artifact, severity: 'error', message: 'No interface or type declarations found' });
+    return;
+  }
+
+  // Members sit one per line in the synthesized interfaces; continuation lines start with an operator or closer
+  let depth = 0;
+  source.split('\n').forEach((raw, index) => {
+    const line = raw.replace(/\/\/.*$/, '').trim();
+    const insideBody = depth > 0;
+    for (const ch of raw) {
+      if (ch === '{') depth++;
+      if (ch === '}') depth--;
+    }
+    if (!insideBody || !line || /^([|&}\])>*]|\/\*)/.test(line)) return;
+    const member = line.match(/^(?:readonly\s+)?(?:["'][^"']+["']|[\w$]+|\[[^\]]+\])\s*\??\s*:\s*(.*)$/);
+    if (!member) {
+      diagnostics.push({ artifact, severity: 'warning', message: `Expected "name: type", found "${line.slice(0, 40)}"`, line: index + 1, column: raw.indexOf(line) + 1 });
+    } else if (/^[;,]$/.test(member[1].trim())) {
+      diagnostics.push({ artifact, severity: 'error', message: 'Member is missing its type', line: index + 1, column: raw.indexOf(line) + 1 });
+    }
+  });
+};
+
+/**
+ * Runs every local check the workspace shows while editing: template placeholders in the prompt,
+ * JSON syntax for the example and schema, validation of the example against the schema, and a
+ * TS syntax pass.
+ */
+export const diagnoseArtifacts = (artifacts: EditableArtifacts): ArtifactDiagnostic[] => {
+  const diagnostics: ArtifactDiagnostic[] = [];
+
+  if (!artifacts.jsonPrompt.trim()) {
+    diagnostics.push({ artifact: 'jsonPrompt', severity: 'error', message: 'The prompt is empty' });
+  }
+  for (const issue of parseTemplate(artifacts.jsonPrompt).issues) {
+    diagnostics.push({ artifact: 'jsonPrompt', severity: 'warning', message: issue.message, ...positionAt(artifacts.jsonPrompt, issue.index) });
+  }
+
+  const example = parseJsonArtifact('exampleJson', artifacts.exampleJson, diagnostics);
+  const schema = parseJsonArtifact('jsonSchema', artifacts.jsonSchema || '', diagnostics);
+  if (schema.ok && (schema.value === null || Array.isArray(schema.value) || !['object', 'boolean'].includes(typeof schema.value))) {
+    diagnostics.push({ artifact: 'jsonSchema', severity: 'error', message: 'A schema must be an object or a boolean' });
+  } else if (schema.ok && example.ok) {
+    const report = validateJson(schema.value as Record<string, any>, example.value);
+    const positions = report.valid ? null : locatePointers(artifacts.exampleJson);
+    for (const error of report.errors) {
+      diagnostics.push({
+        artifact: 'exampleJson',
+        severity: 'error',
+        message: `${error.instancePath || '/'} [${error.keyword}] ${error.message}`,
+        ...positions?.get(error.instancePath)
+      });
+    }
+  }
+
+  diagnoseTypeScript(artifacts.tsInterface || '', diagnostics);
+  return diagnostics;
+};
@@ -0,0 +1,127 @@
+import { EngineFault, SearchResult } from "../types";
+import { discoverJsonPrompts, isAbortError } from "./geminiService";
+import { getCachedResult, putCachedResult } from "./discoveryCache";
+import { classifyError, sleep } from "./engineErrors";
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  query: string;
+  status: BatchItemStatus;
+  attempts: number;
+  fromCache?: boolean;
+  durationMs?: number;
+  result?: SearchResult;
+  fault?: EngineFault;
+}
+
+export interface BatchOptions {
+  concurrency: number;
+  // Discovery starts per minute across all workers; 0 disables the limit
+  requestsPerMinute: number;
+  useCache?: boolean;
+  signal?: AbortSignal;
+  onUpdate: (id: string, patch: Partial<BatchItem>) => void;
+}
+
+export interface BatchBundle {
+  generatedAt: string;
+  report: { query: string; status: BatchItemStatus; attempts: number; fromCache: boolean; durationMs?: number; error?: string }[];
+  results: { query: string; result: SearchResult }[];
+}
+
+export const MAX_CONCURRENCY = 6;
+
+const HEADER_NAMES = /^(query|queries|name|entity|entities|object|model|title)$/i;
+
+const firstCsvCell = (line: string) => {
+  const match = line.match(/^\s*"((?:[^"]|"")*)"|^([^,;\t]*)/);
+  return (match?.[1] !== undefined ? match[1].replace(/""/g, '"') : match?.[2] || '').trim();
+};
+
+/**
+ * Reads one query per line. CSV uploads use the first column and skip a header row; blank
+ * lines, `#` comments and duplicates are dropped.
+ */
+export const parseBatchInput = (text: string, fileName = ''): string[] => {
+  const isCsv = /\.csv$/i.test(fileName);
+  const lines = text.split(/\r?\n/).map(line => (isCsv ? firstCsvCell(line) : line.trim()));
+  if (isCsv && lines.length > 0 && HEADER_NAMES.test(lines[0])) lines.shift();
+  const seen = new Set<string>();
+  return lines.filter(line => {
+    const key = line.toLowerCase();
+    if (!line || line.startsWith('#') || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const createBatchItems = (queries: string[]): BatchItem[] =>
+  queries.map((query, i) => ({ id: `${Date.now().toString(36)}-${i}`, query, status: 'queued', attempts: 0 }));
+
+/**
+ * Runs discoveries through a fixed pool of workers. Starts are spaced to respect the rate
+ * limit; cache hits skip both the limiter and the provider.
+ */
+export const runBatch = async (items: BatchItem[], options: BatchOptions): Promise<void> => {
+  const { concurrency, requestsPerMinute, useCache = true, signal, onUpdate } = options;
+  const queue = [...items];
+  const interval = requestsPerMinute > 0 ? 60000 / requestsPerMinute : 0;
+  let nextStart = 0;
+
+  const acquireSlot = async () => {
+    const now = Date.now();
+    const wait = Math.max(0, nextStart - now);
+    nextStart = Math.max(now, nextStart) + interval;
+    await sleep(wait, signal);
+  };
+
+  const runItem = async (item: BatchItem) => {
+    const attempts = item.attempts + 1;
+    const startedAt = Date.now();
+    onUpdate(item.id, { status: 'running', attempts, fault: undefined });
+
+    const cached = useCache ? await getCachedResult(item.query) : null;
+    if (cached && !cached.status.stale) {
+      onUpdate(item.id, { status: 'done', result: cached.result, fromCache: true, durationMs: Date.now() - startedAt });
+      return;
+    }
+
+    try {
+      await acquireSlot();
+      const result = await discoverJsonPrompts(item.query, { signal });
+      putCachedResult(item.query, result);
+      onUpdate(item.id, { status: 'done', result, fromCache: false, durationMs: Date.now() - startedAt });
+    } catch (error: any) {
+      if (signal?.aborted || isAbortError(error)) {
+        onUpdate(item.id, { status: 'cancelled' });
+        return;
+      }
+      onUpdate(item.id, { status: 'failed', fault: classifyError(error).toFault(), durationMs: Date.now() - startedAt });
+    }
+  };
+
+  const worker = async () => {
+    while (queue.length > 0 && !signal?.aborted) {
+      await runItem(queue.shift()!);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(MAX_CONCURRENCY, concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  queue.forEach(item => onUpdate(item.id, { status: 'cancelled' }));
+};
+
+export const createBatchBundle = (items: BatchItem[]): BatchBundle => ({
+  generatedAt: new Date().toISOString(),
+  report: items.map(item => ({
+    query: item.query,
+    status: item.status,
+    attempts: item.attempts,
+    fromCache: !!item.fromCache,
+    durationMs: item.durationMs,
+    error: item.fault ? `${item.fault.title}: ${item.fault.message}` : undefined
+  })),
+  results: items.filter(item => item.result).map(item => ({ query: item.query, result: item.result! }))
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { generateCode } from './codeGenerator';
+
+describe('Rust target', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      self: { type: 'string' },
+      Self: { type: 'string' },
+      crate: { type: 'string' },
+      super: { type: 'string' },
+      type: { type: 'string' }
+    },
+    required: ['self', 'Self', 'crate', 'super', 'type']
+  };
+  const rust = generateCode(schema, 'rust');
+
+  it('suffixes path keywords and keeps their JSON names', () => {
+    expect(rust).toContain('#[serde(rename = "self")]\n    pub self_: String,');
+    expect(rust).toContain('#[serde(rename = "crate")]\n    pub crate_: String,');
+    expect(rust).toContain('#[serde(rename = "super")]\n    pub super_: String,');
+    expect(rust).toContain('#[serde(rename = "Self")]\n    pub self_2: String,');
+  });
+
+  it('never emits a raw path keyword', () => {
+    expect(rust).not.toMatch(/r#(self|Self|crate|super)\b/);
+  });
+
+  it('still uses raw identifiers for other keywords', () => {
+    expect(rust).toContain('pub r#type: String,');
+    expect(rust).not.toContain('rename = "type"');
+  });
+});
@@ -0,0 +1,909 @@
+import { toPascalCase } from "./tsGenerator";
+
+type JsonSchema = Record<string, any> | boolean;
+
+export type CodegenLanguage = 'zod' | 'pydantic' | 'go' | 'rust' | 'kotlin' | 'csharp' | 'protobuf';
+
+export interface CodegenTarget {
+  id: CodegenLanguage;
+  label: string;
+  icon: string;
+  contentType: string;
+  fileName: (rootName: string) => string;
+}
+
+interface Constraints {
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+type TypeNode = (
+  | { kind: 'primitive'; type: 'string' | 'integer' | 'number' | 'boolean'; format?: string }
+  | { kind: 'literal'; value: string | number | boolean | null }
+  | { kind: 'array'; items: TypeNode }
+  | { kind: 'map'; values: TypeNode }
+  | { kind: 'ref'; name: string }
+  | { kind: 'union'; variants: TypeNode[] }
+  | { kind: 'any' }
+) & { nullable?: boolean; constraints?: Constraints };
+
+interface FieldModel {
+  key: string;
+  type: TypeNode;
+  required: boolean;
+  description?: string;
+}
+
+type Model =
+  | { kind: 'object'; name: string; description?: string; fields: FieldModel[]; additional?: TypeNode }
+  | { kind: 'enum'; name: string; description?: string; values: string[] }
+  | { kind: 'alias'; name: string; description?: string; type: TypeNode };
+
+interface CodeModel {
+  root: string;
+  models: Model[];
+}
+
+const CONSTRAINT_KEYS: (keyof Constraints)[] = [
+  'minLength', 'maxLength', 'pattern', 'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'minItems', 'maxItems'
+];
+
+const refName = (ref: string) => toPascalCase(ref.split('/').pop() || 'Ref');
+
+const constraintsOf = (node: Record<string, any>): Constraints | undefined => {
+  const picked = CONSTRAINT_KEYS.filter(key => typeof node[key] === 'number' || (key === 'pattern' && typeof node[key] === 'string'));
+  return picked.length ? Object.fromEntries(picked.map(key => [key, node[key]])) : undefined;
+};
+
+/**
+ * Lowers a JSON Schema into named models every emitter can walk. Names follow the TypeScript
+ * generator so the languages line up with the interface tab.
+ */
+const buildCodeModel = (schema: JsonSchema, rootName: string): CodeModel => {
+  const models: Model[] = [];
+  const usedNames = new Set<string>();
+  const root = typeof schema === 'object' ? schema : {};
+  const definitions: Record<string, JsonSchema> = { ...(root.definitions || {}), ...(root.$defs || {}) };
+  const rootTypeName = toPascalCase(rootName);
+
+  const uniqueName = (base: string) => {
+    let name = toPascalCase(base);
+    let n = 2;
+    while (usedNames.has(name)) name = `${toPascalCase(base)}${n++}`;
+    usedNames.add(name);
+    return name;
+  };
+
+  const resolve = (node: JsonSchema): JsonSchema => {
+    if (typeof node !== 'object' || typeof node.$ref !== 'string') return node;
+    if (node.$ref === '#') return root;
+    const key = node.$ref.split('/').pop() || '';
+    return definitions[key] ?? true;
+  };
+
+  const convert = (node: JsonSchema, hint: string): TypeNode => {
+    if (typeof node !== 'object') return { kind: 'any' };
+    if (typeof node.$ref === 'string') {
+      if (node.$ref === '#') return { kind: 'ref', name: rootTypeName };
+      const key = node.$ref.split('/').pop() || '';
+      return key in definitions ? { kind: 'ref', name: refName(key) } : { kind: 'any' };
+    }
+    if (node.const !== undefined) {
+      return typeof node.const === 'object' && node.const !== null ? { kind: 'any' } : { kind: 'literal', value: node.const };
+    }
+    if (Array.isArray(node.enum)) {
+      const values = node.enum.filter((v: unknown) => v !== null);
+      const nullable = values.length < node.enum.length;
+      if (values.length > 0 && values.every((v: unknown) => typeof v === 'string')) {
+        const name = uniqueName(hint);
+        models.push({ kind: 'enum', name, description: node.description, values: Array.from(new Set<string>(values)) });
+        return { kind: 'ref', name, nullable };
+      }
+      const literals = values.filter((v: unknown) => typeof v !== 'object').map((value: any): TypeNode => ({ kind: 'literal', value }));
+      if (literals.length === 1) return { ...literals[0], nullable };
+      return literals.length ? { kind: 'union', variants: literals, nullable } : { kind: 'any' };
+    }
+    if (Array.isArray(node.anyOf) || Array.isArray(node.oneOf)) {
+      const options: JsonSchema[] = node.anyOf || node.oneOf;
+      const isNull = (v: JsonSchema) => typeof v === 'object' && (v.type === 'null' || v.const === null);
+      const rest = options.filter(v => !isNull(v));
+      const nullable = rest.length < options.length;
+      if (rest.length === 1) return { ...convert(rest[0], hint), nullable };
+      if (rest.length === 0) return { kind: 'any' };
+      return { kind: 'union', variants: rest.map((v, i) => convert(v, `${hint}Option${i + 1}`)), nullable };
+    }
+    if (Array.isArray(node.allOf)) {
+      if (node.allOf.length === 1 && !node.properties) return convert(node.allOf[0], hint);
+      const parts = node.allOf.map(resolve);
+      if (parts.some((part: JsonSchema) => typeof part !== 'object' || !part.properties)) return convert(node.allOf[0], hint);
+      // Object intersections flatten into one model; most target languages have no `&`
+      const merged = {
+        type: 'object',
+        description: node.description,
+        properties: Object.assign({}, ...parts.map((part: Record<string, any>) => part.properties), node.properties),
+        required: [...parts.flatMap((part: Record<string, any>) => part.required || []), ...(node.required || [])]
+      };
+      return convert(merged, hint);
+    }
+
+    const types: string[] = Array.isArray(node.type) ? node.type : node.type ? [node.type] : [];
+    if (types.length === 0) {
+      if (node.properties) types.push('object');
+      else if (node.items) types.push('array');
+      else return { kind: 'any' };
+    }
+    const nonNull = types.filter(t => t !== 'null');
+    const nullable = nonNull.length < types.length;
+    if (nonNull.length === 0) return { kind: 'any', nullable: true };
+    if (nonNull.length > 1) {
+      return { kind: 'union', variants: nonNull.map(type => convert({ ...node, type }, hint)), nullable };
+    }
+
+    const constraints = constraintsOf(node);
+    switch (nonNull[0]) {
+      case 'string':
+        return { kind: 'primitive', type: 'string', format: node.format, nullable, constraints };
+      case 'integer':
+      case 'number':
+      case 'boolean':
+        return { kind: 'primitive', type: nonNull[0], nullable, constraints };
+      case 'array': {
+        const tuple = Array.isArray(node.prefixItems) ? node.prefixItems : Array.isArray(node.items) ? node.items : null;
+        const items = tuple
+          ? (tuple.length === 1 ? convert(tuple[0], `${hint}Item`) : { kind: 'any' } as TypeNode)
+          : convert(node.items ?? true, `${hint}Item`);
+        return { kind: 'array', items, nullable, constraints };
+      }
+      case 'object':
+        if (node.properties && Object.keys(node.properties).length > 0) {
+          return { kind: 'ref', name: objectModel(node, uniqueName(hint)), nullable };
+        }
+        if (node.additionalProperties && typeof node.additionalProperties === 'object') {
+          return { kind: 'map', values: convert(node.additionalProperties, `${hint}Value`), nullable };
+        }
+        return { kind: 'map', values: { kind: 'any' }, nullable };
+      default:
+        return { kind: 'any' };
+    }
+  };
+
+  const objectModel = (node: Record<string, any>, name: string) => {
+    const required: string[] = Array.isArray(node.required) ? node.required : [];
+    // Reserve the slot so parents are listed before their nested children
+    const index = models.push(null as any) - 1;
+    const fields = Object.entries<JsonSchema>(node.properties || {}).map(([key, child]) => ({
+      key,
+      type: convert(child, `${name}${toPascalCase(key)}`),
+      required: required.includes(key),
+      description: typeof child === 'object' && typeof child.description === 'string' ? child.description : undefined
+    }));
+    const additional = node.additionalProperties && typeof node.additionalProperties === 'object'
+      ? convert(node.additionalProperties, `${name}Value`)
+      : node.additionalProperties === true ? { kind: 'any' } as TypeNode : undefined;
+    models[index] = { kind: 'object', name, description: node.description, fields, additional };
+    return name;
+  };
+
+  const namedModel = (node: JsonSchema, name: string) => {
+    const description = typeof node === 'object' && typeof node.description === 'string' ? node.description : undefined;
+    const isPlainObject = typeof node === 'object' && node.properties && !node.anyOf && !node.oneOf && !node.$ref
+      && (!node.type || node.type === 'object');
+    if (isPlainObject) {
+      objectModel(node as Record<string, any>, name);
+      return;
+    }
+    const isStringEnum = typeof node === 'object' && Array.isArray(node.enum) && node.enum.length > 0
+      && node.enum.every((v: unknown) => typeof v === 'string');
+    if (isStringEnum) {
+      models.push({ kind: 'enum', name, description, values: Array.from(new Set<string>((node as Record<string, any>).enum)) });
+      return;
+    }
+    const index = models.push(null as any) - 1;
+    models[index] = { kind: 'alias', name, description, type: convert(node, name) };
+  };
+
+  usedNames.add(rootTypeName);
+  Object.keys(definitions).forEach(key => usedNames.add(refName(key)));
+  namedModel({ ...root, definitions: undefined, $defs: undefined }, rootTypeName);
+  for (const [key, definition] of Object.entries(definitions)) namedModel(definition, refName(key));
+
+  return { root: rootTypeName, models };
+};
+
+const refsOf = (type: TypeNode, direct = false): string[] => {
+  switch (type.kind) {
+    case 'ref':
+      return [type.name];
+    case 'array':
+      return direct ? [] : refsOf(type.items);
+    case 'map':
+      return direct ? [] : refsOf(type.values);
+    case 'union':
+      return type.variants.flatMap(v => refsOf(v, direct));
+    default:
+      return [];
+  }
+};
+
+const modelRefs = (model: Model, direct = false) =>
+  model.kind === 'object'
+    ? [...model.fields.flatMap(f => refsOf(f.type, direct)), ...(model.additional ? refsOf(model.additional, direct) : [])]
+    : model.kind === 'alias' ? refsOf(model.type, direct) : [];
+
+/**
+ * Orders models so dependencies come first, for languages that need a declaration before use.
+ */
+const dependencyOrder = (code: CodeModel) => {
+  const byName = new Map(code.models.map(m => [m.name, m]));
+  const ordered: Model[] = [];
+  const seen = new Set<string>();
+  const visit = (name: string) => {
+    const model = byName.get(name);
+    if (!model || seen.has(name)) return;
+    seen.add(name);
+    modelRefs(model).forEach(visit);
+    ordered.push(model);
+  };
+  visit(code.root);
+  code.models.forEach(m => visit(m.name));
+  return ordered;
+};
+
+/**
+ * True when a field of `from` pointing at `to` closes a by-value cycle, which Go and Rust can only
+ * represent behind a pointer or box. Go already points at optional fields; Rust's `Option` does not.
+ */
+const closesCycle = (code: CodeModel, from: string, to: string, throughOptional = false) => {
+  const byName = new Map(code.models.map(m => [m.name, m]));
+  const stack = [to];
+  const seen = new Set<string>();
+  while (stack.length) {
+    const name = stack.pop()!;
+    if (name === from) return true;
+    if (seen.has(name)) continue;
+    seen.add(name);
+    const model = byName.get(name);
+    if (model?.kind === 'object') {
+      model.fields
+        .filter(f => throughOptional || (f.required && !f.type.nullable))
+        .forEach(f => stack.push(...refsOf(f.type, true)));
+    }
+  }
+  return false;
+};
+
+const words = (value: string) =>
+  value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(w => w.toLowerCase());
+
+const capitalize = (w: string) => w.charAt(0).toUpperCase() + w.slice(1);
+
+const snakeCase = (value: string) => {
+  const name = words(value).join('_') || 'field';
+  return /^\d/.test(name) ? `field_${name}` : name;
+};
+
+const camelCase = (value: string) => {
+  const [first = 'field', ...rest] = words(value);
+  const name = first + rest.map(capitalize).join('');
+  return /^\d/.test(name) ? `field${capitalize(name)}` : name;
+};
+
+const pascalCase = (value: string) => {
+  const name = words(value).map(capitalize).join('') || 'Field';
+  return /^\d/.test(name) ? `Field${name}` : name;
+};
+
+const screamingCase = (value: string) => {
+  const name = words(value).join('_').toUpperCase() || 'VALUE';
+  return /^\d/.test(name) ? `VALUE_${name}` : name;
+};
+
+const GO_INITIALISMS = new Set(['id', 'url', 'uri', 'api', 'http', 'https', 'json', 'uuid', 'ip', 'sql', 'html', 'xml', 'ttl', 'cpu']);
+
+const goName = (value: string) => {
+  const name = words(value).map(w => (GO_INITIALISMS.has(w) ? w.toUpperCase() : capitalize(w))).join('') || 'Field';
+  return /^\d/.test(name) ? `Field${name}` : name;
+};
+
+// Assigns each field a target-language name, suffixing clashes like `userId` vs `user_id`
+const nameFields = (fields: FieldModel[], toName: (key: string) => string, reserved: Set<string> = new Set()) => {
+  const used = new Set<string>();
+  return fields.map(field => {
+    let base = toName(field.key);
+    if (reserved.has(base)) base = `${base}_`;
+    let name = base;
+    let n = 2;
+    while (used.has(name)) name = `${base}${n++}`;
+    used.add(name);
+    return name;
+  });
+};
+
+const uniqueMembers = (values: string[], toName: (value: string) => string) => {
+  const used = new Set<string>();
+  return values.map(value => {
+    const base = toName(value);
+    let name = base;
+    let n = 2;
+    while (used.has(name)) name = `${base}${n++}`;
+    used.add(name);
+    return name;
+  });
+};
+
+const oneLine = (text: string | undefined) => (text || '').trim().replace(/\s*\n\s*/g, ' ');
+
+const lineComment = (prefix: string, text: string | undefined, indent = '') =>
+  oneLine(text) ? `${indent}${prefix} ${oneLine(text)}\n` : '';
+
+const literalPrimitive = (value: string | number | boolean | null): TypeNode =>
+  typeof value === 'string' ? { kind: 'primitive', type: 'string' }
+    : typeof value === 'number' ? { kind: 'primitive', type: Number.isInteger(value) ? 'integer' : 'number' }
+      : typeof value === 'boolean' ? { kind: 'primitive', type: 'boolean' }
+        : { kind: 'any', nullable: true };
+
+// ---- Zod ----
+
+const emitZod = (code: CodeModel) => {
+  const declared = new Set<string>();
+  const schemaName = (name: string) => `${name}Schema`;
+
+  const zodType = (type: TypeNode): string => {
+    let out: string;
+    switch (type.kind) {
+      case 'primitive': {
+        const c = type.constraints || {};
+        if (type.type === 'string') {
+          const format = { email: '.email()', uri: '.url()', url: '.url()', uuid: '.uuid()', 'date-time': '.datetime()', date: '.date()' }[type.format || ''] || '';
+          out = `z.string()${format}`
+            + (c.minLength !== undefined ? `.min(${c.minLength})` : '')
+            + (c.maxLength !== undefined ? `.max(${c.maxLength})` : '')
+            + (c.pattern !== undefined ? `.regex(new RegExp(${JSON.stringify(c.pattern)}))` : '');
+        } else if (type.type === 'boolean') {
+          out = 'z.boolean()';
+        } else {
+          out = `z.number()${type.type === 'integer' ? '.int()' : ''}`
+            + (c.minimum !== undefined ? `.min(${c.minimum})` : '')
+            + (c.maximum !== undefined ? `.max(${c.maximum})` : '')
+            + (c.exclusiveMinimum !== undefined ? `.gt(${c.exclusiveMinimum})` : '')
+            + (c.exclusiveMaximum !== undefined ? `.lt(${c.exclusiveMaximum})` : '');
+        }
+        break;
+      }
+      case 'literal':
+        out = type.value === null ? 'z.null()' : `z.literal(${JSON.stringify(type.value)})`;
+        break;
+      case 'array': {
+        const c = type.constraints || {};
+        out = `z.array(${zodType(type.items)})`
+          + (c.minItems !== undefined ? `.min(${c.minItems})` : '')
+          + (c.maxItems !== undefined ? `.max(${c.maxItems})` : '');
+        break;
+      }
+      case 'map':
+        out = `z.record(z.string(), ${zodType(type.values)})`;
+        break;
+      case 'ref':
+        // Forward references only happen inside cycles; the annotation stops TS inferring through them
+        out = declared.has(type.name) ? schemaName(type.name) : `z.lazy((): z.ZodTypeAny => ${schemaName(type.name)})`;
+        break;
+      case 'union':
+        out = type.variants.length === 1 ? zodType(type.variants[0]) : `z.union([${type.variants.map(zodType).join(', ')}])`;
+        break;
+      default:
+        out = 'z.unknown()';
+    }
+    return type.nullable && type.kind !== 'any' ? `${out}.nullable()` : out;
+  };
+
+  const blocks = dependencyOrder(code).map(model => {
+    const doc = oneLine(model.description) ? `/** ${oneLine(model.description).replace(/\*\//g, '*\\/')} */\n` : '';
+    let body: string;
+    if (model.kind === 'enum') {
+      body = `z.enum([${model.values.map(v => JSON.stringify(v)).join(', ')}])`;
+    } else if (model.kind === 'alias') {
+      body = zodType(model.type);
+    } else {
+      // Declared before its fields are rendered so direct self-references stay lazy
+      const lines = model.fields.map(field => {
+        const key = /^[A-Za-z_$][\w$]*$/.test(field.key) ? field.key : JSON.stringify(field.key);
+        return `${lineComment('  //', field.description)}  ${key}: ${zodType(field.type)}${field.required ? '' : '.optional()'},`;
+      });
+      body = `z.object({\n${lines.join('\n')}\n})${model.additional ? `.catchall(${zodType(model.additional)})` : ''}`;
+    }
+    declared.add(model.name);
+    return `${doc}export const ${schemaName(model.name)} = ${body};\nexport type ${model.name} = z.infer<typeof ${schemaName(model.name)}>;`;
+  });
+
+  return `import { z } from "zod";\n\n${blocks.join('\n\n')}\n`;
+};
+
+// ---- Pydantic v2 ----
+
+const PYTHON_RESERVED = new Set([
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif',
+  'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or',
+  'pass', 'raise', 'return', 'try', 'while', 'with', 'yield',
+  // BaseModel attributes a field may not shadow
+  'copy', 'dict', 'json', 'schema', 'schema_json', 'construct', 'validate', 'fields', 'parse_obj', 'parse_raw',
+  'parse_file', 'from_orm', 'update_forward_refs', 'model_config', 'model_fields', 'model_extra'
+]);
+
+const emitPydantic = (code: CodeModel) => {
+  const typing = new Set<string>();
+  const imports = new Set<string>();
+
+  const pyType = (type: TypeNode): string => {
+    let out: string;
+    switch (type.kind) {
+      case 'primitive':
+        if (type.type === 'string' && type.format === 'date-time') { imports.add('from datetime import datetime'); out = 'datetime'; }
+        else if (type.type === 'string' && type.format === 'date') { imports.add('from datetime import date'); out = 'date'; }
+        else if (type.type === 'string' && type.format === 'uuid') { imports.add('from uuid import UUID'); out = 'UUID'; }
+        else out = { string: 'str', integer: 'int', number: 'float', boolean: 'bool' }[type.type];
+        break;
+      case 'literal':
+        if (type.value === null) { out = 'None'; break; }
+        typing.add('Literal');
+        out = `Literal[${typeof type.value === 'boolean' ? (type.value ? 'True' : 'False') : JSON.stringify(type.value)}]`;
+        break;
+      case 'array':
+        typing.add('List');
+        out = `List[${pyType(type.items)}]`;
+        break;
+      case 'map':
+        typing.add('Dict');
+        out = `Dict[str, ${pyType(type.values)}]`;
+        break;
+      case 'ref':
+        out = type.name;
+        break;
+      case 'union':
+        typing.add('Union');
+        out = type.variants.length === 1 ? pyType(type.variants[0]) : `Union[${type.variants.map(pyType).join(', ')}]`;
+        break;
+      default:
+        typing.add('Any');
+        out = 'Any';
+    }
+    if (type.nullable && type.kind !== 'any') {
+      typing.add('Optional');
+      return `Optional[${out}]`;
+    }
+    return out;
+  };
+
+  const fieldArgs = (field: FieldModel, name: string) => {
+    const c = field.type.constraints || {};
+    const args = [
+      ...(field.required ? [] : ['default=None']),
+      ...(name !== field.key ? [`alias=${JSON.stringify(field.key)}`] : []),
+      ...(c.minLength !== undefined ? [`min_length=${c.minLength}`] : []),
+      ...(c.maxLength !== undefined ? [`max_length=${c.maxLength}`] : []),
+      ...(c.minItems !== undefined ? [`min_length=${c.minItems}`] : []),
+      ...(c.maxItems !== undefined ? [`max_length=${c.maxItems}`] : []),
+      ...(c.pattern !== undefined ? [`pattern=${JSON.stringify(c.pattern)}`] : []),
+      ...(c.minimum !== undefined ? [`ge=${c.minimum}`] : []),
+      ...(c.maximum !== undefined ? [`le=${c.maximum}`] : []),
+      ...(c.exclusiveMinimum !== undefined ? [`gt=${c.exclusiveMinimum}`] : []),
+      ...(c.exclusiveMaximum !== undefined ? [`lt=${c.exclusiveMaximum}`] : []),
+      ...(field.description ? [`description=${JSON.stringify(oneLine(field.description))}`] : [])
+    ];
+    if (args.length === 0) return '';
+    return args.length === 1 && args[0] === 'default=None' ? ' = None' : ` = Field(${args.join(', ')})`;
+  };
+
+  const pydantic = new Set<string>(['BaseModel']);
+  const docstring = (text: string | undefined) => (oneLine(text) ? `    """${oneLine(text).replace(/"""/g, '\\"\\"\\"')}"""\n\n` : '');
+
+  const blocks = dependencyOrder(code).map(model => {
+    if (model.kind === 'enum') {
+      imports.add('from enum import Enum');
+      const members = uniqueMembers(model.values, screamingCase);
+      return `class ${model.name}(str, Enum):\n${docstring(model.description)}${model.values.map((v, i) => `    ${members[i]} = ${JSON.stringify(v)}`).join('\n')}`;
+    }
+    if (model.kind === 'alias') {
+      pydantic.add('RootModel');
+      return `class ${model.name}(RootModel[${pyType(model.type)}]):\n${docstring(model.description) || '    pass'}`.trimEnd();
+    }
+    const names = nameFields(model.fields, snakeCase, PYTHON_RESERVED);
+    const aliased = names.some((name, i) => name !== model.fields[i].key);
+    const config = [...(aliased ? ['populate_by_name=True'] : []), ...(model.additional ? ['extra="allow"'] : [])];
+    if (config.length) pydantic.add('ConfigDict');
+    if (model.fields.some((field, i) => fieldArgs(field, names[i]).startsWith(' = Field'))) pydantic.add('Field');
+    const lines = model.fields.map((field, i) => {
+      const type = field.required || field.type.nullable || field.type.kind === 'any'
+        ? pyType(field.type)
+        : pyType({ ...field.type, nullable: true });
+      return `    ${names[i]}: ${type}${fieldArgs(field, names[i])}`;
+    });
+    return `class ${model.name}(BaseModel):\n${docstring(model.description)}${config.length ? `    model_config = ConfigDict(${config.join(', ')})\n\n` : ''}${lines.join('\n')}`;
+  });
+
+  if (typing.size) imports.add(`from typing import ${[...typing].sort().join(', ')}`);
+  const header = [
+    'from __future__ import annotations',
+    ...(imports.size ? [[...imports].sort().join('\n')] : []),
+    `from pydantic import ${[...pydantic].sort().join(', ')}`
+  ];
+  return `${header.join('\n\n')}\n\n\n${blocks.join('\n\n\n')}\n`;
+};
+
+// ---- Go ----
+
+const emitGo = (code: CodeModel) => {
+  let usesTime = false;
+
+  const goType = (type: TypeNode, owner: string, presence: boolean): string => {
+    // `presence` marks fields that can be absent or null and therefore need a pointer
+    switch (type.kind) {
+      case 'primitive': {
+        let out = { string: 'string', integer: 'int64', number: 'float64', boolean: 'bool' }[type.type];
+        if (type.type === 'string' && type.format === 'date-time') {
+          usesTime = true;
+          out = 'time.Time';
+        }
+        return presence ? `*${out}` : out;
+      }
+      case 'literal':
+        return type.value === null ? 'any' : goType(literalPrimitive(type.value), owner, presence);
+      case 'array':
+        return `[]${goType(type.items, owner, false)}`;
+      case 'map':
+        return `map[string]${goType(type.values, owner, false)}`;
+      case 'ref':
+        return presence || closesCycle(code, owner, type.name) ? `*${type.name}` : type.name;
+      default:
+        return 'any';
+    }
+  };
+
+  const blocks = code.models.map(model => {
+    const doc = lineComment('//', model.description);
+    if (model.kind === 'enum') {
+      const members = uniqueMembers(model.values, v => `${model.name}${goName(v)}`);
+      const width = Math.max(...members.map(m => m.length));
+      return `${doc}type ${model.name} string\n\nconst (\n${model.values.map((v, i) => `\t${members[i].padEnd(width)} ${model.name} = ${JSON.stringify(v)}`).join('\n')}\n)`;
+    }
+    if (model.kind === 'alias') {
+      return `${doc}type ${model.name} ${goType(model.type, model.name, false)}`;
+    }
+    const names = nameFields(model.fields, goName);
+    const rows = model.fields.map((field, i) => {
+      const presence = !field.required || !!field.type.nullable;
+      const tag = `\`json:"${field.key}${field.required ? '' : ',omitempty'}"\``;
+      return { comment: field.description, name: names[i], type: goType(field.type, model.name, presence), tag };
+    });
+    // gofmt aligns columns in runs that a comment line interrupts
+    const runs: (typeof rows)[] = [];
+    rows.forEach(r => (r.comment || runs.length === 0 ? runs.push([r]) : runs[runs.length - 1].push(r)));
+    const lines = runs.flatMap(run => {
+      const nameWidth = Math.max(...run.map(r => r.name.length));
+      const typeWidth = Math.max(...run.map(r => r.type.length));
+      return run.map(r => `${lineComment('//', r.comment, '\t')}\t${r.name.padEnd(nameWidth)} ${r.type.padEnd(typeWidth)} ${r.tag}`);
+    });
+    if (model.additional) lines.push('\t// Additional properties are not captured; decode into map[string]any to keep them');
+    return `${doc}type ${model.name} struct {\n${lines.join('\n')}\n}`;
+  });
+
+  return `package models\n\n${usesTime ? 'import "time"\n\n' : ''}${blocks.join('\n\n')}\n`;
+};
+
+// ---- Rust (serde) ----
+
+const RUST_RESERVED = new Set([
+  'as', 'async', 'await', 'break', 'const', 'continue', 'dyn', 'else', 'enum', 'extern', 'false', 'fn', 'for',
+  'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return', 'static', 'struct',
+  'trait', 'true', 'type', 'unsafe', 'use', 'where', 'while', 'yield', 'abstract', 'become', 'box', 'do', 'final', 'macro',
+  'override', 'priv', 'try', 'typeof', 'unsized', 'virtual'
+]);
+
+// Path keywords cannot be raw identifiers (`r#self` is rejected), so these get a trailing underscore instead.
+const RUST_PATH_KEYWORDS = new Set(['self', 'Self', 'crate', 'super']);
+
+const emitRust = (code: CodeModel) => {
+  let usesMap = false;
+
+  const rustType = (type: TypeNode, owner: string, direct = true): string => {
+    let out: string;
+    switch (type.kind) {
+      case 'primitive':
+        out = { string: 'String', integer: 'i64', number: 'f64', boolean: 'bool' }[type.type];
+        break;
+      case 'literal':
+        out = type.value === null ? 'serde_json::Value' : rustType(literalPrimitive(type.value), owner, direct);
+        break;
+      case 'array':
+        out = `Vec<${rustType(type.items, owner, false)}>`;
+        break;
+      case 'map':
+        usesMap = true;
+        out = `HashMap<String, ${rustType(type.values, owner, false)}>`;
+        break;
+      case 'ref':
+        out = direct && closesCycle(code, owner, type.name, true) ? `Box<${type.name}>` : type.name;
+        break;
+      default:
+        out = 'serde_json::Value';
+    }
+    return type.nullable && type.kind !== 'any' ? `Option<${out}>` : out;
+  };
+
+  const doc = (text: string | undefined, indent = '') => lineComment('///', text, indent);
+
+  const blocks = code.models.map(model => {
+    if (model.kind === 'enum') {
+      const members = uniqueMembers(model.values, pascalCase);
+      const variants = model.values.map((v, i) => `    #[serde(rename = ${JSON.stringify(v)})]\n    ${members[i]},`);
+      return `${doc(model.description)}#[derive(Debug, Clone, Copy, PartialEq, Eq, Hash, Serialize, Deserialize)]\npub enum ${model.name} {\n${variants.join('\n')}\n}`;
+    }
+    if (model.kind === 'alias') {
+      return `${doc(model.description)}pub type ${model.name} = ${rustType(model.type, model.name)};`;
+    }
+    const names = nameFields(model.fields, snakeCase, RUST_PATH_KEYWORDS).map(name => (RUST_RESERVED.has(name) ? `r#${name}` : name));
+    const lines = model.fields.map((field, i) => {
+      const attrs: string[] = [];
+      if (names[i].replace(/^r#/, '') !== field.key) attrs.push(`rename = ${JSON.stringify(field.key)}`);
+      let type = rustType(field.type, model.name);
+      if (!field.required) {
+        if (!field.type.nullable) type = `Option<${type}>`;
+        attrs.push('default', 'skip_serializing_if = "Option::is_none"');
+      }
+      return `${doc(field.description, '    ')}${attrs.length ? `    #[serde(${attrs.join(', ')})]\n` : ''}    pub ${names[i]}: ${type},`;
+    });
+    if (model.additional) {
+      usesMap = true;
+      lines.push(`    #[serde(flatten)]\n    pub extra: HashMap<String, ${rustType(model.additional, model.name, false)}>,`);
+    }
+    return `${doc(model.description)}#[derive(Debug, Clone, PartialEq, Serialize, Deserialize)]\npub struct ${model.name} {\n${lines.join('\n')}\n}`;
+  });
+
+  return `use serde::{Deserialize, Serialize};\n${usesMap ? 'use std::collections::HashMap;\n' : ''}\n${blocks.join('\n\n')}\n`;
+};
+
+// ---- Kotlin (kotlinx.serialization) ----
+
+const KOTLIN_RESERVED = new Set([
+  'as', 'break', 'class', 'continue', 'do', 'else', 'false', 'for', 'fun', 'if', 'in', 'interface', 'is', 'null', 'object',
+  'package', 'return', 'super', 'this', 'throw', 'true', 'try', 'typealias', 'typeof', 'val', 'var', 'when', 'while'
+]);
+
+const emitKotlin = (code: CodeModel) => {
+  let usesJson = false;
+
+  const ktType = (type: TypeNode): string => {
+    let out: string;
+    switch (type.kind) {
+      case 'primitive':
+        out = { string: 'String', integer: 'Long', number: 'Double', boolean: 'Boolean' }[type.type];
+        break;
+      case 'literal':
+        if (type.value === null) { usesJson = true; out = 'JsonElement'; break; }
+        out = ktType(literalPrimitive(type.value));
+        break;
+      case 'array':
+        out = `List<${ktType(type.items)}>`;
+        break;
+      case 'map':
+        out = `Map<String, ${ktType(type.values)}>`;
+        break;
+      case 'ref':
+        out = type.name;
+        break;
+      default:
+        usesJson = true;
+        out = 'JsonElement';
+    }
+    return type.nullable ? `${out}?` : out;
+  };
+
+  const doc = (text: string | undefined, indent = '') =>
+    oneLine(text) ? `${indent}/** ${oneLine(text).replace(/\*\//g, '*\\/')} */\n` : '';
+
+  const blocks = code.models.map(model => {
+    if (model.kind === 'enum') {
+      const members = uniqueMembers(model.values, screamingCase);
+      return `${doc(model.description)}@Serializable\nenum class ${model.name} {\n${model.values.map((v, i) => `    @SerialName(${JSON.stringify(v)})\n    ${members[i]},`).join('\n')}\n}`;
+    }
+    if (model.kind === 'alias') {
+      return `${doc(model.description)}typealias ${model.name} = ${ktType(model.type)}`;
+    }
+    const names = nameFields(model.fields, camelCase);
+    const lines = model.fields.map((field, i) => {
+      let type = ktType(field.type);
+      if (!field.required && !type.endsWith('?')) type = `${type}?`;
+      const name = KOTLIN_RESERVED.has(names[i]) ? `\`${names[i]}\`` : names[i];
+      return `${doc(field.description, '    ')}${names[i] !== field.key ? `    @SerialName(${JSON.stringify(field.key)})\n` : ''}    val ${name}: ${type}${field.required ? '' : ' = null'},`;
+    });
+    const extra = model.additional ? '// Additional properties are dropped; decode into JsonObject to keep them\n' : '';
+    return `${doc(model.description)}${extra}@Serializable\ndata class ${model.name}(\n${lines.join('\n')}\n)`;
+  });
+
+  const imports = [
+    'import kotlinx.serialization.SerialName',
+    'import kotlinx.serialization.Serializable',
+    ...(usesJson ? ['import kotlinx.serialization.json.JsonElement'] : [])
+  ];
+  return `package models\n\n${imports.join('\n')}\n\n${blocks.join('\n\n')}\n`;
+};
+
+// ---- C# (System.Text.Json records) ----
+
+const emitCSharp = (code: CodeModel) => {
+  const csType = (type: TypeNode): string => {
+    let out: string;
+    switch (type.kind) {
+      case 'primitive':
+        out = type.type === 'string'
+          ? ({ 'date-time': 'DateTimeOffset', date: 'DateOnly', uuid: 'Guid' }[type.format || ''] || 'string')
+          : { integer: 'long', number: 'double', boolean: 'bool' }[type.type];
+        break;
+      case 'literal':
+        out = type.value === null ? 'JsonElement' : csType(literalPrimitive(type.value));
+        break;
+      case 'array':
+        out = `List<${csType(type.items)}>`;
+        break;
+      case 'map':
+        out = `Dictionary<string, ${csType(type.values)}>`;
+        break;
+      case 'ref':
+        out = type.name;
+        break;
+      default:
+        out = 'JsonElement';
+    }
+    return type.nullable && !out.endsWith('?') ? `${out}?` : out;
+  };
+
+  const summary = (text: string | undefined, indent = '') =>
+    oneLine(text)
+      ? `${indent}/// <summary>${oneLine(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}</summary>\n`
+      : '';
+
+  const blocks = code.models.map(model => {
+    if (model.kind === 'enum') {
+      const members = uniqueMembers(model.values, pascalCase);
+      const lines = model.values.map((v, i) => `    [JsonStringEnumMemberName(${JSON.stringify(v)})]\n    ${members[i]},`);
+      return `${summary(model.description)}[JsonConverter(typeof(JsonStringEnumConverter<${model.name}>))]\npublic enum ${model.name}\n{\n${lines.join('\n')}\n}`;
+    }
+    if (model.kind === 'alias') {
+      const type = csType(model.type);
+      return model.type.kind === 'array'
+        ? `${summary(model.description)}public sealed class ${model.name} : ${type.replace(/\?$/, '')}\n{\n}`
+        : `${summary(model.description)}public sealed record ${model.name}(${type} Value);`;
+    }
+    // A member may not share its enclosing type's name
+    const names = nameFields(model.fields, pascalCase, new Set([model.name]));
+    const lines = model.fields.map((field, i) => {
+      let type = csType(field.type);
+      if (!field.required && !type.endsWith('?')) type = `${type}?`;
+      return `${summary(field.description, '    ')}    [JsonPropertyName(${JSON.stringify(field.key)})]\n    public ${field.required ? 'required ' : ''}${type} ${names[i]} { get; init; }`;
+    });
+    if (model.additional) {
+      lines.push(`    [JsonExtensionData]\n    public Dictionary<string, JsonElement>? AdditionalProperties { get; init; }`);
+    }
+    return `${summary(model.description)}public sealed record ${model.name}\n{\n${lines.join('\n\n')}\n}`;
+  });
+
+  const header = [
+    ...(code.models.some(m => m.kind === 'enum') ? ['// Enum member names use JsonStringEnumMemberName, which needs .NET 9 or later', ''] : []),
+    '#nullable enable',
+    '',
+    'using System;',
+    'using System.Collections.Generic;',
+    'using System.Text.Json;',
+    'using System.Text.Json.Serialization;',
+    '',
+    'namespace Models;'
+  ];
+  return `${header.join('\n')}\n\n${blocks.join('\n\n')}\n`;
+};
+
+// ---- Protocol Buffers (proto3) ----
+
+const emitProtobuf = (code: CodeModel) => {
+  let usesStruct = false;
+  const value = () => {
+    usesStruct = true;
+    return 'google.protobuf.Value';
+  };
+
+  // Scalar or message name for a single (non-repeated) slot
+  const element = (type: TypeNode): string => {
+    switch (type.kind) {
+      case 'primitive':
+        return { string: 'string', integer: 'int64', number: 'double', boolean: 'bool' }[type.type];
+      case 'literal':
+        return type.value === null ? value() : element(literalPrimitive(type.value));
+      case 'ref':
+        return type.name;
+      case 'array':
+        usesStruct = true;
+        return 'google.protobuf.ListValue';
+      case 'map':
+        usesStruct = true;
+        return 'google.protobuf.Struct';
+      default:
+        return value();
+    }
+  };
+
+  const isScalar = (type: TypeNode, enums: Set<string>) =>
+    type.kind === 'primitive' || (type.kind === 'literal' && type.value !== null) || (type.kind === 'ref' && enums.has(type.name));
+
+  const enums = new Set(code.models.filter(m => m.kind === 'enum').map(m => m.name));
+
+  const fieldLine = (type: TypeNode, name: string, number: number, optional: boolean, jsonName?: string) => {
+    const option = jsonName ? ` [json_name = ${JSON.stringify(jsonName)}]` : '';
+    // Nested lists and maps cannot repeat directly, so `element` falls back to the struct.proto wrappers
+    if (type.kind === 'array') return `repeated ${element(type.items)} ${name} = ${number}${option};`;
+    if (type.kind === 'map') return `map<string, ${element(type.values)}> ${name} = ${number}${option};`;
+    // Messages already track presence; scalars need `optional` to tell unset from zero
+    return `${optional && isScalar(type, enums) ? 'optional ' : ''}${element(type)} ${name} = ${number}${option};`;
+  };
+
+  const doc = (text: string | undefined, indent = '') => lineComment('//', text, indent);
+  const protoJsonName = (name: string) => name.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+
+  const blocks = code.models.map(model => {
+    if (model.kind === 'enum') {
+      const prefix = screamingCase(model.name);
+      const members = uniqueMembers(model.values, v => `${prefix}_${screamingCase(v)}`);
+      const lines = [`  ${prefix}_UNSPECIFIED = 0;`, ...model.values.map((v, i) => `  ${members[i]} = ${i + 1}; // ${JSON.stringify(v)}`)];
+      return `${doc(model.description)}enum ${model.name} {\n${lines.join('\n')}\n}`;
+    }
+    if (model.kind === 'alias') {
+      // Top-level arrays and scalars have no message form, so they are wrapped in a single field
+      const name = model.type.kind === 'array' ? 'items' : 'value';
+      return `${doc(model.description)}message ${model.name} {\n  ${fieldLine(model.type, name, 1, !!model.type.nullable)}\n}`;
+    }
+    const names = nameFields(model.fields, snakeCase);
+    const lines = model.fields.map((field, i) => {
+      const jsonName = protoJsonName(names[i]) !== field.key ? field.key : undefined;
+      return `${doc(field.description, '  ')}  ${fieldLine(field.type, names[i], i + 1, !field.required || !!field.type.nullable, jsonName)}`;
+    });
+    return `${doc(model.description)}message ${model.name} {\n${lines.join('\n')}\n}`;
+  });
+
+  return `syntax = "proto3";\n\npackage models;\n${usesStruct ? '\nimport "google/protobuf/struct.proto";\n' : ''}\n${blocks.join('\n\n')}\n`;
+};
+
+const EMITTERS: Record<CodegenLanguage, (code: CodeModel) => string> = {
+  zod: emitZod,
+  pydantic: emitPydantic,
+  go: emitGo,
+  rust: emitRust,
+  kotlin: emitKotlin,
+  csharp: emitCSharp,
+  protobuf: emitProtobuf
+};
+
+export const CODEGEN_TARGETS: CodegenTarget[] = [
+  { id: 'zod', label: 'Zod', icon: 'fas fa-shield-alt', contentType: 'text/typescript', fileName: root => `${camelCase(root)}.schema.ts` },
+  { id: 'pydantic', label: 'Pydantic', icon: 'fab fa-python', contentType: 'text/x-python', fileName: root => `${snakeCase(root)}.py` },
+  { id: 'go', label: 'Go', icon: 'fab fa-golang', contentType: 'text/x-go', fileName: root => `${snakeCase(root)}.go` },
+  { id: 'rust', label: 'Rust', icon: 'fab fa-rust', contentType: 'text/x-rust', fileName: root => `${snakeCase(root)}.rs` },
+  { id: 'kotlin', label: 'Kotlin', icon: 'fas fa-mobile-alt', contentType: 'text/x-kotlin', fileName: root => `${pascalCase(root)}.kt` },
+  { id: 'csharp', label: 'C#', icon: 'fas fa-hashtag', contentType: 'text/x-csharp', fileName: root => `${pascalCase(root)}.cs` },
+  { id: 'protobuf', label: 'Protobuf', icon: 'fas fa-cubes', contentType: 'text/plain', fileName: root => `${snakeCase(root)}.proto` }
+];
+
+/**
+ * Emits model code for a JSON Schema in the chosen language. Deterministic and fully local:
+ * the same schema always yields the same file.
+ */
+export const generateCode = (schema: JsonSchema, language: CodegenLanguage, rootName = 'Root'): string =>
+  EMITTERS[language](buildCodeModel(schema, rootName));
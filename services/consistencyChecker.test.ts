@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FieldMap, checkConsistency, fieldsFromSchema, fieldsFromTs, reconcileArtifacts } from './consistencyChecker';
+
+const generate = vi.hoisted(() => vi.fn());
+
+vi.mock('./llmProvider', () => ({
+  resolveStage: () => ({ provider: { generate }, model: 'repair-model' })
+}));
+
+const shape = (map: FieldMap) =>
+  Object.fromEntries(Array.from(map.entries()).map(([path, field]) => [path, { types: Array.from(field.types).sort(), required: field.required }]));
+
+describe('fieldsFromSchema', () => {
+  const schema = {
+    type: 'object',
+    properties: { node: { $ref: '#/$defs/Node' }, other: { $ref: '#/$defs/Node' } },
+    required: ['node'],
+    $defs: {
+      Node: { type: 'object', properties: { name: { type: 'string' }, child: { $ref: '#/$defs/Node' } }, required: ['name'] }
+    }
+  };
+
+  it('walks a recursive $ref once and records the repeat by its declared type', () => {
+    const fields = shape(fieldsFromSchema(schema));
+    expect(fields['node.child']).toEqual({ types: ['object'], required: false });
+    expect(Object.keys(fields).some(path => path.startsWith('node.child.'))).toBe(false);
+  });
+
+  it('expands a definition again when it is reused outside its own recursion', () => {
+    const fields = shape(fieldsFromSchema(schema));
+    expect(fields['node.name']).toEqual({ types: ['string'], required: true });
+    expect(fields['other.name']).toEqual({ types: ['string'], required: true });
+  });
+});
+
+describe('fieldsFromTs', () => {
+  it('stops a recursive interface at its first repeat', () => {
+    const fields = shape(fieldsFromTs('interface Node { name: string; child?: Node; }\ninterface Root { node: Node; }'));
+    expect(Object.keys(fields).sort()).toEqual(['node', 'node.child', 'node.name']);
+    expect(fields['node.child']).toEqual({ types: ['object'], required: false });
+  });
+
+  it('uses a type alias as the root', () => {
+    const fields = shape(fieldsFromTs('type Root = Base & { id: number };\ninterface Base { name: string }'));
+    expect(fields).toEqual({ name: { types: ['string'], required: true }, id: { types: ['number'], required: true } });
+  });
+
+  it('reads both sides of an intersection that starts with an object literal', () => {
+    const fields = shape(fieldsFromTs('type Root = {\n  id: number;\n} & { tags: string[] };'));
+    expect(Object.keys(fields).sort()).toEqual(['id', 'tags', 'tags[]']);
+  });
+
+  it('stops a recursive alias at its first repeat', () => {
+    const fields = shape(fieldsFromTs('type Tree = { value: number; children: Tree[] };'));
+    expect(Object.keys(fields).sort()).toEqual(['children', 'children[]', 'value']);
+  });
+});
+
+const product = {
+  title: 'Product',
+  description: '',
+  sources: [],
+  jsonPrompt: 'Return a product with name and price.',
+  exampleJson: '{"name":"Lamp","price":12}',
+  jsonSchema: '{"type":"object","properties":{"name":{"type":"string"},"price":{"type":"number"}},"required":["name","price"]}',
+  tsInterface: 'interface Product { name: string; price: number; }'
+};
+
+// The example lost its price, so only the example disagrees with the other three artifacts
+const missingPrice = { ...product, exampleJson: '{"name":"Lamp"}' };
+
+const repairWith = (fixed: string) => generate.mockResolvedValue({ text: JSON.stringify({ fixed }) });
+
+describe('checkConsistency', () => {
+  it('scores agreeing artifacts 100', () => {
+    expect(checkConsistency(product)).toEqual({ score: 100, discrepancies: [], repaired: [] });
+  });
+
+  it('blames the artifact that disagrees', () => {
+    const report = checkConsistency(missingPrice);
+    expect(report.score).toBeLessThan(100);
+    expect(report.discrepancies.map(d => `${d.artifact}:${d.path}:${d.issue}`)).toEqual(['exampleJson:price:missing']);
+  });
+
+  it('reports an unparseable example', () => {
+    expect(checkConsistency({ ...product, exampleJson: '{' }).discrepancies[0]).toMatchObject({ artifact: 'exampleJson', issue: 'unparseable' });
+  });
+});
+
+describe('reconcileArtifacts', () => {
+  beforeEach(() => {
+    generate.mockReset();
+  });
+
+  it('does not call the model when everything agrees', async () => {
+    await reconcileArtifacts(product);
+    expect(generate).not.toHaveBeenCalled();
+  });
+
+  it('applies a repair that resolves the discrepancy', async () => {
+    repairWith('{"name":"Lamp","price":9.5}');
+    const { result, report } = await reconcileArtifacts(missingPrice);
+    expect(result.exampleJson).toBe('{"name":"Lamp","price":9.5}');
+    expect(report.repaired.map(d => d.path)).toEqual(['price']);
+    expect(report.failedRepairs).toEqual([]);
+  });
+
+  it('rejects a repaired example that is not valid JSON', async () => {
+    repairWith('{"name":"Lamp", price: 9.5}');
+    const { result, report } = await reconcileArtifacts(missingPrice);
+    expect(result.exampleJson).toBe(missingPrice.exampleJson);
+    expect(report.failedRepairs?.[0].artifact).toBe('exampleJson');
+    expect(report.failedRepairs?.[0].reason).toMatch(/invalid JSON/);
+  });
+
+  it('keeps the originals when the repair makes things worse', async () => {
+    repairWith('{"title":"Lamp","cost":"9"}');
+    const { result, report } = await reconcileArtifacts(missingPrice);
+    expect(result).toBe(missingPrice);
+    expect(report.discrepancies).toEqual(checkConsistency(missingPrice).discrepancies);
+    expect(report.failedRepairs?.[0].reason).toMatch(/original was kept/);
+  });
+
+  it('lists a failed model call instead of logging it', async () => {
+    generate.mockRejectedValue(new Error('model exploded'));
+    const { report } = await reconcileArtifacts(missingPrice);
+    expect(report.failedRepairs).toEqual([{ artifact: 'exampleJson', reason: expect.stringContaining('model exploded') }]);
+  });
+});
@@ -0,0 +1,440 @@
+import { Type } from "@google/genai";
+import { ArtifactKey, ConsistencyReport, Discrepancy, RepairFailure, SearchResult } from "../types";
+import { resolveRef, typeOf } from "./schemaValidator";
+import { resolveStage } from "./llmProvider";
+import { withRetry } from "./engineErrors";
+
+export interface FieldShape {
+  types: Set<string>;
+  // undefined when the artifact has no notion of optionality (the example)
+  required?: boolean;
+}
+
+export type FieldMap = Map<string, FieldShape>;
+
+const childPath = (parent: string, key: string) => (parent ? `${parent}.${key}` : key);
+
+const addField = (map: FieldMap, path: string, types: string[], required?: boolean) => {
+  const existing = map.get(path);
+  if (existing) {
+    types.forEach(t => existing.types.add(t));
+    if (required !== undefined) existing.required = existing.required === undefined ? required : existing.required && required;
+  } else {
+    map.set(path, { types: new Set(types), required });
+  }
+};
+
+const normalizeType = (type: string) => (type === 'integer' ? 'number' : type);
+
+/**
+ * Flattens an example document into dotted paths; array items collapse onto `path[]`.
+ */
+export const fieldsFromExample = (value: unknown): FieldMap => {
+  const map: FieldMap = new Map();
+  const walk = (node: unknown, path: string) => {
+    const type = normalizeType(typeOf(node));
+    if (path) addField(map, path, [type]);
+    if (type === 'array') {
+      (node as unknown[]).forEach(item => walk(item, `${path}[]`));
+    } else if (type === 'object') {
+      Object.entries(node as Record<string, unknown>).forEach(([key, child]) => walk(child, childPath(path, key)));
+    }
+  };
+  walk(value, '');
+  return map;
+};
+
+export const fieldsFromSchema = (schema: Record<string, any>): FieldMap => {
+  const map: FieldMap = new Map();
+
+  // `refs` holds the references being expanded; a recursive model is walked once, like its TS counterpart
+  const walk = (node: any, path: string, required: boolean | undefined, refs: string[]) => {
+    if (!node || typeof node !== 'object') return;
+    if (typeof node.$ref === 'string') {
+      const target = resolveRef(schema, node.$ref);
+      if (!target || typeof target !== 'object') return;
+      if (refs.includes(node.$ref)) {
+        const types = declaredTypes(target);
+        if (path) addField(map, path, types.length > 0 ? types : ['any'], required);
+        return;
+      }
+      walk({ ...target, ...node, $ref: undefined }, path, required, [...refs, node.$ref]);
+      return;
+    }
+    const variants: any[] = [...(node.anyOf || []), ...(node.oneOf || []), ...(node.allOf || [])];
+    const types = declaredTypes(node);
+    if (path && types.length > 0) addField(map, path, types, required);
+
+    if (node.properties) {
+      const req: string[] = Array.isArray(node.required) ? node.required : [];
+      Object.entries<any>(node.properties).forEach(([key, child]) => walk(child, childPath(path, key), req.includes(key), refs));
+    }
+    if (node.items && !Array.isArray(node.items)) walk(node.items, `${path}[]`, true, refs);
+    variants.forEach(variant => walk(variant, path, required, refs));
+  };
+
+  walk(schema, '', true, ['#']);
+  return map;
+};
+
+const declaredTypes = (node: Record<string, any>) => {
+  const declared: string[] = node.type ? (Array.isArray(node.type) ? node.type : [node.type]) : [];
+  const types = declared.map(normalizeType);
+  if (types.length === 0 && node.properties) types.push('object');
+  if (types.length === 0 && node.items) types.push('array');
+  return types;
+};
+
+interface TsMember {
+  name: string;
+  optional: boolean;
+  type: string;
+}
+
+const stripComments = (source: string) =>
+  source.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
+
+const matchBrace = (text: string, open: number) => {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}' && --depth === 0) return i;
+  }
+  return text.length - 1;
+};
+
+const splitTopLevel = (text: string, separators: string) => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of text) {
+    if ('{<(['.includes(ch)) depth++;
+    if ('}>)]'.includes(ch)) depth--;
+    if (depth === 0 && separators.includes(ch)) {
+      if (current.trim()) parts.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+};
+
+const parseMembers = (body: string): TsMember[] =>
+  splitTopLevel(body, ';\n,')
+    .map(part => part.match(/^(?:readonly\s+)?["']?([\w$-]+)["']?\s*(\?)?\s*:\s*([\s\S]+)$/))
+    .filter((m): m is RegExpMatchArray => !!m)
+    .map(m => ({ name: m[1], optional: !!m[2], type: m[3].trim() }));
+
+// An alias ends at a top-level ";", a blank line or the next declaration; braces may span lines
+const aliasEnd = (rest: string) => {
+  let depth = 0;
+  for (let i = 0; i < rest.length; i++) {
+    const ch = rest[i];
+    if ('{<(['.includes(ch)) depth++;
+    else if ('}>)]'.includes(ch)) depth--;
+    else if (depth <= 0 && (ch === ';' || (ch === '\n' && /^\n(\s*\n|\s*(export|interface|type)\b)/.test(rest.slice(i))))) return i;
+  }
+  return rest.length;
+};
+
+/**
+ * Parses the interfaces and object type aliases in a TS snippet. Not a full TS parser: it
+ * understands the shapes the synthesis pass emits (primitives, unions, arrays, nested literals, references).
+ */
+export const parseTsDeclarations = (source: string) => {
+  const text = stripComments(source || '');
+  const declarations = new Map<string, TsMember[]>();
+  const aliases = new Map<string, string>();
+  const header = /(?:export\s+)?(?:interface\s+(\w+)(?:<[^>]*>)?(?:\s+extends\s+[\w\s,<>]+)?\s*\{|type\s+(\w+)(?:<[^>]*>)?\s*=\s*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = header.exec(text))) {
+    const name = match[1] || match[2];
+    if (match[1]) {
+      const open = header.lastIndex - 1;
+      const close = matchBrace(text, open);
+      declarations.set(name, parseMembers(text.slice(open + 1, close)));
+      header.lastIndex = close + 1;
+    } else {
+      const rest = text.slice(header.lastIndex);
+      const open = header.lastIndex + rest.indexOf('{');
+      const close = rest.trimStart().startsWith('{') ? matchBrace(text, open) : -1;
+      // `{ ... } & Other` or `{ ... }[]` is an alias, not a plain object declaration
+      if (close !== -1 && !/^\s*[&|[]/.test(text.slice(close + 1))) {
+        declarations.set(name, parseMembers(text.slice(open + 1, close)));
+        header.lastIndex = close + 1;
+      } else {
+        const end = aliasEnd(rest);
+        aliases.set(name, rest.slice(0, end).trim());
+      }
+    }
+  }
+  return { declarations, aliases };
+};
+
+export const fieldsFromTs = (source: string): FieldMap => {
+  const map: FieldMap = new Map();
+  const { declarations, aliases } = parseTsDeclarations(source);
+  if (declarations.size === 0 && aliases.size === 0) return map;
+
+  // The root is the first declaration no other declaration references; fall back to the first one
+  const text = stripComments(source);
+  const position = (name: string) => text.search(new RegExp(`\\b(?:interface|type)\\s+${name}\\b`));
+  const names = [...declarations.keys(), ...aliases.keys()].sort((a, b) => position(a) - position(b));
+  const bodies = new Map<string, string[]>(names.map(n => [n, declarations.get(n)?.map(m => m.type) ?? [aliases.get(n)!]]));
+  const referenced = new Set<string>();
+  bodies.forEach((types, owner) => types.forEach(type => names.forEach(n => {
+    if (n !== owner && new RegExp(`\\b${n}\\b`).test(type)) referenced.add(n);
+  })));
+  const root = names.find(n => !referenced.has(n)) || names[0];
+
+  // `stack` holds the declarations being expanded so recursive types stop at their first repeat
+  const walkType = (type: string, path: string, required: boolean, stack: string[]) => {
+    const union = splitTopLevel(type.replace(/^\(|\)$/g, ''), '|');
+    const types: string[] = [];
+    for (const raw of union) {
+      const t = raw.trim();
+      if (/\[\]$/.test(t) || /^(Readonly)?Array<|^ReadonlyArray</.test(t)) {
+        types.push('array');
+        const inner = /\[\]$/.test(t) ? t.slice(0, -2) : t.slice(t.indexOf('<') + 1, t.lastIndexOf('>'));
+        walkType(inner, `${path}[]`, true, stack);
+      } else if (splitTopLevel(t, '&').length > 1) {
+        splitTopLevel(t, '&').forEach(part => walkType(part, path, required, stack));
+        continue;
+      } else if (t.startsWith('{')) {
+        types.push('object');
+        walkMembers(parseMembers(t.slice(1, t.lastIndexOf('}'))), path, stack);
+      } else if (/^(string|Date)$/.test(t) || /^['"`]/.test(t)) {
+        types.push('string');
+      } else if (t === 'number' || t === 'bigint' || /^-?\d/.test(t)) {
+        types.push('number');
+      } else if (t === 'boolean' || t === 'true' || t === 'false') {
+        types.push('boolean');
+      } else if (t === 'null') {
+        types.push('null');
+      } else if (t === 'undefined') {
+        continue;
+      } else if (/^(Record|Map|object)\b/.test(t)) {
+        types.push('object');
+      } else if (declarations.has(t)) {
+        types.push('object');
+        if (!stack.includes(t)) walkMembers(declarations.get(t)!, path, [...stack, t]);
+      } else if (aliases.has(t) && !stack.includes(t)) {
+        walkType(aliases.get(t)!, path, required, [...stack, t]);
+        continue;
+      } else {
+        types.push('any');
+      }
+    }
+    if (path && types.length > 0) addField(map, path, types, required);
+  };
+
+  const walkMembers = (members: TsMember[], path: string, stack: string[]) => {
+    members.forEach(m => walkType(m.type, childPath(path, m.name), !m.optional, stack));
+  };
+
+  if (declarations.has(root)) walkMembers(declarations.get(root)!, '', [root]);
+  else walkType(aliases.get(root)!, '', true, [root]);
+  return map;
+};
+
+const typesAgree = (a: Set<string>, b: Set<string>) =>
+  a.has('any') || b.has('any') || Array.from(a).some(t => b.has(t));
+
+const describe = (shape?: FieldShape) => (shape ? Array.from(shape.types).join(' | ') : 'absent');
+
+/**
+ * Compares example, schema, TS interface and prompt field by field. Each discrepancy names the
+ * artifact that should change: the odd one out by majority, with the schema winning ties.
+ */
+export const checkConsistency = (result: Pick<SearchResult, 'exampleJson' | 'jsonSchema' | 'tsInterface' | 'jsonPrompt'>): ConsistencyReport => {
+  const discrepancies: Discrepancy[] = [];
+  let example: FieldMap = new Map();
+  let schema: FieldMap = new Map();
+
+  try {
+    example = fieldsFromExample(JSON.parse(result.exampleJson));
+  } catch (e) {
+    discrepancies.push({ path: '', artifact: 'exampleJson', issue: 'unparseable', detail: 'Example is not valid JSON' });
+  }
+  try {
+    schema = fieldsFromSchema(JSON.parse(result.jsonSchema || '{}'));
+  } catch (e) {
+    discrepancies.push({ path: '', artifact: 'jsonSchema', issue: 'unparseable', detail: 'Schema is not valid JSON' });
+  }
+  const ts = fieldsFromTs(result.tsInterface || '');
+  if (result.tsInterface && ts.size === 0) {
+    discrepancies.push({ path: '', artifact: 'tsInterface', issue: 'unparseable', detail: 'No interface declarations found' });
+  }
+
+  const paths = Array.from(new Set([...example.keys(), ...schema.keys(), ...ts.keys()])).sort();
+  let checks = 0;
+
+  for (const path of paths) {
+    const inExample = example.get(path);
+    const inSchema = schema.get(path);
+    const inTs = ts.get(path);
+    // An optional field missing from the example is not a disagreement
+    const optional = inSchema?.required === false || inTs?.required === false;
+    const presence = {
+      exampleJson: !!inExample || optional,
+      jsonSchema: !!inSchema || schema.size === 0,
+      tsInterface: !!inTs || ts.size === 0
+    };
+    const present = Object.values(presence).filter(Boolean).length;
+
+    checks++;
+    if (present < 3) {
+      const artifacts = Object.keys(presence) as (keyof typeof presence)[];
+      const target = present >= 2
+        ? artifacts.find(a => !presence[a])!
+        : (presence.jsonSchema ? artifacts.find(a => a !== 'jsonSchema' && !presence[a])! : artifacts.find(a => presence[a])!);
+      discrepancies.push({
+        path,
+        artifact: target,
+        issue: presence[target] ? 'extra' : 'missing',
+        detail: `example: ${describe(inExample)} / schema: ${describe(inSchema)} / ts: ${describe(inTs)}`
+      });
+      continue;
+    }
+
+    const shapes: Partial<Record<ArtifactKey, FieldShape>> = { exampleJson: inExample, jsonSchema: inSchema, tsInterface: inTs };
+    const pairs: [ArtifactKey, ArtifactKey][] = [['exampleJson', 'jsonSchema'], ['exampleJson', 'tsInterface'], ['jsonSchema', 'tsInterface']];
+    const disagreements = pairs.filter(([a, b]) => shapes[a] && shapes[b] && !typesAgree(shapes[a]!.types, shapes[b]!.types));
+    checks++;
+    if (disagreements.length > 0) {
+      // An artifact in every disagreeing pair is the odd one out; otherwise the schema wins
+      const odd = (['exampleJson', 'tsInterface', 'jsonSchema'] as ArtifactKey[])
+        .find(a => disagreements.length > 1 && disagreements.every(pair => pair.includes(a)));
+      const target = odd || disagreements[0].find(a => a !== 'jsonSchema')!;
+      discrepancies.push({
+        path,
+        artifact: target,
+        issue: 'type-mismatch',
+        detail: `example: ${describe(inExample)} / schema: ${describe(inSchema)} / ts: ${describe(inTs)}`
+      });
+    }
+  }
+
+  // Every key should be named in the prompt, which promises to list them explicitly
+  const prompt = result.jsonPrompt || '';
+  const keys = Array.from(new Set(Array.from(schema.size ? schema.keys() : example.keys()).map(p => p.split('.').pop()!.replace(/\[\]/g, '')))).filter(Boolean);
+  for (const key of keys) {
+    checks++;
+    if (!new RegExp(`(^|[^\\w])${key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}([^\\w]|$)`).test(prompt)) {
+      discrepancies.push({ path: key, artifact: 'jsonPrompt', issue: 'missing', detail: `Key "${key}" is not named in the prompt` });
+    }
+  }
+
+  const score = checks === 0 ? 100 : Math.round(100 * (checks - discrepancies.length) / checks);
+  return { score: Math.max(0, score), discrepancies, repaired: [] };
+};
+
+const ARTIFACT_LABELS: Record<ArtifactKey, string> = {
+  exampleJson: 'example JSON document',
+  jsonSchema: 'JSON Schema (Draft 7)',
+  tsInterface: 'TypeScript interface',
+  jsonPrompt: 'LLM system prompt'
+};
+
+/**
+ * Asks the synthesis model to fix a single artifact, listing only the discrepancies that concern it.
+ */
+export const repairArtifact = async (
+  result: SearchResult,
+  artifact: ArtifactKey,
+  issues: Discrepancy[],
+  signal?: AbortSignal,
+  usageTag?: string
+): Promise<string> => {
+  const { provider, model } = resolveStage('synthesis');
+  const references = (['jsonSchema', 'exampleJson', 'tsInterface'] as ArtifactKey[])
+    .filter(key => key !== artifact)
+    .map(key => `--- ${ARTIFACT_LABELS[key]} ---\n${result[key] || ''}`)
+    .join('\n\n');
+
+  const prompt = `
+    You are repairing one artifact of a JSON prompt package so it agrees with its siblings.
+
+    ARTIFACT TO FIX (${ARTIFACT_LABELS[artifact]}):
+    ${result[artifact] || ''}
+
+    DISCREPANCIES TO FIX (fix these and nothing else):
+    ${issues.map(i => `- ${i.path || '(root)'}: ${i.issue} (${i.detail})`).join('\n')}
+
+    REFERENCE ARTIFACTS (do not change):
+    ${references}
+
+    Return a JSON object with a single key "fixed" whose value is the complete corrected ${ARTIFACT_LABELS[artifact]} as a string. Preserve all unrelated content verbatim.
+  `;
+
+  const response = await withRetry(() => provider.generate({
+    model,
+    prompt,
+    json: true,
+    signal,
+    usageTag,
+    responseSchema: {
+      type: Type.OBJECT,
+      properties: { fixed: { type: Type.STRING } },
+      required: ['fixed']
+    }
+  }), { stage: 'consistency', signal });
+
+  const fixed = JSON.parse(response.text || '{}').fixed;
+  if (typeof fixed !== 'string' || !fixed.trim()) {
+    throw new Error(`Repair returned no ${ARTIFACT_LABELS[artifact]}`);
+  }
+  return fixed;
+};
+
+const JSON_ARTIFACTS: ArtifactKey[] = ['exampleJson', 'jsonSchema'];
+
+/**
+ * Checks the artifacts and runs one targeted repair per disagreeing artifact, then re-checks.
+ * A repaired JSON artifact must parse to be accepted, and if the repairs leave more discrepancies
+ * than before, the original artifacts are kept. Failed repairs are listed in the report.
+ */
+export const reconcileArtifacts = async (
+  result: SearchResult,
+  signal?: AbortSignal,
+  usageTag?: string
+): Promise<{ result: SearchResult; report: ConsistencyReport }> => {
+  const initial = checkConsistency(result);
+  if (initial.discrepancies.length === 0) return { result, report: initial };
+
+  let repairedResult = { ...result };
+  const byArtifact = new Map<ArtifactKey, Discrepancy[]>();
+  initial.discrepancies.forEach(d => byArtifact.set(d.artifact, [...(byArtifact.get(d.artifact) || []), d]));
+
+  const failedRepairs: RepairFailure[] = [];
+  const applied: ArtifactKey[] = [];
+  for (const [artifact, issues] of byArtifact) {
+    signal?.throwIfAborted();
+    try {
+      const fixed = await repairArtifact(repairedResult, artifact, issues, signal, usageTag);
+      if (JSON_ARTIFACTS.includes(artifact)) {
+        try {
+          JSON.parse(fixed);
+        } catch (e: any) {
+          throw new Error(`Repair returned invalid JSON: ${e?.message || e}`);
+        }
+      }
+      repairedResult = { ...repairedResult, [artifact]: fixed };
+      applied.push(artifact);
+    } catch (e: any) {
+      if (e?.name === 'AbortError') throw e;
+      failedRepairs.push({ artifact, reason: e?.message || String(e) });
+    }
+  }
+
+  const final = checkConsistency(repairedResult);
+  if (final.discrepancies.length > initial.discrepancies.length) {
+    const reason = `Repair left ${final.discrepancies.length} discrepancies where there were ${initial.discrepancies.length}; the original was kept`;
+    return { result, report: { ...initial, failedRepairs: [...failedRepairs, ...applied.map(artifact => ({ artifact, reason }))] } };
+  }
+  const stillOpen = new Set(final.discrepancies.map(d => `${d.artifact}:${d.path}:${d.issue}`));
+  const repaired = initial.discrepancies.filter(d => !stillOpen.has(`${d.artifact}:${d.path}:${d.issue}`));
+  return { result: repairedResult, report: { ...final, repaired, failedRepairs } };
+};
@@ -0,0 +1,128 @@
+import { CacheStatus, SearchResult } from "../types";
+import { loadProviderSettings } from "./llmProvider";
+
+export interface CacheEntry {
+  key: string;
+  query: string;
+  fingerprint: string;
+  cachedAt: number;
+  result: SearchResult;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  expired: number;
+}
+
+const DB_NAME = 'json_prompter_cache';
+const STORE = 'discoveries';
+const TTL_KEY = 'json_prompter_cache_ttl_v1';
+
+export const DEFAULT_TTL_HOURS = 24;
+
+export const normalizeQuery = (query: string) =>
+  query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * The research and synthesis routing changes the answer, so it is part of the key.
+ */
+export const settingsFingerprint = () => {
+  const { stages } = loadProviderSettings();
+  return [stages.research, stages.synthesis].map(s => `${s.provider}:${s.model}`).join('+');
+};
+
+export const cacheKey = (query: string) => `${normalizeQuery(query)}|${settingsFingerprint()}`;
+
+export const getTtlHours = (): number => {
+  const raw = Number(localStorage.getItem(TTL_KEY));
+  return Number.isFinite(raw) && raw > 0 ? raw : DEFAULT_TTL_HOURS;
+};
+
+export const setTtlHours = (hours: number) => {
+  localStorage.setItem(TTL_KEY, String(hours));
+};
+
+export const isExpired = (entry: CacheEntry, ttlHours = getTtlHours()) =>
+  Date.now() - entry.cachedAt > ttlHours * 3600 * 1000;
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE, { keyPath: 'key' });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Returns the cached result for a query under the current settings. Entries past the TTL
+ * are still returned, flagged stale, so the UI can show them instantly and offer a refresh.
+ */
+export const getCachedResult = async (query: string): Promise<{ result: SearchResult; status: CacheStatus } | null> => {
+  try {
+    const entry = await withStore<CacheEntry | undefined>('readonly', store => store.get(cacheKey(query)));
+    if (!entry) return null;
+    return { result: entry.result, status: { cachedAt: entry.cachedAt, stale: isExpired(entry) } };
+  } catch (e) {
+    console.warn("Discovery cache unavailable:", e);
+    return null;
+  }
+};
+
+export const putCachedResult = async (query: string, result: SearchResult) => {
+  const entry: CacheEntry = {
+    key: cacheKey(query),
+    query: normalizeQuery(query),
+    fingerprint: settingsFingerprint(),
+    cachedAt: Date.now(),
+    result
+  };
+  try {
+    await withStore('readwrite', store => store.put(entry));
+  } catch (e) {
+    console.warn("Discovery cache write failed:", e);
+  }
+};
+
+export const listCacheEntries = async (): Promise<CacheEntry[]> => {
+  const entries = await withStore<CacheEntry[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => b.cachedAt - a.cachedAt);
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  const entries = await listCacheEntries();
+  const ttl = getTtlHours();
+  return {
+    entries: entries.length,
+    bytes: entries.reduce((sum, entry) => sum + new Blob([JSON.stringify(entry)]).size, 0),
+    expired: entries.filter(entry => isExpired(entry, ttl)).length
+  };
+};
+
+export const deleteCacheEntry = (key: string) => withStore('readwrite', store => store.delete(key));
+
+export const purgeCache = async (onlyExpired = false) => {
+  if (!onlyExpired) {
+    await withStore('readwrite', store => store.clear());
+    return;
+  }
+  const ttl = getTtlHours();
+  const expired = (await listCacheEntries()).filter(entry => isExpired(entry, ttl));
+  for (const entry of expired) {
+    await deleteCacheEntry(entry.key);
+  }
+};
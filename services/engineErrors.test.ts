@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { sleep } from './engineErrors';
+
+describe('sleep', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('rejects immediately when the signal is already aborted', async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    controller.abort();
+    await expect(sleep(60_000, controller.signal)).rejects.toBeDefined();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('rejects when the signal aborts during the delay', async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const pending = sleep(60_000, controller.signal);
+    controller.abort();
+    await expect(pending).rejects.toBeDefined();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('removes its abort listener once the delay has passed', async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const remove = vi.spyOn(controller.signal, 'removeEventListener');
+    const pending = sleep(1_000, controller.signal);
+    await vi.advanceTimersByTimeAsync(1_000);
+    await expect(pending).resolves.toBeUndefined();
+    expect(remove).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+});
@@ -0,0 +1,203 @@
+import { EngineErrorKind, EngineFault } from "../types";
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const RETRY_POLICIES: Record<EngineErrorKind, RetryPolicy> = {
+  quota: { maxAttempts: 4, baseDelayMs: 2000, maxDelayMs: 20000 },
+  network: { maxAttempts: 3, baseDelayMs: 800, maxDelayMs: 8000 },
+  malformed_json: { maxAttempts: 2, baseDelayMs: 0, maxDelayMs: 0 },
+  grounding_unavailable: { maxAttempts: 2, baseDelayMs: 1500, maxDelayMs: 1500 },
+  safety: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+  missing_api_key: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+  budget_exceeded: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+  unknown: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 }
+};
+
+const TITLES: Record<EngineErrorKind, string> = {
+  quota: 'Rate Limit Reached',
+  network: 'Network Failure',
+  malformed_json: 'Malformed Synthesis',
+  grounding_unavailable: 'Grounding Unavailable',
+  safety: 'Safety Block',
+  missing_api_key: 'Missing API Key',
+  budget_exceeded: 'Budget Cap Reached',
+  unknown: 'System Fault'
+};
+
+const REMEDIATIONS: Record<EngineErrorKind, string> = {
+  quota: 'The provider is throttling requests. Wait a minute before retrying, or route this stage to another provider in Engine settings.',
+  network: 'The provider could not be reached. Check your connection, VPN or the local server address, then retry.',
+  malformed_json: 'The synthesis model returned JSON that could not be parsed. Retrying usually succeeds; a stronger synthesis model helps if it keeps happening.',
+  grounding_unavailable: 'Google Search grounding is not available for this key or model. Research will run ungrounded, or pick a grounding-capable Gemini model.',
+  safety: 'The provider blocked this request on safety grounds. Rephrase the query to describe the data structure more neutrally.',
+  missing_api_key: 'No API key is configured for this stage. Set GEMINI_API_KEY in .env.local, or add a key for the OpenAI-compatible endpoint in Engine settings.',
+  budget_exceeded: 'This month\'s spend has reached the budget cap, so new model calls are blocked. Raise or clear the cap in the Usage panel to continue.',
+  unknown: 'An unexpected error occurred. Retry, and check the browser console if it persists.'
+};
+
+export class EngineError extends Error {
+  readonly kind: EngineErrorKind;
+  stage?: string;
+  readonly cause?: unknown;
+
+  constructor(kind: EngineErrorKind, message: string, cause?: unknown, stage?: string) {
+    super(message);
+    this.name = 'EngineError';
+    this.kind = kind;
+    this.cause = cause;
+    this.stage = stage;
+  }
+
+  get retryable() {
+    return RETRY_POLICIES[this.kind].maxAttempts > 1;
+  }
+
+  get remediation() {
+    return REMEDIATIONS[this.kind];
+  }
+
+  toFault(): EngineFault {
+    return {
+      kind: this.kind,
+      title: TITLES[this.kind],
+      message: this.message,
+      remediation: this.remediation,
+      stage: this.stage,
+      retryable: this.retryable
+    };
+  }
+}
+
+export class QuotaError extends EngineError {
+  constructor(message: string, cause?: unknown, stage?: string) {
+    super('quota', message, cause, stage);
+    this.name = 'QuotaError';
+  }
+}
+
+export class SafetyBlockError extends EngineError {
+  constructor(message: string, cause?: unknown, stage?: string) {
+    super('safety', message, cause, stage);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+export class GroundingUnavailableError extends EngineError {
+  constructor(message: string, cause?: unknown, stage?: string) {
+    super('grounding_unavailable', message, cause, stage);
+    this.name = 'GroundingUnavailableError';
+  }
+}
+
+export class MalformedJsonError extends EngineError {
+  constructor(message: string, cause?: unknown, stage?: string) {
+    super('malformed_json', message, cause, stage);
+    this.name = 'MalformedJsonError';
+  }
+}
+
+export class NetworkError extends EngineError {
+  constructor(message: string, cause?: unknown, stage?: string) {
+    super('network', message, cause, stage);
+    this.name = 'NetworkError';
+  }
+}
+
+export class MissingApiKeyError extends EngineError {
+  constructor(message: string, cause?: unknown, stage?: string) {
+    super('missing_api_key', message, cause, stage);
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+export class BudgetExceededError extends EngineError {
+  constructor(message: string, cause?: unknown, stage?: string) {
+    super('budget_exceeded', message, cause, stage);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Maps raw SDK, fetch and parser failures onto the engine taxonomy.
+ */
+export const classifyError = (error: any, stage?: string): EngineError => {
+  if (error instanceof EngineError) {
+    if (!error.stage) error.stage = stage;
+    return error;
+  }
+  const message: string = error?.message || String(error || 'Unknown error');
+  const status: number | undefined = error?.status ?? error?.code;
+
+  if (error instanceof SyntaxError || /JSON/.test(message) && /parse|unexpected|position/i.test(message)) {
+    return new MalformedJsonError(message, error, stage);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate.?limit|too many requests|\b429\b/i.test(message)) {
+    return new QuotaError(message, error, stage);
+  }
+  if (/API[_ ]?key|API_KEY_INVALID|unauthori[sz]ed|\b401\b/i.test(message) || status === 401) {
+    return new MissingApiKeyError(message, error, stage);
+  }
+  if (/SAFETY|blocked|PROHIBITED_CONTENT|BLOCKLIST/i.test(message)) {
+    return new SafetyBlockError(message, error, stage);
+  }
+  if (/google_?search|grounding|search tool/i.test(message)) {
+    return new GroundingUnavailableError(message, error, stage);
+  }
+  if (
+    error instanceof TypeError ||
+    (typeof status === 'number' && status >= 500) ||
+    /failed to fetch|network|ECONN|ETIMEDOUT|UNAVAILABLE|\b50[234]\b|load failed/i.test(message)
+  ) {
+    return new NetworkError(message, error, stage);
+  }
+  return new EngineError('unknown', message, error, stage);
+};
+
+export const backoffDelay = (policy: RetryPolicy, attempt: number) =>
+  Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const abortReason = () => signal?.reason ?? new DOMException("Aborted", "AbortError");
+  if (signal?.aborted) return reject(abortReason());
+  if (ms <= 0) return resolve();
+  // The listener is removed once the timer fires so a long-lived signal does not collect one per retry
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortReason());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export interface RetryOptions {
+  stage?: string;
+  signal?: AbortSignal;
+  onRetry?: (error: EngineError, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Runs a call, retrying transient failures with the exponential backoff policy of their error kind.
+ */
+export const withRetry = async <T>(run: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { stage, signal, onRetry } = options;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run(attempt);
+    } catch (raw: any) {
+      if (signal?.aborted || raw?.name === 'AbortError') throw raw;
+      const error = classifyError(raw, stage);
+      const policy = RETRY_POLICIES[error.kind];
+      if (attempt >= policy.maxAttempts) throw error;
+      const delayMs = backoffDelay(policy, attempt);
+      onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+};
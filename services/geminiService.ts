@@ -1,8 +1,14 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { SearchResult, Source } from "../types";
+import { GroundingChunk, Type } from "@google/genai";
+import { ConsistencyReport, SearchResult, Source } from "../types";
+import { resolveStage } from "./llmProvider";
+import { EngineErrorKind } from "../types";
+import { MalformedJsonError, classifyError, withRetry } from "./engineErrors";
+import { reconcileArtifacts } from "./consistencyChecker";
+import { collectGroundingEvidence } from "./provenance";
+import { createUsageTag, usageForTag } from "./usageLedger";
 
-const cleanJsonResponse = (text: string): string => {
+export const cleanJsonResponse = (text: string): string => {
   if (!text) return '{}';
   // Remove markdown code blocks and handle potentially messy output
   const cleaned = text.replace(/```json\n?|```/g, '').trim();
@@ -15,11 +21,35 @@ const cleanJsonResponse = (text: string): string => {
   return cleaned;
 };
 
-export const discoverJsonPrompts = async (query: string): Promise<SearchResult> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
+export type DiscoveryStage = 'research' | 'sources' | 'synthesis' | 'parse' | 'consistency';
+
+export type DiscoveryEvent =
+  | { type: 'research-started'; provider: string; model: string; grounded: boolean }
+  | { type: 'sources-found'; sources: Source[]; chunks: GroundingChunk[] }
+  | { type: 'synthesis-started'; provider: string; model: string }
+  | { type: 'synthesis-streaming'; chars: number; preview: string }
+  | { type: 'retrying'; stage: DiscoveryStage; kind: EngineErrorKind; attempt: number; delayMs: number; message: string }
+  | { type: 'artifacts-parsed'; result: SearchResult }
+  | { type: 'consistency-checked'; report: ConsistencyReport };
+
+export interface DiscoveryOptions {
+  signal?: AbortSignal;
+  onEvent?: (event: DiscoveryEvent) => void;
+}
+
+export const isAbortError = (error: any) => error?.name === 'AbortError';
+
+export const discoverJsonPrompts = async (query: string, options: DiscoveryOptions = {}): Promise<SearchResult> => {
+  const { signal, onEvent } = options;
+  const emit = (event: DiscoveryEvent) => onEvent?.(event);
+  const research = resolveStage('research');
+  const synthesis = resolveStage('synthesis');
+  const usageTag = createUsageTag('discovery');
+  let stage: DiscoveryStage = 'research';
+
   try {
-    // Stage 1: Live Grounding with Gemini 3 Flash - Refined for Authority
+    signal?.throwIfAborted();
+    // Stage 1: Live Grounding (when the research provider supports it) - Refined for Authority
     const researchPrompt = `
       Act as a Lead Data Architect. Perform a targeted, industry-wide search for the most authoritative JSON data structures, API specifications, and formal schemas for: "${query}".
       
@@ -37,24 +67,32 @@ export const discoverJsonPrompts = async (query: string): Promise<SearchResult>
       - Reference specific implementations from major tech platforms.
     `;
 
-    const searchResponse = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: researchPrompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-      },
+    let grounded = research.provider.supportsGrounding;
+    emit({ type: 'research-started', provider: research.provider.kind, model: research.model, grounded });
+    const searchResponse = await withRetry(() => research.provider.generate({
+      model: research.model,
+      prompt: researchPrompt,
+      grounding: grounded,
+      signal,
+      usageTag
+    }), {
+      stage,
+      signal,
+      onRetry: (error, attempt, delayMs) => {
+        // Without grounding the research pass still produces usable (if less authoritative) input
+        if (error.kind === 'grounding_unavailable') grounded = false;
+        emit({ type: 'retrying', stage, kind: error.kind, attempt, delayMs, message: error.message });
+      }
     });
+    signal?.throwIfAborted();
 
     const researchText = searchResponse.text || "No grounded data available.";
     
-    // Extract sources safely
-    const sources: Source[] = (searchResponse.candidates?.[0]?.groundingMetadata?.groundingChunks || [])
-      .map((chunk: any) => ({
-        title: chunk.web?.title || "Grounded Reference",
-        uri: chunk.web?.uri || "#"
-      }))
-      .filter((s: Source) => s.uri !== "#")
-      .slice(0, 5);
+    // Keep every chunk and the supports that tie research passages to them
+    const chunks = searchResponse.groundingMetadata?.groundingChunks || [];
+    const { sources, evidence } = collectGroundingEvidence(searchResponse.groundingMetadata);
+    emit({ type: 'sources-found', sources, chunks });
+    stage = 'synthesis';
 
     // Stage 2: Prompt Synthesis
     const synthesisPrompt = `
@@ -79,36 +117,68 @@ export const discoverJsonPrompts = async (query: string): Promise<SearchResult>
       7. "promptVariations": 3 alternative prompt strategies.
     `;
 
-    const formatResponse = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: synthesisPrompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            title: { type: Type.STRING },
-            description: { type: Type.STRING },
-            jsonPrompt: { type: Type.STRING },
-            exampleJson: { type: Type.STRING },
-            tsInterface: { type: Type.STRING },
-            jsonSchema: { type: Type.STRING },
-            promptVariations: { type: Type.ARRAY, items: { type: Type.STRING } }
-          },
-          required: ["title", "description", "jsonPrompt", "exampleJson", "tsInterface", "jsonSchema", "promptVariations"]
-        }
+    const synthesisSchema = {
+      type: Type.OBJECT,
+      properties: {
+        title: { type: Type.STRING },
+        description: { type: Type.STRING },
+        jsonPrompt: { type: Type.STRING },
+        exampleJson: { type: Type.STRING },
+        tsInterface: { type: Type.STRING },
+        jsonSchema: { type: Type.STRING },
+        promptVariations: { type: Type.ARRAY, items: { type: Type.STRING } }
+      },
+      required: ["title", "description", "jsonPrompt", "exampleJson", "tsInterface", "jsonSchema", "promptVariations"]
+    };
+
+    const parsed = await withRetry(async () => {
+      stage = 'synthesis';
+      emit({ type: 'synthesis-started', provider: synthesis.provider.kind, model: synthesis.model });
+      const stream = synthesis.provider.generateStream({
+        model: synthesis.model,
+        prompt: synthesisPrompt,
+        json: true,
+        signal,
+        usageTag,
+        responseSchema: synthesisSchema
+      });
+
+      let rawResult = '';
+      for await (const chunk of stream) {
+        rawResult += chunk;
+        emit({ type: 'synthesis-streaming', chars: rawResult.length, preview: rawResult.slice(-160) });
       }
-    });
+      signal?.throwIfAborted();
 
-    const rawResult = formatResponse.text || '{}';
-    const parsed = JSON.parse(cleanJsonResponse(rawResult));
+      stage = 'parse';
+      try {
+        return JSON.parse(cleanJsonResponse(rawResult || '{}'));
+      } catch (e: any) {
+        throw new MalformedJsonError(`Synthesis output is not valid JSON: ${e.message}`, e, stage);
+      }
+    }, {
+      signal,
+      onRetry: (error, attempt, delayMs) =>
+        emit({ type: 'retrying', stage, kind: error.kind, attempt, delayMs, message: error.message })
+    });
 
-    return {
+    const synthesized: SearchResult = {
       ...parsed,
-      sources: sources.length > 0 ? sources : [{ title: "General Industry Documentation", uri: "#" }]
+      sources: sources.length > 0 ? sources : [{ title: "General Industry Documentation", uri: "#" }],
+      evidence
     };
+    emit({ type: 'artifacts-parsed', result: synthesized });
+
+    // Stage 3: Cross-artifact consistency check with targeted repairs
+    stage = 'consistency';
+    const { result, report } = await reconcileArtifacts(synthesized, signal, usageTag);
+    emit({ type: 'consistency-checked', report });
+    return { ...result, consistency: report, usage: usageForTag(usageTag) };
   } catch (error: any) {
+    if (signal?.aborted || isAbortError(error)) {
+      throw new DOMException("Discovery cancelled.", "AbortError");
+    }
     console.error("Discovery Engine Error:", error);
-    throw new Error(error.message || "The synthesis engine encountered a logic fault. Please retry.");
+    throw classifyError(error, stage);
   }
 };
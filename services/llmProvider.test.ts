@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_PROVIDER_SETTINGS, createProvider, resolveStage } from './llmProvider';
+import { SafetyBlockError } from './engineErrors';
+import { loadUsageRecords } from './usageLedger';
+
+const gemini = vi.hoisted(() => ({ generateContent: vi.fn(), generateContentStream: vi.fn() }));
+
+vi.mock('@google/genai', () => ({
+  GoogleGenAI: class {
+    models = gemini;
+  }
+}));
+
+const request = { model: 'gemini-test', prompt: 'Describe a product', json: true };
+
+const chunks = async function* (...responses: object[]) {
+  yield* responses;
+};
+
+describe('Gemini provider', () => {
+  beforeEach(() => {
+    process.env.API_KEY = 'test-key';
+    gemini.generateContent.mockReset();
+    gemini.generateContentStream.mockReset();
+  });
+
+  it('raises SafetyBlockError when the prompt was blocked', async () => {
+    gemini.generateContent.mockResolvedValue({ text: '', promptFeedback: { blockReason: 'SAFETY' }, candidates: [] });
+    const provider = createProvider('gemini', DEFAULT_PROVIDER_SETTINGS);
+    await expect(provider.generate(request)).rejects.toBeInstanceOf(SafetyBlockError);
+  });
+
+  it('raises SafetyBlockError when the candidate finished for safety', async () => {
+    gemini.generateContent.mockResolvedValue({ text: '', candidates: [{ finishReason: 'SAFETY' }] });
+    const provider = createProvider('gemini', DEFAULT_PROVIDER_SETTINGS);
+    await expect(provider.generate(request)).rejects.toBeInstanceOf(SafetyBlockError);
+  });
+
+  it('raises SafetyBlockError when a streamed chunk was blocked', async () => {
+    gemini.generateContentStream.mockResolvedValue(chunks(
+      { text: '{"a":', candidates: [{}] },
+      { text: '', candidates: [{ finishReason: 'SAFETY' }] }
+    ));
+    const stream = createProvider('gemini', DEFAULT_PROVIDER_SETTINGS).generateStream(request);
+    await expect(stream.next()).resolves.toEqual({ done: false, value: '{"a":' });
+    await expect(stream.next()).rejects.toBeInstanceOf(SafetyBlockError);
+  });
+
+  it('returns the text of an unblocked response', async () => {
+    gemini.generateContent.mockResolvedValue({ text: '{"a":1}', candidates: [{ finishReason: 'STOP' }] });
+    const result = await createProvider('gemini', DEFAULT_PROVIDER_SETTINGS).generate(request);
+    expect(result.text).toBe('{"a":1}');
+  });
+});
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key)
+  };
+};
+
+const sseResponse = (...events: object[]) =>
+  new Response(events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n');
+
+describe('OpenAI-compatible streaming', () => {
+  beforeEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const streamedBody = async (kind: 'openai' | 'local', streamUsage: boolean) => {
+    const fetch = vi.fn().mockResolvedValue(sseResponse({ choices: [{ delta: { content: 'ok' } }] }));
+    vi.stubGlobal('fetch', fetch);
+    const settings = {
+      ...DEFAULT_PROVIDER_SETTINGS,
+      openai: { ...DEFAULT_PROVIDER_SETTINGS.openai, apiKey: 'key', streamUsage },
+      local: { ...DEFAULT_PROVIDER_SETTINGS.local, streamUsage }
+    };
+    for await (const _ of createProvider(kind, settings).generateStream(request)) { /* drain */ }
+    return JSON.parse(fetch.mock.calls[0][1].body);
+  };
+
+  it('only sends stream_options when the provider opts in', async () => {
+    expect((await streamedBody('openai', true)).stream_options).toEqual({ include_usage: true });
+    expect((await streamedBody('local', false)).stream_options).toBeUndefined();
+  });
+
+  it('does not ask local servers for stream usage by default', () => {
+    expect(DEFAULT_PROVIDER_SETTINGS.local.streamUsage).toBe(false);
+  });
+});
+
+describe('metered streams', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    process.env.API_KEY = 'test-key';
+    gemini.generateContentStream.mockReset();
+  });
+
+  it('records estimated usage for a stream aborted part-way', async () => {
+    gemini.generateContentStream.mockResolvedValue((async function* () {
+      yield { text: '{"name":"partial', candidates: [{}] };
+      throw new DOMException('Aborted', 'AbortError');
+    })());
+    const { provider, model } = resolveStage('test');
+    const received: string[] = [];
+    await expect((async () => {
+      for await (const delta of provider.generateStream({ ...request, model })) received.push(delta);
+    })()).rejects.toThrow('Aborted');
+
+    expect(received).toEqual(['{"name":"partial']);
+    const [record] = loadUsageRecords();
+    expect(record.stage).toBe('test');
+    expect(record.outputTokens).toBeGreaterThan(0);
+    expect(record.promptTokens).toBeGreaterThan(0);
+  });
+
+  it('records estimated usage when the consumer stops reading', async () => {
+    gemini.generateContentStream.mockResolvedValue(chunks({ text: 'one', candidates: [{}] }, { text: 'two', candidates: [{}] }));
+    const { provider, model } = resolveStage('test');
+    for await (const _ of provider.generateStream({ ...request, model })) break;
+    expect(loadUsageRecords()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,330 @@
+import { GenerateContentResponse, GenerateContentResponseUsageMetadata, GoogleGenAI, GroundingMetadata, Schema } from "@google/genai";
+import { PipelineStage, ProviderKind, ProviderSettings, TokenUsage } from "../types";
+import { MissingApiKeyError, NetworkError, QuotaError, SafetyBlockError } from "./engineErrors";
+import { assertWithinBudget, estimateTokens, recordUsage } from "./usageLedger";
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface GenerateRequest {
+  model: string;
+  prompt: string | ChatTurn[];
+  systemInstruction?: string;
+  json?: boolean;
+  // Gemini-native schema; OpenAI-compatible adapters fall back to plain JSON mode
+  responseSchema?: Schema;
+  grounding?: boolean;
+  temperature?: number;
+  signal?: AbortSignal;
+  // Groups the call's usage with the discovery or import it belongs to
+  usageTag?: string;
+}
+
+export interface GenerateResult {
+  text: string;
+  groundingMetadata?: GroundingMetadata;
+  usage?: TokenUsage;
+}
+
+export interface LLMProvider {
+  kind: ProviderKind;
+  supportsGrounding: boolean;
+  generate: (req: GenerateRequest) => Promise<GenerateResult>;
+  // Yields text deltas and returns the token usage once the stream ends
+  generateStream: (req: GenerateRequest) => AsyncGenerator<string, TokenUsage | undefined>;
+}
+
+const SETTINGS_KEY = 'json_prompter_providers_v1';
+
+export const DEFAULT_MODELS: Record<ProviderKind, string> = {
+  gemini: 'gemini-3-flash-preview',
+  openai: 'gpt-4o-mini',
+  local: 'llama3.1'
+};
+
+export const PIPELINE_STAGES: PipelineStage[] = ['research', 'synthesis', 'test', 'chat'];
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  stages: {
+    research: { provider: 'gemini', model: DEFAULT_MODELS.gemini },
+    synthesis: { provider: 'gemini', model: DEFAULT_MODELS.gemini },
+    test: { provider: 'gemini', model: DEFAULT_MODELS.gemini },
+    chat: { provider: 'gemini', model: DEFAULT_MODELS.gemini }
+  },
+  openai: {
+    baseUrl: 'https://api.openai.com/v1',
+    apiKey: '',
+    streamUsage: true
+  },
+  local: {
+    // Ollama and llama.cpp both expose an OpenAI-compatible /v1 surface
+    baseUrl: 'http://localhost:11434/v1',
+    streamUsage: false
+  }
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_PROVIDER_SETTINGS;
+    const parsed = JSON.parse(raw);
+    return {
+      stages: { ...DEFAULT_PROVIDER_SETTINGS.stages, ...(parsed.stages || {}) },
+      openai: { ...DEFAULT_PROVIDER_SETTINGS.openai, ...(parsed.openai || {}) },
+      local: { ...DEFAULT_PROVIDER_SETTINGS.local, ...(parsed.local || {}) }
+    };
+  } catch (e) {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const toTurns = (prompt: string | ChatTurn[]): ChatTurn[] =>
+  typeof prompt === 'string' ? [{ role: 'user', text: prompt }] : prompt;
+
+const geminiUsage = (usage?: GenerateContentResponseUsageMetadata, grounding?: GroundingMetadata): TokenUsage | undefined =>
+  usage && {
+    promptTokens: usage.promptTokenCount || 0,
+    // Thinking tokens are billed as output
+    outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+    groundingTokens: usage.toolUsePromptTokenCount || 0,
+    groundedRequests: grounding?.webSearchQueries?.length || grounding?.groundingChunks?.length ? 1 : 0
+  };
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+// A blocked response comes back without an error and with empty text, which would otherwise parse as `{}`
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const feedback = response.promptFeedback;
+  if (feedback?.blockReason) {
+    throw new SafetyBlockError(`The prompt was blocked (${feedback.blockReason})${feedback.blockReasonMessage ? `: ${feedback.blockReasonMessage}` : ''}`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new SafetyBlockError(`The response was blocked (${finishReason})`);
+  }
+};
+
+const createGeminiProvider = (): LLMProvider => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const assertKey = () => {
+    if (!process.env.API_KEY) throw new MissingApiKeyError("GEMINI_API_KEY is not set.");
+  };
+
+  const buildParams = (req: GenerateRequest) => ({
+    model: req.model,
+    contents: typeof req.prompt === 'string'
+      ? req.prompt
+      : req.prompt.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+    config: {
+      ...(req.systemInstruction ? { systemInstruction: req.systemInstruction } : {}),
+      ...(req.json ? { responseMimeType: "application/json" } : {}),
+      ...(req.responseSchema ? { responseSchema: req.responseSchema } : {}),
+      ...(req.grounding ? { tools: [{ googleSearch: {} }] } : {}),
+      ...(req.temperature !== undefined ? { temperature: req.temperature } : {}),
+      ...(req.signal ? { abortSignal: req.signal } : {})
+    }
+  });
+
+  return {
+    kind: 'gemini',
+    supportsGrounding: true,
+    generate: async (req) => {
+      assertKey();
+      const response = await ai.models.generateContent(buildParams(req));
+      assertNotBlocked(response);
+      const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
+      return {
+        text: response.text || '',
+        groundingMetadata,
+        usage: geminiUsage(response.usageMetadata, groundingMetadata)
+      };
+    },
+    generateStream: async function* (req) {
+      assertKey();
+      const stream = await ai.models.generateContentStream(buildParams(req));
+      let usage: GenerateContentResponseUsageMetadata | undefined;
+      let grounding: GroundingMetadata | undefined;
+      for await (const chunk of stream) {
+        assertNotBlocked(chunk);
+        // Every chunk reports running totals; the last one wins
+        usage = chunk.usageMetadata || usage;
+        grounding = chunk.candidates?.[0]?.groundingMetadata || grounding;
+        yield chunk.text || '';
+      }
+      return geminiUsage(usage, grounding);
+    }
+  };
+};
+
+const openAIUsage = (usage: any): TokenUsage | undefined =>
+  usage && {
+    promptTokens: usage.prompt_tokens || 0,
+    outputTokens: usage.completion_tokens || 0,
+    groundingTokens: 0,
+    groundedRequests: 0
+  };
+
+const createOpenAICompatibleProvider = (kind: ProviderKind, baseUrl: string, apiKey?: string, streamUsage = false): LLMProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const buildBody = (req: GenerateRequest, stream: boolean) => ({
+    model: req.model,
+    stream,
+    messages: [
+      ...(req.systemInstruction ? [{ role: 'system', content: req.systemInstruction }] : []),
+      ...toTurns(req.prompt).map(turn => ({
+        role: turn.role === 'model' ? 'assistant' : 'user',
+        content: turn.text
+      }))
+    ],
+    ...(stream && streamUsage ? { stream_options: { include_usage: true } } : {}),
+    ...(req.json ? { response_format: { type: 'json_object' } } : {}),
+    ...(req.temperature !== undefined ? { temperature: req.temperature } : {})
+  });
+
+  const post = async (req: GenerateRequest, stream: boolean) => {
+    if (kind === 'openai' && !apiKey) {
+      throw new MissingApiKeyError("No API key is configured for the OpenAI-compatible endpoint.");
+    }
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+        },
+        body: JSON.stringify(buildBody(req, stream)),
+        signal: req.signal
+      });
+    } catch (e: any) {
+      if (e?.name === 'AbortError') throw e;
+      throw new NetworkError(`Could not reach ${endpoint}: ${e?.message || e}`, e);
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      const message = `${kind} provider responded ${response.status}: ${detail.slice(0, 200)}`;
+      if (response.status === 429) throw new QuotaError(message);
+      if (response.status === 401) throw new MissingApiKeyError(message);
+      throw Object.assign(new Error(message), { status: response.status });
+    }
+    return response;
+  };
+
+  return {
+    kind,
+    // Search grounding is a Gemini tool; research on other providers runs ungrounded
+    supportsGrounding: false,
+    generate: async (req) => {
+      const response = await post(req, false);
+      const data = await response.json();
+      return { text: data.choices?.[0]?.message?.content || '', usage: openAIUsage(data.usage) };
+    },
+    generateStream: async function* (req) {
+      const response = await post(req, true);
+      if (!response.body) return undefined;
+      let usage: TokenUsage | undefined;
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const payload = line.replace(/^data:\s*/, '').trim();
+          if (!payload || payload === '[DONE]') continue;
+          let data: any;
+          try {
+            data = JSON.parse(payload);
+          } catch (e) {
+            // Partial or non-JSON keep-alive line
+            continue;
+          }
+          // With include_usage the final chunk carries totals and no choices
+          usage = openAIUsage(data.usage) || usage;
+          yield data.choices?.[0]?.delta?.content || '';
+        }
+      }
+      return usage;
+    }
+  };
+};
+
+export const createProvider = (kind: ProviderKind, settings: ProviderSettings = loadProviderSettings()): LLMProvider => {
+  switch (kind) {
+    case 'openai':
+      return createOpenAICompatibleProvider('openai', settings.openai.baseUrl, settings.openai.apiKey, settings.openai.streamUsage);
+    case 'local':
+      return createOpenAICompatibleProvider('local', settings.local.baseUrl, undefined, settings.local.streamUsage);
+    case 'gemini':
+    default:
+      return createGeminiProvider();
+  }
+};
+
+/**
+ * Wraps an adapter so every call is checked against the budget cap and its usage recorded.
+ */
+const meterProvider = (provider: LLMProvider, stage: PipelineStage): LLMProvider => ({
+  ...provider,
+  generate: async (req) => {
+    assertWithinBudget(stage);
+    const result = await provider.generate(req);
+    if (result.usage) recordUsage(stage, provider.kind, req.model, result.usage, req.usageTag);
+    return result;
+  },
+  generateStream: async function* (req) {
+    assertWithinBudget(stage);
+    const stream = provider.generateStream(req);
+    let received = '';
+    let finished = false;
+    try {
+      while (true) {
+        const step = await stream.next();
+        if (step.done) {
+          finished = true;
+          if (step.value) recordUsage(stage, provider.kind, req.model, step.value, req.usageTag);
+          else if (received) recordUsage(stage, provider.kind, req.model, estimateStreamUsage(req, received), req.usageTag);
+          return step.value;
+        }
+        received += step.value;
+        // Without strictNullChecks the `done` discriminant does not narrow the yield type
+        yield step.value as string;
+      }
+    } finally {
+      // Aborted, failed or abandoned streams never reach the usage chunk, so what was exchanged so far is estimated
+      if (!finished) {
+        await stream.return(undefined).catch(() => undefined);
+        if (received) recordUsage(stage, provider.kind, req.model, estimateStreamUsage(req, received), req.usageTag);
+      }
+    }
+  }
+});
+
+const estimateStreamUsage = (req: GenerateRequest, received: string): TokenUsage => ({
+  promptTokens: estimateTokens([req.systemInstruction || '', ...toTurns(req.prompt).map(turn => turn.text)].join('\n')),
+  outputTokens: estimateTokens(received),
+  groundingTokens: 0,
+  groundedRequests: 0
+});
+
+/**
+ * Resolves the provider adapter and model the user picked for a pipeline stage.
+ */
+export const resolveStage = (stage: PipelineStage): { provider: LLMProvider; model: string } => {
+  const settings = loadProviderSettings();
+  const config = settings.stages[stage];
+  return {
+    provider: meterProvider(createProvider(config.provider, settings), stage),
+    model: config.model || DEFAULT_MODELS[config.provider]
+  };
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { formatMockRecords, generateMockRecords } from './mockData';
+import { validateJson } from './schemaValidator';
+
+describe('generateMockRecords', () => {
+  it('generates strings for patterns with negated class escapes', () => {
+    const schema = { type: 'object', properties: { code: { type: 'string', pattern: '^\\S+-\\D\\W\\d{2}$' } }, required: ['code'] };
+    const records = generateMockRecords(schema, 20, 'seed');
+    expect(records.every(record => validateJson(schema, record).valid)).toBe(true);
+  });
+
+  it('fills additionalProperties maps up to minProperties', () => {
+    const schema = { type: 'object', additionalProperties: { type: 'integer' }, minProperties: 3 };
+    for (const record of generateMockRecords(schema, 5, 'seed')) {
+      expect(Object.keys(record as object).length).toBeGreaterThanOrEqual(3);
+      expect(validateJson(schema, record).valid).toBe(true);
+    }
+  });
+
+  it('does not add entries when additionalProperties is false', () => {
+    const schema = { type: 'object', properties: { a: { type: 'string' } }, required: ['a'], additionalProperties: false, minProperties: 3 };
+    expect(Object.keys(generateMockRecords(schema, 1, 'seed')[0] as object)).toEqual(['a']);
+  });
+});
+
+describe('formatMockRecords', () => {
+  it('neutralises CSV cells that start like a formula', () => {
+    const csv = formatMockRecords([{ a: '=HYPERLINK("x")', b: '@SUM(1)', c: '+1', d: -5 }], 'csv');
+    expect(csv.split('\r\n')[1]).toBe(`"'=HYPERLINK(""x"")",'@SUM(1),'+1,-5`);
+  });
+});
+
+describe('generateMockRecords with prototype-named keys', () => {
+  it('fills required keys that are not declared as properties', () => {
+    const schema = { type: 'object', required: ['constructor', 'toString'], additionalProperties: { type: 'integer' } };
+    const [record] = generateMockRecords(schema, 1, 'seed') as Record<string, unknown>[];
+    expect(Object.keys(record)).toEqual(['constructor', 'toString']);
+    expect(validateJson(schema, record).valid).toBe(true);
+  });
+});
@@ -0,0 +1,445 @@
+import { deepEqual, hasOwn, resolveRef } from "./schemaValidator";
+
+type JsonSchema = boolean | Record<string, any>;
+
+export type MockFormat = 'json' | 'ndjson' | 'csv';
+
+export interface MockFormatInfo {
+  id: MockFormat;
+  label: string;
+  contentType: string;
+  extension: string;
+}
+
+export const MOCK_FORMATS: MockFormatInfo[] = [
+  { id: 'json', label: 'JSON Array', contentType: 'application/json', extension: 'json' },
+  { id: 'ndjson', label: 'NDJSON', contentType: 'application/x-ndjson', extension: 'ndjson' },
+  { id: 'csv', label: 'CSV', contentType: 'text/csv', extension: 'csv' }
+];
+
+export const MAX_MOCK_RECORDS = 1000;
+const MAX_DEPTH = 6;
+const OPTIONAL_PROBABILITY = 0.7;
+const MAX_MAP_ENTRIES = 50;
+const DEFAULT_MAX_ITEMS = 3;
+// Dates are spread around a fixed instant so a seed always yields the same records
+const BASE_TIME = Date.UTC(2024, 0, 1);
+const DATE_SPREAD_DAYS = 730;
+
+export interface Rng {
+  next: () => number;
+  int: (min: number, max: number) => number;
+  pick: <T>(items: T[]) => T;
+  chance: (probability: number) => boolean;
+}
+
+// mulberry32 seeded from an FNV-1a hash of the seed text
+export const createRng = (seed: string | number): Rng => {
+  let h = 0x811c9dc5;
+  for (const ch of String(seed)) {
+    h ^= ch.charCodeAt(0);
+    h = Math.imul(h, 0x01000193);
+  }
+  let state = h >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  return { next, int, pick: (items) => items[int(0, items.length - 1)], chance: (p) => next() < p };
+};
+
+const FIRST_NAMES = ['Ada', 'Grace', 'Alan', 'Linus', 'Margaret', 'Dennis', 'Barbara', 'Ken', 'Radia', 'Tim', 'Frances', 'Guido', 'Sophie', 'Yukihiro', 'Katherine', 'James'];
+const LAST_NAMES = ['Lovelace', 'Hopper', 'Turing', 'Torvalds', 'Hamilton', 'Ritchie', 'Liskov', 'Thompson', 'Perlman', 'Berners-Lee', 'Allen', 'van Rossum', 'Wilson', 'Matsumoto', 'Johnson', 'Gosling'];
+const CITIES = ['Lisbon', 'Toronto', 'Nairobi', 'Osaka', 'Berlin', 'Austin', 'Melbourne', 'Bogotá', 'Oslo', 'Pune'];
+const COUNTRIES = ['Portugal', 'Canada', 'Kenya', 'Japan', 'Germany', 'United States', 'Australia', 'Colombia', 'Norway', 'India'];
+const STREETS = ['Maple Ave', 'Harbor Rd', 'King St', 'Elm Way', 'Station Sq', 'Park Ln', 'Mill Rd', 'Cedar Ct'];
+const COMPANIES = ['Acme Corp', 'Globex', 'Initech', 'Umbrella Labs', 'Stark Industries', 'Wayne Enterprises', 'Hooli', 'Vandelay Imports'];
+const WORDS = ['alpha', 'bright', 'cloud', 'delta', 'ember', 'fable', 'granite', 'harbor', 'island', 'jade', 'kernel', 'lumen', 'meadow', 'nova', 'orbit', 'prism', 'quartz', 'river', 'summit', 'tide'];
+const COLORS = ['red', 'green', 'blue', 'amber', 'violet', 'teal', 'black', 'white'];
+const CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD'];
+const DOMAINS = ['example.com', 'example.org', 'example.net'];
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+const sentence = (rng: Rng, min = 6, max = 12) => {
+  const words = Array.from({ length: rng.int(min, max) }, () => rng.pick(WORDS));
+  return `${capitalize(words.join(' '))}.`;
+};
+
+const isoDate = (rng: Rng) => new Date(BASE_TIME + rng.int(-DATE_SPREAD_DAYS, DATE_SPREAD_DAYS) * 86400000 + rng.int(0, 86399) * 1000);
+
+const uuid = (rng: Rng) => {
+  const hex = (n: number) => Array.from({ length: n }, () => rng.int(0, 15).toString(16)).join('');
+  return `${hex(8)}-${hex(4)}-4${hex(3)}-${rng.pick(['8', '9', 'a', 'b'])}${hex(3)}-${hex(12)}`;
+};
+
+const FORMAT_GENERATORS: Record<string, (rng: Rng) => string> = {
+  'date-time': rng => isoDate(rng).toISOString().replace(/\.\d{3}Z$/, 'Z'),
+  date: rng => isoDate(rng).toISOString().slice(0, 10),
+  time: rng => `${pad(rng.int(0, 23))}:${pad(rng.int(0, 59))}:${pad(rng.int(0, 59))}Z`,
+  email: rng => `${rng.pick(FIRST_NAMES).toLowerCase()}.${rng.pick(LAST_NAMES).toLowerCase().replace(/[^a-z]/g, '')}@${rng.pick(DOMAINS)}`,
+  uri: rng => `https://${rng.pick(DOMAINS)}/${rng.pick(WORDS)}/${rng.int(1, 9999)}`,
+  'uri-reference': rng => `/${rng.pick(WORDS)}/${rng.int(1, 9999)}`,
+  url: rng => `https://${rng.pick(DOMAINS)}/${rng.pick(WORDS)}/${rng.int(1, 9999)}`,
+  uuid,
+  ipv4: rng => Array.from({ length: 4 }, () => rng.int(1, 254)).join('.'),
+  ipv6: rng => Array.from({ length: 8 }, () => rng.int(0, 0xffff).toString(16)).join(':'),
+  hostname: rng => `${rng.pick(WORDS)}.${rng.pick(DOMAINS)}`
+};
+
+// Realistic values for common key names, used when the schema gives no format, enum or pattern
+const STRING_HINTS: [RegExp, (rng: Rng) => string][] = [
+  [/e-?mail/, FORMAT_GENERATORS.email],
+  [/^(first|given)_?name$/, rng => rng.pick(FIRST_NAMES)],
+  [/^(last|family|sur)_?name$/, rng => rng.pick(LAST_NAMES)],
+  [/^user_?name$|handle|login/, rng => `${rng.pick(FIRST_NAMES).toLowerCase()}${rng.int(1, 999)}`],
+  [/^(full_?)?name$|author|owner|customer/, rng => `${rng.pick(FIRST_NAMES)} ${rng.pick(LAST_NAMES)}`],
+  [/company|organi[sz]ation|employer|vendor|brand/, rng => rng.pick(COMPANIES)],
+  [/phone|mobile|tel/, rng => `+1-555-${pad(rng.int(0, 999), 3)}-${pad(rng.int(0, 9999), 4)}`],
+  [/city|town/, rng => rng.pick(CITIES)],
+  [/country/, rng => rng.pick(COUNTRIES)],
+  [/street|address/, rng => `${rng.int(1, 999)} ${rng.pick(STREETS)}`],
+  [/zip|postal/, rng => pad(rng.int(1000, 99999), 5)],
+  [/url|link|website|href|image|avatar/, FORMAT_GENERATORS.uri],
+  [/currency/, rng => rng.pick(CURRENCIES)],
+  [/colou?r/, rng => rng.pick(COLORS)],
+  [/uuid|guid/, uuid],
+  [/(^|_)id$|Id$/, rng => `${rng.pick(WORDS).slice(0, 3)}_${rng.int(10000, 99999)}`],
+  [/sku|code/, rng => `${rng.pick(WORDS).slice(0, 3).toUpperCase()}-${rng.int(100, 999)}`],
+  [/date|_at$|At$|time/, FORMAT_GENERATORS['date-time']],
+  [/description|summary|bio|comment|note|body|content|message|text/, rng => sentence(rng)],
+  [/title|headline|subject|label/, rng => capitalize(`${rng.pick(WORDS)} ${rng.pick(WORDS)}`)]
+];
+
+const NUMBER_HINTS: [RegExp, [number, number, number]][] = [
+  [/age/, [18, 90, 0]],
+  [/price|amount|cost|total|balance|salary|fee/, [1, 1000, 2]],
+  [/rating|stars|score/, [1, 5, 1]],
+  [/lat(itude)?$/, [-90, 90, 6]],
+  [/(lng|lon|longitude)$/, [-180, 180, 6]],
+  [/year/, [1990, 2030, 0]],
+  [/percent|ratio/, [0, 100, 1]],
+  [/count|quantity|qty|stock|number/, [0, 100, 0]]
+];
+
+const stringByHint = (key: string, rng: Rng) => {
+  const lower = key.replace(/([a-z])([A-Z])/g, '$1_$2').toLowerCase();
+  const hint = STRING_HINTS.find(([pattern]) => pattern.test(lower) || pattern.test(key));
+  return hint ? hint[1](rng) : null;
+};
+
+/**
+ * Produces a string for the simple regular expressions schemas tend to use: literals, escapes,
+ * character classes, groups with alternation and quantifiers. Returns null for anything else.
+ */
+const stringFromPattern = (pattern: string, rng: Rng): string | null => {
+  let i = 0;
+  const CLASSES: Record<string, string> = {
+    d: '0123456789',
+    w: 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789_',
+    s: ' ',
+    D: 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ_-.',
+    W: ' -.,:;!@#',
+    S: 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789_-.',
+    t: '\t',
+    n: '\n',
+    r: '\r'
+  };
+  const readClass = () => {
+    let chars = '';
+    i++;
+    if (pattern[i] === '^') return null;
+    while (i < pattern.length && pattern[i] !== ']') {
+      let ch = pattern[i];
+      if (ch === '\\') {
+        ch = pattern[++i];
+        chars += CLASSES[ch] || ch;
+      } else if (pattern[i + 1] === '-' && pattern[i + 2] && pattern[i + 2] !== ']') {
+        for (let c = ch.charCodeAt(0); c <= pattern.charCodeAt(i + 2); c++) chars += String.fromCharCode(c);
+        i += 2;
+      } else {
+        chars += ch;
+      }
+      i++;
+    }
+    i++;
+    return chars;
+  };
+  const readQuantifier = (): [number, number] => {
+    const ch = pattern[i];
+    if (ch === '?') return (i++, [0, 1]);
+    if (ch === '*') return (i++, [0, 3]);
+    if (ch === '+') return (i++, [1, 4]);
+    const m = pattern.slice(i).match(/^\{(\d+)(,(\d*))?\}/);
+    if (!m) return [1, 1];
+    i += m[0].length;
+    const min = Number(m[1]);
+    return [min, m[2] ? (m[3] ? Number(m[3]) : min + 3) : min];
+  };
+  const sequence = (): (() => string)[] | null => {
+    const atoms: (() => string)[] = [];
+    while (i < pattern.length && pattern[i] !== '|' && pattern[i] !== ')') {
+      const ch = pattern[i];
+      let atom: (() => string) | null;
+      if (ch === '^' || ch === '$') {
+        i++;
+        continue;
+      } else if (ch === '[') {
+        const chars = readClass();
+        if (!chars) return null;
+        atom = () => chars[rng.int(0, chars.length - 1)];
+      } else if (ch === '(') {
+        i++;
+        if (pattern.startsWith('?:', i)) i += 2;
+        const branches: (() => string)[][] = [];
+        for (;;) {
+          const branch = sequence();
+          if (!branch) return null;
+          branches.push(branch);
+          if (pattern[i] !== '|') break;
+          i++;
+        }
+        if (pattern[i] !== ')') return null;
+        i++;
+        atom = () => rng.pick(branches).map(part => part()).join('');
+      } else if (ch === '\\') {
+        const escaped = pattern[i + 1];
+        i += 2;
+        const chars = CLASSES[escaped];
+        if (!chars && /[A-Za-z]/.test(escaped)) return null;
+        atom = chars ? () => chars[rng.int(0, chars.length - 1)] : () => escaped;
+      } else if (ch === '.') {
+        i++;
+        atom = () => rng.pick(WORDS)[0];
+      } else if ('*+?{'.includes(ch)) {
+        return null;
+      } else {
+        i++;
+        atom = () => ch;
+      }
+      const [min, max] = readQuantifier();
+      const single = atom;
+      atoms.push(() => Array.from({ length: rng.int(min, max) }, single).join(''));
+    }
+    return atoms;
+  };
+  try {
+    const branches: (() => string)[][] = [];
+    for (;;) {
+      const branch = sequence();
+      if (!branch) return null;
+      branches.push(branch);
+      if (pattern[i] !== '|') break;
+      i++;
+    }
+    if (i < pattern.length) return null;
+    const value = rng.pick(branches).map(part => part()).join('');
+    return new RegExp(pattern, 'u').test(value) ? value : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+const fitLength = (value: string, schema: Record<string, any>, rng: Rng) => {
+  const min = typeof schema.minLength === 'number' ? schema.minLength : 0;
+  const max = typeof schema.maxLength === 'number' ? schema.maxLength : Infinity;
+  let result = value;
+  while (Array.from(result).length < min) result += ` ${rng.pick(WORDS)}`;
+  if (Array.from(result).length > max) result = Array.from(result).slice(0, max).join('').trimEnd();
+  while (Array.from(result).length < min) result += 'x';
+  return result;
+};
+
+const generateString = (schema: Record<string, any>, key: string, rng: Rng) => {
+  if (typeof schema.pattern === 'string') {
+    const value = stringFromPattern(schema.pattern, rng);
+    if (value !== null) return value;
+  }
+  const byFormat = typeof schema.format === 'string' && FORMAT_GENERATORS[schema.format];
+  if (byFormat) return byFormat(rng);
+  return fitLength(stringByHint(key, rng) ?? `${rng.pick(WORDS)} ${rng.pick(WORDS)}`, schema, rng);
+};
+
+const generateNumber = (schema: Record<string, any>, key: string, integer: boolean, rng: Rng) => {
+  const lower = key.toLowerCase();
+  const [hintMin, hintMax, hintDecimals] = NUMBER_HINTS.find(([pattern]) => pattern.test(lower))?.[1] ?? [0, 1000, 2];
+  const exclusiveMin = typeof schema.exclusiveMinimum === 'number' ? schema.exclusiveMinimum : undefined;
+  const exclusiveMax = typeof schema.exclusiveMaximum === 'number' ? schema.exclusiveMaximum : undefined;
+  const step = integer ? 1 : Math.pow(10, -(hintDecimals || 2));
+  let min = schema.minimum ?? (exclusiveMin !== undefined ? exclusiveMin + step : undefined);
+  let max = schema.maximum ?? (exclusiveMax !== undefined ? exclusiveMax - step : undefined);
+  if (schema.exclusiveMinimum === true && min !== undefined) min += step;
+  if (schema.exclusiveMaximum === true && max !== undefined) max -= step;
+  if (min === undefined) min = max !== undefined ? Math.min(hintMin, max - (hintMax - hintMin)) : hintMin;
+  if (max === undefined) max = Math.max(hintMax, min + (hintMax - hintMin));
+  if (integer) {
+    min = Math.ceil(min);
+    max = Math.floor(max);
+  }
+  if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) {
+    const lowest = Math.ceil(min / schema.multipleOf);
+    const highest = Math.floor(max / schema.multipleOf);
+    const k = highest >= lowest ? rng.int(lowest, highest) : lowest;
+    return +(k * schema.multipleOf).toPrecision(12);
+  }
+  if (integer) return rng.int(min, Math.max(min, max));
+  const decimals = hintDecimals || 2;
+  return Math.min(max, Math.max(min, +(min + rng.next() * (max - min)).toFixed(decimals)));
+};
+
+const typesOf = (schema: Record<string, any>): string[] => {
+  if (Array.isArray(schema.type)) return schema.type;
+  if (typeof schema.type === 'string') return [schema.type];
+  if (schema.properties || schema.required || schema.additionalProperties !== undefined) return ['object'];
+  if (schema.items || schema.prefixItems) return ['array'];
+  if (schema.minLength !== undefined || schema.pattern || schema.format) return ['string'];
+  if (schema.minimum !== undefined || schema.maximum !== undefined) return ['number'];
+  return ['string'];
+};
+
+// Folds allOf branches into one schema; properties and required lists are merged
+const mergeAllOf = (schema: Record<string, any>, root: Record<string, any>): Record<string, any> => {
+  if (!Array.isArray(schema.allOf)) return schema;
+  const { allOf, ...rest } = schema;
+  return allOf.reduce((merged: Record<string, any>, branch: JsonSchema) => {
+    const part = typeof branch === 'object' ? mergeAllOf(typeof branch.$ref === 'string' ? (resolveRef(root, branch.$ref) as Record<string, any>) || {} : branch, root) : {};
+    return {
+      ...part,
+      ...merged,
+      properties: { ...(part.properties || {}), ...(merged.properties || {}) },
+      required: Array.from(new Set([...(part.required || []), ...(merged.required || [])]))
+    };
+  }, rest);
+};
+
+/**
+ * Generates `count` records that satisfy the schema. The same schema, count and seed always
+ * produce the same records.
+ */
+export const generateMockRecords = (schema: JsonSchema, count: number, seed: string | number): unknown[] => {
+  const root = typeof schema === 'object' ? schema : {};
+  const rng = createRng(seed);
+
+  // Past MAX_DEPTH optional properties and arrays shrink to their minimum, which ends recursive models
+  const generate = (node: JsonSchema, key: string, depth: number): unknown => {
+    if (node === true || node === undefined) return stringByHint(key, rng) ?? rng.pick(WORDS);
+    if (node === false) return null;
+    if (typeof node.$ref === 'string') {
+      const target = resolveRef(root, node.$ref);
+      if (target === undefined || depth > MAX_DEPTH * 2) return null;
+      return generate(target, key, depth);
+    }
+    const schemaNode = mergeAllOf(node, root);
+    if ('const' in schemaNode) return schemaNode.const;
+    if (Array.isArray(schemaNode.enum) && schemaNode.enum.length) return rng.pick(schemaNode.enum);
+    if (Array.isArray(schemaNode.examples) && schemaNode.examples.length && rng.chance(0.3)) return rng.pick(schemaNode.examples);
+    const variants = schemaNode.oneOf || schemaNode.anyOf;
+    if (Array.isArray(variants) && variants.length) {
+      const { oneOf, anyOf, ...base } = schemaNode;
+      const variant = rng.pick(variants);
+      return generate(typeof variant === 'object' ? { ...base, ...variant } : variant, key, depth);
+    }
+
+    const types = typesOf(schemaNode);
+    const concrete = types.filter(t => t !== 'null');
+    const type = concrete.length === 0 || (types.includes('null') && rng.chance(0.1)) ? 'null' : rng.pick(concrete);
+
+    switch (type) {
+      case 'null':
+        return null;
+      case 'boolean':
+        return rng.chance(0.5);
+      case 'integer':
+        return generateNumber(schemaNode, key, true, rng);
+      case 'number':
+        return generateNumber(schemaNode, key, false, rng);
+      case 'string':
+        return generateString(schemaNode, key, rng);
+      case 'array': {
+        const prefix: JsonSchema[] = Array.isArray(schemaNode.prefixItems) ? schemaNode.prefixItems : Array.isArray(schemaNode.items) ? schemaNode.items : [];
+        const itemSchema = Array.isArray(schemaNode.items) ? schemaNode.additionalItems : schemaNode.items;
+        const min = Math.max(schemaNode.minItems ?? 0, prefix.length ? Math.min(prefix.length, schemaNode.maxItems ?? prefix.length) : 0);
+        const max = depth >= MAX_DEPTH ? min : Math.max(min, Math.min(schemaNode.maxItems ?? Math.max(min, DEFAULT_MAX_ITEMS), min + DEFAULT_MAX_ITEMS));
+        const length = rng.int(Math.max(min, depth >= MAX_DEPTH ? min : Math.min(1, max)), max);
+        const items: unknown[] = [];
+        for (let i = 0; i < length; i++) {
+          const itemNode = i < prefix.length ? prefix[i] : itemSchema;
+          if (itemNode === false) break;
+          let item = generate(itemNode ?? true, key.replace(/s$/, ''), depth + 1);
+          // A few retries keep uniqueItems satisfied when the item space allows it
+          for (let retry = 0; schemaNode.uniqueItems && retry < 8 && items.some(existing => deepEqual(existing, item)); retry++) {
+            item = generate(itemNode ?? true, key.replace(/s$/, ''), depth + 1);
+          }
+          if (schemaNode.uniqueItems && items.some(existing => deepEqual(existing, item))) {
+            if (items.length >= min) break;
+          }
+          items.push(item);
+        }
+        return items;
+      }
+      default: {
+        const properties: Record<string, JsonSchema> = schemaNode.properties || {};
+        const required: string[] = Array.isArray(schemaNode.required) ? schemaNode.required : [];
+        const record: Record<string, unknown> = {};
+        for (const [name, child] of Object.entries(properties)) {
+          if (!required.includes(name) && (depth >= MAX_DEPTH || !rng.chance(OPTIONAL_PROBABILITY))) continue;
+          record[name] = generate(child, name, depth + 1);
+        }
+        for (const name of required) {
+          if (!hasOwn(record, name)) record[name] = generate(schemaNode.additionalProperties ?? true, name, depth + 1);
+        }
+        // Maps described only by additionalProperties get generated entries up to minProperties
+        const minProperties = typeof schemaNode.minProperties === 'number' ? Math.min(schemaNode.minProperties, MAX_MAP_ENTRIES) : 0;
+        const entry = key.replace(/s$/, '') || 'key';
+        for (let n = 1; schemaNode.additionalProperties !== false && Object.keys(record).length < minProperties; n++) {
+          const name = `${entry}${n}`;
+          if (!hasOwn(record, name)) record[name] = generate(schemaNode.additionalProperties ?? true, name, depth + 1);
+        }
+        return record;
+      }
+    }
+  };
+
+  return Array.from({ length: Math.max(0, Math.min(count, MAX_MOCK_RECORDS)) }, () => generate(schema, '', 0));
+};
+
+/**
+ * The CSV columns for a schema, or null when records would not fit one row each: CSV needs an
+ * object schema whose properties are all scalars.
+ */
+export const flatColumns = (schema: JsonSchema): string[] | null => {
+  if (typeof schema !== 'object') return null;
+  const root = schema;
+  const resolve = (node: JsonSchema): JsonSchema => (typeof node === 'object' && typeof node.$ref === 'string' ? resolveRef(root, node.$ref) ?? true : node);
+  const top = mergeAllOf(resolve(schema) as Record<string, any>, root);
+  if (!typesOf(top).includes('object') || !top.properties) return null;
+  const flat = Object.values<JsonSchema>(top.properties).every(child => {
+    const node = resolve(child);
+    if (typeof node !== 'object') return true;
+    const types = typesOf(mergeAllOf(node, root));
+    return !types.includes('object') && !types.includes('array');
+  });
+  return flat ? Object.keys(top.properties) : null;
+};
+
+const csvCell = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'string' ? value : JSON.stringify(value);
+  // Spreadsheets evaluate text cells that start like a formula; numbers such as -5 stay as they are
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const formatMockRecords = (records: unknown[], format: MockFormat, columns?: string[]): string => {
+  if (format === 'ndjson') return records.map(record => JSON.stringify(record)).join('\n');
+  if (format === 'csv') {
+    const header = columns || Array.from(new Set(records.flatMap(record => Object.keys((record as Record<string, unknown>) || {}))));
+    const rows = records.map(record => header.map(column => csvCell((record as Record<string, unknown>)?.[column])).join(','));
+    return [header.map(csvCell).join(','), ...rows].join('\r\n');
+  }
+  return JSON.stringify(records, null, 2);
+};
@@ -0,0 +1,499 @@
+import { ZipEntry } from "./zipArchive";
+import { AJV_IMPORTS, CORS_HEADERS, SNIPPET_AUTH_MODES, SnippetParams, draftOf, jsTemplate, jsTemplateOf, jsVariablesPattern, jsVariablesType, quote } from "./snippetTemplates";
+import { ParsedTemplate, TemplateValues, parseTemplate, withTemplateDefaults } from "./promptTemplate";
+import { schemaToTypeScript } from "./tsGenerator";
+import { validateJson } from "./schemaValidator";
+import { generateMockRecords } from "./mockData";
+
+type JsonSchema = Record<string, any> | boolean;
+
+export type ProjectTarget = 'cloud-run' | 'firebase' | 'node';
+
+export interface ProjectTargetInfo {
+  id: ProjectTarget;
+  label: string;
+  icon: string;
+  description: string;
+}
+
+export interface ProjectInput {
+  title: string;
+  description?: string;
+  prompt: string;
+  schema: JsonSchema;
+  exampleJson?: string;
+  rootName: string;
+  variables?: TemplateValues;
+}
+
+export const PROJECT_TARGETS: ProjectTargetInfo[] = [
+  { id: 'cloud-run', label: 'Cloud Run', icon: 'fas fa-box', description: 'Express service with a Dockerfile' },
+  { id: 'firebase', label: 'Firebase', icon: 'fas fa-fire', description: 'Functions v2 with a Hosting rewrite' },
+  { id: 'node', label: 'Node', icon: 'fab fa-node-js', description: 'Plain Node.js CLI' }
+];
+
+const VERSIONS = {
+  genai: '^1.34.0',
+  ajv: '^8.17.1',
+  express: '^4.21.2',
+  typesExpress: '^4.17.21',
+  firebaseFunctions: '^6.3.0',
+  firebaseAdmin: '^13.0.0',
+  typesNode: '^22.14.0',
+  typescript: '~5.8.2',
+  vitest: '^3.0.0'
+};
+
+export const projectSlug = (title: string) =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 48) || 'json-prompter-project';
+
+const json = (value: unknown) => `${JSON.stringify(value, null, 2)}\n`;
+const lines = (...parts: string[]) => `${parts.join('\n')}\n`;
+
+// A value the schema accepts for the happy-path test: the example when it conforms, else a mock record
+const sampleOutput = (input: ProjectInput): unknown => {
+  try {
+    const example = JSON.parse(input.exampleJson || '');
+    if (validateJson(input.schema, example).valid) return example;
+  } catch (e) {
+    // Fall through to a generated record
+  }
+  return generateMockRecords(input.schema, 1, 'scaffold')[0];
+};
+
+const rejectedOutput = (schema: JsonSchema): unknown => {
+  const candidates: unknown[] = [null, [], {}, 'text', 0, false];
+  return candidates.find(value => !validateJson(schema, value).valid);
+};
+
+// --- Shared source files ---
+
+const harnessFile = (input: ProjectInput, params: SnippetParams, template: ParsedTemplate) => lines(
+  `// Prompt harness for "${input.title.replace(/\n/g, ' ')}", generated by JSON.prompter`,
+  `export const MODEL = process.env.GEMINI_MODEL || ${quote(params.model)};`,
+  `export const TEMPERATURE = ${Number.isFinite(params.temperature) ? params.temperature : 1};`,
+  '',
+  ...(template.variables.length ? [
+    `export type PromptVariables = ${jsVariablesType(template.variables)};`,
+    '',
+    '// Fills in the prompt\'s template variables; any that are omitted keep their defaults',
+    `export const renderPrompt = (${jsVariablesPattern(template.variables)}: PromptVariables = {}) =>`,
+    `  ${jsTemplateOf(template)};`
+  ] : [`export const PROMPT = ${jsTemplate(input.prompt)};`])
+);
+
+const validateFile = (input: ProjectInput) => lines(
+  'import { readFileSync } from "node:fs";',
+  'import { join } from "node:path";',
+  `import Ajv from "${AJV_IMPORTS[draftOf(input.schema)]}";`,
+  `import type { ${input.rootName} } from "./types";`,
+  '',
+  '// schema.json sits next to src/ and lib/, so the same path works from source and from the build',
+  'const schema = JSON.parse(readFileSync(join(__dirname, "..", "schema.json"), "utf8"));',
+  `const validate = new Ajv({ allErrors: true, strict: false }).compile<${input.rootName}>(schema);`,
+  '',
+  `export type ValidationResult = { ok: true; data: ${input.rootName} } | { ok: false; errors: string[] };`,
+  '',
+  'export const validateOutput = (text: string | undefined): ValidationResult => {',
+  '  let data: unknown;',
+  '  try {',
+  '    data = JSON.parse(text ?? "");',
+  '  } catch {',
+  '    return { ok: false, errors: ["Model returned invalid JSON"] };',
+  '  }',
+  '  if (!validate(data)) {',
+  '    return { ok: false, errors: (validate.errors || []).map((e) => `${e.instancePath || "/"} ${e.message}`) };',
+  '  }',
+  '  return { ok: true, data };',
+  '};'
+);
+
+const generateFile = (input: ProjectInput, template: ParsedTemplate) => lines(
+  'import { GoogleGenAI } from "@google/genai";',
+  template.variables.length
+    ? 'import { MODEL, renderPrompt, TEMPERATURE, type PromptVariables } from "./harness";'
+    : 'import { MODEL, PROMPT, TEMPERATURE } from "./harness";',
+  `import type { ${input.rootName} } from "./types";`,
+  'import { validateOutput } from "./validate";',
+  '',
+  '// The part of the Gemini SDK the generator uses; tests pass a mock instead',
+  'export interface ModelClient {',
+  '  generateContent(request: {',
+  '    model: string;',
+  '    contents: string;',
+  '    config: { responseMimeType: string; temperature: number };',
+  '  }): Promise<{ text?: string }>;',
+  '}',
+  '',
+  'export class OutputValidationError extends Error {',
+  '  constructor(public readonly errors: string[]) {',
+  '    super(`Model output failed schema validation: ${errors.join("; ")}`);',
+  '    this.name = "OutputValidationError";',
+  '  }',
+  '}',
+  '',
+  'export const createModelClient = (apiKey = process.env.GEMINI_API_KEY): ModelClient =>',
+  '  new GoogleGenAI({ apiKey }).models;',
+  '',
+  '// Calls the model and only returns output that matches schema.json',
+  template.variables.length
+    ? `export async function generate(client: ModelClient = createModelClient(), variables: PromptVariables = {}): Promise<${input.rootName}> {`
+    : `export async function generate(client: ModelClient = createModelClient()): Promise<${input.rootName}> {`,
+  '  const response = await client.generateContent({',
+  '    model: MODEL,',
+  `    contents: ${template.variables.length ? 'renderPrompt(variables)' : 'PROMPT'},`,
+  '    config: { responseMimeType: "application/json", temperature: TEMPERATURE }',
+  '  });',
+  '  const result = validateOutput(response.text);',
+  '  if (!result.ok) throw new OutputValidationError(result.errors);',
+  '  return result.data;',
+  '}'
+);
+
+const testFile = (input: ProjectInput) => {
+  const sample = sampleOutput(input);
+  const rejected = rejectedOutput(input.schema);
+  return lines(
+    'import { describe, expect, it } from "vitest";',
+    'import { generate, OutputValidationError, type ModelClient } from "../src/generate";',
+    '',
+    `const SAMPLE = ${JSON.stringify(sample, null, 2)};`,
+    '',
+    'const mockModel = (text: string): ModelClient => ({',
+    '  generateContent: async () => ({ text })',
+    '});',
+    '',
+    'describe("generate", () => {',
+    '  it("returns model output that matches schema.json", async () => {',
+    '    await expect(generate(mockModel(JSON.stringify(SAMPLE)))).resolves.toEqual(SAMPLE);',
+    '  });',
+    '',
+    '  it("rejects output that is not JSON", async () => {',
+    '    await expect(generate(mockModel("Sorry, I cannot help with that."))).rejects.toBeInstanceOf(OutputValidationError);',
+    '  });',
+    ...(rejected !== undefined ? [
+      '',
+      '  it("rejects output that does not match schema.json", async () => {',
+      `    await expect(generate(mockModel(${quote(JSON.stringify(rejected))}))).rejects.toBeInstanceOf(OutputValidationError);`,
+      '  });'
+    ] : []),
+    '});'
+  );
+};
+
+const tsconfigFile = () => json({
+  compilerOptions: {
+    target: 'ES2022',
+    module: 'NodeNext',
+    moduleResolution: 'NodeNext',
+    esModuleInterop: true,
+    strict: true,
+    skipLibCheck: true,
+    rootDir: 'src',
+    outDir: 'lib',
+    sourceMap: true
+  },
+  include: ['src']
+});
+
+// Express-style auth check, shared by the Cloud Run server and the Firebase function
+const guardLines = (params: SnippetParams) => [
+  ...(params.auth !== 'none' ? [
+    `  const expected = process.env.${SNIPPET_AUTH_MODES.find(m => m.id === params.auth)!.env};`,
+    params.auth === 'bearer'
+      ? '  if (!expected || req.get("authorization") !== `Bearer ${expected}`) {'
+      : '  if (!expected || req.get("x-api-key") !== expected) {',
+    '    res.status(401).json({ error: "Unauthorized" });',
+    '    return;',
+    '  }'
+  ] : [])
+];
+
+// With template variables the request body supplies them, so the client has to be passed explicitly
+const respondLines = (template: ParsedTemplate, client = '') => [
+  '  try {',
+  `    res.json(await generate(${template.variables.length ? `${client || 'createModelClient()'}, req.body` : client}));`,
+  '  } catch (error) {',
+  '    if (error instanceof OutputValidationError) {',
+  '      res.status(502).json({ error: "Output failed schema validation", details: error.errors });',
+  '      return;',
+  '    }',
+  '    res.status(500).json({ error: "Synthesis Error" });',
+  '  }'
+];
+
+const readme = (input: ProjectInput, target: ProjectTarget, params: SnippetParams, template: ParsedTemplate) => {
+  const authEnv = SNIPPET_AUTH_MODES.find(m => m.id === params.auth)?.env;
+  const root = target === 'firebase' ? 'functions/' : '';
+  return lines(
+    `# ${input.title}`,
+    '',
+    ...(input.description ? [input.description, ''] : []),
+    `Generated by JSON.prompter. Calls \`${params.model}\` with the prompt in \`${root}src/harness.ts\` and only returns output that validates against \`${root}schema.json\`.`,
+    '',
+    '## Layout',
+    '',
+    `- \`${root}src/harness.ts\`: the prompt${template.variables.length ? ' and its variables' : ''}, model and temperature`,
+    `- \`${root}schema.json\`: the JSON Schema every response is checked against`,
+    `- \`${root}src/types.ts\`: TypeScript types generated from the schema`,
+    `- \`${root}src/validate.ts\`: schema validation with Ajv`,
+    `- \`${root}src/generate.ts\`: the model call, which rejects invalid output with \`OutputValidationError\``,
+    `- \`${root}test/generate.test.ts\`: unit tests against a mocked model response`,
+    '',
+    '## Setup',
+    '',
+    '```bash',
+    ...(target === 'firebase' ? ['cd functions'] : []),
+    'npm install',
+    'npm test',
+    '```',
+    '',
+    ...(target === 'node' ? [
+      '## Run',
+      '',
+      'Copy `.env.example` to `.env` and set `GEMINI_API_KEY`, then:',
+      '',
+      '```bash',
+      'npm start',
+      '```',
+      '',
+      'The validated JSON is printed to stdout. Output that fails validation exits with code 1.'
+    ] : target === 'cloud-run' ? [
+      '## Run locally',
+      '',
+      'Copy `.env.example` to `.env` and set `GEMINI_API_KEY`, then:',
+      '',
+      '```bash',
+      'npm run dev',
+      'curl -X POST http://localhost:8080/generate' + (params.auth === 'bearer' ? ' -H "Authorization: Bearer $SERVICE_TOKEN"' : params.auth === 'api-key' ? ' -H "x-api-key: $SERVICE_API_KEY"' : ''),
+      '```',
+      '',
+      '## Deploy',
+      '',
+      '```bash',
+      `gcloud run deploy ${projectSlug(input.title)} --source . --allow-unauthenticated --set-secrets GEMINI_API_KEY=GEMINI_API_KEY:latest${authEnv ? `,${authEnv}=${authEnv}:latest` : ''}`,
+      '```'
+    ] : [
+      '## Run locally',
+      '',
+      'Put `GEMINI_API_KEY=...` in `functions/.secret.local`, then:',
+      '',
+      '```bash',
+      'cd functions && npm run serve',
+      '```',
+      '',
+      '## Deploy',
+      '',
+      '```bash',
+      'firebase use --add',
+      'firebase functions:secrets:set GEMINI_API_KEY',
+      'firebase deploy',
+      '```',
+      '',
+      'Hosting serves `public/` and rewrites `/api/generate` to the `generateData` function.'
+    ]),
+    '',
+    ...(template.variables.length ? [
+      '## Prompt variables',
+      '',
+      target === 'node'
+        ? 'Pass any of these as a JSON object argument (`npm start -- \'{"name": "value"}\'`); omitted ones keep their defaults:'
+        : 'Send any of these as a JSON request body; omitted ones keep their defaults:',
+      '',
+      ...template.variables.map(v => `- \`${v.name}\` (${v.type === 'enum' ? v.options!.join(' | ') : v.type}), default \`${v.defaultValue}\``),
+      ''
+    ] : []),
+    ...(authEnv ? [`Requests must carry the value of \`${authEnv}\` (${params.auth === 'bearer' ? '`Authorization: Bearer ...`' : '`x-api-key` header'}); the endpoint rejects everything while it is unset.`, ''] : []),
+    'Responses that do not match the schema are answered with `502` and the validation errors instead of the data.'
+  );
+};
+
+const packageFile = (input: ProjectInput, target: ProjectTarget) => {
+  const base = {
+    name: target === 'firebase' ? 'functions' : projectSlug(input.title),
+    private: true,
+    version: '0.1.0',
+    description: input.description || input.title,
+    main: target === 'node' ? 'lib/index.js' : target === 'firebase' ? 'lib/index.js' : 'lib/server.js'
+  };
+  const scripts: Record<string, string> = target === 'node'
+    ? { build: 'tsc', start: 'npm run build && node --env-file=.env lib/index.js', test: 'vitest run' }
+    : target === 'cloud-run'
+      ? { build: 'tsc', start: 'node lib/server.js', dev: 'npm run build && node --env-file=.env lib/server.js', test: 'vitest run' }
+      : { build: 'tsc', serve: 'npm run build && firebase emulators:start --only functions', deploy: 'firebase deploy --only functions', test: 'vitest run' };
+  const dependencies: Record<string, string> = { '@google/genai': VERSIONS.genai, ajv: VERSIONS.ajv };
+  const devDependencies: Record<string, string> = { '@types/node': VERSIONS.typesNode, typescript: VERSIONS.typescript, vitest: VERSIONS.vitest };
+  if (target === 'cloud-run') {
+    dependencies.express = VERSIONS.express;
+    devDependencies['@types/express'] = VERSIONS.typesExpress;
+  }
+  if (target === 'firebase') {
+    dependencies['firebase-admin'] = VERSIONS.firebaseAdmin;
+    dependencies['firebase-functions'] = VERSIONS.firebaseFunctions;
+  }
+  return json({ ...base, engines: { node: '20' }, scripts, dependencies, devDependencies });
+};
+
+const nodeEntry = (template: ParsedTemplate) => lines(
+  ...(template.variables.length ? [
+    'import { createModelClient, generate } from "./generate";',
+    '',
+    '// Template variables come from an optional JSON argument, e.g. npm start -- \'{"name": "value"}\'',
+    'generate(createModelClient(), process.argv[2] ? JSON.parse(process.argv[2]) : {})'
+  ] : [
+    'import { generate } from "./generate";',
+    '',
+    'generate()'
+  ]),
+  '  .then((data) => console.log(JSON.stringify(data, null, 2)))',
+  '  .catch((error) => {',
+  '    console.error(error instanceof Error ? error.message : error);',
+  '    process.exitCode = 1;',
+  '  });'
+);
+
+const cloudRunServer = (params: SnippetParams, template: ParsedTemplate) => lines(
+  'import express from "express";',
+  `import { ${template.variables.length ? 'createModelClient, ' : ''}generate, OutputValidationError } from "./generate";`,
+  '',
+  'const app = express();',
+  'const port = Number(process.env.PORT) || 8080;',
+  '',
+  ...(template.variables.length ? ['app.use(express.json());', ''] : []),
+  ...(params.cors ? [
+    'app.use((req, res, next) => {',
+    ...CORS_HEADERS.map(([name, value]) => `  res.set(${quote(name)}, ${quote(value)});`),
+    '  if (req.method === "OPTIONS") {',
+    '    res.status(204).send("");',
+    '    return;',
+    '  }',
+    '  next();',
+    '});',
+    ''
+  ] : []),
+  'app.post("/generate", async (req, res) => {',
+  ...guardLines(params),
+  ...respondLines(template),
+  '});',
+  '',
+  'app.listen(port, () => console.log(`Listening on :${port}`));'
+);
+
+const firebaseEntry = (params: SnippetParams, template: ParsedTemplate) => lines(
+  'import { defineSecret } from "firebase-functions/params";',
+  'import { onRequest } from "firebase-functions/v2/https";',
+  'import { createModelClient, generate, OutputValidationError } from "./generate";',
+  '',
+  'const geminiApiKey = defineSecret("GEMINI_API_KEY");',
+  '',
+  `export const generateData = onRequest({ cors: ${params.cors}, secrets: [geminiApiKey] }, async (req, res) => {`,
+  ...guardLines(params),
+  ...respondLines(template, 'createModelClient(geminiApiKey.value())'),
+  '});'
+);
+
+const dockerfile = () => lines(
+  'FROM node:20-slim AS build',
+  'WORKDIR /app',
+  'COPY package*.json ./',
+  'RUN npm install',
+  'COPY . .',
+  'RUN npm run build',
+  '',
+  'FROM node:20-slim',
+  'WORKDIR /app',
+  'ENV NODE_ENV=production',
+  'COPY package*.json ./',
+  'RUN npm install --omit=dev',
+  'COPY --from=build /app/lib ./lib',
+  'COPY schema.json ./',
+  'EXPOSE 8080',
+  'CMD ["node", "lib/server.js"]'
+);
+
+// Mirrors the app's own firebase.json: Hosting from a build folder with the same ignore list and an SPA fallback
+const firebaseJson = () => json({
+  functions: [
+    {
+      source: 'functions',
+      codebase: 'default',
+      ignore: ['node_modules', '.git', 'firebase-debug.log', 'firebase-debug.*.log', '*.local'],
+      predeploy: ['npm --prefix "$RESOURCE_DIR" run build']
+    }
+  ],
+  hosting: {
+    public: 'public',
+    ignore: ['firebase.json', '**/.*', '**/node_modules/**'],
+    rewrites: [
+      { source: '/api/generate', function: 'generateData' },
+      { source: '**', destination: '/index.html' }
+    ]
+  }
+});
+
+const hostingPage = (input: ProjectInput) => lines(
+  '<!doctype html>',
+  '<html lang="en">',
+  '<head>',
+  '  <meta charset="utf-8" />',
+  `  <title>${input.title.replace(/[<&>"]/g, c => `&#${c.charCodeAt(0)};`)}</title>`,
+  '</head>',
+  '<body>',
+  '  <button id="run">Generate</button>',
+  '  <pre id="output"></pre>',
+  '  <script>',
+  '    document.getElementById("run").addEventListener("click", async () => {',
+  '      const response = await fetch("/api/generate", { method: "POST" });',
+  '      document.getElementById("output").textContent = JSON.stringify(await response.json(), null, 2);',
+  '    });',
+  '  </script>',
+  '</body>',
+  '</html>'
+);
+
+const envExample = (params: SnippetParams) => {
+  const authEnv = SNIPPET_AUTH_MODES.find(m => m.id === params.auth)?.env;
+  return lines('GEMINI_API_KEY=', '# GEMINI_MODEL=' + params.model, ...(authEnv ? [`${authEnv}=`] : []));
+};
+
+/**
+ * Lays out a runnable project for a result: the harness, schema.json, generated types, output
+ * validation and a mocked-model unit test, plus the deployment files of the chosen target.
+ */
+export const buildProject = (input: ProjectInput, target: ProjectTarget, params: SnippetParams): ZipEntry[] => {
+  const slug = projectSlug(input.title);
+  const app = target === 'firebase' ? `${slug}/functions` : slug;
+  const template = withTemplateDefaults(parseTemplate(input.prompt), input.variables);
+  const files: ZipEntry[] = [
+    { path: `${app}/package.json`, content: packageFile(input, target) },
+    { path: `${app}/tsconfig.json`, content: tsconfigFile() },
+    { path: `${app}/schema.json`, content: json(input.schema) },
+    { path: `${app}/src/harness.ts`, content: harnessFile(input, params, template) },
+    { path: `${app}/src/types.ts`, content: `${schemaToTypeScript(input.schema, input.rootName)}\n` },
+    { path: `${app}/src/validate.ts`, content: validateFile(input) },
+    { path: `${app}/src/generate.ts`, content: generateFile(input, template) },
+    { path: `${app}/test/generate.test.ts`, content: testFile(input) },
+    { path: `${app}/.gitignore`, content: lines('node_modules/', 'lib/', '.env', '*.local') }
+  ];
+
+  if (target === 'node') {
+    files.push({ path: `${app}/src/index.ts`, content: nodeEntry(template) }, { path: `${app}/.env.example`, content: envExample(params) });
+  } else if (target === 'cloud-run') {
+    files.push(
+      { path: `${app}/src/server.ts`, content: cloudRunServer(params, template) },
+      { path: `${app}/.env.example`, content: envExample(params) },
+      { path: `${app}/Dockerfile`, content: dockerfile() },
+      { path: `${app}/.dockerignore`, content: lines('node_modules', 'lib', '.env', 'test') }
+    );
+  } else {
+    files.push(
+      { path: `${app}/src/index.ts`, content: firebaseEntry(params, template) },
+      { path: `${slug}/firebase.json`, content: firebaseJson() },
+      { path: `${slug}/.firebaserc`, content: json({ projects: { default: 'your-project-id' } }) },
+      { path: `${slug}/public/index.html`, content: hostingPage(input) }
+    );
+  }
+
+  files.push({ path: `${slug}/README.md`, content: readme(input, target, params, template) });
+  return files;
+};
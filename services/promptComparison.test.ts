@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { EvalRun } from './promptEvaluation';
+import { buildCandidateReport, pickWinner } from './promptComparison';
+import { EMPTY_USAGE } from './usageLedger';
+
+const schema = { type: 'object', required: ['a'] };
+const passing = (index: number): EvalRun => ({ index, status: 'done', parsed: true, value: { a: index }, valid: true, errors: [] });
+const usage = (calls: number, costUsd: number) => ({ ...EMPTY_USAGE, calls, costUsd });
+
+describe('buildCandidateReport', () => {
+  it('spreads the cost of retried calls over the finished runs', () => {
+    const report = buildCandidateReport(schema, { id: 'main', label: 'Main', prompt: '' }, [passing(0), passing(1)], usage(4, 0.04));
+    expect(report.costPerRun).toBeCloseTo(0.02);
+  });
+});
+
+describe('pickWinner', () => {
+  it('prefers the candidate that needed fewer retries when results tie', () => {
+    const runs = [passing(0), passing(1)];
+    const retried = buildCandidateReport(schema, { id: 'main', label: 'Main', prompt: '' }, runs, usage(6, 0.06));
+    const clean = buildCandidateReport(schema, { id: 'v1', label: 'Variation 1', prompt: '' }, runs, usage(2, 0.03));
+    expect(pickWinner([retried, clean])?.candidate.id).toBe('v1');
+  });
+});
@@ -0,0 +1,119 @@
+import { UsageSummary } from "../types";
+import { EvalOptions, EvalRun, EvalSummary, runEvaluation, summarizeEvaluation } from "./promptEvaluation";
+
+type JsonSchema = boolean | Record<string, any>;
+
+export interface PromptCandidate {
+  id: string;
+  label: string;
+  prompt: string;
+  // Index into `promptVariations`; absent for the main prompt
+  variation?: number;
+}
+
+export interface CandidateReport {
+  candidate: PromptCandidate;
+  summary: EvalSummary;
+  // Mean pairwise distance between parsed outputs, 0 (identical) to 1 (nothing shared)
+  diversity: number | null;
+  usage: UsageSummary | null;
+  // Spend per finished run; retried calls are part of what a run cost
+  costPerRun: number | null;
+}
+
+export interface CompareOptions extends Omit<EvalOptions, 'onRun'> {
+  onRun: (candidateId: string, run: EvalRun) => void;
+  onUsage: (candidateId: string, usage: UsageSummary) => void;
+}
+
+export const buildCandidates = (jsonPrompt: string, variations: string[] = []): PromptCandidate[] => [
+  { id: 'main', label: 'Main', prompt: jsonPrompt },
+  ...variations
+    .map((prompt, variation) => ({ id: `variation-${variation}`, label: `Variation ${String.fromCharCode(65 + variation)}`, prompt, variation }))
+    .filter(candidate => candidate.prompt.trim())
+];
+
+/**
+ * Evaluates every candidate with the same run count, temperature and concurrency. Candidates run
+ * one after another so they do not compete for the same rate limit.
+ */
+export const comparePrompts = async (schema: JsonSchema, candidates: PromptCandidate[], options: CompareOptions) => {
+  const { onRun, onUsage, ...evalOptions } = options;
+  for (const candidate of candidates) {
+    if (evalOptions.signal?.aborted) return;
+    const usage = await runEvaluation(schema, candidate.prompt, {
+      ...evalOptions,
+      onRun: (run) => onRun(candidate.id, run)
+    });
+    onUsage(candidate.id, usage);
+  }
+};
+
+// Leaf values keyed by their index-free path, so two outputs are compared field by field
+const leafSet = (value: unknown) => {
+  const leaves = new Set<string>();
+  const walk = (node: unknown, path: string) => {
+    if (Array.isArray(node)) {
+      node.forEach(item => walk(item, `${path}[]`));
+      if (node.length === 0) leaves.add(`${path}=[]`);
+    } else if (node && typeof node === 'object') {
+      const entries = Object.entries(node as Record<string, unknown>);
+      entries.forEach(([key, child]) => walk(child, path ? `${path}.${key}` : key));
+      if (entries.length === 0) leaves.add(`${path}={}`);
+    } else {
+      leaves.add(`${path}=${JSON.stringify(node)}`);
+    }
+  };
+  walk(value, '');
+  return leaves;
+};
+
+export const outputDiversity = (values: unknown[]): number | null => {
+  if (values.length < 2) return null;
+  const sets = values.map(leafSet);
+  let total = 0;
+  let pairs = 0;
+  for (let i = 0; i < sets.length; i++) {
+    for (let j = i + 1; j < sets.length; j++) {
+      let shared = 0;
+      sets[i].forEach(leaf => sets[j].has(leaf) && shared++);
+      const union = sets[i].size + sets[j].size - shared;
+      total += union ? 1 - shared / union : 0;
+      pairs++;
+    }
+  }
+  return total / pairs;
+};
+
+export const buildCandidateReport = (
+  schema: JsonSchema,
+  candidate: PromptCandidate,
+  runs: EvalRun[],
+  usage: UsageSummary | null
+): CandidateReport => {
+  const summary = summarizeEvaluation(schema, runs);
+  const parsed = runs.filter(run => run.status === 'done' && run.parsed).map(run => run.value);
+  return {
+    candidate,
+    summary,
+    diversity: outputDiversity(parsed),
+    usage,
+    costPerRun: usage && summary.completed ? usage.costUsd / summary.completed : null
+  };
+};
+
+/**
+ * Picks the best finished candidate: highest schema pass rate, then parse rate, then diversity,
+ * then the cheaper one. Returns null until every candidate has finished.
+ */
+export const pickWinner = (reports: CandidateReport[]): CandidateReport | null => {
+  if (reports.length < 2 || reports.some(r => !r.usage || r.summary.completed < r.summary.total)) return null;
+  const scored = reports.filter(r => r.summary.completed > r.summary.errored);
+  if (scored.length === 0) return null;
+  return [...scored].sort((a, b) =>
+    b.summary.passRate - a.summary.passRate ||
+    b.summary.parseRate - a.summary.parseRate ||
+    (b.diversity ?? 0) - (a.diversity ?? 0) ||
+    (a.costPerRun ?? Infinity) - (b.costPerRun ?? Infinity)
+  )[0];
+};
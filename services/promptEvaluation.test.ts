@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { EvalRun, runEvaluation } from './promptEvaluation';
+
+const generate = vi.hoisted(() => vi.fn());
+
+vi.mock('./llmProvider', () => ({
+  resolveStage: () => ({ provider: { generate }, model: 'test-model' })
+}));
+
+describe('runEvaluation', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('times only the attempt that succeeded', async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {}, removeItem: () => {} });
+    generate
+      .mockRejectedValueOnce(new Error('Failed to fetch'))
+      .mockImplementationOnce(() => new Promise(resolve => setTimeout(() => resolve({ text: '{"a":1}' }), 300)));
+
+    const runs: EvalRun[] = [];
+    const done = runEvaluation({ type: 'object' }, '{}', { runs: 1, temperature: 0, concurrency: 1, onRun: run => runs.push(run) });
+    await vi.runAllTimersAsync();
+    await done;
+
+    const finished = runs.find(run => run.status === 'done');
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(finished?.valid).toBe(true);
+    expect(finished?.latencyMs).toBe(300);
+  });
+});
@@ -0,0 +1,274 @@
+import { EngineFault, UsageSummary } from "../types";
+import { resolveStage } from "./llmProvider";
+import { classifyError, withRetry } from "./engineErrors";
+import { isAbortError } from "./geminiService";
+import { ValidationError, resolveRef, validateJson } from "./schemaValidator";
+import { pointerToFieldPath } from "./provenance";
+import { createUsageTag, usageForTag } from "./usageLedger";
+
+type JsonSchema = boolean | Record<string, any>;
+
+export interface EvalRun {
+  index: number;
+  status: 'pending' | 'running' | 'done' | 'failed';
+  latencyMs?: number;
+  output?: string;
+  parsed?: boolean;
+  value?: unknown;
+  valid?: boolean;
+  errors?: ValidationError[];
+  fault?: EngineFault;
+}
+
+export interface EvalOptions {
+  runs: number;
+  temperature: number;
+  concurrency: number;
+  signal?: AbortSignal;
+  onRun: (run: EvalRun) => void;
+}
+
+export interface FieldFailure {
+  field: string;
+  count: number;
+  keywords: Record<string, number>;
+}
+
+export interface EnumDistribution {
+  field: string;
+  counts: { value: string; count: number }[];
+}
+
+export interface NumberDistribution {
+  field: string;
+  min: number;
+  max: number;
+  mean: number;
+  bins: { label: string; count: number }[];
+}
+
+export interface EvalSummary {
+  total: number;
+  completed: number;
+  // Calls that failed at the provider; they are left out of the rates
+  errored: number;
+  parseRate: number;
+  passRate: number;
+  latency: { min: number; p50: number; p90: number; p99: number; max: number; mean: number } | null;
+  failures: FieldFailure[];
+  enums: EnumDistribution[];
+  numbers: NumberDistribution[];
+}
+
+export const MAX_EVAL_RUNS = 50;
+const HISTOGRAM_BINS = 8;
+const MAX_ENUM_FIELDS = 8;
+
+/**
+ * The instruction wrapper used for every test generation, so a single test and an evaluation run
+ * exercise exactly the same prompt.
+ */
+export const buildTestPrompt = (jsonPrompt: string) => `Act as a professional data generator.
+      Generate a single JSON object based on the following explicit structural instructions:
+
+      --- INSTRUCTIONS START ---
+      ${jsonPrompt}
+      --- INSTRUCTIONS END ---
+
+      REQUIREMENTS:
+      1. Use correct data types. Populated with realistic entries.
+      2. Return ONLY the raw JSON string. No preamble.`;
+
+// Accepts fenced output and stray prose around a top-level object or array
+const parseOutput = (text: string): { ok: true; value: unknown } | { ok: false } => {
+  const cleaned = text.replace(/```(?:json)?\n?|```/g, '').trim();
+  const candidates = [cleaned];
+  const start = cleaned.search(/[{[]/);
+  const end = Math.max(cleaned.lastIndexOf('}'), cleaned.lastIndexOf(']'));
+  if (start > 0 || (end !== -1 && end < cleaned.length - 1)) candidates.push(cleaned.slice(start, end + 1));
+  for (const candidate of candidates) {
+    try {
+      return { ok: true, value: JSON.parse(candidate) };
+    } catch (e) {
+      // Try the next candidate
+    }
+  }
+  return { ok: false };
+};
+
+/**
+ * Runs the prompt `runs` times through the test stage and validates every output locally.
+ * Runs report progress one by one; the returned usage covers the whole evaluation.
+ */
+export const runEvaluation = async (schema: JsonSchema, jsonPrompt: string, options: EvalOptions): Promise<UsageSummary> => {
+  const { runs, temperature, concurrency, signal, onRun } = options;
+  const usageTag = createUsageTag('evaluation');
+  const prompt = buildTestPrompt(jsonPrompt);
+  let next = 0;
+
+  const runOne = async (index: number) => {
+    onRun({ index, status: 'running' });
+    let started = performance.now();
+    try {
+      const { provider, model } = resolveStage('test');
+      const response = await withRetry(
+        () => {
+          // Latency covers the attempt that answered, not the backoff before it.
+          started = performance.now();
+          return provider.generate({ model, prompt, json: true, temperature, signal, usageTag });
+        },
+        { stage: 'test', signal }
+      );
+      const latencyMs = Math.round(performance.now() - started);
+      const parsed = parseOutput(response.text || '');
+      const report = parsed.ok ? validateJson(schema, parsed.value) : null;
+      onRun({
+        index,
+        status: 'done',
+        latencyMs,
+        output: response.text || '',
+        parsed: parsed.ok,
+        value: parsed.ok ? parsed.value : undefined,
+        valid: report?.valid ?? false,
+        errors: report?.errors ?? []
+      });
+    } catch (e) {
+      if (isAbortError(e) || signal?.aborted) {
+        onRun({ index, status: 'pending' });
+        return;
+      }
+      onRun({ index, status: 'failed', latencyMs: Math.round(performance.now() - started), fault: classifyError(e, 'test').toFault() });
+    }
+  };
+
+  const worker = async () => {
+    while (next < runs && !signal?.aborted) {
+      await runOne(next++);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, runs)) }, worker));
+  return usageForTag(usageTag);
+};
+
+const percentile = (sorted: number[], p: number) => sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+
+/**
+ * Lists the enum and numeric fields of a schema as dotted paths (`items[].price`), following
+ * local references once per branch.
+ */
+const distributionFields = (schema: JsonSchema) => {
+  const root = typeof schema === 'object' ? schema : {};
+  const enums: { field: string; values: unknown[] }[] = [];
+  const numbers: string[] = [];
+
+  const walk = (node: JsonSchema, field: string, refs: string[]) => {
+    if (typeof node !== 'object') return;
+    if (typeof node.$ref === 'string') {
+      if (refs.includes(node.$ref)) return;
+      const target = resolveRef(root, node.$ref);
+      if (target !== undefined) walk(target, field, [...refs, node.$ref]);
+      return;
+    }
+    for (const branch of [...(node.allOf || []), ...(node.anyOf || []), ...(node.oneOf || [])]) walk(branch, field, refs);
+    const types: string[] = Array.isArray(node.type) ? node.type : node.type ? [node.type] : [];
+    if (field && Array.isArray(node.enum)) enums.push({ field, values: node.enum });
+    else if (field && (types.includes('number') || types.includes('integer'))) numbers.push(field);
+    for (const [key, child] of Object.entries<JsonSchema>(node.properties || {})) walk(child, field ? `${field}.${key}` : key, refs);
+    if (node.items && !Array.isArray(node.items)) walk(node.items, `${field}[]`, refs);
+  };
+
+  walk(root, '', ['#']);
+  return {
+    enums: enums.filter((e, i) => enums.findIndex(other => other.field === e.field) === i),
+    numbers: Array.from(new Set(numbers))
+  };
+};
+
+// Every value at a dotted field path, fanning out over arrays
+const valuesAt = (value: unknown, field: string): unknown[] => {
+  const segments = field.match(/[^.[\]]+|\[\]/g) || [];
+  let current: unknown[] = [value];
+  for (const segment of segments) {
+    current = current.flatMap(v => {
+      if (segment === '[]') return Array.isArray(v) ? v : [];
+      return v && typeof v === 'object' && !Array.isArray(v) && segment in (v as object) ? [(v as Record<string, unknown>)[segment]] : [];
+    });
+  }
+  return current;
+};
+
+const failureField = (error: ValidationError) => {
+  const path = pointerToFieldPath(error.instancePath);
+  if (error.keyword !== 'required') return path || '(root)';
+  return path ? `${path}.${error.expected}` : String(error.expected);
+};
+
+export const summarizeEvaluation = (schema: JsonSchema, runs: EvalRun[]): EvalSummary => {
+  const finished = runs.filter(run => run.status === 'done' || run.status === 'failed');
+  const done = finished.filter(run => run.status === 'done');
+  const latencies = done.map(run => run.latencyMs || 0).sort((a, b) => a - b);
+
+  const failureMap = new Map<string, FieldFailure>();
+  for (const run of done) {
+    // Count each field once per run so one bad array does not dominate the histogram
+    const perRun = new Map<string, Set<string>>();
+    for (const error of run.errors || []) {
+      const field = failureField(error);
+      perRun.set(field, (perRun.get(field) || new Set()).add(error.keyword));
+    }
+    perRun.forEach((keywords, field) => {
+      const entry = failureMap.get(field) || { field, count: 0, keywords: {} };
+      entry.count++;
+      keywords.forEach(k => (entry.keywords[k] = (entry.keywords[k] || 0) + 1));
+      failureMap.set(field, entry);
+    });
+  }
+
+  const outputs = done.filter(run => run.parsed).map(run => run.value);
+  const fields = distributionFields(schema);
+
+  const enums = fields.enums.slice(0, MAX_ENUM_FIELDS).map(({ field, values }) => {
+    const counts = new Map<string, number>(values.map(v => [JSON.stringify(v), 0]));
+    for (const output of outputs) {
+      for (const v of valuesAt(output, field)) {
+        const key = JSON.stringify(v);
+        counts.set(key, (counts.get(key) || 0) + 1);
+      }
+    }
+    return { field, counts: Array.from(counts, ([value, count]) => ({ value, count })) };
+  });
+
+  const numbers = fields.numbers.flatMap(field => {
+    const values = outputs.flatMap(output => valuesAt(output, field)).filter((v): v is number => typeof v === 'number');
+    if (values.length === 0) return [];
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const width = (max - min) / HISTOGRAM_BINS || 1;
+    const binCount = max === min ? 1 : HISTOGRAM_BINS;
+    const bins = Array.from({ length: binCount }, (_, i) => ({ label: `${+(min + i * width).toPrecision(4)}`, count: 0 }));
+    values.forEach(v => bins[Math.min(binCount - 1, Math.floor((v - min) / width))].count++);
+    return [{ field, min, max, mean: values.reduce((a, b) => a + b, 0) / values.length, bins }];
+  });
+
+  return {
+    total: runs.length,
+    completed: finished.length,
+    errored: finished.length - done.length,
+    parseRate: done.length ? done.filter(run => run.parsed).length / done.length : 0,
+    passRate: done.length ? done.filter(run => run.valid).length / done.length : 0,
+    latency: latencies.length
+      ? {
+          min: latencies[0],
+          p50: percentile(latencies, 50),
+          p90: percentile(latencies, 90),
+          p99: percentile(latencies, 99),
+          max: latencies[latencies.length - 1],
+          mean: Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length)
+        }
+      : null,
+    failures: Array.from(failureMap.values()).sort((a, b) => b.count - a.count),
+    enums,
+    numbers
+  };
+};
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { parseTemplate, renderPromptText, withTemplateDefaults } from './promptTemplate';
+
+describe('withTemplateDefaults', () => {
+  it('ignores values inherited from Object.prototype', () => {
+    const template = parseTemplate('Use {{constructor=plain}} for {{toString=text}}');
+    expect(withTemplateDefaults(template, {}).variables.map(v => v.defaultValue)).toEqual(['plain', 'text']);
+    expect(renderPromptText('Use {{constructor=plain}}')).toBe('Use plain');
+  });
+
+  it('applies own values', () => {
+    expect(renderPromptText('Use {{constructor=plain}}', { constructor: 'bold' })).toBe('Use bold');
+  });
+});
@@ -0,0 +1,127 @@
+import { hasOwn } from "./schemaValidator";
+
+export type TemplateVariableType = 'string' | 'int' | 'number' | 'bool' | 'enum';
+
+export type TemplateValue = string | number | boolean;
+
+export type TemplateValues = Record<string, TemplateValue>;
+
+export interface TemplateVariable {
+  name: string;
+  type: TemplateVariableType;
+  options?: string[];
+  defaultValue: TemplateValue;
+}
+
+export type TemplateSegment = { kind: 'text'; text: string } | { kind: 'variable'; name: string };
+
+export interface TemplateIssue {
+  index: number;
+  message: string;
+}
+
+export interface ParsedTemplate {
+  segments: TemplateSegment[];
+  variables: TemplateVariable[];
+  issues: TemplateIssue[];
+}
+
+// {{name}}, {{name:type}}, {{name=default}} or {{name:type=default}}; type is string, int, number, bool or enum(a,b)
+const PLACEHOLDER = /\{\{([^{}]*)\}\}/g;
+const DECLARATION = /^\s*([A-Za-z_]\w*)\s*(?::\s*(string|int|number|bool|enum\s*\(([^)]*)\))\s*)?(?:=(.*))?$/;
+
+const TYPE_DEFAULTS: Record<TemplateVariableType, TemplateValue> = { string: '', int: 0, number: 0, bool: false, enum: '' };
+
+/**
+ * Converts raw input (a declared default or a form value) to the variable's type, or returns
+ * an error message. Enum values must be one of the declared options.
+ */
+export const coerceTemplateValue = (
+  variable: Pick<TemplateVariable, 'type' | 'options'>,
+  raw: unknown
+): { value: TemplateValue } | { error: string } => {
+  const text = String(raw ?? '').trim();
+  switch (variable.type) {
+    case 'int':
+      return /^-?\d+$/.test(text) ? { value: Number(text) } : { error: `"${text}" is not an integer` };
+    case 'number':
+      return text !== '' && Number.isFinite(Number(text)) ? { value: Number(text) } : { error: `"${text}" is not a number` };
+    case 'bool':
+      if (typeof raw === 'boolean') return { value: raw };
+      return text === 'true' || text === 'false' ? { value: text === 'true' } : { error: `"${text}" is not true or false` };
+    case 'enum':
+      return variable.options?.includes(text) ? { value: text } : { error: `"${text}" is not one of ${variable.options?.join(', ')}` };
+    case 'string':
+    default:
+      return { value: String(raw ?? '') };
+  }
+};
+
+const sameDeclaration = (a: TemplateVariable, b: TemplateVariable) =>
+  a.type === b.type && a.defaultValue === b.defaultValue && (a.options || []).join(',') === (b.options || []).join(',');
+
+export const parseTemplate = (prompt: string): ParsedTemplate => {
+  const segments: TemplateSegment[] = [];
+  const declared = new Map<string, TemplateVariable>();
+  const referenced: string[] = [];
+  const issues: TemplateIssue[] = [];
+  let last = 0;
+
+  for (const match of prompt.matchAll(PLACEHOLDER)) {
+    const index = match.index ?? 0;
+    const parsed = DECLARATION.exec(match[1]);
+    if (!parsed) {
+      issues.push({ index, message: `"${match[0]}" is not a valid template variable; use {{name:type=default}}` });
+      continue;
+    }
+    const [, name, typeText, enumOptions, defaultText] = parsed;
+    if (index > last) segments.push({ kind: 'text', text: prompt.slice(last, index) });
+    segments.push({ kind: 'variable', name });
+    last = index + match[0].length;
+    if (!referenced.includes(name)) referenced.push(name);
+    if (!typeText && defaultText === undefined) continue;
+
+    const type = (typeText?.startsWith('enum') ? 'enum' : typeText || 'string') as TemplateVariableType;
+    const options = type === 'enum' ? enumOptions.split(',').map(o => o.trim()).filter(Boolean) : undefined;
+    if (type === 'enum' && !options?.length) {
+      issues.push({ index, message: `Enum variable "${name}" has no options` });
+      continue;
+    }
+    let defaultValue = type === 'enum' ? options![0] : TYPE_DEFAULTS[type];
+    if (defaultText !== undefined) {
+      const coerced = coerceTemplateValue({ type, options }, defaultText);
+      if ('error' in coerced) issues.push({ index, message: `Default for "${name}": ${coerced.error}` });
+      else defaultValue = coerced.value;
+    }
+    const variable: TemplateVariable = { name, type, options, defaultValue };
+    const previous = declared.get(name);
+    if (!previous) declared.set(name, variable);
+    else if (!sameDeclaration(previous, variable)) {
+      issues.push({ index, message: `"${name}" is declared again with a different type or default; the first declaration is used` });
+    }
+  }
+  if (last < prompt.length) segments.push({ kind: 'text', text: prompt.slice(last) });
+
+  const variables = referenced.map(name => declared.get(name) || { name, type: 'string' as const, defaultValue: '' });
+  return { segments, variables, issues };
+};
+
+export const defaultTemplateValues = (variables: TemplateVariable[]): TemplateValues =>
+  Object.fromEntries(variables.map(v => [v.name, v.defaultValue]));
+
+// Valid values replace the declared defaults, e.g. so exported code defaults to what the form shows
+export const withTemplateDefaults = (template: ParsedTemplate, values: TemplateValues = {}): ParsedTemplate => ({
+  ...template,
+  variables: template.variables.map(variable => {
+    const coerced = hasOwn(values, variable.name) ? coerceTemplateValue(variable, values[variable.name]) : null;
+    return coerced && 'value' in coerced ? { ...variable, defaultValue: coerced.value } : variable;
+  })
+});
+
+// Values that are missing or no longer valid for the variable's type fall back to its default
+export const renderTemplate = (template: ParsedTemplate, values: TemplateValues = {}): string => {
+  const byName = new Map(withTemplateDefaults(template, values).variables.map(v => [v.name, v.defaultValue]));
+  return template.segments.map(segment => (segment.kind === 'text' ? segment.text : String(byName.get(segment.name)))).join('');
+};
+
+export const renderPromptText = (prompt: string, values: TemplateValues = {}) => renderTemplate(parseTemplate(prompt), values);
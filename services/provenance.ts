@@ -0,0 +1,91 @@
+import { GroundingMetadata } from "@google/genai";
+import { FieldProvenance, GroundingEvidence, SearchResult, Source } from "../types";
+import { FieldMap, fieldsFromExample, fieldsFromSchema } from "./consistencyChecker";
+
+/**
+ * Keeps every grounding chunk as a source (deduplicated, including chunks without a URI) and
+ * every grounding support as evidence, with chunk indices remapped onto the deduplicated sources.
+ */
+export const collectGroundingEvidence = (metadata?: GroundingMetadata): { sources: Source[]; evidence: GroundingEvidence[] } => {
+  const sources: Source[] = [];
+  const chunkToSource: number[] = [];
+
+  (metadata?.groundingChunks || []).forEach((chunk, chunkIndex) => {
+    const uri = chunk.web?.uri || chunk.retrievedContext?.uri || '#';
+    const title = chunk.web?.title || chunk.retrievedContext?.title || 'Grounded Reference';
+    let index = sources.findIndex(s => (uri === '#' ? s.uri === '#' && s.title === title : s.uri === uri));
+    if (index === -1) index = sources.push({ title, uri }) - 1;
+    chunkToSource[chunkIndex] = index;
+  });
+
+  const evidence: GroundingEvidence[] = (metadata?.groundingSupports || [])
+    .filter(support => support.segment?.text)
+    .map(support => ({
+      text: support.segment!.text!,
+      sourceIndices: Array.from(new Set((support.groundingChunkIndices || [])
+        .map(i => chunkToSource[i])
+        .filter((i): i is number => i !== undefined))),
+      confidence: support.confidenceScores?.length ? Math.max(...support.confidenceScores) : undefined
+    }))
+    .filter(e => e.sourceIndices.length > 0);
+
+  return { sources, evidence };
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * `createdAt`, `created_at` and "created at" all name the same field in prose.
+ */
+const keyPattern = (key: string) => {
+  const words = key
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[\s_\-.]+/)
+    .filter(Boolean)
+    .map(escapeRegExp);
+  return new RegExp(`(^|[^a-z0-9])${words.join('[\\s_-]?')}([^a-z0-9]|$)`, 'i');
+};
+
+export const pointerToFieldPath = (pointer: string) =>
+  pointer
+    .split('/')
+    .slice(1)
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((path, token) => (/^\d+$/.test(token) ? `${path}[]` : path ? `${path}.${token}` : token), '');
+
+/**
+ * Maps each field of the result to the grounded passages that name it. Returns null when the
+ * result carries no grounding evidence (ungrounded research, spec imports, older cache entries).
+ */
+export const buildProvenance = (result: Pick<SearchResult, 'evidence' | 'jsonSchema' | 'exampleJson'>, schemaText = result.jsonSchema): FieldProvenance[] | null => {
+  if (!result.evidence || result.evidence.length === 0) return null;
+
+  let fields: FieldMap = new Map();
+  try {
+    fields = fieldsFromSchema(JSON.parse(schemaText || '{}'));
+  } catch (e) {
+    // Fall through to the example
+  }
+  if (fields.size === 0) {
+    try {
+      fields = fieldsFromExample(JSON.parse(result.exampleJson));
+    } catch (e) {
+      return null;
+    }
+  }
+
+  return Array.from(fields.keys())
+    .filter(path => !path.endsWith('[]'))
+    .map(path => {
+      const key = path.split('.').pop()!.replace(/\[\]/g, '');
+      const pattern = keyPattern(key);
+      const matches = result.evidence!.filter(e => pattern.test(e.text));
+      return {
+        path,
+        key,
+        sourceIndices: Array.from(new Set(matches.flatMap(e => e.sourceIndices))),
+        passages: matches.map(e => e.text),
+        grounded: matches.length > 0
+      };
+    });
+};
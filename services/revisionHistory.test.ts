@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { SearchResult } from '../types';
+import { createRevision, restoreRevision } from './revisionHistory';
+
+const result: SearchResult = {
+  title: 'Product',
+  description: 'A product card',
+  jsonPrompt: 'Describe a product',
+  exampleJson: '{"name":"Lamp","price":10}',
+  jsonSchema: '{"type":"object","properties":{"name":{"type":"string"},"price":{"type":"number"}}}',
+  sources: [],
+  consistency: { score: 100, discrepancies: [], repaired: [] },
+  evidence: [{ text: 'Lamp', sourceIndices: [0] }]
+};
+
+describe('restoreRevision', () => {
+  it('recomputes consistency for the restored artifacts', () => {
+    const revision = createRevision({ ...result, exampleJson: '{"name":"Lamp"}', jsonSchema: '{"type":"object","properties":{"title":{"type":"string"}}}' }, 'edit');
+    const restored = restoreRevision(result, revision);
+    expect(restored.jsonSchema).toBe(revision.snapshot.jsonSchema);
+    expect(restored.consistency?.score).toBeLessThan(100);
+    expect(restored.consistency?.discrepancies.length).toBeGreaterThan(0);
+  });
+
+  it('drops grounding evidence collected for a different example', () => {
+    const revision = createRevision({ ...result, exampleJson: '{"name":"Chair","price":20}' }, 'edit');
+    expect(restoreRevision(result, revision).evidence).toBeUndefined();
+  });
+
+  it('keeps grounding evidence when the example is unchanged', () => {
+    const revision = createRevision({ ...result, jsonPrompt: 'Describe a lamp' }, 'edit');
+    expect(restoreRevision(result, revision).evidence).toEqual(result.evidence);
+  });
+});
@@ -0,0 +1,143 @@
+import { ArtifactKey, Revision, RevisionSnapshot, RevisionSource, SavedResult, SearchResult } from "../types";
+import { FieldMap, checkConsistency, fieldsFromExample, fieldsFromSchema } from "./consistencyChecker";
+
+export interface FieldChange {
+  path: string;
+  change: 'added' | 'removed' | 'retyped';
+  before?: string;
+  after?: string;
+}
+
+export interface TextDiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface RevisionDiff {
+  fields: FieldChange[];
+  prompt: TextDiffPart[];
+  changedArtifacts: (ArtifactKey | 'description')[];
+}
+
+export const MAX_REVISIONS = 25;
+
+const SNAPSHOT_KEYS: (keyof RevisionSnapshot)[] = ['description', 'jsonPrompt', 'exampleJson', 'jsonSchema', 'tsInterface', 'promptVariations'];
+
+export const snapshotOf = (result: SearchResult): RevisionSnapshot => ({
+  description: result.description,
+  jsonPrompt: result.jsonPrompt,
+  exampleJson: result.exampleJson,
+  jsonSchema: result.jsonSchema,
+  tsInterface: result.tsInterface,
+  promptVariations: result.promptVariations
+});
+
+const sameSnapshot = (a: RevisionSnapshot, b: RevisionSnapshot) =>
+  SNAPSHOT_KEYS.every(key => JSON.stringify(a[key] ?? null) === JSON.stringify(b[key] ?? null));
+
+export const createRevision = (result: SearchResult, source: RevisionSource): Revision => ({
+  id: Math.random().toString(36).substring(7),
+  createdAt: Date.now(),
+  source,
+  snapshot: snapshotOf(result)
+});
+
+/**
+ * Applies `result` to a favorite and records it as a new revision. Favorites saved before
+ * revisions existed get their current content as the first entry. Unchanged content is not recorded.
+ */
+export const recordRevision = (saved: SavedResult, result: SearchResult, source: RevisionSource): SavedResult => {
+  const history = saved.revisions?.length
+    ? saved.revisions
+    : [{ ...createRevision(saved, 'saved'), createdAt: saved.savedAt }];
+  const updated: SavedResult = { ...saved, ...result, id: saved.id, savedAt: saved.savedAt };
+  if (sameSnapshot(history[history.length - 1].snapshot, snapshotOf(result))) return { ...updated, revisions: history };
+  return { ...updated, revisions: [...history, createRevision(result, source)].slice(-MAX_REVISIONS) };
+};
+
+/**
+ * Puts a revision's artifacts back on the result. The consistency report is recomputed for them,
+ * and grounding evidence is dropped when the example it was collected for is replaced.
+ */
+export const restoreRevision = (result: SearchResult, revision: Revision): SearchResult => {
+  const restored = { ...result, ...revision.snapshot };
+  return {
+    ...restored,
+    consistency: checkConsistency(restored),
+    evidence: restored.exampleJson === result.exampleJson ? result.evidence : undefined
+  };
+};
+
+const fieldMapOf = (snapshot: RevisionSnapshot): FieldMap => {
+  try {
+    const schema = JSON.parse(snapshot.jsonSchema || '');
+    if (schema && typeof schema === 'object') return fieldsFromSchema(schema);
+  } catch (e) {
+    // Fall back to the example
+  }
+  try {
+    return fieldsFromExample(JSON.parse(snapshot.exampleJson));
+  } catch (e) {
+    return new Map();
+  }
+};
+
+const describeTypes = (types: Set<string>) => Array.from(types).sort().join(' | ');
+
+/**
+ * Word-level diff of two texts by longest common subsequence; whitespace runs are kept as their
+ * own tokens so the parts join back into the original texts.
+ */
+export const diffText = (before: string, after: string): TextDiffPart[] => {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const parts: TextDiffPart[] = [];
+  const push = (type: TextDiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return parts;
+};
+
+export const diffRevisions = (from: RevisionSnapshot, to: RevisionSnapshot): RevisionDiff => {
+  const before = fieldMapOf(from);
+  const after = fieldMapOf(to);
+  const fields: FieldChange[] = [];
+  const paths = Array.from(new Set([...before.keys(), ...after.keys()])).sort();
+  for (const path of paths) {
+    const a = before.get(path);
+    const b = after.get(path);
+    if (!a) fields.push({ path, change: 'added', after: describeTypes(b!.types) });
+    else if (!b) fields.push({ path, change: 'removed', before: describeTypes(a.types) });
+    else if (describeTypes(a.types) !== describeTypes(b.types)) {
+      fields.push({ path, change: 'retyped', before: describeTypes(a.types), after: describeTypes(b.types) });
+    }
+  }
+
+  const changedArtifacts = (['description', 'jsonPrompt', 'exampleJson', 'jsonSchema', 'tsInterface'] as const)
+    .filter(key => (from[key] || '') !== (to[key] || ''));
+
+  return { fields, prompt: diffText(from.jsonPrompt || '', to.jsonPrompt || ''), changedArtifacts };
+};
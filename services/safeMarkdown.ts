@@ -0,0 +1,37 @@
+import { marked } from "marked";
+
+// The tags markdown produces; anything else in raw HTML is unwrapped to its text
+const ALLOWED_TAGS = new Set([
+  'a', 'b', 'blockquote', 'br', 'code', 'del', 'em', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img',
+  'input', 'li', 'ol', 'p', 'pre', 'strong', 'table', 'tbody', 'td', 'th', 'thead', 'tr', 'ul'
+]);
+// Removed together with their content
+const DROPPED_TAGS = new Set(['script', 'style', 'iframe', 'object', 'embed', 'template', 'noscript', 'svg', 'math', 'form', 'textarea', 'select']);
+const ALLOWED_ATTRIBUTES = new Set(['href', 'src', 'alt', 'title', 'align', 'start', 'type', 'checked', 'disabled']);
+const SAFE_URL = /^(https?:|mailto:|#)/i;
+
+/**
+ * Renders markdown whose author may not be trusted (shared links, imported files): unknown
+ * elements, event handlers and styles are stripped, and links and images must use http(s),
+ * mailto or an in-page anchor.
+ */
+export const renderSafeMarkdown = (text: string): string => {
+  const doc = new DOMParser().parseFromString(marked.parse(text, { async: false }) as string, 'text/html');
+  for (const element of Array.from(doc.body.querySelectorAll('*'))) {
+    const tag = element.tagName.toLowerCase();
+    if (DROPPED_TAGS.has(tag)) {
+      element.remove();
+      continue;
+    }
+    if (!ALLOWED_TAGS.has(tag)) {
+      element.replaceWith(...Array.from(element.childNodes));
+      continue;
+    }
+    for (const attribute of Array.from(element.attributes)) {
+      const unsafeUrl = (attribute.name === 'href' || attribute.name === 'src') && !SAFE_URL.test(attribute.value.trim());
+      if (!ALLOWED_ATTRIBUTES.has(attribute.name) || unsafeUrl) element.removeAttribute(attribute.name);
+    }
+    if (tag === 'input' && element.getAttribute('type') !== 'checkbox') element.remove();
+  }
+  return doc.body.innerHTML;
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { compareSchemas, nextVersion } from './schemaCompatibility';
+
+const objectOf = (properties: Record<string, object>, required: string[] = []) => ({ type: 'object', properties, required });
+
+const kinds = (before: object, after: object) => compareSchemas(before, after).changes.map(c => `${c.kind}:${c.impact}:${c.path}`);
+
+describe('compareSchemas', () => {
+  it('reports removed fields as breaking', () => {
+    const report = compareSchemas(objectOf({ id: { type: 'string' }, name: { type: 'string' } }), objectOf({ id: { type: 'string' } }));
+    expect(report.changes.map(c => `${c.kind}:${c.path}`)).toEqual(['field-removed:name']);
+    expect(report.bump).toBe('major');
+  });
+
+  it('tells optional from required added fields', () => {
+    expect(kinds(objectOf({}), objectOf({ note: { type: 'string' } }))).toEqual(['field-added:non-breaking:note']);
+    expect(kinds(objectOf({}), objectOf({ sku: { type: 'string' } }, ['sku']))).toEqual(['field-added:breaking:sku']);
+  });
+
+  it('reports a field made required', () => {
+    expect(kinds(objectOf({ sku: { type: 'string' } }), objectOf({ sku: { type: 'string' } }, ['sku']))).toEqual(['required-added:breaking:sku']);
+  });
+
+  it('grades narrowed and widened types', () => {
+    const union = { price: { type: ['number', 'string'] } };
+    const single = { price: { type: 'number' } };
+    expect(kinds(objectOf(union), objectOf(single))).toEqual(['type-narrowed:breaking:price']);
+    expect(kinds(objectOf(single), objectOf(union))).toEqual(['type-widened:risky:price']);
+  });
+
+  it('treats integer to number as widening and number to integer as narrowing', () => {
+    expect(kinds({ type: 'integer' }, { type: 'number' })).toEqual(['type-widened:risky:(root)']);
+    expect(kinds({ type: 'number' }, { type: 'integer' })).toEqual(['type-narrowed:breaking:(root)']);
+  });
+
+  it('compares fields called "constructor" and "toString" like any other', () => {
+    const withMembers = objectOf({ constructor: { type: 'string' }, valueOf: { type: 'number' } });
+    expect(kinds(withMembers, objectOf({}))).toEqual(['field-removed:breaking:constructor', 'field-removed:breaking:valueOf']);
+    expect(kinds(objectOf({}), objectOf({ toString: { type: 'string' } }, ['toString']))).toEqual(['field-added:breaking:toString']);
+    expect(kinds(objectOf({}), { type: 'object', required: ['constructor'] })).toEqual(['required-added:breaking:(root)']);
+  });
+
+  it('reports nothing for identical schemas', () => {
+    const schema = objectOf({ id: { type: 'integer' } }, ['id']);
+    expect(compareSchemas(schema, schema)).toMatchObject({ changes: [], bump: 'none' });
+  });
+});
+
+describe('nextVersion', () => {
+  it('bumps the matching semver part', () => {
+    expect(nextVersion('1.4.2', 'major')).toBe('2.0.0');
+    expect(nextVersion('1.4.2', 'minor')).toBe('1.5.0');
+    expect(nextVersion('1.4.2', 'patch')).toBe('1.4.3');
+  });
+});
@@ -0,0 +1,293 @@
+import { deepEqual, hasOwn, resolveRef } from "./schemaValidator";
+
+type JsonSchema = Record<string, any>;
+
+export type ChangeImpact = 'breaking' | 'risky' | 'non-breaking';
+
+export type SemverBump = 'major' | 'minor' | 'patch' | 'none';
+
+export type SchemaChangeKind =
+  | 'field-removed' | 'field-added' | 'required-added' | 'required-removed'
+  | 'type-narrowed' | 'type-widened' | 'type-changed'
+  | 'enum-added' | 'enum-removed' | 'enum-value-added' | 'enum-value-removed'
+  | 'format-changed' | 'constraint-tightened' | 'constraint-loosened' | 'constraint-changed'
+  | 'closed' | 'opened' | 'variants-changed' | 'documentation';
+
+export interface SchemaChange {
+  kind: SchemaChangeKind;
+  impact: ChangeImpact;
+  // Path of the data the change affects, e.g. "items[].price"; "(root)" for the document itself
+  path: string;
+  message: string;
+}
+
+export interface CompatibilityReport {
+  changes: SchemaChange[];
+  counts: Record<ChangeImpact, number>;
+  bump: SemverBump;
+}
+
+export const CHANGE_IMPACTS: ChangeImpact[] = ['breaking', 'risky', 'non-breaking'];
+
+// Lower bounds tighten when they grow, upper bounds when they shrink
+const LOWER_BOUNDS = ['minLength', 'minimum', 'exclusiveMinimum', 'minItems', 'minProperties'];
+const UPPER_BOUNDS = ['maxLength', 'maximum', 'exclusiveMaximum', 'maxItems', 'maxProperties'];
+const ANNOTATIONS = ['title', 'description', 'default', 'examples', 'deprecated'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const typesOf = (node: JsonSchema): string[] =>
+  Array.isArray(node.type) ? node.type : typeof node.type === 'string' ? [node.type] : node.properties ? ['object'] : node.items ? ['array'] : [];
+
+// An empty list means the schema does not restrict the type
+const accepts = (types: string[], type: string) =>
+  types.length === 0 || types.includes(type) || (type === 'integer' && types.includes('number'));
+
+const includesAll = (outer: string[], inner: string[]) =>
+  inner.length === 0 ? outer.length === 0 : inner.every(type => accepts(outer, type));
+
+const describeTypes = (types: string[]) => (types.length ? types.join(' | ') : 'any');
+
+const enumOf = (node: JsonSchema): unknown[] | undefined =>
+  Array.isArray(node.enum) ? node.enum : node.const !== undefined ? [node.const] : undefined;
+
+const childPath = (path: string, name: string) => (path ? `${path}.${name}` : name);
+
+interface Side {
+  root: JsonSchema;
+  node: JsonSchema;
+  // References expanded on the way here; a recursive model is compared once
+  refs: string[];
+}
+
+/**
+ * Follows local references and folds allOf branches into one node, so a property moved into
+ * $defs or split across allOf is not reported as removed and re-added.
+ */
+const normalize = ({ root, node, refs }: Side): Side => {
+  let current = node;
+  let expanded = refs;
+  while (typeof current.$ref === 'string' && !expanded.includes(current.$ref)) {
+    const target = resolveRef(root, current.$ref);
+    if (!isObject(target)) break;
+    const { $ref, ...rest } = current;
+    expanded = [...expanded, $ref];
+    current = { ...target, ...rest };
+  }
+  if (Array.isArray(current.allOf)) {
+    const { allOf, ...rest } = current;
+    const merged: JsonSchema = { ...rest };
+    const branchRefs = new Set(expanded);
+    for (const branch of allOf) {
+      if (!isObject(branch)) continue;
+      const { node: part, refs: partRefs } = normalize({ root, node: branch, refs: expanded });
+      partRefs.forEach(ref => branchRefs.add(ref));
+      for (const [key, value] of Object.entries(part)) {
+        if (key === 'properties') merged.properties = { ...value, ...(merged.properties || {}) };
+        else if (key === 'required') merged.required = Array.from(new Set([...(merged.required || []), ...value]));
+        else if (!hasOwn(merged, key)) merged[key] = value;
+      }
+    }
+    current = merged;
+    expanded = Array.from(branchRefs);
+  }
+  return { root, node: current, refs: expanded };
+};
+
+const compareNodes = (beforeSide: Side, afterSide: Side, path: string, changes: SchemaChange[]) => {
+  const before = normalize(beforeSide);
+  const after = normalize(afterSide);
+  const a = before.node;
+  const b = after.node;
+  const where = path || '(root)';
+  const report = (kind: SchemaChangeKind, impact: ChangeImpact, message: string) => changes.push({ kind, impact, path: where, message });
+  // A side that is back at a reference it already expanded has been compared further up
+  if (before.refs.includes(a.$ref) || after.refs.includes(b.$ref)) return;
+
+  const typesA = typesOf(a);
+  const typesB = typesOf(b);
+  const narrowed = includesAll(typesA, typesB);
+  const widened = includesAll(typesB, typesA);
+  if (narrowed && !widened) {
+    report('type-narrowed', 'breaking', `Type narrowed from ${describeTypes(typesA)} to ${describeTypes(typesB)}`);
+  } else if (widened && !narrowed) {
+    report('type-widened', 'risky', `Type widened from ${describeTypes(typesA)} to ${describeTypes(typesB)}; readers must handle the new type`);
+  } else if (!narrowed && !widened) {
+    report('type-changed', 'breaking', `Type changed from ${describeTypes(typesA)} to ${describeTypes(typesB)}`);
+  }
+
+  const enumA = enumOf(a);
+  const enumB = enumOf(b);
+  if (!enumA && enumB) {
+    report('enum-added', 'breaking', `Restricted to ${enumB.map(v => JSON.stringify(v)).join(', ')}`);
+  } else if (enumA && !enumB) {
+    report('enum-removed', 'risky', 'No longer restricted to a fixed set of values');
+  } else if (enumA && enumB) {
+    const removed = enumA.filter(v => !enumB.some(w => deepEqual(v, w)));
+    const added = enumB.filter(v => !enumA.some(w => deepEqual(v, w)));
+    if (removed.length) report('enum-value-removed', 'breaking', `Value${removed.length === 1 ? '' : 's'} ${removed.map(v => JSON.stringify(v)).join(', ')} no longer allowed`);
+    if (added.length) report('enum-value-added', 'risky', `New value${added.length === 1 ? '' : 's'} ${added.map(v => JSON.stringify(v)).join(', ')}; exhaustive switches need a case`);
+  }
+
+  if (a.format !== b.format) {
+    if (!a.format) report('format-changed', 'breaking', `Now requires format ${b.format}`);
+    else if (!b.format) report('format-changed', 'risky', `No longer guaranteed to be ${a.format}`);
+    else report('format-changed', 'breaking', `Format changed from ${a.format} to ${b.format}`);
+  }
+
+  for (const keyword of [...LOWER_BOUNDS, ...UPPER_BOUNDS]) {
+    const x = typeof a[keyword] === 'number' ? a[keyword] : undefined;
+    const y = typeof b[keyword] === 'number' ? b[keyword] : undefined;
+    if (x === y) continue;
+    const lower = LOWER_BOUNDS.includes(keyword);
+    const tightened = x === undefined || (y !== undefined && (lower ? y > x : y < x));
+    const change = `${keyword} ${x === undefined ? 'added' : y === undefined ? 'removed' : 'changed'}${x !== undefined ? ` from ${x}` : ''}${y !== undefined ? ` to ${y}` : ''}`;
+    if (tightened) report('constraint-tightened', 'breaking', change);
+    else report('constraint-loosened', 'non-breaking', change);
+  }
+  if (a.pattern !== b.pattern) {
+    if (!a.pattern) report('constraint-tightened', 'breaking', `Pattern ${b.pattern} added`);
+    else if (!b.pattern) report('constraint-loosened', 'non-breaking', `Pattern ${a.pattern} removed`);
+    else report('constraint-changed', 'risky', `Pattern changed from ${a.pattern} to ${b.pattern}; values valid before may fail`);
+  }
+  if (a.multipleOf !== b.multipleOf) {
+    if (b.multipleOf === undefined) report('constraint-loosened', 'non-breaking', `multipleOf ${a.multipleOf} removed`);
+    else report('constraint-changed', a.multipleOf !== undefined && a.multipleOf % b.multipleOf === 0 ? 'non-breaking' : 'breaking', `multipleOf ${a.multipleOf === undefined ? 'added' : `changed from ${a.multipleOf}`} to ${b.multipleOf}`);
+  }
+  if (!a.uniqueItems && b.uniqueItems) report('constraint-tightened', 'breaking', 'Items must now be unique');
+  if (a.uniqueItems && !b.uniqueItems) report('constraint-loosened', 'risky', 'Items may now repeat');
+
+  const annotations = ANNOTATIONS.filter(keyword => !deepEqual(a[keyword], b[keyword]));
+  if (annotations.length) report('documentation', 'non-breaking', `Updated ${annotations.join(', ')}`);
+
+  for (const keyword of ['anyOf', 'oneOf']) {
+    if (!deepEqual(a[keyword], b[keyword])) report('variants-changed', 'risky', `${keyword} variants changed; review which shapes are still accepted`);
+  }
+
+  const propsA: JsonSchema = isObject(a.properties) ? a.properties : {};
+  const propsB: JsonSchema = isObject(b.properties) ? b.properties : {};
+  const requiredA: string[] = Array.isArray(a.required) ? a.required : [];
+  const requiredB: string[] = Array.isArray(b.required) ? b.required : [];
+  for (const name of Object.keys(propsA)) {
+    if (!hasOwn(propsB, name)) changes.push({ kind: 'field-removed', impact: 'breaking', path: childPath(path, name), message: 'Field removed' });
+  }
+  for (const [name, child] of Object.entries(propsB)) {
+    const field = childPath(path, name);
+    if (!hasOwn(propsA, name)) {
+      changes.push(requiredB.includes(name)
+        ? { kind: 'field-added', impact: 'breaking', path: field, message: 'Required field added; existing documents without it no longer validate' }
+        : { kind: 'field-added', impact: 'non-breaking', path: field, message: 'Optional field added' });
+      continue;
+    }
+    if (!requiredA.includes(name) && requiredB.includes(name)) {
+      changes.push({ kind: 'required-added', impact: 'breaking', path: field, message: 'Field made required' });
+    } else if (requiredA.includes(name) && !requiredB.includes(name)) {
+      changes.push({ kind: 'required-removed', impact: 'risky', path: field, message: 'Field made optional; readers must handle its absence' });
+    }
+    if (isObject(propsA[name]) && isObject(child)) {
+      compareNodes({ ...before, node: propsA[name] }, { ...after, node: child }, field, changes);
+    }
+  }
+  // Required names without a declared property still constrain the document
+  for (const name of requiredB) {
+    if (!requiredA.includes(name) && !hasOwn(propsB, name)) report('required-added', 'breaking', `"${name}" is now required`);
+  }
+
+  const closedA = a.additionalProperties === false;
+  const closedB = b.additionalProperties === false;
+  if (!closedA && closedB && typesB.includes('object')) report('closed', 'breaking', 'Undeclared properties are now rejected');
+  if (closedA && !closedB && typesA.includes('object')) report('opened', 'risky', 'Undeclared properties are now accepted');
+  if (isObject(a.additionalProperties) && isObject(b.additionalProperties)) {
+    compareNodes({ ...before, node: a.additionalProperties }, { ...after, node: b.additionalProperties }, childPath(path, '*'), changes);
+  }
+
+  const tupleA: JsonSchema[] = Array.isArray(a.prefixItems) ? a.prefixItems : Array.isArray(a.items) ? a.items : [];
+  const tupleB: JsonSchema[] = Array.isArray(b.prefixItems) ? b.prefixItems : Array.isArray(b.items) ? b.items : [];
+  for (let i = 0; i < Math.max(tupleA.length, tupleB.length); i++) {
+    compareNodes({ ...before, node: isObject(tupleA[i]) ? tupleA[i] : {} }, { ...after, node: isObject(tupleB[i]) ? tupleB[i] : {} }, `${path}[${i}]`, changes);
+  }
+  if (isObject(a.items) && isObject(b.items)) {
+    compareNodes({ ...before, node: a.items }, { ...after, node: b.items }, `${path}[]`, changes);
+  } else if (isObject(a.items) !== isObject(b.items) && !tupleA.length && !tupleB.length) {
+    compareNodes({ ...before, node: isObject(a.items) ? a.items : {} }, { ...after, node: isObject(b.items) ? b.items : {} }, `${path}[]`, changes);
+  }
+};
+
+const bumpOf = (change: SchemaChange): SemverBump =>
+  change.impact === 'breaking' ? 'major' : change.impact === 'risky' || change.kind !== 'documentation' ? 'minor' : 'patch';
+
+const BUMP_ORDER: SemverBump[] = ['none', 'patch', 'minor', 'major'];
+
+/**
+ * Compares a baseline schema with a new one from the point of view of existing consumers:
+ * breaking changes reject data that was valid before or take away something readers relied on,
+ * risky ones keep old data valid but let through values readers may not expect.
+ */
+export const compareSchemas = (before: JsonSchema, after: JsonSchema): CompatibilityReport => {
+  const changes: SchemaChange[] = [];
+  compareNodes({ root: before, node: before, refs: ['#'] }, { root: after, node: after, refs: ['#'] }, '', changes);
+  const counts = { breaking: 0, risky: 0, 'non-breaking': 0 };
+  changes.forEach(change => counts[change.impact]++);
+  const bump = changes.map(bumpOf).reduce((max, next) => (BUMP_ORDER.indexOf(next) > BUMP_ORDER.indexOf(max) ? next : max), 'none' as SemverBump);
+  return { changes, counts, bump };
+};
+
+const parseSchema = (text: string, label: string): JsonSchema => {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch (e: any) {
+    throw new Error(`The ${label} schema is not valid JSON: ${e?.message || e}`);
+  }
+  if (schema === true) return {};
+  if (!isObject(schema)) throw new Error(`The ${label} schema must be a JSON object`);
+  return schema;
+};
+
+export const compareSchemaTexts = (before: string, after: string): CompatibilityReport =>
+  compareSchemas(parseSchema(before, 'baseline'), parseSchema(after, 'new'));
+
+// Versions that are not plain MAJOR.MINOR.PATCH are left alone
+export const nextVersion = (version: string, bump: SemverBump): string => {
+  const match = version.trim().match(/^v?(\d+)\.(\d+)\.(\d+)$/);
+  if (!match || bump === 'none') return version.trim();
+  const [major, minor, patch] = match.slice(1).map(Number);
+  // Before 1.0.0 breaking changes only move the minor version
+  if (bump === 'major') return major === 0 ? `0.${minor + 1}.0` : `${major + 1}.0.0`;
+  if (bump === 'minor') return `${major}.${minor + 1}.0`;
+  return `${major}.${minor}.${patch + 1}`;
+};
+
+const IMPACT_HEADINGS: Record<ChangeImpact, string> = {
+  breaking: 'Breaking changes',
+  risky: 'Risky changes',
+  'non-breaking': 'Non-breaking changes'
+};
+
+export interface ChangelogOptions {
+  title: string;
+  from: string;
+  to: string;
+  version?: string;
+}
+
+export const formatChangelog = (report: CompatibilityReport, { title, from, to, version }: ChangelogOptions): string => {
+  const lines = [
+    `# ${title} schema changelog`,
+    '',
+    `Compared **${from}** with **${to}**.`,
+    '',
+    `Suggested version bump: **${report.bump}**${version && report.bump !== 'none' ? ` (${version.trim()} → ${nextVersion(version, report.bump)})` : ''}`,
+    ''
+  ];
+  if (!report.changes.length) return [...lines, 'No changes.', ''].join('\n');
+  for (const impact of CHANGE_IMPACTS) {
+    const changes = report.changes.filter(change => change.impact === impact);
+    if (!changes.length) continue;
+    lines.push(`## ${IMPACT_HEADINGS[impact]}`, '');
+    changes.forEach(change => lines.push(`- \`${change.path}\`: ${change.message}`));
+    lines.push('');
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,426 @@
+import { Schema, Type } from "@google/genai";
+
+type JsonSchema = Record<string, any> | boolean;
+
+export type SchemaExportTarget = 'gemini-response-schema' | 'gemini-function' | 'openai-response-format' | 'openai-tool' | 'mcp-tool';
+
+export interface SchemaExportTargetInfo {
+  id: SchemaExportTarget;
+  label: string;
+  icon: string;
+  contentType: string;
+  fileName: (name: string) => string;
+}
+
+export interface ExportWarning {
+  path: string;
+  keyword: string;
+  message: string;
+}
+
+export interface SchemaExport {
+  code: string;
+  warnings: ExportWarning[];
+}
+
+export interface SchemaExportOptions {
+  name: string;
+  description?: string;
+}
+
+export const SCHEMA_EXPORT_TARGETS: SchemaExportTargetInfo[] = [
+  { id: 'gemini-response-schema', label: 'Gemini Schema', icon: 'fas fa-gem', contentType: 'text/typescript', fileName: name => `${name}.gemini-schema.ts` },
+  { id: 'gemini-function', label: 'Gemini Function', icon: 'fas fa-wrench', contentType: 'text/typescript', fileName: name => `${name}.gemini-function.ts` },
+  { id: 'openai-response-format', label: 'OpenAI Strict', icon: 'fas fa-lock', contentType: 'application/json', fileName: name => `${name}.response-format.json` },
+  { id: 'openai-tool', label: 'OpenAI Tool', icon: 'fas fa-toolbox', contentType: 'application/json', fileName: name => `${name}.openai-tool.json` },
+  { id: 'mcp-tool', label: 'MCP Tool', icon: 'fas fa-plug', contentType: 'application/json', fileName: name => `${name}.mcp-tool.json` }
+];
+
+// Keywords with no Gemini Schema equivalent; they are dropped
+const GEMINI_DROPPED = [
+  'additionalProperties', 'patternProperties', 'propertyNames', 'unevaluatedProperties', 'dependentRequired',
+  'dependentSchemas', 'dependencies', 'not', 'if', 'then', 'else', 'contains', 'minContains', 'maxContains',
+  'uniqueItems', 'multipleOf', 'exclusiveMinimum', 'exclusiveMaximum', 'prefixItems', 'additionalItems', 'unevaluatedItems'
+];
+
+const GEMINI_FORMATS: Record<string, string[]> = {
+  STRING: ['enum', 'date-time'],
+  INTEGER: ['int32', 'int64'],
+  NUMBER: ['float', 'double']
+};
+
+// Strict structured outputs reject these outright
+const OPENAI_DROPPED = [
+  'patternProperties', 'propertyNames', 'unevaluatedProperties', 'dependentRequired', 'dependentSchemas', 'dependencies',
+  'not', 'if', 'then', 'else', 'contains', 'minContains', 'maxContains', 'uniqueItems', 'prefixItems', 'additionalItems',
+  'unevaluatedItems', 'minProperties', 'maxProperties', 'minLength', 'maxLength', 'default'
+];
+
+const OPENAI_FORMATS = ['date-time', 'time', 'date', 'duration', 'email', 'hostname', 'ipv4', 'ipv6', 'uuid'];
+
+const JSON_TYPE_TO_GEMINI: Record<string, Type> = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+  array: Type.ARRAY,
+  object: Type.OBJECT,
+  null: Type.NULL
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const childPath = (path: string, segment: string) => `${path}/${segment.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+
+const definitionsOf = (root: Record<string, any>): Record<string, JsonSchema> => ({ ...(root.definitions || {}), ...(root.$defs || {}) });
+
+const toolName = (name: string) =>
+  (name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, '').toLowerCase() || 'structured_output').slice(0, 64);
+
+const createWarnings = () => {
+  const warnings: ExportWarning[] = [];
+  const seen = new Set<string>();
+  const warn = (path: string, keyword: string, message: string) => {
+    const key = `${path}|${keyword}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    warnings.push({ path: path || '/', keyword, message });
+  };
+  return { warnings, warn };
+};
+
+/**
+ * Flattens `allOf` branches that are all objects into one object schema; anything else keeps the
+ * first branch. Neither Gemini nor strict mode composes schemas.
+ */
+const mergeAllOf = (node: Record<string, any>, resolve: (n: JsonSchema) => JsonSchema) => {
+  const parts = (node.allOf as JsonSchema[]).map(resolve);
+  const { allOf, ...rest } = node;
+  if (parts.every(part => isObject(part) && part.properties)) {
+    return {
+      ...rest,
+      type: 'object',
+      properties: Object.assign({}, ...parts.map(part => (part as Record<string, any>).properties), rest.properties),
+      required: Array.from(new Set([...parts.flatMap(part => (part as Record<string, any>).required || []), ...(rest.required || [])]))
+    };
+  }
+  return { ...rest, ...(isObject(parts[0]) ? parts[0] : {}) };
+};
+
+/**
+ * Converts JSON Schema into the OpenAPI subset Gemini accepts as `responseSchema` or function
+ * `parameters`. References are inlined; recursion cannot be, so it is cut and reported.
+ */
+export const toGeminiSchema = (schema: JsonSchema): { schema: Schema; warnings: ExportWarning[] } => {
+  const { warnings, warn } = createWarnings();
+  const root = isObject(schema) ? schema : {};
+  const definitions = definitionsOf(root);
+
+  const resolve = (node: JsonSchema): JsonSchema => {
+    if (!isObject(node) || typeof node.$ref !== 'string') return node;
+    return node.$ref === '#' ? root : definitions[node.$ref.split('/').pop() || ''] ?? true;
+  };
+
+  const convert = (node: JsonSchema, path: string, refs: string[]): Schema => {
+    if (!isObject(node) || Object.keys(node).length === 0) {
+      warn(path, 'type', 'Unconstrained value has no Gemini type; exported as STRING.');
+      return { type: Type.STRING };
+    }
+    if (typeof node.$ref === 'string') {
+      if (refs.includes(node.$ref)) {
+        warn(path, '$ref', `Recursive reference ${node.$ref} cannot be inlined; cut to a JSON-encoded STRING.`);
+        return { type: Type.STRING, description: `JSON-encoded ${node.$ref === '#' ? 'root' : node.$ref.split('/').pop()} value` };
+      }
+      warn(path, '$ref', 'Gemini does not resolve $ref; the definition was inlined.');
+      const { $ref, ...siblings } = node;
+      return convert({ ...(resolve(node) as Record<string, any>), ...siblings }, path, [...refs, $ref]);
+    }
+    if (Array.isArray(node.allOf)) {
+      warn(path, 'allOf', 'allOf is not supported; branches were merged into one object.');
+      return convert(mergeAllOf(node, resolve), path, refs);
+    }
+
+    const out: Schema = {};
+    if (typeof node.title === 'string') out.title = node.title;
+    if (typeof node.description === 'string') out.description = node.description;
+
+    if (Array.isArray(node.oneOf) || Array.isArray(node.anyOf)) {
+      const variants: JsonSchema[] = node.anyOf || node.oneOf;
+      const nonNull = variants.filter(v => !(isObject(v) && v.type === 'null'));
+      if (nonNull.length < variants.length) out.nullable = true;
+      const literals = nonNull.flatMap(v => (isObject(v) ? (v.const !== undefined ? [v.const] : Array.isArray(v.enum) ? v.enum : [undefined]) : [undefined]));
+      if (literals.every(v => typeof v === 'string')) {
+        // A union of string constants is just an enum
+        return { ...out, type: Type.STRING, format: 'enum', enum: Array.from(new Set<string>(literals)) };
+      }
+      if (node.oneOf) warn(path, 'oneOf', 'oneOf is not supported; exported as anyOf, so exclusivity is not enforced.');
+      if (nonNull.length === 1) return { ...convert(nonNull[0], path, refs), ...out };
+      return { ...out, anyOf: nonNull.map((v, i) => convert(v, childPath(path, String(i)), refs)) };
+    }
+
+    const types: string[] = Array.isArray(node.type) ? node.type : node.type ? [node.type] : [];
+    if (types.length === 0) {
+      if (node.properties) types.push('object');
+      else if (node.items) types.push('array');
+      else if (node.const !== undefined || Array.isArray(node.enum)) types.push(typeof (node.const ?? node.enum[0]) === 'number' ? 'number' : 'string');
+    }
+    const nonNull = types.filter(t => t !== 'null');
+    if (nonNull.length < types.length) out.nullable = true;
+    if (nonNull.length > 1) {
+      return { ...out, anyOf: nonNull.map(type => convert({ ...node, type, title: undefined, description: undefined }, path, refs)) };
+    }
+    const jsonType = nonNull[0] || 'string';
+    if (!nonNull[0]) warn(path, 'type', 'Missing type; exported as STRING.');
+    out.type = JSON_TYPE_TO_GEMINI[jsonType] || Type.STRING;
+
+    const values = node.const !== undefined ? [node.const] : Array.isArray(node.enum) ? node.enum : null;
+    if (values) {
+      if (node.const !== undefined) warn(path, 'const', 'const is not supported; exported as a single-value enum.');
+      const concrete = values.filter((v: unknown) => v !== null);
+      if (concrete.length < values.length) out.nullable = true;
+      if (concrete.every((v: unknown) => typeof v === 'string')) {
+        out.format = 'enum';
+        out.enum = concrete;
+      } else {
+        warn(path, 'enum', 'Gemini enums must be strings; the non-string enum was dropped.');
+      }
+    }
+
+    if (typeof node.format === 'string') {
+      if ((GEMINI_FORMATS[out.type] || []).includes(node.format)) out.format = node.format;
+      else warn(path, 'format', `format "${node.format}" is not supported for ${out.type} and was dropped.`);
+    }
+    if (typeof node.minimum === 'number') out.minimum = node.minimum;
+    if (typeof node.maximum === 'number') out.maximum = node.maximum;
+    // The SDK types int64 counts as strings
+    for (const key of ['minLength', 'maxLength', 'minItems', 'maxItems', 'minProperties', 'maxProperties'] as const) {
+      if (typeof node[key] === 'number') out[key] = String(node[key]);
+    }
+    if (typeof node.pattern === 'string') out.pattern = node.pattern;
+    if (node.default !== undefined) out.default = node.default;
+    for (const keyword of GEMINI_DROPPED) {
+      if (node[keyword] !== undefined && node[keyword] !== false) warn(path, keyword, `${keyword} is not supported by Gemini and was dropped.`);
+    }
+
+    if (out.type === Type.ARRAY) {
+      if (Array.isArray(node.items)) warn(path, 'items', 'Tuple items are not supported; the first item schema applies to every element.');
+      const items = Array.isArray(node.items) ? node.items[0] : Array.isArray(node.prefixItems) ? node.prefixItems[0] : node.items;
+      out.items = convert(items ?? true, childPath(path, 'items'), refs);
+    }
+    if (out.type === Type.OBJECT) {
+      const properties = Object.entries<JsonSchema>(node.properties || {});
+      if (properties.length === 0) {
+        warn(path, 'properties', 'Gemini objects need at least one property; the free-form object is exported as a JSON-encoded STRING.');
+        return { ...out, type: Type.STRING, description: [out.description, 'JSON-encoded object'].filter(Boolean).join(' — ') };
+      }
+      out.properties = Object.fromEntries(properties.map(([key, child]) => [key, convert(child, childPath(childPath(path, 'properties'), key), refs)]));
+      if (Array.isArray(node.required) && node.required.length) out.required = node.required;
+      // Keeps generation order stable; Gemini otherwise sorts keys alphabetically
+      out.propertyOrdering = properties.map(([key]) => key);
+    }
+    return out;
+  };
+
+  const { definitions: _d, $defs: _defs, $schema: _s, $id: _id, ...body } = root;
+  return { schema: convert(body, '', ['#']), warnings };
+};
+
+/**
+ * Rewrites a JSON Schema for OpenAI structured outputs in strict mode: every object is closed,
+ * every property is required, and optional properties become nullable instead.
+ */
+export const toOpenAIStrictSchema = (schema: JsonSchema): { schema: Record<string, any>; warnings: ExportWarning[] } => {
+  const { warnings, warn } = createWarnings();
+  const root = isObject(schema) ? schema : {};
+  const definitions = definitionsOf(root);
+
+  const resolve = (node: JsonSchema): JsonSchema => {
+    if (!isObject(node) || typeof node.$ref !== 'string') return node;
+    return node.$ref === '#' ? root : definitions[node.$ref.split('/').pop() || ''] ?? true;
+  };
+
+  const makeNullable = (node: Record<string, any>): Record<string, any> => {
+    if (typeof node.type === 'string') {
+      return { ...node, type: [node.type, 'null'], ...(Array.isArray(node.enum) && !node.enum.includes(null) ? { enum: [...node.enum, null] } : {}) };
+    }
+    if (Array.isArray(node.type)) return node.type.includes('null') ? node : { ...node, type: [...node.type, 'null'] };
+    if (Array.isArray(node.anyOf)) {
+      return node.anyOf.some((v: JsonSchema) => isObject(v) && v.type === 'null') ? node : { ...node, anyOf: [...node.anyOf, { type: 'null' }] };
+    }
+    return { anyOf: [node, { type: 'null' }] };
+  };
+
+  const convert = (node: JsonSchema, path: string): Record<string, any> => {
+    if (!isObject(node) || Object.keys(node).length === 0) {
+      warn(path, 'type', 'Strict mode needs a type on every schema; the unconstrained value was exported as a string.');
+      return { type: 'string' };
+    }
+    if (typeof node.$ref === 'string') {
+      const ref = node.$ref === '#' ? '#' : `#/$defs/${node.$ref.split('/').pop()}`;
+      const siblings = Object.keys(node).filter(key => key !== '$ref' && key !== 'description');
+      if (siblings.length) warn(path, '$ref', 'Keywords next to $ref are ignored in strict mode and were dropped.');
+      return { $ref: ref, ...(typeof node.description === 'string' ? { description: node.description } : {}) };
+    }
+    if (Array.isArray(node.allOf)) {
+      warn(path, 'allOf', 'allOf is not supported in strict mode; branches were merged into one object.');
+      return convert(mergeAllOf(node, resolve), path);
+    }
+
+    const out: Record<string, any> = {};
+    for (const [key, value] of Object.entries(node)) {
+      if (OPENAI_DROPPED.includes(key)) {
+        if (value !== false) warn(path, key, `${key} is not supported in strict mode and was dropped.`);
+        continue;
+      }
+      switch (key) {
+        case 'definitions':
+        case '$defs':
+        case '$schema':
+        case '$id':
+        case 'additionalProperties':
+          break;
+        case 'oneOf':
+          warn(path, 'oneOf', 'oneOf is not supported in strict mode; exported as anyOf, so exclusivity is not enforced.');
+          out.anyOf = (value as JsonSchema[]).map((v, i) => convert(v, childPath(path, String(i))));
+          break;
+        case 'anyOf':
+          out.anyOf = (value as JsonSchema[]).map((v, i) => convert(v, childPath(path, String(i))));
+          break;
+        case 'format':
+          if (OPENAI_FORMATS.includes(value)) out.format = value;
+          else warn(path, 'format', `format "${value}" is not supported in strict mode and was dropped.`);
+          break;
+        case 'items':
+          if (Array.isArray(value)) warn(path, 'items', 'Tuple items are not supported; the first item schema applies to every element.');
+          out.items = convert(Array.isArray(value) ? value[0] ?? true : value, childPath(path, 'items'));
+          break;
+        case 'properties':
+          break;
+        default:
+          out[key] = value;
+      }
+    }
+
+    const isObjectType = node.type === 'object' || (Array.isArray(node.type) && node.type.includes('object')) || (!node.type && node.properties);
+    if (isObjectType) {
+      if (!node.type) out.type = 'object';
+      if (isObject(node.additionalProperties)) {
+        warn(path, 'additionalProperties', 'Strict mode forbids open maps; additionalProperties was set to false, so map entries are lost.');
+      }
+      const required: string[] = Array.isArray(node.required) ? node.required : [];
+      const properties = Object.entries<JsonSchema>(node.properties || {});
+      if (properties.length === 0) warn(path, 'properties', 'Objects without properties can only be empty in strict mode.');
+      out.properties = Object.fromEntries(properties.map(([key, child]) => {
+        const converted = convert(child, childPath(childPath(path, 'properties'), key));
+        return [key, required.includes(key) ? converted : makeNullable(converted)];
+      }));
+      out.required = properties.map(([key]) => key);
+      out.additionalProperties = false;
+    }
+    return out;
+  };
+
+  let converted = convert(root, '');
+  if (converted.type !== 'object' || converted.anyOf) {
+    warn('', 'type', 'The root must be an object; the schema was wrapped in a "value" property.');
+    converted = { type: 'object', properties: { value: converted }, required: ['value'], additionalProperties: false };
+  }
+  const defs = Object.entries(definitions);
+  if (defs.length) {
+    converted.$defs = Object.fromEntries(defs.map(([key, definition]) => [key, convert(definition, `/$defs/${key}`)]));
+  }
+  return { schema: converted, warnings };
+};
+
+const WRAPPED_ROOT: ExportWarning = {
+  path: '/',
+  keyword: 'type',
+  message: 'Tool parameters must be an object; the schema was wrapped in a "value" property.'
+};
+
+// Renders a Gemini Schema as TypeScript that uses the SDK's Type enum instead of string literals
+const renderGeminiSource = (value: unknown, indent = ''): string => {
+  const inner = `${indent}  `;
+  if (Array.isArray(value)) {
+    if (value.every(v => !isObject(v) && !Array.isArray(v))) return `[${value.map(v => JSON.stringify(v)).join(', ')}]`;
+    return `[\n${value.map(v => `${inner}${renderGeminiSource(v, inner)}`).join(',\n')}\n${indent}]`;
+  }
+  if (!isObject(value)) return JSON.stringify(value);
+  const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+  if (entries.length === 0) return '{}';
+  return `{\n${entries.map(([key, v]) => {
+    const name = /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+    return `${inner}${name}: ${key === 'type' && typeof v === 'string' ? `Type.${v}` : renderGeminiSource(v, inner)}`;
+  }).join(',\n')}\n${indent}}`;
+};
+
+export const exportSchema = (schema: JsonSchema, target: SchemaExportTarget, options: SchemaExportOptions): SchemaExport => {
+  const name = toolName(options.name);
+  const description = options.description || options.name;
+
+  switch (target) {
+    case 'gemini-response-schema': {
+      const { schema: converted, warnings } = toGeminiSchema(schema);
+      const code = [
+        'import { Schema, Type } from "@google/genai";',
+        '',
+        `export const responseSchema: Schema = ${renderGeminiSource(converted)};`,
+        '',
+        '// const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });',
+        '// await ai.models.generateContent({',
+        '//   model: "gemini-3-flash-preview",',
+        '//   contents: prompt,',
+        '//   config: { responseMimeType: "application/json", responseSchema },',
+        '// });'
+      ].join('\n');
+      return { code: `${code}\n`, warnings };
+    }
+    case 'gemini-function': {
+      const { schema: converted, warnings } = toGeminiSchema(schema);
+      const isObjectRoot = converted.type === Type.OBJECT && !converted.anyOf;
+      if (!isObjectRoot) warnings.push(WRAPPED_ROOT);
+      const parameters: Schema = isObjectRoot
+        ? converted
+        : { type: Type.OBJECT, properties: { value: converted }, required: ['value'], propertyOrdering: ['value'] };
+      const declaration = { name, description, parameters };
+      const variable = `${name.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase())}Declaration`;
+      const code = [
+        'import { FunctionDeclaration, Type } from "@google/genai";',
+        '',
+        `export const ${variable}: FunctionDeclaration = ${renderGeminiSource(declaration)};`,
+        '',
+        `// config: { tools: [{ functionDeclarations: [${variable}] }] }`
+      ].join('\n');
+      return { code: `${code}\n`, warnings };
+    }
+    case 'openai-response-format': {
+      const { schema: converted, warnings } = toOpenAIStrictSchema(schema);
+      const format = { type: 'json_schema', json_schema: { name, description, strict: true, schema: converted } };
+      return { code: JSON.stringify(format, null, 2) + '\n', warnings };
+    }
+    case 'openai-tool': {
+      const { schema: converted, warnings } = toOpenAIStrictSchema(schema);
+      const tool = { type: 'function', function: { name, description, strict: true, parameters: converted } };
+      return { code: JSON.stringify(tool, null, 2) + '\n', warnings };
+    }
+    case 'mcp-tool':
+    default: {
+      const { warnings, warn } = createWarnings();
+      const root = isObject(schema) ? schema : {};
+      const { $schema, $id, ...body } = root;
+      const isObjectRoot = body.type === 'object' || (!body.type && !!body.properties);
+      if (!isObjectRoot) warnings.push(WRAPPED_ROOT);
+      const { definitions, $defs, ...inner } = body;
+      // Definitions stay at the root so the wrapped schema's references still resolve
+      const inputSchema = isObjectRoot
+        ? body
+        : { type: 'object', properties: { value: inner }, required: ['value'], ...(definitions ? { definitions } : {}), ...($defs ? { $defs } : {}) };
+      if (JSON.stringify(body).includes('"$ref"')) {
+        warn('', '$ref', 'The schema keeps $ref; some MCP clients do not resolve references in inputSchema.');
+      }
+      const tool = { name, title: options.name, description, inputSchema };
+      return { code: JSON.stringify(tool, null, 2) + '\n', warnings };
+    }
+  }
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { inferSchema, parseSamples } from './schemaInference';
+
+describe('inferSchema', () => {
+  it('merges samples field by field and marks missing fields optional', () => {
+    const { schema, fields, sampleCount } = inferSchema([
+      { id: 1, name: 'Lamp', tags: ['home'] },
+      { id: 2, name: 'Desk', tags: [] },
+      { id: 3 }
+    ]);
+    expect(sampleCount).toBe(3);
+    expect(schema.$schema).toBe('http://json-schema.org/draft-07/schema#');
+    expect(schema.required).toEqual(['id']);
+    expect(schema.properties.id).toEqual({ type: 'integer', minimum: 1, maximum: 3 });
+    expect(schema.properties.tags).toEqual({ type: 'array', items: { type: 'string' } });
+    expect(fields.find(f => f.path === 'name')?.notes[0]).toBe('optional: present in 2/3 objects');
+  });
+
+  it('widens integers seen next to floats to number', () => {
+    expect(inferSchema([{ price: 3 }, { price: 4.5 }]).schema.properties.price.type).toBe('number');
+  });
+
+  it('detects formats and repeated values', () => {
+    const { schema } = inferSchema(['a', 'b', 'a', 'b'].map((status, i) => ({ status, day: `2024-01-0${i + 1}` })));
+    expect(schema.properties.status.enum).toEqual(['a', 'b']);
+    expect(schema.properties.day.format).toBe('date');
+  });
+
+  it('keeps primitive unions as a type array', () => {
+    expect(inferSchema([{ value: 'x' }, { value: true }]).schema.properties.value).toEqual({ type: ['string', 'boolean'] });
+  });
+
+  it('infers a "constructor" key instead of reading the prototype', () => {
+    const { schema } = inferSchema([{ constructor: 1, toString: 'a' }, { constructor: 2, toString: 'b' }]);
+    expect(schema.properties.constructor).toEqual({ type: 'integer', minimum: 1, maximum: 2 });
+    expect(schema.properties.toString).toEqual({ type: 'string' });
+    expect(schema.required).toEqual(['constructor', 'toString']);
+  });
+});
+
+describe('parseSamples', () => {
+  it('reads whole documents and NDJSON, and skips blank entries', () => {
+    const { samples, errors } = parseSamples(['{"a":1}', '{"a":2}\n{"a":3}\n', '  ']);
+    expect(samples).toEqual([{ a: 1 }, { a: 2 }, { a: 3 }]);
+    expect(errors).toEqual([]);
+  });
+
+  it('reports the sample number of unparseable text', () => {
+    const { samples, errors } = parseSamples(['{"a":1}', '{"a":']);
+    expect(samples).toEqual([{ a: 1 }]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^Sample 2: /);
+  });
+});
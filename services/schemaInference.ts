@@ -0,0 +1,209 @@
+import { typeOf } from "./schemaValidator";
+
+export type InferenceConfidence = 'high' | 'medium' | 'low';
+
+export interface FieldInference {
+  path: string;
+  confidence: InferenceConfidence;
+  notes: string[];
+}
+
+export interface InferenceResult {
+  schema: Record<string, any>;
+  fields: FieldInference[];
+  sampleCount: number;
+}
+
+interface Observation {
+  seen: number;
+  types: Record<string, number>;
+  strings: string[];
+  numbers: number[];
+  // A Map, so sample keys such as "constructor" never collide with Object.prototype
+  properties: Map<string, Observation>;
+  objects: number;
+  items?: Observation;
+  arrayLengths: number[];
+}
+
+const MAX_ENUM_VALUES = 6;
+const MIN_ENUM_OBSERVATIONS = 3;
+
+const FORMAT_DETECTORS: [string, RegExp][] = [
+  ['date-time', /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?([Zz]|[+-]\d{2}:?\d{2})?$/],
+  ['date', /^\d{4}-\d{2}-\d{2}$/],
+  ['email', /^[^\s@]+@[^\s@]+\.[^\s@]+$/],
+  ['uuid', /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/],
+  ['uri', /^[a-zA-Z][a-zA-Z0-9+.-]*:\/\/[^\s]+$/]
+];
+
+const emptyObservation = (): Observation => ({
+  seen: 0,
+  types: {},
+  strings: [],
+  numbers: [],
+  properties: new Map(),
+  objects: 0,
+  arrayLengths: []
+});
+
+const observe = (obs: Observation, value: unknown) => {
+  const type = typeOf(value);
+  obs.seen++;
+  obs.types[type] = (obs.types[type] || 0) + 1;
+
+  if (type === 'string') obs.strings.push(value as string);
+  if (type === 'integer' || type === 'number') obs.numbers.push(value as number);
+  if (type === 'array') {
+    const items = value as unknown[];
+    obs.arrayLengths.push(items.length);
+    if (!obs.items) obs.items = emptyObservation();
+    items.forEach(item => observe(obs.items!, item));
+  }
+  if (type === 'object') {
+    obs.objects++;
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      let property = obs.properties.get(key);
+      if (!property) obs.properties.set(key, property = emptyObservation());
+      observe(property, child);
+    }
+  }
+};
+
+const confidenceFor = (observations: number): InferenceConfidence =>
+  observations >= 5 ? 'high' : observations >= 2 ? 'medium' : 'low';
+
+const detectFormat = (values: string[]) => {
+  if (values.length === 0) return undefined;
+  return FORMAT_DETECTORS.find(([, pattern]) => values.every(v => pattern.test(v)))?.[0];
+};
+
+const buildSchema = (obs: Observation, path: string, fields: FieldInference[]): Record<string, any> => {
+  const notes: string[] = [];
+  const typeNames = Object.keys(obs.types);
+  // Integers observed alongside floats widen to number
+  const merged = typeNames.includes('number') ? typeNames.filter(t => t !== 'integer') : typeNames;
+
+  const variants = merged.map(type => {
+    switch (type) {
+      case 'string': {
+        const schema: Record<string, any> = { type: 'string' };
+        const format = detectFormat(obs.strings);
+        const distinct = Array.from(new Set(obs.strings));
+        if (format) {
+          schema.format = format;
+          notes.push(`format ${format} matched all ${obs.strings.length} value(s)`);
+        } else if (
+          obs.strings.length >= MIN_ENUM_OBSERVATIONS &&
+          distinct.length <= MAX_ENUM_VALUES &&
+          distinct.length < obs.strings.length
+        ) {
+          schema.enum = distinct.sort();
+          notes.push(`enum of ${distinct.length} repeated value(s) across ${obs.strings.length} observations`);
+        }
+        return schema;
+      }
+      case 'integer':
+      case 'number': {
+        const schema: Record<string, any> = { type };
+        if (obs.numbers.length > 1) {
+          schema.minimum = Math.min(...obs.numbers);
+          schema.maximum = Math.max(...obs.numbers);
+          notes.push(`range ${schema.minimum}..${schema.maximum} observed over ${obs.numbers.length} values`);
+        }
+        return schema;
+      }
+      case 'array': {
+        const schema: Record<string, any> = { type: 'array' };
+        if (obs.items && obs.items.seen > 0) {
+          schema.items = buildSchema(obs.items, `${path}[]`, fields);
+        } else {
+          notes.push('only empty arrays observed; item type unknown');
+        }
+        if (obs.arrayLengths.length > 1) {
+          const min = Math.min(...obs.arrayLengths);
+          if (min > 0) schema.minItems = min;
+        }
+        return schema;
+      }
+      case 'object': {
+        const required: string[] = [];
+        const properties: Record<string, any> = {};
+        for (const [key, child] of obs.properties) {
+          const childPath = path ? `${path}.${key}` : key;
+          properties[key] = buildSchema(child, childPath, fields);
+          if (child.seen === obs.objects) {
+            required.push(key);
+          } else {
+            fields.find(f => f.path === childPath)?.notes.unshift(`optional: present in ${child.seen}/${obs.objects} objects`);
+          }
+        }
+        return {
+          type: 'object',
+          properties,
+          ...(required.length > 0 ? { required } : {})
+        };
+      }
+      default:
+        return { type };
+    }
+  });
+
+  if (merged.length > 1) {
+    notes.push(`type union: ${merged.join(', ')}`);
+  }
+
+  if (path) {
+    const conflicted = merged.length > 1;
+    const confidence = confidenceFor(obs.seen);
+    fields.push({
+      path,
+      confidence: conflicted && confidence === 'high' ? 'medium' : confidence,
+      notes: [`seen ${obs.seen} time(s)`, ...notes]
+    });
+  }
+
+  if (variants.length === 0) return {};
+  if (variants.length === 1) return variants[0];
+  // Primitive-only unions collapse to a type array; structured ones need anyOf
+  if (variants.every(v => Object.keys(v).length === 1)) {
+    return { type: variants.map(v => v.type) };
+  }
+  return { anyOf: variants };
+};
+
+/**
+ * Infers a single Draft 7 schema from one or more JSON samples, merging them field by field.
+ */
+export const inferSchema = (samples: unknown[]): InferenceResult => {
+  const root = emptyObservation();
+  samples.forEach(sample => observe(root, sample));
+  const fields: FieldInference[] = [];
+  const schema = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    ...buildSchema(root, '', fields)
+  };
+  fields.sort((a, b) => a.path.localeCompare(b.path));
+  return { schema, fields, sampleCount: samples.length };
+};
+
+/**
+ * Parses raw sample texts; each may be a single document or NDJSON. Unparseable entries are reported.
+ */
+export const parseSamples = (texts: string[]): { samples: unknown[]; errors: string[] } => {
+  const samples: unknown[] = [];
+  const errors: string[] = [];
+  texts.filter(text => text.trim()).forEach((text, i) => {
+    try {
+      samples.push(JSON.parse(text));
+    } catch (e) {
+      const lines = text.split('\n').filter(line => line.trim());
+      try {
+        samples.push(...lines.map(line => JSON.parse(line)));
+      } catch (err: any) {
+        errors.push(`Sample ${i + 1}: ${err.message}`);
+      }
+    }
+  });
+  return { samples, errors };
+};
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_LINT_SETTINGS, applyAllFixes, lintSchema, resolveLintConfig } from './schemaLinter';
+
+const config = resolveLintConfig({ ...DEFAULT_LINT_SETTINGS, naming: 'camelCase' });
+
+describe('key-naming', () => {
+  const schema = { type: 'object', properties: { first_name: { type: 'string', description: 'First name' } }, required: ['first_name'] };
+
+  it('suggests the conventional name without an automatic fix', () => {
+    const finding = lintSchema(schema, undefined, config).find(f => f.rule === 'key-naming');
+    expect(finding?.message).toContain('"firstName"');
+    expect(finding?.fix).toBeUndefined();
+  });
+
+  it('leaves keys alone when fixing everything, so other artifacts stay in step', () => {
+    const fixed = applyAllFixes(schema, undefined, config, 'key-naming');
+    expect(Object.keys(fixed.properties)).toEqual(['first_name']);
+  });
+});
@@ -0,0 +1,415 @@
+import { FORMAT_PATTERNS, escapePointerToken, hasOwn, typeOf } from "./schemaValidator";
+import { inferSchema } from "./schemaInference";
+import { updateAt } from "./schemaTree";
+
+type JsonSchema = Record<string, any>;
+
+export type LintRuleId =
+  | 'key-naming' | 'missing-description' | 'missing-required' | 'permissive-additional-properties'
+  | 'untyped-array' | 'ambiguous-number' | 'free-form-date' | 'nesting-depth';
+
+export type LintSeverity = 'error' | 'warning' | 'info' | 'off';
+
+export type NamingConvention = 'camelCase' | 'snake_case' | 'kebab-case' | 'PascalCase';
+
+export type LintPresetId = 'google' | 'jsonapi' | 'house';
+
+export interface LintConfig {
+  severities: Record<LintRuleId, LintSeverity>;
+  naming: NamingConvention;
+  maxDepth: number;
+}
+
+export interface LintRule {
+  id: LintRuleId;
+  label: string;
+  description: string;
+}
+
+export interface LintPreset {
+  id: LintPresetId;
+  label: string;
+  description: string;
+  config: LintConfig;
+}
+
+// A preset plus the rules and options the user changed on top of it
+export interface LintSettings {
+  preset: LintPresetId;
+  overrides: Partial<Record<LintRuleId, LintSeverity>>;
+  naming?: NamingConvention;
+  maxDepth?: number;
+}
+
+export interface LintFix {
+  label: string;
+  apply: (schema: JsonSchema) => JsonSchema;
+}
+
+export interface LintFinding {
+  rule: LintRuleId;
+  severity: Exclude<LintSeverity, 'off'>;
+  // JSON Pointer of the offending schema node, and a readable path of the data it describes
+  pointer: string;
+  path: string;
+  message: string;
+  fix?: LintFix;
+}
+
+export const LINT_RULES: LintRule[] = [
+  { id: 'key-naming', label: 'Key naming', description: 'Property names follow the naming convention' },
+  { id: 'missing-description', label: 'Descriptions', description: 'Every property has a description' },
+  { id: 'missing-required', label: 'Required', description: 'Objects with properties list which are required' },
+  { id: 'permissive-additional-properties', label: 'Closed objects', description: 'Objects do not accept undeclared properties' },
+  { id: 'untyped-array', label: 'Typed arrays', description: 'Arrays declare the schema of their items' },
+  { id: 'ambiguous-number', label: 'Number types', description: 'Numbers are integer or number, not both or mixed with strings' },
+  { id: 'free-form-date', label: 'Date formats', description: 'Dates and times declare a date, time or date-time format' },
+  { id: 'nesting-depth', label: 'Nesting depth', description: 'Objects and arrays are not nested deeper than the limit' }
+];
+
+export const NAMING_CONVENTIONS: NamingConvention[] = ['camelCase', 'snake_case', 'kebab-case', 'PascalCase'];
+
+export const LINT_PRESETS: LintPreset[] = [
+  {
+    id: 'google',
+    label: 'Google JSON Style',
+    description: 'camelCase names and RFC 3339 dates, as in the Google JSON Style Guide',
+    config: {
+      naming: 'camelCase',
+      maxDepth: 5,
+      severities: {
+        'key-naming': 'error', 'missing-description': 'info', 'missing-required': 'warning', 'permissive-additional-properties': 'info',
+        'untyped-array': 'warning', 'ambiguous-number': 'warning', 'free-form-date': 'error', 'nesting-depth': 'warning'
+      }
+    }
+  },
+  {
+    id: 'jsonapi',
+    label: 'JSON:API',
+    description: 'camelCase member names; extension members such as meta and links stay open',
+    config: {
+      naming: 'camelCase',
+      maxDepth: 6,
+      severities: {
+        'key-naming': 'error', 'missing-description': 'info', 'missing-required': 'warning', 'permissive-additional-properties': 'off',
+        'untyped-array': 'warning', 'ambiguous-number': 'info', 'free-form-date': 'warning', 'nesting-depth': 'info'
+      }
+    }
+  },
+  {
+    id: 'house',
+    label: 'JSON.prompter',
+    description: 'Tuned for model output: strict structured output needs closed objects, and descriptions guide the model',
+    config: {
+      naming: 'camelCase',
+      maxDepth: 4,
+      severities: {
+        'key-naming': 'warning', 'missing-description': 'warning', 'missing-required': 'error', 'permissive-additional-properties': 'error',
+        'untyped-array': 'error', 'ambiguous-number': 'warning', 'free-form-date': 'warning', 'nesting-depth': 'warning'
+      }
+    }
+  }
+];
+
+const SETTINGS_KEY = 'json_prompter_lint_settings_v1';
+
+export const DEFAULT_LINT_SETTINGS: LintSettings = { preset: 'house', overrides: {} };
+
+export const loadLintSettings = (): LintSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return parsed && LINT_PRESETS.some(p => p.id === parsed.preset) ? { ...DEFAULT_LINT_SETTINGS, ...parsed } : DEFAULT_LINT_SETTINGS;
+  } catch (e) {
+    return DEFAULT_LINT_SETTINGS;
+  }
+};
+
+export const saveLintSettings = (settings: LintSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const resolveLintConfig = (settings: LintSettings): LintConfig => {
+  const preset = (LINT_PRESETS.find(p => p.id === settings.preset) || LINT_PRESETS[0]).config;
+  return {
+    naming: settings.naming || preset.naming,
+    maxDepth: settings.maxDepth || preset.maxDepth,
+    severities: { ...preset.severities, ...settings.overrides }
+  };
+};
+
+// --- Naming ---
+
+const NAMING_PATTERNS: Record<NamingConvention, RegExp> = {
+  camelCase: /^[a-z][a-zA-Z0-9]*$/,
+  snake_case: /^[a-z][a-z0-9]*(_[a-z0-9]+)*$/,
+  'kebab-case': /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/,
+  PascalCase: /^[A-Z][a-zA-Z0-9]*$/
+};
+
+const words = (name: string) =>
+  name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2').split(/[^A-Za-z0-9]+/).filter(Boolean).map(w => w.toLowerCase());
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+export const toConvention = (name: string, convention: NamingConvention) => {
+  const parts = words(name);
+  if (!parts.length) return name;
+  switch (convention) {
+    case 'snake_case': return parts.join('_');
+    case 'kebab-case': return parts.join('-');
+    case 'PascalCase': return parts.map(capitalize).join('');
+    case 'camelCase':
+    default: return parts[0] + parts.slice(1).map(capitalize).join('');
+  }
+};
+
+const humanize = (name: string) => capitalize(words(name).join(' '));
+
+// --- Traversal ---
+
+interface LintContext {
+  node: JsonSchema;
+  segments: string[];
+  path: string;
+  // Values from the example that this node describes
+  samples: unknown[];
+  depth: number;
+  name?: string;
+  inAllOf: boolean;
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const pointerOf = (segments: string[]) => (segments.length ? `/${segments.map(escapePointerToken).join('/')}` : '');
+
+const typesOf = (node: JsonSchema): string[] =>
+  Array.isArray(node.type) ? node.type : typeof node.type === 'string' ? [node.type] : node.properties ? ['object'] : node.items ? ['array'] : [];
+
+const childPath = (path: string, name: string) => (path ? `${path}.${name}` : name);
+
+const walk = (context: LintContext, visit: (context: LintContext) => void) => {
+  const { node, segments, path, samples, depth } = context;
+  if (!isObject(node)) return;
+  visit(context);
+  const objects = samples.filter(isObject);
+  const arrays = samples.filter(Array.isArray);
+
+  if (isObject(node.properties)) {
+    for (const [name, child] of Object.entries(node.properties)) {
+      walk({
+        node: child as JsonSchema, segments: [...segments, 'properties', name], path: childPath(path, name),
+        samples: objects.filter(s => name in s).map(s => s[name]), depth: depth + 1, name, inAllOf: false
+      }, visit);
+    }
+  }
+  if (isObject(node.additionalProperties)) {
+    const declared = Object.keys(node.properties || {});
+    walk({
+      node: node.additionalProperties, segments: [...segments, 'additionalProperties'], path: childPath(path, '*'),
+      samples: objects.flatMap(s => Object.entries(s).filter(([key]) => !declared.includes(key)).map(([, value]) => value)),
+      depth: depth + 1, inAllOf: false
+    }, visit);
+  }
+  const tuple = Array.isArray(node.prefixItems) ? { key: 'prefixItems', list: node.prefixItems } : Array.isArray(node.items) ? { key: 'items', list: node.items } : null;
+  tuple?.list.forEach((item: JsonSchema, i: number) => walk({
+    node: item, segments: [...segments, tuple.key, String(i)], path: `${path}[${i}]`,
+    samples: arrays.filter(a => i < a.length).map(a => a[i]), depth: depth + 1, inAllOf: false
+  }, visit));
+  if (isObject(node.items)) {
+    walk({
+      node: node.items, segments: [...segments, 'items'], path: `${path}[]`,
+      samples: arrays.flatMap(a => a.slice(tuple ? tuple.list.length : 0)), depth: depth + 1, inAllOf: false
+    }, visit);
+  }
+  for (const keyword of ['allOf', 'anyOf', 'oneOf']) {
+    if (!Array.isArray(node[keyword])) continue;
+    node[keyword].forEach((variant: JsonSchema, i: number) => walk({
+      node: variant, segments: [...segments, keyword, String(i)], path, samples, depth, name: context.name, inAllOf: keyword === 'allOf'
+    }, visit));
+  }
+  if (segments.length === 0) {
+    for (const keyword of ['$defs', 'definitions']) {
+      if (!isObject(node[keyword])) continue;
+      for (const [name, definition] of Object.entries(node[keyword])) {
+        walk({ node: definition as JsonSchema, segments: [keyword, name], path: `#${name}`, samples: [], depth: 1, name, inAllOf: false }, visit);
+      }
+    }
+  }
+};
+
+// --- Rules ---
+
+const DATE_NAME = /(^|[_-])(date|time|timestamp|at|on)$|(Date|Time|Timestamp|At|On)$|^(date|time|timestamp|created|updated|modified|deleted|expires|expiry|birthday|dob)$/;
+const LOOSE_DATE = /^\d{4}-\d{2}-\d{2}|^\d{1,2}:\d{2}/;
+
+const strictDateFormat = (samples: unknown[]) =>
+  (['date', 'date-time', 'time'] as const).find(format => samples.every(s => typeof s === 'string' && FORMAT_PATTERNS[format].test(s)));
+
+type RuleCheck = (context: LintContext, config: LintConfig, report: (finding: Omit<LintFinding, 'severity' | 'rule'>) => void) => void;
+
+const RULE_CHECKS: Record<LintRuleId, RuleCheck> = {
+  'key-naming': ({ node, segments, path }, config, report) => {
+    if (!isObject(node.properties)) return;
+    for (const name of Object.keys(node.properties)) {
+      // Keys such as "$id" or "@context" belong to a vocabulary, not to the naming convention
+      if (/^[$@]/.test(name) || NAMING_PATTERNS[config.naming].test(name)) continue;
+      // No automatic fix: the key is also used by the example, the TS interface and the prompt
+      const renamed = toConvention(name, config.naming);
+      const suggestion = renamed !== name && NAMING_PATTERNS[config.naming].test(renamed) && !hasOwn(node.properties, renamed)
+        ? `; rename it to "${renamed}" in every artifact`
+        : '';
+      report({
+        pointer: pointerOf([...segments, 'properties', name]),
+        path: childPath(path, name),
+        message: `"${name}" is not ${config.naming}${suggestion}`
+      });
+    }
+  },
+
+  'missing-description': ({ node, segments, path, name }, _config, report) => {
+    if (!name || segments[segments.length - 2] !== 'properties' || typeof node.description === 'string' || typeof node.$ref === 'string') return;
+    report({
+      pointer: pointerOf(segments),
+      path,
+      message: `"${name}" has no description, so neither readers nor the model know what it holds`,
+      fix: { label: 'Add description', apply: schema => updateAt(schema, segments, target => { target.description = humanize(name); }) }
+    });
+  },
+
+  'missing-required': ({ node, segments, path, samples }, _config, report) => {
+    const names = isObject(node.properties) ? Object.keys(node.properties) : [];
+    if (!names.length || Array.isArray(node.required)) return;
+    const objects = samples.filter(isObject);
+    // The example shows which properties are always present; without one every property is assumed required
+    const present = objects.length ? names.filter(n => objects.every(s => n in s)) : names;
+    report({
+      pointer: pointerOf(segments),
+      path: path || '(root)',
+      message: 'The object lists no required properties, so an empty object is valid',
+      fix: present.length ? {
+        label: present.length === names.length ? 'Require all properties' : `Require ${present.length} of ${names.length} properties`,
+        apply: schema => updateAt(schema, segments, target => { target.required = present; })
+      } : undefined
+    });
+  },
+
+  'permissive-additional-properties': ({ node, segments, path, inAllOf }, _config, report) => {
+    // Closing an object composed with allOf would reject the properties the other branches add
+    if (inAllOf || Array.isArray(node.allOf) || !isObject(node.properties) || !Object.keys(node.properties).length) return;
+    const open = (value: unknown) => value === undefined || value === true;
+    if (!open(node.additionalProperties) || !open(node.unevaluatedProperties)) return;
+    report({
+      pointer: pointerOf(segments),
+      path: path || '(root)',
+      message: 'Undeclared properties are accepted, so typos and invented keys pass validation',
+      fix: { label: 'Set additionalProperties: false', apply: schema => updateAt(schema, segments, target => { target.additionalProperties = false; }) }
+    });
+  },
+
+  'untyped-array': ({ node, segments, path, samples }, _config, report) => {
+    if (!typesOf(node).includes('array') || Array.isArray(node.prefixItems) || Array.isArray(node.items)) return;
+    if (isObject(node.items) && Object.keys(node.items).length > 0) return;
+    const elements = samples.filter(Array.isArray).flat();
+    const inferred = elements.length ? inferSchema(elements).schema : null;
+    if (inferred) delete inferred.$schema;
+    report({
+      pointer: pointerOf(segments),
+      path: path || '(root)',
+      message: 'The array does not declare its items, so any element is accepted',
+      fix: inferred ? { label: 'Infer items from the example', apply: schema => updateAt(schema, segments, target => { target.items = inferred; }) } : undefined
+    });
+  },
+
+  'ambiguous-number': ({ node, segments, path, samples }, _config, report) => {
+    const types = typesOf(node);
+    const numeric = types.filter(t => t === 'number' || t === 'integer');
+    if (!numeric.length) return;
+    const wholeNumbers = samples.length > 0 && samples.every(s => typeOf(s) === 'integer');
+    const retype = (to: 'number' | 'integer') => {
+      const next = types.filter(t => t === to || (t !== 'number' && t !== 'integer'));
+      if (!next.includes(to)) next.splice(types.findIndex(t => t === 'number' || t === 'integer'), 0, to);
+      return {
+        label: `Make ${to}`,
+        apply: (schema: JsonSchema) => updateAt(schema, segments, target => { target.type = next.length === 1 ? next[0] : next; })
+      };
+    };
+    if (types.includes('string')) {
+      report({ pointer: pointerOf(segments), path: path || '(root)', message: 'The value may be a number or a string; pick one representation' });
+    } else if (numeric.length === 2) {
+      report({
+        pointer: pointerOf(segments), path: path || '(root)', message: 'Both integer and number are allowed; number already includes integers',
+        fix: retype(wholeNumbers ? 'integer' : 'number')
+      });
+    } else if (numeric[0] === 'number' && wholeNumbers) {
+      report({
+        pointer: pointerOf(segments), path: path || '(root)', message: 'Declared as number, but every example value is a whole number',
+        fix: retype('integer')
+      });
+    }
+  },
+
+  'free-form-date': ({ node, segments, path, samples, name }, _config, report) => {
+    if (!typesOf(node).includes('string') || node.format || node.pattern || node.enum || node.const !== undefined) return;
+    const strings = samples.filter((s): s is string => typeof s === 'string');
+    const looksLikeDate = strings.length > 0 && strings.every(s => LOOSE_DATE.test(s));
+    if (!looksLikeDate && !(name && DATE_NAME.test(name))) return;
+    const format = strings.length ? strictDateFormat(strings) : undefined;
+    report({
+      pointer: pointerOf(segments),
+      path: path || '(root)',
+      message: format
+        ? `Holds ${format} values but is a free-form string`
+        : looksLikeDate
+          ? 'Holds dates that are not RFC 3339 (a date-time needs seconds and a timezone)'
+          : `"${name}" looks like a date or time but is a free-form string`,
+      fix: format ? { label: `Set format: ${format}`, apply: schema => updateAt(schema, segments, target => { target.format = format; }) } : undefined
+    });
+  },
+
+  'nesting-depth': ({ node, segments, path, depth }, config, report) => {
+    const container = typesOf(node).some(t => t === 'object' || t === 'array');
+    // Only the first level past the limit is reported, not every node below it
+    if (!container || depth !== config.maxDepth + 1) return;
+    report({
+      pointer: pointerOf(segments),
+      path,
+      message: `Nested ${depth} levels deep (limit ${config.maxDepth}); models drift on deep structures, consider flattening`
+    });
+  }
+};
+
+const SEVERITY_ORDER: Record<Exclude<LintSeverity, 'off'>, number> = { error: 0, warning: 1, info: 2 };
+
+/**
+ * Lints a schema, using the example to decide what the data actually looks like (whole numbers,
+ * dates, always-present keys). Fixes return a new schema and leave the argument untouched.
+ */
+export const lintSchema = (schema: JsonSchema | boolean, example: unknown, config: LintConfig): LintFinding[] => {
+  if (!isObject(schema)) return [];
+  const findings: LintFinding[] = [];
+  walk({ node: schema, segments: [], path: '', samples: example === undefined ? [] : [example], depth: 0, inAllOf: false }, context => {
+    for (const rule of LINT_RULES) {
+      const severity = config.severities[rule.id];
+      if (severity === 'off') continue;
+      RULE_CHECKS[rule.id](context, config, finding => findings.push({ ...finding, rule: rule.id, severity }));
+    }
+  });
+  return findings.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || a.pointer.localeCompare(b.pointer));
+};
+
+/**
+ * Applies fixes one at a time, re-linting in between because a rename moves the pointers of
+ * later findings. Each finding is attempted once, so a fix that does not clear it cannot loop.
+ */
+export const applyAllFixes = (schema: JsonSchema, example: unknown, config: LintConfig, rule?: LintRuleId): JsonSchema => {
+  const attempted = new Set<string>();
+  let current = schema;
+  for (;;) {
+    const finding = lintSchema(current, example, config).find(f => f.fix && (!rule || f.rule === rule) && !attempted.has(`${f.rule} ${f.pointer}`));
+    if (!finding) return current;
+    attempted.add(`${finding.rule} ${finding.pointer}`);
+    current = finding.fix!.apply(current);
+  }
+};
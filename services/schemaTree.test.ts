@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { buildSchemaTree, renameProperty } from './schemaTree';
+
+describe('renameProperty', () => {
+  const schema = { type: 'object', properties: { name: { type: 'string' }, id: { type: 'integer' } }, required: ['name'] };
+
+  it('renames to keys that exist on Object.prototype', () => {
+    const renamed = renameProperty(schema, [], 'name', 'constructor');
+    expect(Object.keys(renamed.properties)).toEqual(['constructor', 'id']);
+    expect(renamed.required).toEqual(['constructor']);
+    expect(Object.keys(renameProperty(schema, [], 'id', 'toString').properties)).toEqual(['name', 'toString']);
+  });
+
+  it('refuses to rename onto an existing property', () => {
+    expect(renameProperty(schema, [], 'name', 'id')).toEqual(schema);
+  });
+});
+
+describe('buildSchemaTree', () => {
+  it('expands a $ref whose pointer contains a stray "%"', () => {
+    const schema = { type: 'object', properties: { rate: { $ref: '#/definitions/50%' } }, definitions: { '50%': { type: 'number' } } };
+    expect(() => buildSchemaTree(schema)).not.toThrow();
+  });
+});
@@ -0,0 +1,192 @@
+import { escapePointerToken, hasOwn, unescapePointerToken } from "./schemaValidator";
+
+type JsonSchema = boolean | Record<string, any>;
+
+export type SchemaNodeType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export const SCHEMA_NODE_TYPES: SchemaNodeType[] = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+export interface SchemaTreeNode {
+  // JSON Pointer of the node inside the schema document
+  id: string;
+  name: string;
+  kind: 'root' | 'property' | 'items' | 'variant';
+  // Segments of the schema node, and for properties of the object schema that declares them
+  pointer: string[];
+  owner?: string[];
+  types: string[];
+  required: boolean;
+  format?: string;
+  constraints: string[];
+  description?: string;
+  ref?: string;
+  // The node refers back to one of its ancestors, so it is not expanded again
+  recursive?: boolean;
+  children: SchemaTreeNode[];
+}
+
+const CONSTRAINT_KEYWORDS = [
+  'minLength', 'maxLength', 'pattern', 'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf',
+  'minItems', 'maxItems', 'uniqueItems', 'minProperties', 'maxProperties', 'additionalProperties', 'default'
+];
+
+// Keywords that only make sense for one type; they are dropped when a property changes type
+const TYPE_KEYWORDS: Record<string, string[]> = {
+  string: ['minLength', 'maxLength', 'pattern', 'format', 'contentEncoding', 'contentMediaType'],
+  number: ['minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf'],
+  integer: ['minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf'],
+  object: ['properties', 'required', 'additionalProperties', 'patternProperties', 'minProperties', 'maxProperties', 'propertyNames'],
+  array: ['items', 'prefixItems', 'additionalItems', 'minItems', 'maxItems', 'uniqueItems', 'contains']
+};
+
+const pointerOf = (segments: string[]) => (segments.length ? `/${segments.map(escapePointerToken).join('/')}` : '');
+
+const refSegments = (ref: string) => ref.replace(/^#\/?/, '').split('/').filter(Boolean).map(unescapePointerToken);
+
+export const getAtPointer = (schema: JsonSchema, segments: string[]): JsonSchema | undefined =>
+  segments.reduce<any>((node, segment) => (node && typeof node === 'object' ? node[segment] : undefined), schema);
+
+const describeConstraint = (keyword: string, value: unknown) => {
+  if (keyword === 'additionalProperties') return value === false ? 'closed' : typeof value === 'object' ? 'additionalProperties: schema' : '';
+  if (keyword === 'uniqueItems') return value ? 'unique' : '';
+  return `${keyword}: ${typeof value === 'string' ? value : JSON.stringify(value)}`;
+};
+
+/**
+ * Builds a display tree from a schema. `$ref` targets are expanded in place (edits then apply to
+ * the definition), except where a reference would repeat one of its ancestors.
+ */
+export const buildSchemaTree = (schema: JsonSchema, rootName = 'Root'): SchemaTreeNode => {
+  const root = typeof schema === 'object' ? schema : {};
+
+  const build = (
+    node: JsonSchema,
+    pointer: string[],
+    meta: Pick<SchemaTreeNode, 'name' | 'kind' | 'owner' | 'required'>,
+    refs: string[]
+  ): SchemaTreeNode => {
+    const tree: SchemaTreeNode = { id: pointerOf(pointer), pointer, types: [], constraints: [], children: [], ...meta };
+    if (typeof node !== 'object') {
+      tree.types = [node ? 'any' : 'never'];
+      return tree;
+    }
+
+    let target: Record<string, any> = node;
+    let targetPointer = pointer;
+    if (typeof node.$ref === 'string') {
+      tree.ref = node.$ref;
+      if (refs.includes(node.$ref)) {
+        tree.recursive = true;
+        tree.types = [`→ ${node.$ref.split('/').pop() || 'root'}`];
+        tree.description = node.description;
+        return tree;
+      }
+      const resolved = getAtPointer(root, refSegments(node.$ref));
+      if (!resolved || typeof resolved !== 'object') {
+        tree.types = ['unresolved $ref'];
+        return tree;
+      }
+      target = { ...resolved, ...node, $ref: undefined };
+      targetPointer = refSegments(node.$ref);
+      refs = [...refs, node.$ref];
+    }
+
+    tree.types = Array.isArray(target.type) ? target.type : target.type ? [target.type]
+      : target.enum ? ['enum'] : 'const' in target ? ['const'] : target.properties ? ['object'] : target.items ? ['array'] : [];
+    if (target.enum) tree.constraints.push(`enum: ${target.enum.map((v: unknown) => JSON.stringify(v)).join(' | ')}`);
+    if ('const' in target) tree.constraints.push(`const: ${JSON.stringify(target.const)}`);
+    CONSTRAINT_KEYWORDS.forEach(keyword => {
+      if (keyword in target && target[keyword] !== undefined) {
+        const text = describeConstraint(keyword, target[keyword]);
+        if (text) tree.constraints.push(text);
+      }
+    });
+    tree.format = typeof target.format === 'string' ? target.format : undefined;
+    tree.description = typeof target.description === 'string' ? target.description : undefined;
+
+    if (target.properties && typeof target.properties === 'object') {
+      const required: string[] = Array.isArray(target.required) ? target.required : [];
+      Object.entries<JsonSchema>(target.properties).forEach(([key, child]) => {
+        tree.children.push(build(child, [...targetPointer, 'properties', key], { name: key, kind: 'property', owner: targetPointer, required: required.includes(key) }, refs));
+      });
+    }
+    if (target.items && typeof target.items === 'object' && !Array.isArray(target.items)) {
+      tree.children.push(build(target.items, [...targetPointer, 'items'], { name: '[ ]', kind: 'items', required: true }, refs));
+    }
+    (['allOf', 'anyOf', 'oneOf'] as const).forEach(combinator => {
+      if (!Array.isArray(target[combinator])) return;
+      if (tree.types.length === 0) tree.types = [combinator];
+      target[combinator].forEach((branch: JsonSchema, i: number) => {
+        tree.children.push(build(branch, [...targetPointer, combinator, String(i)], { name: `${combinator}[${i}]`, kind: 'variant', required: true }, refs));
+      });
+    });
+    if (tree.types.length === 0) tree.types = ['any'];
+    return tree;
+  };
+
+  return build(schema, [], { name: rootName, kind: 'root', required: true }, ['#']);
+};
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export const updateAt = (schema: Record<string, any>, segments: string[], update: (node: Record<string, any>) => void) => {
+  const next = clone(schema);
+  const node = segments.length ? getAtPointer(next, segments) : next;
+  if (node && typeof node === 'object') update(node as Record<string, any>);
+  return next;
+};
+
+export const addProperty = (schema: Record<string, any>, owner: string[], name: string, type: SchemaNodeType) =>
+  updateAt(schema, owner, node => {
+    if (!node.type && !node.$ref) node.type = 'object';
+    node.properties = { ...(node.properties || {}), [name]: defaultSchemaFor(type) };
+  });
+
+// Rebuilds `properties` so the renamed key keeps its position
+export const renameProperty = (schema: Record<string, any>, owner: string[], from: string, to: string) =>
+  updateAt(schema, owner, node => {
+    if (!node.properties || !hasOwn(node.properties, from) || hasOwn(node.properties, to)) return;
+    node.properties = Object.fromEntries(Object.entries(node.properties).map(([key, value]) => [key === from ? to : key, value]));
+    if (Array.isArray(node.required)) node.required = node.required.map((key: string) => (key === from ? to : key));
+  });
+
+export const deleteProperty = (schema: Record<string, any>, owner: string[], name: string) =>
+  updateAt(schema, owner, node => {
+    if (!node.properties) return;
+    delete node.properties[name];
+    if (Array.isArray(node.required)) {
+      node.required = node.required.filter((key: string) => key !== name);
+      if (node.required.length === 0) delete node.required;
+    }
+  });
+
+export const setPropertyRequired = (schema: Record<string, any>, owner: string[], name: string, required: boolean) =>
+  updateAt(schema, owner, node => {
+    const list: string[] = Array.isArray(node.required) ? node.required.filter((key: string) => key !== name) : [];
+    if (required) list.push(name);
+    if (list.length) node.required = list;
+    else delete node.required;
+  });
+
+const defaultSchemaFor = (type: SchemaNodeType): Record<string, any> =>
+  type === 'object' ? { type, properties: {} } : type === 'array' ? { type, items: { type: 'string' } } : { type };
+
+/**
+ * Changes a node's type, keeping its documentation and dropping keywords that belonged to the
+ * old type. A `$ref` is replaced rather than followed, so the shared definition is untouched.
+ */
+export const retypeNode = (schema: Record<string, any>, pointer: string[], type: SchemaNodeType) => {
+  if (pointer.length === 0) {
+    const { title, description, $schema, $id, $defs, definitions } = schema;
+    return { ...clone({ $schema, $id, title, description, $defs, definitions }), ...defaultSchemaFor(type) };
+  }
+  return updateAt(schema, pointer.slice(0, -1), parent => {
+    const key = pointer[pointer.length - 1];
+    const current = parent[key] && typeof parent[key] === 'object' ? parent[key] : {};
+    const kept = Object.fromEntries(Object.entries(current).filter(([keyword]) =>
+      !['type', '$ref', 'enum', 'const', 'allOf', 'anyOf', 'oneOf'].includes(keyword) &&
+      !Object.entries(TYPE_KEYWORDS).some(([owner, keywords]) => owner !== type && keywords.includes(keyword) && !(TYPE_KEYWORDS[type] || []).includes(keyword))
+    ));
+    parent[key] = { ...defaultSchemaFor(type), ...kept, type };
+  });
+};
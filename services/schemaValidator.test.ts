@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { resolveRef, unescapePointerToken, validateJson } from './schemaValidator';
+
+describe('unescapePointerToken', () => {
+  it('decodes percent-encoding and pointer escapes', () => {
+    expect(unescapePointerToken('a%20b~1c~0d')).toBe('a b/c~d');
+  });
+
+  it('keeps a stray "%" instead of throwing', () => {
+    expect(unescapePointerToken('a%')).toBe('a%');
+  });
+});
+
+describe('resolveRef', () => {
+  it('resolves a definition whose name contains "%"', () => {
+    const schema = { definitions: { 'a%': { type: 'string' } } };
+    expect(resolveRef(schema, '#/definitions/a%')).toEqual({ type: 'string' });
+  });
+
+  it('does not resolve inherited members', () => {
+    expect(resolveRef({ definitions: {} }, '#/definitions/constructor')).toBeUndefined();
+  });
+});
+
+describe('validateJson', () => {
+  it('reports instead of crashing on a $ref containing "%"', () => {
+    const schema = { type: 'object', properties: { name: { $ref: '#/definitions/a%' } }, definitions: { 'a%': { type: 'string' } } };
+    expect(validateJson(schema, { name: 'x' }).valid).toBe(true);
+    expect(validateJson(schema, { name: 1 }).valid).toBe(false);
+  });
+
+  it('rejects an own "constructor" key under additionalProperties: false', () => {
+    const report = validateJson({ type: 'object', properties: {}, additionalProperties: false }, JSON.parse('{"constructor":5}'));
+    expect(report.valid).toBe(false);
+    expect(report.errors[0].keyword).toBe('additionalProperties');
+  });
+
+  it('does not treat inherited members as present required properties', () => {
+    const report = validateJson({ type: 'object', required: ['toString'] }, {});
+    expect(report.valid).toBe(false);
+    expect(report.errors[0].keyword).toBe('required');
+  });
+
+  it('only applies dependentRequired for own properties', () => {
+    expect(validateJson({ dependentRequired: { constructor: ['id'] } }, {}).valid).toBe(true);
+  });
+});
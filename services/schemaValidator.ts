@@ -0,0 +1,469 @@
+export type SchemaDraft = 'draft-07' | '2019-09' | '2020-12';
+
+export interface ValidationError {
+  // JSON Pointer into the validated instance ('' is the document root)
+  instancePath: string;
+  // JSON Pointer into the schema, pointing at the failing keyword
+  schemaPath: string;
+  keyword: string;
+  expected: unknown;
+  actual: unknown;
+  message: string;
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  draft: SchemaDraft;
+  errors: ValidationError[];
+}
+
+export type JsonSchema = boolean | Record<string, any>;
+
+interface Context {
+  root: Record<string, any>;
+  draft: SchemaDraft;
+  errors: ValidationError[];
+  depth: number;
+}
+
+const MAX_REF_DEPTH = 64;
+
+export const FORMAT_PATTERNS: Record<string, RegExp> = {
+  'date-time': /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  time: /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})?$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-zA-Z][a-zA-Z0-9+.-]*:[^\s]*$/,
+  'uri-reference': /^[^\s]*$/,
+  uuid: /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/,
+  ipv4: /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/,
+  ipv6: /^(([0-9a-fA-F]{1,4}:){7}[0-9a-fA-F]{1,4}|(([0-9a-fA-F]{1,4}:){0,7}[0-9a-fA-F]{0,4})?::(([0-9a-fA-F]{1,4}:){0,7}[0-9a-fA-F]{0,4})?)$/,
+  hostname: /^(?=.{1,253}$)[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/
+};
+
+export const escapePointerToken = (token: string | number) =>
+  String(token).replace(/~/g, '~0').replace(/\//g, '~1');
+
+// A "%" that is not part of an escape sequence is kept as is instead of failing the whole lookup
+export const unescapePointerToken = (token: string) => {
+  let decoded = token;
+  try {
+    decoded = decodeURIComponent(token);
+  } catch (e) {
+    // Not percent-encoded
+  }
+  return decoded.replace(/~1/g, '/').replace(/~0/g, '~');
+};
+
+// Own-key test for data keys; `in` would also match inherited members such as "constructor" or "toString"
+export const hasOwn = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+export const detectDraft = (schema: JsonSchema): SchemaDraft => {
+  const uri = typeof schema === 'object' ? String(schema.$schema || '') : '';
+  if (uri.includes('2020-12')) return '2020-12';
+  if (uri.includes('2019-09')) return '2019-09';
+  return 'draft-07';
+};
+
+export const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string) => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+export const deepEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== typeof b || a === null || b === null || typeof a !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return a.length === other.length && a.every((item, i) => deepEqual(item, other[i]));
+  }
+  const aKeys = Object.keys(a as object);
+  const bKeys = Object.keys(b as object);
+  return aKeys.length === bKeys.length &&
+    aKeys.every(key => deepEqual((a as any)[key], (b as any)[key]));
+};
+
+const preview = (value: unknown) => {
+  const text = JSON.stringify(value);
+  return text && text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+/**
+ * Resolves a local `$ref` ("#", "#/definitions/x", "#/$defs/x" or an anchor) against the root schema.
+ */
+export const resolveRef = (root: Record<string, any>, ref: string): JsonSchema | undefined => {
+  if (!ref.startsWith('#')) return undefined;
+  const fragment = ref.slice(1);
+  if (fragment && !fragment.startsWith('/')) {
+    return findAnchor(root, fragment);
+  }
+  let node: any = root;
+  for (const token of fragment.split('/').slice(1)) {
+    if (node === undefined || node === null) return undefined;
+    const key = unescapePointerToken(token);
+    node = typeof node === 'object' && hasOwn(node, key) ? node[key] : undefined;
+  }
+  return node;
+};
+
+const findAnchor = (node: any, anchor: string): JsonSchema | undefined => {
+  if (!node || typeof node !== 'object') return undefined;
+  if (node.$anchor === anchor || node.$id === `#${anchor}`) return node;
+  for (const child of Object.values(node)) {
+    const found = findAnchor(child, anchor);
+    if (found !== undefined) return found;
+  }
+  return undefined;
+};
+
+const validateNode = (
+  schema: JsonSchema,
+  value: unknown,
+  instancePath: string,
+  schemaPath: string,
+  ctx: Context
+): boolean => {
+  const startCount = ctx.errors.length;
+  const fail = (keyword: string, expected: unknown, actual: unknown, message: string, path = instancePath) => {
+    ctx.errors.push({ instancePath: path, schemaPath: `${schemaPath}/${keyword}`, keyword, expected, actual, message });
+  };
+
+  if (schema === true) return true;
+  if (schema === false) {
+    fail('false', 'nothing', preview(value), 'No value is allowed here');
+    return false;
+  }
+  if (!schema || typeof schema !== 'object') return true;
+
+  // Draft 7 ignores siblings of $ref; 2019-09 and later evaluate them alongside
+  if (typeof schema.$ref === 'string') {
+    const target = resolveRef(ctx.root, schema.$ref);
+    if (target === undefined) {
+      fail('$ref', schema.$ref, 'unresolved', `Cannot resolve reference ${schema.$ref}`);
+    } else if (ctx.depth < MAX_REF_DEPTH) {
+      ctx.depth++;
+      validateNode(target, value, instancePath, `${schemaPath}/$ref`, ctx);
+      ctx.depth--;
+    }
+    if (ctx.draft === 'draft-07') return ctx.errors.length === startCount;
+  }
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(t => matchesType(value, t))) {
+      fail('type', types.join(' | '), typeOf(value), `Expected ${types.join(' or ')} but found ${typeOf(value)}`);
+      return false;
+    }
+  }
+
+  if (schema.enum !== undefined && Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => deepEqual(option, value))) {
+    fail('enum', schema.enum, value, `Value ${preview(value)} is not one of ${preview(schema.enum)}`);
+  }
+  if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+    fail('const', schema.const, value, `Value must equal ${preview(schema.const)}`);
+  }
+
+  if (typeof value === 'number') validateNumber(schema, value, fail);
+  if (typeof value === 'string') validateString(schema, value, fail);
+  if (Array.isArray(value)) validateArray(schema, value, instancePath, schemaPath, ctx, fail);
+  else if (value && typeof value === 'object') validateObject(schema, value as Record<string, unknown>, instancePath, schemaPath, ctx, fail);
+
+  validateCombinators(schema, value, instancePath, schemaPath, ctx, fail);
+
+  return ctx.errors.length === startCount;
+};
+
+type Fail = (keyword: string, expected: unknown, actual: unknown, message: string, path?: string) => void;
+
+const validateNumber = (schema: Record<string, any>, value: number, fail: Fail) => {
+  if (typeof schema.minimum === 'number') {
+    const exclusive = schema.exclusiveMinimum === true;
+    if (exclusive ? value <= schema.minimum : value < schema.minimum) {
+      fail('minimum', `${exclusive ? '>' : '>='} ${schema.minimum}`, value, `Must be ${exclusive ? 'greater than' : 'at least'} ${schema.minimum}`);
+    }
+  }
+  if (typeof schema.maximum === 'number') {
+    const exclusive = schema.exclusiveMaximum === true;
+    if (exclusive ? value >= schema.maximum : value > schema.maximum) {
+      fail('maximum', `${exclusive ? '<' : '<='} ${schema.maximum}`, value, `Must be ${exclusive ? 'less than' : 'at most'} ${schema.maximum}`);
+    }
+  }
+  if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+    fail('exclusiveMinimum', `> ${schema.exclusiveMinimum}`, value, `Must be greater than ${schema.exclusiveMinimum}`);
+  }
+  if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+    fail('exclusiveMaximum', `< ${schema.exclusiveMaximum}`, value, `Must be less than ${schema.exclusiveMaximum}`);
+  }
+  if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) {
+    const quotient = value / schema.multipleOf;
+    if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+      fail('multipleOf', `multiple of ${schema.multipleOf}`, value, `Must be a multiple of ${schema.multipleOf}`);
+    }
+  }
+};
+
+const validateString = (schema: Record<string, any>, value: string, fail: Fail) => {
+  const length = Array.from(value).length;
+  if (typeof schema.minLength === 'number' && length < schema.minLength) {
+    fail('minLength', `length >= ${schema.minLength}`, length, `Must be at least ${schema.minLength} characters`);
+  }
+  if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+    fail('maxLength', `length <= ${schema.maxLength}`, length, `Must be at most ${schema.maxLength} characters`);
+  }
+  if (typeof schema.pattern === 'string') {
+    try {
+      if (!new RegExp(schema.pattern, 'u').test(value)) {
+        fail('pattern', schema.pattern, value, `Does not match pattern ${schema.pattern}`);
+      }
+    } catch (e) {
+      // Patterns outside the ECMAScript dialect are skipped rather than guessed at
+    }
+  }
+  if (typeof schema.format === 'string' && FORMAT_PATTERNS[schema.format] && !FORMAT_PATTERNS[schema.format].test(value)) {
+    fail('format', schema.format, value, `Is not a valid ${schema.format}`);
+  }
+};
+
+const validateArray = (
+  schema: Record<string, any>,
+  value: unknown[],
+  instancePath: string,
+  schemaPath: string,
+  ctx: Context,
+  fail: Fail
+) => {
+  if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+    fail('minItems', `>= ${schema.minItems} items`, value.length, `Must contain at least ${schema.minItems} items`);
+  }
+  if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+    fail('maxItems', `<= ${schema.maxItems} items`, value.length, `Must contain at most ${schema.maxItems} items`);
+  }
+  if (schema.uniqueItems === true) {
+    for (let i = 0; i < value.length; i++) {
+      for (let j = i + 1; j < value.length; j++) {
+        if (deepEqual(value[i], value[j])) {
+          fail('uniqueItems', 'unique items', preview(value[j]), `Items ${i} and ${j} are identical`, `${instancePath}/${j}`);
+          i = value.length;
+          break;
+        }
+      }
+    }
+  }
+
+  // Tuple validation moved from array-form `items` to `prefixItems` in 2020-12
+  const tuple: JsonSchema[] | undefined = Array.isArray(schema.prefixItems)
+    ? schema.prefixItems
+    : Array.isArray(schema.items) ? schema.items : undefined;
+  const tupleKeyword = Array.isArray(schema.prefixItems) ? 'prefixItems' : 'items';
+  const restSchema: JsonSchema | undefined = tuple
+    ? (Array.isArray(schema.prefixItems) ? schema.items : schema.additionalItems)
+    : schema.items;
+  const restKeyword = tuple ? (Array.isArray(schema.prefixItems) ? 'items' : 'additionalItems') : 'items';
+
+  value.forEach((item, index) => {
+    const itemPath = `${instancePath}/${index}`;
+    if (tuple && index < tuple.length) {
+      validateNode(tuple[index], item, itemPath, `${schemaPath}/${tupleKeyword}/${index}`, ctx);
+    } else if (restSchema !== undefined) {
+      validateNode(restSchema, item, itemPath, `${schemaPath}/${restKeyword}`, ctx);
+    }
+  });
+
+  if (schema.contains !== undefined) {
+    const matches = value.filter(item => {
+      const scratch: Context = { ...ctx, errors: [] };
+      return validateNode(schema.contains, item, instancePath, `${schemaPath}/contains`, scratch);
+    }).length;
+    const min = typeof schema.minContains === 'number' ? schema.minContains : 1;
+    if (matches < min) {
+      fail('contains', `>= ${min} matching items`, matches, `Must contain at least ${min} item(s) matching the contains schema`);
+    }
+    if (typeof schema.maxContains === 'number' && matches > schema.maxContains) {
+      fail('maxContains', `<= ${schema.maxContains} matching items`, matches, `Must contain at most ${schema.maxContains} matching item(s)`);
+    }
+  }
+};
+
+const validateObject = (
+  schema: Record<string, any>,
+  value: Record<string, unknown>,
+  instancePath: string,
+  schemaPath: string,
+  ctx: Context,
+  fail: Fail
+) => {
+  const keys = Object.keys(value);
+
+  if (Array.isArray(schema.required)) {
+    for (const key of schema.required) {
+      if (!hasOwn(value, key)) {
+        fail('required', key, 'missing', `Missing required property "${key}"`);
+      }
+    }
+  }
+  if (typeof schema.minProperties === 'number' && keys.length < schema.minProperties) {
+    fail('minProperties', `>= ${schema.minProperties} properties`, keys.length, `Must have at least ${schema.minProperties} properties`);
+  }
+  if (typeof schema.maxProperties === 'number' && keys.length > schema.maxProperties) {
+    fail('maxProperties', `<= ${schema.maxProperties} properties`, keys.length, `Must have at most ${schema.maxProperties} properties`);
+  }
+
+  const properties: Record<string, JsonSchema> = schema.properties || {};
+  const patterns: Record<string, JsonSchema> = schema.patternProperties || {};
+
+  for (const key of keys) {
+    const propPath = `${instancePath}/${escapePointerToken(key)}`;
+    let evaluated = false;
+
+    if (hasOwn(properties, key)) {
+      evaluated = true;
+      validateNode(properties[key], value[key], propPath, `${schemaPath}/properties/${escapePointerToken(key)}`, ctx);
+    }
+    for (const [pattern, patternSchema] of Object.entries(patterns)) {
+      try {
+        if (new RegExp(pattern, 'u').test(key)) {
+          evaluated = true;
+          validateNode(patternSchema, value[key], propPath, `${schemaPath}/patternProperties/${escapePointerToken(pattern)}`, ctx);
+        }
+      } catch (e) {
+        // Unsupported pattern dialect
+      }
+    }
+    if (!evaluated && schema.additionalProperties !== undefined) {
+      if (schema.additionalProperties === false) {
+        fail('additionalProperties', 'no additional properties', key, `Property "${key}" is not allowed`, propPath);
+      } else {
+        validateNode(schema.additionalProperties, value[key], propPath, `${schemaPath}/additionalProperties`, ctx);
+      }
+    }
+    if (schema.propertyNames !== undefined) {
+      validateNode(schema.propertyNames, key, propPath, `${schemaPath}/propertyNames`, ctx);
+    }
+  }
+
+  // Draft 7 `dependencies` was split into dependentRequired / dependentSchemas in 2019-09
+  const dependentRequired: Record<string, string[]> = { ...(schema.dependentRequired || {}) };
+  const dependentSchemas: Record<string, JsonSchema> = { ...(schema.dependentSchemas || {}) };
+  for (const [key, dep] of Object.entries<any>(schema.dependencies || {})) {
+    if (Array.isArray(dep)) dependentRequired[key] = dep;
+    else dependentSchemas[key] = dep;
+  }
+  for (const [key, deps] of Object.entries(dependentRequired)) {
+    if (!hasOwn(value, key)) continue;
+    for (const dep of deps) {
+      if (!hasOwn(value, dep)) {
+        fail('dependentRequired', dep, 'missing', `Property "${dep}" is required when "${key}" is present`);
+      }
+    }
+  }
+  for (const [key, depSchema] of Object.entries(dependentSchemas)) {
+    if (hasOwn(value, key)) {
+      validateNode(depSchema, value, instancePath, `${schemaPath}/dependentSchemas/${escapePointerToken(key)}`, ctx);
+    }
+  }
+};
+
+const validateCombinators = (
+  schema: Record<string, any>,
+  value: unknown,
+  instancePath: string,
+  schemaPath: string,
+  ctx: Context,
+  fail: Fail
+) => {
+  const trial = (sub: JsonSchema, path: string) => {
+    const scratch: Context = { ...ctx, errors: [] };
+    return { ok: validateNode(sub, value, instancePath, path, scratch), errors: scratch.errors };
+  };
+
+  if (Array.isArray(schema.allOf)) {
+    schema.allOf.forEach((sub: JsonSchema, i: number) => validateNode(sub, value, instancePath, `${schemaPath}/allOf/${i}`, ctx));
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const trials = schema.anyOf.map((sub: JsonSchema, i: number) => trial(sub, `${schemaPath}/anyOf/${i}`));
+    if (!trials.some((t: { ok: boolean }) => t.ok)) {
+      fail('anyOf', `match any of ${schema.anyOf.length} schemas`, 'none matched', 'Does not match any allowed schema');
+    }
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const passing = schema.oneOf.filter((sub: JsonSchema, i: number) => trial(sub, `${schemaPath}/oneOf/${i}`).ok).length;
+    if (passing !== 1) {
+      fail('oneOf', 'exactly 1 matching schema', `${passing} matched`, `Must match exactly one schema, matched ${passing}`);
+    }
+  }
+  if (schema.not !== undefined && trial(schema.not, `${schemaPath}/not`).ok) {
+    fail('not', 'not matching', preview(value), 'Must not match the "not" schema');
+  }
+  if (schema.if !== undefined) {
+    const branch = trial(schema.if, `${schemaPath}/if`).ok ? 'then' : 'else';
+    if (schema[branch] !== undefined) {
+      validateNode(schema[branch], value, instancePath, `${schemaPath}/${branch}`, ctx);
+    }
+  }
+};
+
+/**
+ * Validates an instance against a JSON Schema (Draft 7, 2019-09 or 2020-12) entirely in the browser.
+ * Only local `$ref`s are resolved; `unevaluated*` keywords are not evaluated.
+ */
+export const validateJson = (schema: JsonSchema, instance: unknown): ValidationReport => {
+  const root = typeof schema === 'object' && schema !== null ? schema : {};
+  const ctx: Context = { root, draft: detectDraft(schema), errors: [], depth: 0 };
+  validateNode(schema, instance, '', '#', ctx);
+  return { valid: ctx.errors.length === 0, draft: ctx.draft, errors: ctx.errors };
+};
+
+/**
+ * Parses both documents and validates. Parse failures are reported as errors on the root.
+ */
+export const validateJsonText = (schemaText: string, instanceText: string): ValidationReport => {
+  let schema: JsonSchema;
+  try {
+    schema = JSON.parse(schemaText);
+  } catch (e: any) {
+    return { valid: false, draft: 'draft-07', errors: [{ instancePath: '', schemaPath: '#', keyword: 'parse', expected: 'valid JSON Schema', actual: e.message, message: `Schema is not valid JSON: ${e.message}` }] };
+  }
+  let instance: unknown;
+  try {
+    instance = JSON.parse(instanceText);
+  } catch (e: any) {
+    return { valid: false, draft: detectDraft(schema), errors: [{ instancePath: '', schemaPath: '#', keyword: 'parse', expected: 'valid JSON', actual: e.message, message: `Example is not valid JSON: ${e.message}` }] };
+  }
+  return validateJson(schema, instance);
+};
+
+/**
+ * Pretty-prints JSON exactly like `JSON.stringify(value, null, 2)` while recording the line of every pointer.
+ */
+export const prettyPrintWithPointers = (value: unknown): { text: string; lines: Map<string, number> } => {
+  const out: string[] = [];
+  const lines = new Map<string, number>();
+
+  const write = (node: unknown, pointer: string, indent: string, prefix: string, suffix: string) => {
+    lines.set(pointer, out.length);
+    if (Array.isArray(node) && node.length > 0) {
+      out.push(`${indent}${prefix}[`);
+      node.forEach((item, i) => write(item, `${pointer}/${i}`, `${indent}  `, '', i < node.length - 1 ? ',' : ''));
+      out.push(`${indent}]${suffix}`);
+    } else if (node && typeof node === 'object' && !Array.isArray(node) && Object.keys(node).length > 0) {
+      const entries = Object.entries(node as Record<string, unknown>);
+      out.push(`${indent}${prefix}{`);
+      entries.forEach(([key, child], i) =>
+        write(child, `${pointer}/${escapePointerToken(key)}`, `${indent}  `, `${JSON.stringify(key)}: `, i < entries.length - 1 ? ',' : ''));
+      out.push(`${indent}}${suffix}`);
+    } else {
+      out.push(`${indent}${prefix}${JSON.stringify(node)}${suffix}`);
+    }
+  };
+
+  write(value, '', '', '', '');
+  return { text: out.join('\n'), lines };
+};
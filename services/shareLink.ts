@@ -0,0 +1,142 @@
+import { GroundingEvidence, SearchResult, Source } from "../types";
+import { checkConsistency } from "./consistencyChecker";
+import { projectSlug } from "./projectScaffold";
+
+export const SHARE_FILE_FORMAT = 'promptforge-share';
+export const SHARE_FILE_EXTENSION = '.promptforge.json';
+
+// Chat clients, mail gateways and proxies start truncating URLs well before browsers do
+export const MAX_SHARE_URL_LENGTH = 8000;
+
+const SHARE_PARAM = 'share';
+const SHARE_VERSION = 1;
+
+export interface ShareFile {
+  format: typeof SHARE_FILE_FORMAT;
+  version: number;
+  sharedAt: number;
+  result: SearchResult;
+}
+
+export type ShareTarget =
+  | { kind: 'link'; url: string }
+  | { kind: 'file'; fileName: string; content: string; urlLength: number };
+
+const compress = async (text: string) => {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const decompress = async (bytes: Uint8Array) => {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+const isWebUrl = (uri: unknown): uri is string => {
+  try {
+    return typeof uri === 'string' && ['http:', 'https:'].includes(new URL(uri).protocol);
+  } catch (e) {
+    return false;
+  }
+};
+
+/**
+ * Rebuilds a result from untrusted shared data: only known fields of the right type are kept,
+ * sources must be http(s) links and the consistency report is recomputed locally. Usage is
+ * dropped because it was the sender's spend.
+ */
+export const toSharedResult = (value: unknown): SearchResult => {
+  if (!isObject(value) || typeof value.title !== 'string' || typeof value.jsonPrompt !== 'string' || typeof value.exampleJson !== 'string') {
+    throw new Error('The shared data is not a JSON.prompter result');
+  }
+  const sources: Source[] = (Array.isArray(value.sources) ? value.sources : [])
+    .filter((s: unknown): s is Source => isObject(s) && isWebUrl(s.uri))
+    .map((s: Source) => ({ title: typeof s.title === 'string' ? s.title : s.uri, uri: s.uri }));
+  const evidence: GroundingEvidence[] = (Array.isArray(value.evidence) ? value.evidence : [])
+    .filter((e: unknown): e is GroundingEvidence => isObject(e) && typeof e.text === 'string' && Array.isArray(e.sourceIndices))
+    .map((e: GroundingEvidence) => ({ text: e.text, sourceIndices: e.sourceIndices.filter(i => Number.isInteger(i) && i >= 0 && i < sources.length) }));
+
+  const artifacts = {
+    jsonPrompt: value.jsonPrompt,
+    exampleJson: value.exampleJson,
+    jsonSchema: optionalString(value.jsonSchema),
+    tsInterface: optionalString(value.tsInterface)
+  };
+  const editedFrom = optionalString(value.editedFrom);
+  const promptVariations = Array.isArray(value.promptVariations) ? value.promptVariations.filter((v: unknown) => typeof v === 'string') : [];
+  return {
+    title: value.title,
+    description: optionalString(value.description) || '',
+    ...artifacts,
+    sources,
+    ...(promptVariations.length ? { promptVariations } : {}),
+    ...(evidence.length ? { evidence } : {}),
+    ...(editedFrom ? { editedFrom } : {}),
+    consistency: checkConsistency(artifacts)
+  };
+};
+
+// Saved favorites carry their id, save time and revision history; only the content is shared
+const sharedContent = (result: SearchResult): SearchResult => {
+  const { title, description, jsonPrompt, exampleJson, jsonSchema, tsInterface, sources, promptVariations, evidence, editedFrom } = result;
+  return { title, description, jsonPrompt, exampleJson, jsonSchema, tsInterface, sources, promptVariations, evidence, editedFrom };
+};
+
+export const buildShareFile = (result: SearchResult) => ({
+  fileName: `${projectSlug(result.title)}${SHARE_FILE_EXTENSION}`,
+  content: JSON.stringify({ format: SHARE_FILE_FORMAT, version: SHARE_VERSION, sharedAt: Date.now(), result: sharedContent(result) } satisfies ShareFile, null, 2)
+});
+
+/**
+ * Compresses the result into the fragment of `baseUrl`, which never reaches a server. Results
+ * whose link would exceed MAX_SHARE_URL_LENGTH come back as an importable file instead.
+ */
+export const createShareTarget = async (result: SearchResult, baseUrl: string): Promise<ShareTarget> => {
+  const payload = toBase64Url(await compress(JSON.stringify(sharedContent(result))));
+  const url = `${baseUrl.split('#')[0]}#${SHARE_PARAM}=${SHARE_VERSION}.${payload}`;
+  if (url.length <= MAX_SHARE_URL_LENGTH) return { kind: 'link', url };
+  return { kind: 'file', ...buildShareFile(result), urlLength: url.length };
+};
+
+export const hasSharedResult = (hash: string) => new RegExp(`^#?${SHARE_PARAM}=`).test(hash);
+
+export const readSharedResult = async (hash: string): Promise<SearchResult> => {
+  const match = hash.match(new RegExp(`^#?${SHARE_PARAM}=(\\d+)\\.([A-Za-z0-9_-]+)$`));
+  if (!match) throw new Error('The link is incomplete; it may have been cut off when it was copied');
+  if (Number(match[1]) > SHARE_VERSION) throw new Error('The link was created by a newer version of JSON.prompter');
+  let data: unknown;
+  try {
+    data = JSON.parse(await decompress(fromBase64Url(match[2])));
+  } catch (e) {
+    throw new Error('The link is damaged and could not be read; it may have been cut off when it was copied');
+  }
+  return toSharedResult(data);
+};
+
+export const parseShareFile = (text: string): SearchResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e: any) {
+    throw new Error(`The file is not valid JSON: ${e?.message || e}`);
+  }
+  if (!isObject(data) || data.format !== SHARE_FILE_FORMAT) throw new Error(`The file is not a ${SHARE_FILE_EXTENSION} export`);
+  if (typeof data.version !== 'number' || data.version > SHARE_VERSION) throw new Error('The file was created by a newer version of JSON.prompter');
+  return toSharedResult(data.result);
+};
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SNIPPET_PARAMS, SNIPPET_TARGETS, renderSnippet } from './snippetTemplates';
+
+const input = { prompt: 'Describe a product', schema: { type: 'object', properties: { name: { type: 'string' } } } };
+
+describe('renderSnippet', () => {
+  const servers = SNIPPET_TARGETS.filter(target => target.server);
+
+  it.each(servers.map(target => [target.id]))('answers invalid model JSON with 502 in %s', id => {
+    const { code } = renderSnippet(id, input, DEFAULT_SNIPPET_PARAMS);
+    expect(code).toContain('Model returned invalid JSON');
+    expect(code).not.toMatch(/const data = JSON\.parse/);
+  });
+
+  it('returns 502 from the JavaScript generators before the 500 catch-all', () => {
+    const { code } = renderSnippet('cloudflare-workers', input, DEFAULT_SNIPPET_PARAMS);
+    expect(code).toContain('    return { status: 502, body: { error: "Model returned invalid JSON" } };');
+  });
+});
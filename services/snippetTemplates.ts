@@ -0,0 +1,841 @@
+import { DEFAULT_MODELS, loadProviderSettings } from "./llmProvider";
+import { ParsedTemplate, TemplateValue, TemplateValues, TemplateVariable, parseTemplate, withTemplateDefaults } from "./promptTemplate";
+
+type JsonSchema = Record<string, any> | boolean;
+
+export type SnippetTargetId =
+  | 'gcp-functions' | 'firebase' | 'cloud-run' | 'aws-lambda' | 'cloudflare-workers'
+  | 'deno-deploy' | 'vercel-nextjs' | 'python-fastapi' | 'go' | 'curl';
+
+export type SnippetAuth = 'none' | 'api-key' | 'bearer';
+
+export interface SnippetParams {
+  model: string;
+  temperature: number;
+  auth: SnippetAuth;
+  cors: boolean;
+}
+
+export interface SnippetTarget {
+  id: SnippetTargetId;
+  label: string;
+  icon: string;
+  runtime: string;
+  fileName: string;
+  contentType: string;
+  console?: { label: string; url: string };
+  // Clients such as curl have no endpoint to protect
+  server: boolean;
+}
+
+export interface SnippetInput {
+  prompt: string;
+  schema?: JsonSchema | null;
+  // Current values of the prompt's template variables; they become the generated parameters' defaults
+  variables?: TemplateValues;
+}
+
+// Renderers also get the prompt split into text and `{{variable}}` segments
+interface RenderInput extends SnippetInput {
+  template: ParsedTemplate;
+}
+
+export interface Snippet {
+  code: string;
+  warnings: string[];
+}
+
+export const DEFAULT_SNIPPET_PARAMS: SnippetParams = {
+  model: DEFAULT_MODELS.gemini,
+  temperature: 0.7,
+  auth: 'none',
+  cors: true
+};
+
+const PARAMS_KEY = 'json_prompter_snippet_params_v1';
+
+// Snippets call Gemini, so the test stage's model is only a sensible default when it is a Gemini model
+export const loadSnippetParams = (): SnippetParams => {
+  const test = loadProviderSettings().stages.test;
+  const defaults = { ...DEFAULT_SNIPPET_PARAMS, model: test.provider === 'gemini' && test.model ? test.model : DEFAULT_SNIPPET_PARAMS.model };
+  try {
+    const raw = localStorage.getItem(PARAMS_KEY);
+    return raw ? { ...defaults, ...JSON.parse(raw) } : defaults;
+  } catch (e) {
+    return defaults;
+  }
+};
+
+export const saveSnippetParams = (params: SnippetParams) => {
+  localStorage.setItem(PARAMS_KEY, JSON.stringify(params));
+};
+
+export const SNIPPET_AUTH_MODES: { id: SnippetAuth; label: string; env?: string }[] = [
+  { id: 'none', label: 'Public' },
+  { id: 'api-key', label: 'API Key', env: 'SERVICE_API_KEY' },
+  { id: 'bearer', label: 'Bearer', env: 'SERVICE_TOKEN' }
+];
+
+export const SNIPPET_TARGETS: SnippetTarget[] = [
+  { id: 'gcp-functions', label: 'GCP Func', icon: 'fas fa-bolt', runtime: 'Cloud Functions Gen 2 · Node.js 20', fileName: 'index.js', contentType: 'text/javascript', console: { label: 'GCP Console', url: 'https://console.cloud.google.com/functions' }, server: true },
+  { id: 'firebase', label: 'Firebase', icon: 'fas fa-fire', runtime: 'firebase-functions/v2', fileName: 'index.js', contentType: 'text/javascript', console: { label: 'Firebase Console', url: 'https://console.firebase.google.com' }, server: true },
+  { id: 'cloud-run', label: 'Cloud Run', icon: 'fas fa-box', runtime: 'Express · container on $PORT', fileName: 'index.js', contentType: 'text/javascript', console: { label: 'GCP Console', url: 'https://console.cloud.google.com/run' }, server: true },
+  { id: 'aws-lambda', label: 'AWS Lambda', icon: 'fab fa-aws', runtime: 'Lambda Function URL · Node.js 20', fileName: 'index.mjs', contentType: 'text/javascript', console: { label: 'AWS Console', url: 'https://console.aws.amazon.com/lambda' }, server: true },
+  { id: 'cloudflare-workers', label: 'Workers', icon: 'fab fa-cloudflare', runtime: 'Cloudflare Workers', fileName: 'worker.js', contentType: 'text/javascript', console: { label: 'Cloudflare Dashboard', url: 'https://dash.cloudflare.com' }, server: true },
+  { id: 'deno-deploy', label: 'Deno', icon: 'fas fa-dragon', runtime: 'Deno Deploy', fileName: 'main.js', contentType: 'text/javascript', console: { label: 'Deno Deploy', url: 'https://dash.deno.com' }, server: true },
+  { id: 'vercel-nextjs', label: 'Next.js', icon: 'fas fa-caret-up', runtime: 'Vercel · Next.js route handler', fileName: 'app/api/generate/route.ts', contentType: 'text/typescript', console: { label: 'Vercel Dashboard', url: 'https://vercel.com/dashboard' }, server: true },
+  { id: 'python-fastapi', label: 'FastAPI', icon: 'fab fa-python', runtime: 'Python 3.11 · FastAPI', fileName: 'main.py', contentType: 'text/x-python', server: true },
+  { id: 'go', label: 'Go', icon: 'fas fa-code', runtime: 'Go 1.22 · net/http', fileName: 'main.go', contentType: 'text/x-go', server: true },
+  { id: 'curl', label: 'curl', icon: 'fas fa-terminal', runtime: 'bash · curl + jq', fileName: 'generate.sh', contentType: 'text/x-shellscript', server: false }
+];
+
+const GEMINI_ENDPOINT = 'https://generativelanguage.googleapis.com/v1beta/models';
+export const CORS_HEADERS: [string, string][] = [
+  ['Access-Control-Allow-Origin', '*'],
+  ['Access-Control-Allow-Methods', 'POST, OPTIONS'],
+  ['Access-Control-Allow-Headers', 'Content-Type, Authorization, x-api-key']
+];
+
+// --- Literal encoders. Every value reaches the generated source through one of these. ---
+
+// JSON string literals are valid JS; the two line separators are not inside older engines' strings
+export const quote = (text: string) => JSON.stringify(text).replace(/\u2028/g, '\\u2028').replace(/\u2029/g, '\\u2029');
+
+const escapeTemplateText = (text: string) => text.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+
+export const jsTemplate = (text: string) => `\`${escapeTemplateText(text)}\``;
+
+const JS_RESERVED = new Set(['arguments', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'enum', 'eval', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'new', 'null', 'package', 'private', 'protected', 'public', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield']);
+
+// Variables named after reserved words are bound under a suffixed name
+const jsBinding = (name: string) => (JS_RESERVED.has(name) ? `${name}_` : name);
+
+// A template literal that interpolates the prompt's variables by name
+export const jsTemplateOf = (template: ParsedTemplate) =>
+  `\`${template.segments.map(segment => (segment.kind === 'text' ? escapeTemplateText(segment.text) : `\${${jsBinding(segment.name)}}`)).join('')}\``;
+
+export const jsValue = (value: TemplateValue) => (typeof value === 'string' ? quote(value) : String(value));
+
+const jsVariableType = (variable: TemplateVariable) =>
+  variable.type === 'enum' ? variable.options!.map(quote).join(' | ') : variable.type === 'bool' ? 'boolean' : variable.type === 'string' ? 'string' : 'number';
+
+export const jsVariablesType = (variables: TemplateVariable[]) =>
+  `{ ${variables.map(v => `${v.name}?: ${jsVariableType(v)}`).join('; ')} }`;
+
+// A destructuring pattern that gives every variable its declared default
+export const jsVariablesPattern = (variables: TemplateVariable[]) =>
+  `{ ${variables.map(v => `${jsBinding(v.name) === v.name ? v.name : `${v.name}: ${jsBinding(v.name)}`} = ${jsValue(v.defaultValue)}`).join(', ')} }`;
+
+// Adjacent quoted lines, joined by the language: implicit concatenation in Python, `+` in Go
+const quotedLines = (text: string) => text.split('\n').map((line, i, all) => quote(i < all.length - 1 ? `${line}\n` : line));
+const pyLines = (text: string) => quotedLines(text).map(line => `    ${line}`).join('\n');
+const goString = (text: string, indent = '\t') => quotedLines(text).join(` +\n${indent}`);
+
+const jsNumber = (value: number) => (Number.isFinite(value) ? String(value) : '1');
+
+export const draftOf = (schema: JsonSchema): '7' | '2019-09' | '2020-12' => {
+  const uri = typeof schema === 'object' && typeof schema.$schema === 'string' ? schema.$schema : '';
+  return uri.includes('2020-12') ? '2020-12' : uri.includes('2019-09') ? '2019-09' : '7';
+};
+
+export const AJV_IMPORTS = { '7': 'ajv', '2019-09': 'ajv/dist/2019', '2020-12': 'ajv/dist/2020' };
+const AJV_CLI_SPECS = { '7': 'draft7', '2019-09': 'draft2019', '2020-12': 'draft2020' };
+
+// --- Shared JavaScript pieces ---
+
+interface JsFlavor {
+  module: 'esm' | 'cjs';
+  env: (name: string) => string;
+  header: (name: string) => string;
+}
+
+const jsConstants = (input: RenderInput, params: SnippetParams) => [
+  `const MODEL = ${quote(params.model)};`,
+  `const TEMPERATURE = ${jsNumber(params.temperature)};`,
+  ...(input.template.variables.length ? [
+    '',
+    '// Fills in the prompt\'s template variables; any that are omitted keep their defaults',
+    `const renderPrompt = (${jsVariablesPattern(input.template.variables)} = {}) =>`,
+    `  ${jsTemplateOf(input.template)};`
+  ] : [`const PROMPT = ${jsTemplate(input.prompt)};`]),
+  ...(input.schema ? ['', `const RESPONSE_SCHEMA = ${JSON.stringify(input.schema, null, 2)};`] : [])
+];
+
+// Lines that end the request early when the caller is not authorized; `deny` returns the 401
+const jsAuthGuard = (params: SnippetParams, flavor: JsFlavor, deny: string, indent = '  ') => {
+  if (params.auth === 'none') return [];
+  const mode = SNIPPET_AUTH_MODES.find(m => m.id === params.auth)!;
+  const check = params.auth === 'bearer'
+    ? `${flavor.header('authorization')} !== \`Bearer \${expected}\``
+    : `${flavor.header('x-api-key')} !== expected`;
+  return [
+    `const expected = ${flavor.env(mode.env!)};`,
+    `if (!expected || ${check}) {`,
+    `  ${deny}`,
+    '}'
+  ].map(line => indent + line);
+};
+
+// The SDK-based generator used by the Node.js targets
+const jsNodeCore = (input: RenderInput, params: SnippetParams, flavor: JsFlavor) => {
+  const draft = input.schema ? draftOf(input.schema) : '7';
+  const imports = flavor.module === 'esm'
+    ? ['import { GoogleGenAI } from "@google/genai";', ...(input.schema ? [`import Ajv from "${AJV_IMPORTS[draft]}";`] : [])]
+    : ['const { GoogleGenAI } = require("@google/genai");', ...(input.schema ? [`const Ajv = require("${AJV_IMPORTS[draft]}").default;`] : [])];
+  return {
+    imports,
+    body: [
+      ...jsConstants(input, params),
+      '',
+      `const ai = new GoogleGenAI({ apiKey: ${flavor.env('GEMINI_API_KEY')} });`,
+      ...(input.schema ? ['const validate = new Ajv({ allErrors: true, strict: false }).compile(RESPONSE_SCHEMA);'] : []),
+      '',
+      input.schema
+        ? '// Calls the model and checks its JSON against the result schema before anything is returned'
+        : '// Calls the model and parses its JSON',
+      `async function generateData(${input.template.variables.length ? 'variables = {}' : ''}) {`,
+      '  const response = await ai.models.generateContent({',
+      '    model: MODEL,',
+      `    contents: ${input.template.variables.length ? 'renderPrompt(variables)' : 'PROMPT'},`,
+      '    config: { responseMimeType: "application/json", temperature: TEMPERATURE }',
+      '  });',
+      ...parseModelJson('response.text ?? ""'),
+      ...(input.schema ? [
+        '  if (!validate(data)) {',
+        '    return { status: 502, body: { error: "Output failed schema validation", details: validate.errors } };',
+        '  }'
+      ] : []),
+      '  return { status: 200, body: data };',
+      '}'
+    ]
+  };
+};
+
+// Unparseable output is the model's fault, answered with 502 like a schema violation
+const parseModelJson = (expression: string) => [
+  '  let data;',
+  '  try {',
+  `    data = JSON.parse(${expression});`,
+  '  } catch {',
+  '    return { status: 502, body: { error: "Model returned invalid JSON" } };',
+  '  }'
+];
+
+// The REST-based generator used by edge runtimes, where the Node SDK and Ajv's code generation are unavailable
+const jsFetchCore = (input: RenderInput, params: SnippetParams, validator: 'cfworker' | 'ajv') => [
+  ...jsConstants(input, params),
+  ...(input.schema ? [
+    '',
+    validator === 'cfworker'
+      ? `const validator = new Validator(RESPONSE_SCHEMA, ${quote(draftOf(input.schema))}, false);`
+      : 'const validate = new Ajv({ allErrors: true, strict: false }).compile(RESPONSE_SCHEMA);'
+  ] : []),
+  '',
+  input.schema
+    ? '// Calls the model and checks its JSON against the result schema before anything is returned'
+    : '// Calls the model and parses its JSON',
+  `async function generateData(apiKey${input.template.variables.length ? ', variables = {}' : ''}) {`,
+  `  const response = await fetch(\`${GEMINI_ENDPOINT}/\${MODEL}:generateContent\`, {`,
+  '    method: "POST",',
+  '    headers: { "Content-Type": "application/json", "x-goog-api-key": apiKey },',
+  '    body: JSON.stringify({',
+  `      contents: [{ role: "user", parts: [{ text: ${input.template.variables.length ? 'renderPrompt(variables)' : 'PROMPT'} }] }],`,
+  '      generationConfig: { responseMimeType: "application/json", temperature: TEMPERATURE }',
+  '    })',
+  '  });',
+  '  if (!response.ok) throw new Error(`Gemini API error ${response.status}`);',
+  '  const payload = await response.json();',
+  '  const text = (payload.candidates?.[0]?.content?.parts || []).map((part) => part.text || "").join("");',
+  ...parseModelJson('text'),
+  ...(input.schema ? (validator === 'cfworker' ? [
+    '  const result = validator.validate(data);',
+    '  if (!result.valid) {',
+    '    return { status: 502, body: { error: "Output failed schema validation", details: result.errors } };',
+    '  }'
+  ] : [
+    '  if (!validate(data)) {',
+    '    return { status: 502, body: { error: "Output failed schema validation", details: validate.errors } };',
+    '  }'
+  ]) : []),
+  '  return { status: 200, body: data };',
+  '}'
+];
+
+// The request body carries the template variables, when the prompt has any
+const variablesArg = (input: RenderInput, expression: string) => (input.template.variables.length ? expression : '');
+
+const corsObject = (indent = '  ') => [
+  'const CORS_HEADERS = {',
+  ...CORS_HEADERS.map(([name, value], i) => `${indent}${quote(name)}: ${quote(value)}${i < CORS_HEADERS.length - 1 ? ',' : ''}`),
+  '};'
+];
+
+// --- Targets ---
+
+const renderGcpFunctions = (input: RenderInput, params: SnippetParams) => {
+  const flavor: JsFlavor = { module: 'esm', env: name => `process.env.${name}`, header: name => `req.get(${quote(name)})` };
+  const core = jsNodeCore(input, params, flavor);
+  return [
+    '/**',
+    ' * Google Cloud Function (2nd Gen)',
+    ' * Runtime: Node.js 20 ("type": "module" in package.json)',
+    ' */',
+    ...core.imports,
+    'import * as functions from "@google-cloud/functions-framework";',
+    '',
+    ...core.body,
+    '',
+    'functions.http("generateData", async (req, res) => {',
+    ...(params.cors ? [
+      ...CORS_HEADERS.map(([name, value]) => `  res.set(${quote(name)}, ${quote(value)});`),
+      '  if (req.method === "OPTIONS") return res.status(204).send("");'
+    ] : []),
+    ...jsAuthGuard(params, flavor, 'return res.status(401).json({ error: "Unauthorized" });'),
+    '  try {',
+    `    const result = await generateData(${variablesArg(input, 'req.body')});`,
+    '    res.status(result.status).json(result.body);',
+    '  } catch (error) {',
+    '    res.status(500).json({ error: "Synthesis Error" });',
+    '  }',
+    '});',
+    '',
+    '// Deployment Command:',
+    `// gcloud functions deploy generateData --gen2 --runtime=nodejs20 --trigger-http${params.auth === 'none' ? ' --allow-unauthenticated' : ''} --set-secrets 'GEMINI_API_KEY=GEMINI_API_KEY:latest'`
+  ];
+};
+
+const renderFirebase = (input: RenderInput, params: SnippetParams) => {
+  const flavor: JsFlavor = { module: 'cjs', env: name => `process.env.${name}`, header: name => `req.get(${quote(name)})` };
+  const core = jsNodeCore(input, params, flavor);
+  return [
+    '/**',
+    ' * Firebase Cloud Function (v2)',
+    ' * Framework: firebase-functions/v2',
+    ' */',
+    'const { onRequest } = require("firebase-functions/v2/https");',
+    ...core.imports,
+    '',
+    ...core.body,
+    '',
+    `exports.generateData = onRequest({ cors: ${params.cors}, secrets: ["GEMINI_API_KEY"] }, async (req, res) => {`,
+    ...jsAuthGuard(params, flavor, 'return res.status(401).json({ error: "Unauthorized" });'),
+    '  try {',
+    `    const result = await generateData(${variablesArg(input, 'req.body')});`,
+    '    res.status(result.status).json(result.body);',
+    '  } catch (error) {',
+    '    res.status(500).json({ error: "Synthesis Error" });',
+    '  }',
+    '});',
+    '',
+    '// Deployment Command:',
+    '// firebase deploy --only functions:generateData'
+  ];
+};
+
+const renderCloudRun = (input: RenderInput, params: SnippetParams) => {
+  const flavor: JsFlavor = { module: 'esm', env: name => `process.env.${name}`, header: name => `req.get(${quote(name)})` };
+  const core = jsNodeCore(input, params, flavor);
+  return [
+    '/**',
+    ' * Google Cloud Run Service (Dockerized Node.js)',
+    ' * Port: $PORT (Default: 8080)',
+    ' */',
+    'import express from "express";',
+    ...core.imports,
+    '',
+    ...core.body,
+    '',
+    'const app = express();',
+    'const port = process.env.PORT || 8080;',
+    '',
+    ...(input.template.variables.length ? ['app.use(express.json());', ''] : []),
+    ...(params.cors ? [
+      'app.use((req, res, next) => {',
+      ...CORS_HEADERS.map(([name, value]) => `  res.set(${quote(name)}, ${quote(value)});`),
+      '  if (req.method === "OPTIONS") return res.sendStatus(204);',
+      '  next();',
+      '});',
+      ''
+    ] : []),
+    'app.post("/", async (req, res) => {',
+    ...jsAuthGuard(params, flavor, 'return res.status(401).json({ error: "Unauthorized" });'),
+    '  try {',
+    `    const result = await generateData(${variablesArg(input, 'req.body')});`,
+    '    res.status(result.status).json(result.body);',
+    '  } catch (error) {',
+    '    res.status(500).json({ error: "Synthesis Error" });',
+    '  }',
+    '});',
+    '',
+    'app.listen(port, () => console.log(`Cloud Run Service Active on :${port}`));',
+    '',
+    '// --- Dockerfile ---',
+    '/*',
+    'FROM node:20-slim',
+    'WORKDIR /usr/src/app',
+    'COPY package*.json ./',
+    'RUN npm install --only=production',
+    'COPY . .',
+    'EXPOSE 8080',
+    'CMD [ "node", "index.js" ]',
+    '*/'
+  ];
+};
+
+const renderLambda = (input: RenderInput, params: SnippetParams) => {
+  // Function URLs and HTTP APIs deliver lower-cased header names
+  const flavor: JsFlavor = { module: 'esm', env: name => `process.env.${name}`, header: name => `headers[${quote(name.toLowerCase())}]` };
+  const core = jsNodeCore(input, params, flavor);
+  return [
+    '/**',
+    ' * AWS Lambda (Function URL or API Gateway HTTP API)',
+    ' * Runtime: nodejs20.x, handler: index.handler',
+    ' */',
+    ...core.imports,
+    '',
+    ...core.body,
+    '',
+    ...(params.cors ? [...corsObject(), ''] : []),
+    'const reply = (statusCode, body) => ({',
+    '  statusCode,',
+    `  headers: { "Content-Type": "application/json"${params.cors ? ', ...CORS_HEADERS' : ''} },`,
+    '  body: JSON.stringify(body)',
+    '});',
+    '',
+    'export const handler = async (event) => {',
+    '  const headers = event.headers || {};',
+    ...(params.cors ? ['  if (event.requestContext?.http?.method === "OPTIONS") return { statusCode: 204, headers: CORS_HEADERS };'] : []),
+    ...jsAuthGuard(params, flavor, 'return reply(401, { error: "Unauthorized" });'),
+    '  try {',
+    `    const result = await generateData(${variablesArg(input, 'JSON.parse(event.body || "{}")')});`,
+    '    return reply(result.status, result.body);',
+    '  } catch (error) {',
+    '    return reply(500, { error: "Synthesis Error" });',
+    '  }',
+    '};'
+  ];
+};
+
+const REQUEST_JSON = 'await request.json().catch(() => ({}))';
+
+const fetchHandler = (input: RenderInput, params: SnippetParams, flavor: JsFlavor, apiKey: string, indent: string) => [
+  ...(params.cors ? ['if (request.method === "OPTIONS") return new Response(null, { status: 204, headers: CORS_HEADERS });'] : []),
+  ...jsAuthGuard(params, flavor, `return Response.json({ error: "Unauthorized" }, { status: 401${params.cors ? ', headers: CORS_HEADERS' : ''} });`, ''),
+  'try {',
+  `  const result = await generateData(${apiKey}${input.template.variables.length ? `, ${REQUEST_JSON}` : ''});`,
+  `  return Response.json(result.body, { status: result.status${params.cors ? ', headers: CORS_HEADERS' : ''} });`,
+  '} catch (error) {',
+  `  return Response.json({ error: "Synthesis Error" }, { status: 500${params.cors ? ', headers: CORS_HEADERS' : ''} });`,
+  '}'
+].map(line => indent + line);
+
+const renderWorkers = (input: RenderInput, params: SnippetParams) => {
+  const flavor: JsFlavor = { module: 'esm', env: name => `env.${name}`, header: name => `request.headers.get(${quote(name)})` };
+  return [
+    '/**',
+    ' * Cloudflare Worker',
+    ' * Secrets: wrangler secret put GEMINI_API_KEY',
+    ' */',
+    ...(input.schema ? ['import { Validator } from "@cfworker/json-schema";', ''] : []),
+    ...jsFetchCore(input, params, 'cfworker'),
+    '',
+    ...(params.cors ? [...corsObject(), ''] : []),
+    'export default {',
+    '  async fetch(request, env) {',
+    ...fetchHandler(input, params, flavor, 'env.GEMINI_API_KEY', '    '),
+    '  }',
+    '};'
+  ];
+};
+
+const renderDeno = (input: RenderInput, params: SnippetParams) => {
+  const flavor: JsFlavor = { module: 'esm', env: name => `Deno.env.get(${quote(name)})`, header: name => `request.headers.get(${quote(name)})` };
+  return [
+    '/**',
+    ' * Deno Deploy',
+    ' * Set GEMINI_API_KEY in the project environment variables',
+    ' */',
+    ...(input.schema ? [`import Ajv from "npm:${AJV_IMPORTS[draftOf(input.schema)].replace(/^ajv/, 'ajv@8')}";`, ''] : []),
+    ...jsFetchCore(input, params, 'ajv'),
+    '',
+    ...(params.cors ? [...corsObject(), ''] : []),
+    'Deno.serve(async (request) => {',
+    ...fetchHandler(input, params, flavor, 'Deno.env.get("GEMINI_API_KEY") ?? ""', '  '),
+    '});'
+  ];
+};
+
+const renderNextRoute = (input: RenderInput, params: SnippetParams) => {
+  const flavor: JsFlavor = { module: 'esm', env: name => `process.env.${name}`, header: name => `request.headers.get(${quote(name)})` };
+  const core = jsNodeCore(input, params, flavor);
+  const headers = params.cors ? ', headers: CORS_HEADERS' : '';
+  return [
+    '/**',
+    ' * Vercel / Next.js App Router route handler',
+    ' * File: app/api/generate/route.ts',
+    ' */',
+    ...core.imports,
+    '',
+    'export const runtime = "nodejs";',
+    '',
+    ...core.body,
+    '',
+    ...(params.cors ? [
+      ...corsObject(),
+      '',
+      'export async function OPTIONS() {',
+      '  return new Response(null, { status: 204, headers: CORS_HEADERS });',
+      '}',
+      ''
+    ] : []),
+    'export async function POST(request: Request) {',
+    ...jsAuthGuard(params, flavor, `return Response.json({ error: "Unauthorized" }, { status: 401${headers} });`),
+    '  try {',
+    `    const result = await generateData(${variablesArg(input, REQUEST_JSON)});`,
+    `    return Response.json(result.body, { status: result.status${headers} });`,
+    '  } catch (error) {',
+    `    return Response.json({ error: "Synthesis Error" }, { status: 500${headers} });`,
+    '  }',
+    '}'
+  ];
+};
+
+const PY_KEYWORDS = new Set(['False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield']);
+
+const pyName = (name: string) => {
+  const snake = name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+  return PY_KEYWORDS.has(snake) ? `${snake}_` : snake;
+};
+
+const pyValue = (value: TemplateValue) => (typeof value === 'boolean' ? (value ? 'True' : 'False') : jsValue(value));
+
+const pyType = (variable: TemplateVariable) =>
+  variable.type === 'enum' ? `Literal[${variable.options!.map(quote).join(', ')}]`
+    : variable.type === 'int' ? 'int' : variable.type === 'number' ? 'float' : variable.type === 'bool' ? 'bool' : 'str';
+
+// A pydantic model for the request body (camelCase keys, as in the prompt) and the function that fills the prompt
+const pyTemplate = (template: ParsedTemplate) => {
+  const byName = new Map(template.variables.map(v => [v.name, v]));
+  const parts = template.segments.flatMap(segment => {
+    if (segment.kind === 'text') return quotedLines(segment.text);
+    const field = `variables.${pyName(segment.name)}`;
+    return [byName.get(segment.name)!.type === 'bool' ? `("true" if ${field} else "false")` : `str(${field})`];
+  });
+  return [
+    'class PromptVariables(BaseModel):',
+    '    model_config = ConfigDict(populate_by_name=True)',
+    '',
+    ...template.variables.map(v => pyName(v.name) === v.name
+      ? `    ${v.name}: ${pyType(v)} = ${pyValue(v.defaultValue)}`
+      : `    ${pyName(v.name)}: ${pyType(v)} = Field(default=${pyValue(v.defaultValue)}, alias=${quote(v.name)})`),
+    '',
+    '',
+    'def render_prompt(variables: PromptVariables) -> str:',
+    '    return "".join([',
+    ...parts.map(part => `        ${part},`),
+    '    ])'
+  ];
+};
+
+const renderFastApi = (input: RenderInput, params: SnippetParams) => {
+  const mode = SNIPPET_AUTH_MODES.find(m => m.id === params.auth)!;
+  return [
+    '"""',
+    'FastAPI service',
+    'pip install fastapi uvicorn google-genai' + (input.schema ? ' jsonschema' : ''),
+    'Run: uvicorn main:app --port 8080',
+    '"""',
+    'import json',
+    'import os',
+    ...(input.template.variables.some(v => v.type === 'enum') ? ['from typing import Literal'] : []),
+    '',
+    `from fastapi import FastAPI, HTTPException${params.auth !== 'none' ? ', Request' : ''}`,
+    ...(params.cors ? ['from fastapi.middleware.cors import CORSMiddleware'] : []),
+    'from google import genai',
+    'from google.genai import types',
+    ...(input.schema ? ['from jsonschema.validators import validator_for'] : []),
+    ...(input.template.variables.length ? ['from pydantic import BaseModel, ConfigDict, Field'] : []),
+    '',
+    `MODEL = ${quote(params.model)}`,
+    `TEMPERATURE = ${jsNumber(params.temperature)}`,
+    ...(input.template.variables.length ? [] : [`PROMPT = (\n${pyLines(input.prompt)}\n)`]),
+    ...(input.schema ? [
+      `RESPONSE_SCHEMA = json.loads(\n${pyLines(JSON.stringify(input.schema, null, 2))}\n)`,
+      '# The validator class follows the schema\'s $schema draft',
+      'validator = validator_for(RESPONSE_SCHEMA)(RESPONSE_SCHEMA)'
+    ] : []),
+    '',
+    'client = genai.Client(api_key=os.environ.get("GEMINI_API_KEY"))',
+    'app = FastAPI()',
+    ...(params.cors ? [
+      'app.add_middleware(',
+      '    CORSMiddleware,',
+      '    allow_origins=["*"],',
+      '    allow_methods=["POST", "OPTIONS"],',
+      '    allow_headers=["Content-Type", "Authorization", "x-api-key"],',
+      ')'
+    ] : []),
+    ...(input.template.variables.length ? ['', '', ...pyTemplate(input.template)] : []),
+    '',
+    '',
+    '@app.post("/generate")',
+    `async def generate_data(${[
+      ...(params.auth !== 'none' ? ['request: Request'] : []),
+      ...(input.template.variables.length ? ['variables: PromptVariables | None = None'] : [])
+    ].join(', ')}):`,
+    ...(params.auth !== 'none' ? [
+      `    expected = os.environ.get(${quote(mode.env!)})`,
+      params.auth === 'bearer'
+        ? '    if not expected or request.headers.get("authorization") != f"Bearer {expected}":'
+        : '    if not expected or request.headers.get("x-api-key") != expected:',
+      '        raise HTTPException(status_code=401, detail="Unauthorized")',
+      ''
+    ] : []),
+    '    try:',
+    '        response = await client.aio.models.generate_content(',
+    '            model=MODEL,',
+    `            contents=${input.template.variables.length ? 'render_prompt(variables or PromptVariables())' : 'PROMPT'},`,
+    '            config=types.GenerateContentConfig(response_mime_type="application/json", temperature=TEMPERATURE),',
+    '        )',
+    '    except Exception:',
+    '        raise HTTPException(status_code=500, detail="Synthesis Error")',
+    '',
+    '    try:',
+    '        data = json.loads(response.text)',
+    '    except (TypeError, json.JSONDecodeError):',
+    '        raise HTTPException(status_code=502, detail="Model returned invalid JSON")',
+    ...(input.schema ? [
+      '',
+      '    # Check the output against the result schema before it is returned',
+      '    errors = [f"/{\'/\'.join(map(str, e.absolute_path))}: {e.message}" for e in validator.iter_errors(data)]',
+      '    if errors:',
+      '        raise HTTPException(status_code=502, detail={"error": "Output failed schema validation", "details": errors})'
+    ] : []),
+    '    return data'
+  ];
+};
+
+const goField = (name: string) => (/^[a-z]/.test(name) ? name[0].toUpperCase() + name.slice(1) : /^_/.test(name) ? `V${name}` : name);
+
+const goType = (variable: TemplateVariable) =>
+  variable.type === 'int' ? 'int' : variable.type === 'number' ? 'float64' : variable.type === 'bool' ? 'bool' : 'string';
+
+// The request body struct, its defaults and the function that fills the prompt; columns are aligned as gofmt would
+const goTemplate = (template: ParsedTemplate) => {
+  const fields = template.variables.map(v => ({ field: goField(v.name), type: goType(v), variable: v }));
+  const nameWidth = Math.max(...fields.map(f => f.field.length));
+  const typeWidth = Math.max(...fields.map(f => f.type.length));
+  const parts = template.segments.flatMap(segment =>
+    segment.kind === 'text' ? quotedLines(segment.text) : [`fmt.Sprint(v.${goField(segment.name)})`]);
+  return [
+    'type PromptVariables struct {',
+    ...fields.map(f => `\t${f.field.padEnd(nameWidth)} ${f.type.padEnd(typeWidth)} \`json:${quote(f.variable.name)}\``),
+    '}',
+    '',
+    'func defaultVariables() PromptVariables {',
+    `\treturn PromptVariables{${fields.map(f => `${f.field}: ${jsValue(f.variable.defaultValue)}`).join(', ')}}`,
+    '}',
+    '',
+    'func renderPrompt(v PromptVariables) string {',
+    `\treturn ${parts.join(' +\n\t\t')}`,
+    '}'
+  ];
+};
+
+const renderGo = (input: RenderInput, params: SnippetParams) => {
+  const mode = SNIPPET_AUTH_MODES.find(m => m.id === params.auth)!;
+  return [
+    '// Go HTTP service',
+    '// go get google.golang.org/genai' + (input.schema ? ' github.com/santhosh-tekuri/jsonschema/v5' : ''),
+    'package main',
+    '',
+    'import (',
+    '\t"context"',
+    '\t"encoding/json"',
+    ...(input.template.variables.length ? ['\t"fmt"', '\t"io"'] : []),
+    '\t"log"',
+    '\t"net/http"',
+    '\t"os"',
+    ...(input.schema ? ['\t"strings"'] : []),
+    '',
+    ...(input.schema ? ['\t"github.com/santhosh-tekuri/jsonschema/v5"'] : []),
+    '\t"google.golang.org/genai"',
+    ')',
+    '',
+    `const model = ${quote(params.model)}`,
+    '',
+    `const temperature float32 = ${jsNumber(params.temperature)}`,
+    '',
+    ...(input.template.variables.length ? goTemplate(input.template) : [`const prompt = ${goString(input.prompt)}`]),
+    ...(input.schema ? ['', `const responseSchema = ${goString(JSON.stringify(input.schema, null, 2))}`] : []),
+    '',
+    'var client *genai.Client',
+    ...(input.schema ? ['var schema *jsonschema.Schema'] : []),
+    '',
+    'func main() {',
+    '\tvar err error',
+    '\tclient, err = genai.NewClient(context.Background(), &genai.ClientConfig{',
+    '\t\tAPIKey:  os.Getenv("GEMINI_API_KEY"),',
+    '\t\tBackend: genai.BackendGeminiAPI,',
+    '\t})',
+    '\tif err != nil {',
+    '\t\tlog.Fatal(err)',
+    '\t}',
+    ...(input.schema ? [
+      '',
+      '\tcompiler := jsonschema.NewCompiler()',
+      '\tif err := compiler.AddResource("schema.json", strings.NewReader(responseSchema)); err != nil {',
+      '\t\tlog.Fatal(err)',
+      '\t}',
+      '\tschema = compiler.MustCompile("schema.json")'
+    ] : []),
+    '',
+    '\thttp.HandleFunc("/generate", generateData)',
+    '\tport := os.Getenv("PORT")',
+    '\tif port == "" {',
+    '\t\tport = "8080"',
+    '\t}',
+    '\tlog.Fatal(http.ListenAndServe(":"+port, nil))',
+    '}',
+    '',
+    'func writeJSON(w http.ResponseWriter, status int, body any) {',
+    '\tw.Header().Set("Content-Type", "application/json")',
+    '\tw.WriteHeader(status)',
+    '\tjson.NewEncoder(w).Encode(body)',
+    '}',
+    '',
+    'func generateData(w http.ResponseWriter, r *http.Request) {',
+    ...(params.cors ? [
+      ...CORS_HEADERS.map(([name, value]) => `\tw.Header().Set(${quote(name)}, ${quote(value)})`),
+      '\tif r.Method == http.MethodOptions {',
+      '\t\tw.WriteHeader(http.StatusNoContent)',
+      '\t\treturn',
+      '\t}'
+    ] : []),
+    ...(params.auth !== 'none' ? [
+      `\texpected := os.Getenv(${quote(mode.env!)})`,
+      params.auth === 'bearer'
+        ? '\tif expected == "" || r.Header.Get("Authorization") != "Bearer "+expected {'
+        : '\tif expected == "" || r.Header.Get("x-api-key") != expected {',
+      '\t\twriteJSON(w, http.StatusUnauthorized, map[string]string{"error": "Unauthorized"})',
+      '\t\treturn',
+      '\t}'
+    ] : []),
+    '',
+    ...(input.template.variables.length ? [
+      '\t// Variables missing from the body keep their defaults; an empty body is allowed',
+      '\tvariables := defaultVariables()',
+      '\tif err := json.NewDecoder(r.Body).Decode(&variables); err != nil && err != io.EOF {',
+      '\t\twriteJSON(w, http.StatusBadRequest, map[string]string{"error": "Invalid prompt variables"})',
+      '\t\treturn',
+      '\t}',
+      ''
+    ] : []),
+    '\ttemp := temperature',
+    `\tresult, err := client.Models.GenerateContent(r.Context(), model, genai.Text(${input.template.variables.length ? 'renderPrompt(variables)' : 'prompt'}), &genai.GenerateContentConfig{`,
+    '\t\tResponseMIMEType: "application/json",',
+    '\t\tTemperature:      &temp,',
+    '\t})',
+    '\tif err != nil {',
+    '\t\twriteJSON(w, http.StatusInternalServerError, map[string]string{"error": "Synthesis Error"})',
+    '\t\treturn',
+    '\t}',
+    '',
+    '\tvar data any',
+    '\tif err := json.Unmarshal([]byte(result.Text()), &data); err != nil {',
+    '\t\twriteJSON(w, http.StatusBadGateway, map[string]string{"error": "Model returned invalid JSON"})',
+    '\t\treturn',
+    '\t}',
+    ...(input.schema ? [
+      '\t// Check the output against the result schema before it is returned',
+      '\tif err := schema.Validate(data); err != nil {',
+      '\t\twriteJSON(w, http.StatusBadGateway, map[string]string{"error": "Output failed schema validation", "details": err.Error()})',
+      '\t\treturn',
+      '\t}'
+    ] : []),
+    '\twriteJSON(w, http.StatusOK, data)',
+    '}'
+  ];
+};
+
+const shellName = (name: string) => `PROMPT_${name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase()}`;
+
+const renderCurl = (input: RenderInput, params: SnippetParams) => {
+  const variables = input.template.variables;
+  const request = {
+    contents: [{ role: 'user', parts: [{ text: variables.length ? '' : input.prompt }] }],
+    generationConfig: { responseMimeType: 'application/json', temperature: params.temperature }
+  };
+  return [
+    '#!/usr/bin/env bash',
+    '# Requires: curl, jq' + (input.schema ? ', Node.js (for ajv-cli)' : ''),
+    'set -euo pipefail',
+    '',
+    `MODEL=${quote(params.model)}`,
+    ...(variables.length ? [
+      '# Template variables; override any of them from the environment',
+      ...variables.map(v => `${shellName(v.name)}="\${${shellName(v.name)}:-${String(v.defaultValue).replace(/["\\$`}]/g, '\\$&')}}"`)
+    ] : []),
+    '',
+    // Quoted heredoc delimiters disable expansion, so the JSON is passed through byte for byte
+    "cat > request.json <<'JSON'",
+    JSON.stringify(request, null, 2),
+    'JSON',
+    ...(variables.length ? [
+      '',
+      '# The prompt as text and variable segments; jq fills the variables into request.json',
+      "cat > prompt.json <<'JSON'",
+      JSON.stringify(input.template.segments.map(segment => (segment.kind === 'text' ? { text: segment.text } : { variable: segment.name })), null, 2),
+      'JSON',
+      `jq --slurpfile prompt prompt.json ${variables.map(v => `--arg ${v.name} "$${shellName(v.name)}"`).join(' ')} \\`,
+      `  '.contents[0].parts[0].text = ($prompt[0] | map(.text // $ARGS.named[.variable]) | join(""))' \\`,
+      '  request.json > request.tmp && mv request.tmp request.json'
+    ] : []),
+    ...(input.schema ? ['', "cat > schema.json <<'JSON'", JSON.stringify(input.schema, null, 2), 'JSON'] : []),
+    '',
+    `curl -sS --fail-with-body "${GEMINI_ENDPOINT}/\${MODEL}:generateContent" \\`,
+    '  -H "x-goog-api-key: ${GEMINI_API_KEY}" \\',
+    '  -H "Content-Type: application/json" \\',
+    '  -d @request.json \\',
+    "  | jq -r '.candidates[0].content.parts | map(.text // \"\") | join(\"\")' > output.json",
+    ...(input.schema ? [
+      '',
+      '# Check the output against the result schema before printing it',
+      `npx --yes ajv-cli validate --spec=${AJV_CLI_SPECS[draftOf(input.schema)]} --strict=false -s schema.json -d output.json >&2`
+    ] : []),
+    'cat output.json'
+  ];
+};
+
+const RENDERERS: Record<SnippetTargetId, (input: RenderInput, params: SnippetParams) => string[]> = {
+  'gcp-functions': renderGcpFunctions,
+  'firebase': renderFirebase,
+  'cloud-run': renderCloudRun,
+  'aws-lambda': renderLambda,
+  'cloudflare-workers': renderWorkers,
+  'deno-deploy': renderDeno,
+  'vercel-nextjs': renderNextRoute,
+  'python-fastapi': renderFastApi,
+  'go': renderGo,
+  'curl': renderCurl
+};
+
+/**
+ * Renders a deployment snippet that calls the model with `input.prompt` and rejects outputs
+ * that do not match `input.schema`. Template variables in the prompt become request parameters
+ * with their declared defaults. All user text is embedded through the literal encoders above.
+ */
+export const renderSnippet = (targetId: SnippetTargetId, input: SnippetInput, params: SnippetParams): Snippet => {
+  const target = SNIPPET_TARGETS.find(t => t.id === targetId) || SNIPPET_TARGETS[0];
+  const warnings: string[] = [];
+  const schema = input.schema === true || input.schema === false ? null : input.schema;
+  if (!schema) warnings.push('No schema is available, so the snippet returns the model output without validating it.');
+  if (!target.server && (params.auth !== 'none' || params.cors)) warnings.push(`${target.label} is a client script; the auth and CORS settings do not apply.`);
+  if (params.auth !== 'none' && target.server) {
+    warnings.push(`Set ${SNIPPET_AUTH_MODES.find(m => m.id === params.auth)!.env} in the deployment environment; requests are rejected while it is empty.`);
+  }
+  const template = withTemplateDefaults(parseTemplate(input.prompt), input.variables);
+  if (template.issues.length) warnings.push(`The prompt has ${template.issues.length} malformed template placeholder(s); they are sent as plain text.`);
+  const code = RENDERERS[target.id]({ ...input, schema, template }, params).join('\n');
+  return { code: `${code}\n`, warnings };
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { parseSpec } from './specImport';
+
+const openApi = (schemas: Record<string, object>, ref: string) => JSON.stringify({
+  openapi: '3.0.3',
+  info: { title: 'Rates', version: '1.0.0' },
+  paths: {
+    '/rates': { get: { responses: { '200': { description: 'ok', content: { 'application/json': { schema: { $ref: ref } } } } } } }
+  },
+  components: { schemas }
+});
+
+describe('parseSpec', () => {
+  it('imports a component whose name contains a stray "%"', () => {
+    const spec = parseSpec(openApi({ '100%': { type: 'object', properties: { rate: { type: 'number' } } } }, '#/components/schemas/100%'));
+    const response = spec.targets.find(target => target.kind === 'response');
+    expect(response?.schema.properties.rate).toEqual({ type: 'number' });
+  });
+
+  it('decodes percent-encoded component references', () => {
+    const spec = parseSpec(openApi({ 'Daily Rate': { type: 'object', properties: { day: { type: 'string' } } } }, '#/components/schemas/Daily%20Rate'));
+    const response = spec.targets.find(target => target.kind === 'response');
+    expect(response?.rootName).toBe('DailyRate');
+    expect(response?.schema.properties.day).toEqual({ type: 'string' });
+  });
+});
@@ -0,0 +1,611 @@
+import { Type } from "@google/genai";
+import { parse as parseYaml } from "yaml";
+import { SearchResult, Source } from "../types";
+import { resolveStage } from "./llmProvider";
+import { MalformedJsonError, classifyError, withRetry } from "./engineErrors";
+import { checkConsistency } from "./consistencyChecker";
+import { cleanJsonResponse, isAbortError } from "./geminiService";
+import { schemaToTypeScript, toPascalCase } from "./tsGenerator";
+import { unescapePointerToken } from "./schemaValidator";
+import { createUsageTag, usageForTag } from "./usageLedger";
+
+export type SpecFormat = 'openapi3' | 'swagger2' | 'graphql';
+
+export type SpecTargetKind = 'request' | 'response' | 'component' | 'type';
+
+export interface SpecTarget {
+  id: string;
+  kind: SpecTargetKind;
+  label: string;
+  rootName: string;
+  schema: Record<string, any>;
+}
+
+export interface ParsedSpec {
+  format: SpecFormat;
+  title: string;
+  version: string;
+  uri: string;
+  targets: SpecTarget[];
+}
+
+const DRAFT_07 = 'http://json-schema.org/draft-07/schema#';
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'patch', 'options', 'head', 'trace'];
+// Keywords that only mean something to OpenAPI tooling, not to a JSON Schema validator
+const OPENAPI_ONLY = ['nullable', 'discriminator', 'xml', 'externalDocs', 'example', 'deprecated'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const pointerGet = (doc: any, ref: string) =>
+  ref.replace(/^#\/?/, '').split('/').filter(Boolean).reduce(
+    (node, token) => (node == null ? undefined : node[unescapePointerToken(token)]),
+    doc
+  );
+
+const resolveLocal = (doc: any, node: any, depth = 0): any =>
+  isObject(node) && typeof node.$ref === 'string' && node.$ref.startsWith('#') && depth < 16
+    ? resolveLocal(doc, pointerGet(doc, node.$ref), depth + 1)
+    : node;
+
+/**
+ * Converts an OpenAPI 3.x / Swagger 2.0 schema object into Draft 7. Named component schemas are
+ * hoisted into `definitions` so recursive models stay finite.
+ */
+const toDraft7 = (doc: any, node: any, definitions: Record<string, any>): any => {
+  if (!isObject(node)) return node === false ? false : {};
+
+  if (typeof node.$ref === 'string') {
+    const match = node.$ref.match(/^#\/(?:components\/schemas|definitions)\/(.+)$/);
+    if (match) {
+      const name = toPascalCase(unescapePointerToken(match[1]));
+      if (!(name in definitions)) {
+        definitions[name] = {};
+        definitions[name] = toDraft7(doc, pointerGet(doc, node.$ref), definitions);
+      }
+      return { $ref: `#/definitions/${name}` };
+    }
+    if (node.$ref.startsWith('#')) return toDraft7(doc, pointerGet(doc, node.$ref), definitions);
+    return { description: `Unresolved external reference ${node.$ref}` };
+  }
+
+  const out: Record<string, any> = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (OPENAPI_ONLY.includes(key) || key.startsWith('x-')) continue;
+    switch (key) {
+      case 'properties':
+        out.properties = Object.fromEntries(
+          Object.entries<any>(value || {}).map(([prop, child]) => [prop, toDraft7(doc, child, definitions)])
+        );
+        break;
+      case 'items':
+      case 'additionalProperties':
+      case 'not':
+        out[key] = typeof value === 'boolean' ? value : toDraft7(doc, value, definitions);
+        break;
+      case 'allOf':
+      case 'anyOf':
+      case 'oneOf':
+        out[key] = (value as any[]).map(child => toDraft7(doc, child, definitions));
+        break;
+      default:
+        out[key] = value;
+    }
+  }
+
+  if (out.type === 'file') {
+    out.type = 'string';
+    out.format = 'binary';
+  }
+  // OpenAPI 3.0 uses boolean exclusive bounds; Draft 7 wants the bound itself
+  for (const [flag, bound] of [['exclusiveMinimum', 'minimum'], ['exclusiveMaximum', 'maximum']]) {
+    if (out[flag] === true && typeof out[bound] === 'number') {
+      out[flag] = out[bound];
+      delete out[bound];
+    } else if (typeof out[flag] === 'boolean') {
+      delete out[flag];
+    }
+  }
+  if (node.nullable === true) {
+    if (typeof out.type === 'string') out.type = [out.type, 'null'];
+    if (Array.isArray(out.enum) && !out.enum.includes(null)) out.enum = [...out.enum, null];
+  }
+  return out;
+};
+
+const finishSchema = (root: Record<string, any>, definitions: Record<string, any>, title: string) => {
+  const schema: Record<string, any> = { $schema: DRAFT_07, title, ...root };
+  if (Object.keys(definitions).length > 0) schema.definitions = definitions;
+  return schema;
+};
+
+const pickJsonMedia = (content: Record<string, any> | undefined) => {
+  if (!isObject(content)) return undefined;
+  const types = Object.keys(content);
+  const preferred = types.find(t => t === 'application/json') || types.find(t => /[+/]json\b/.test(t)) || types[0];
+  return preferred ? content[preferred]?.schema : undefined;
+};
+
+const operationName = (op: any, method: string, path: string) =>
+  toPascalCase(op.operationId || `${method} ${path.replace(/[{}]/g, '')}`);
+
+const collectOpenApiTargets = (doc: any, format: SpecFormat): SpecTarget[] => {
+  const targets: SpecTarget[] = [];
+  const build = (id: string, kind: SpecTargetKind, label: string, rootName: string, node: any) => {
+    const definitions: Record<string, any> = {};
+    const root = toDraft7(doc, node, definitions);
+    // A body that is just a reference to a component should read as that component
+    const refMatch = isObject(node) && typeof node.$ref === 'string' ? root.$ref?.match(/^#\/definitions\/(.+)$/) : null;
+    if (refMatch) {
+      const { [refMatch[1]]: target, ...rest } = definitions;
+      const selfRef = JSON.stringify(target).includes(`"#/definitions/${refMatch[1]}"`);
+      targets.push({ id, kind, label, rootName: refMatch[1], schema: finishSchema(selfRef ? root : target, selfRef ? definitions : rest, refMatch[1]) });
+      return;
+    }
+    targets.push({ id, kind, label, rootName, schema: finishSchema(root, definitions, rootName) });
+  };
+
+  for (const [path, item] of Object.entries<any>(doc.paths || {})) {
+    for (const method of HTTP_METHODS) {
+      const op = item?.[method];
+      if (!isObject(op)) continue;
+      const name = operationName(op, method, path);
+      const verb = `${method.toUpperCase()} ${path}`;
+
+      if (format === 'openapi3') {
+        const body = resolveLocal(doc, op.requestBody);
+        const schema = pickJsonMedia(body?.content);
+        if (schema) build(`${verb}#request`, 'request', `${verb} — request body`, `${name}Request`, schema);
+      } else {
+        const params = [...(item.parameters || []), ...(op.parameters || [])].map(p => resolveLocal(doc, p));
+        const body = params.find(p => p?.in === 'body');
+        if (body?.schema) build(`${verb}#request`, 'request', `${verb} — request body`, `${name}Request`, body.schema);
+      }
+
+      for (const [status, rawResponse] of Object.entries<any>(op.responses || {})) {
+        if (!/^2/.test(status)) continue;
+        const response = resolveLocal(doc, rawResponse);
+        const schema = format === 'openapi3' ? pickJsonMedia(response?.content) : response?.schema;
+        if (schema) build(`${verb}#${status}`, 'response', `${verb} — ${status} response`, `${name}Response`, schema);
+      }
+    }
+  }
+
+  const components = format === 'openapi3' ? doc.components?.schemas : doc.definitions;
+  for (const key of Object.keys(components || {})) {
+    const ref = format === 'openapi3' ? `#/components/schemas/${key}` : `#/definitions/${key}`;
+    build(`component#${key}`, 'component', `Schema — ${key}`, toPascalCase(key), { $ref: ref });
+  }
+  return targets;
+};
+
+// --- GraphQL SDL ---
+
+type GqlTypeRef = { kind: 'named'; name: string; nonNull: boolean } | { kind: 'list'; of: GqlTypeRef; nonNull: boolean };
+
+interface GqlField {
+  name: string;
+  type: GqlTypeRef;
+  description?: string;
+}
+
+type GqlDefinition =
+  | { kind: 'type' | 'input' | 'interface'; name: string; description?: string; fields: GqlField[] }
+  | { kind: 'enum'; name: string; description?: string; values: string[] }
+  | { kind: 'union'; name: string; description?: string; members: string[] }
+  | { kind: 'scalar'; name: string; description?: string };
+
+const GQL_SCALARS: Record<string, Record<string, any>> = {
+  ID: { type: 'string' },
+  String: { type: 'string' },
+  Int: { type: 'integer' },
+  Float: { type: 'number' },
+  Boolean: { type: 'boolean' }
+};
+
+const customScalarSchema = (name: string): Record<string, any> => {
+  if (/^date.?time$|^timestamp$/i.test(name)) return { type: 'string', format: 'date-time' };
+  if (/^date$/i.test(name)) return { type: 'string', format: 'date' };
+  if (/^(url|uri)$/i.test(name)) return { type: 'string', format: 'uri' };
+  if (/^uuid$/i.test(name)) return { type: 'string', format: 'uuid' };
+  if (/^email/i.test(name)) return { type: 'string', format: 'email' };
+  if (/^json/i.test(name)) return {};
+  return { type: 'string', description: `Custom scalar ${name}` };
+};
+
+const tokenizeSdl = (source: string): string[] => {
+  const tokens: string[] = [];
+  const pattern = /"""[\s\S]*?"""|"(?:\\.|[^"\\])*"|#[^\n]*|[A-Za-z_][A-Za-z0-9_]*|-?\d+(?:\.\d+)?|\.\.\.|[{}()[\]!:=|&@,$]/g;
+  for (const match of source.matchAll(pattern)) {
+    const token = match[0];
+    if (token.startsWith('#') || token === ',') continue;
+    tokens.push(token);
+  }
+  return tokens;
+};
+
+const parseSdl = (source: string): Map<string, GqlDefinition> => {
+  const tokens = tokenizeSdl(source);
+  const defs = new Map<string, GqlDefinition>();
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`GraphQL parse error: expected "${token}" near token ${pos}`);
+  };
+  const readDescription = () => {
+    if (!peek()?.startsWith('"')) return undefined;
+    const raw = next();
+    return raw.startsWith('"""') ? raw.slice(3, -3).trim() : JSON.parse(raw);
+  };
+  const skipBalanced = (open: string, close: string) => {
+    let depth = 0;
+    do {
+      const token = next();
+      if (token === undefined) throw new Error(`GraphQL parse error: unbalanced "${open}"`);
+      if (token === open) depth++;
+      else if (token === close) depth--;
+    } while (depth > 0);
+  };
+  const skipDirectives = () => {
+    while (peek() === '@') {
+      next();
+      next();
+      if (peek() === '(') skipBalanced('(', ')');
+    }
+  };
+  const readType = (): GqlTypeRef => {
+    let ref: GqlTypeRef;
+    if (peek() === '[') {
+      next();
+      const of = readType();
+      expect(']');
+      ref = { kind: 'list', of, nonNull: false };
+    } else {
+      ref = { kind: 'named', name: next(), nonNull: false };
+    }
+    if (peek() === '!') {
+      next();
+      ref.nonNull = true;
+    }
+    return ref;
+  };
+
+  while (pos < tokens.length) {
+    const description = readDescription();
+    let keyword = next();
+    const extend = keyword === 'extend';
+    if (extend) keyword = next();
+
+    if (keyword === 'type' || keyword === 'input' || keyword === 'interface') {
+      const name = next();
+      while (peek() !== undefined && peek() !== '{' && !/^(type|input|interface|enum|union|scalar|schema|extend|directive)$/.test(peek())) {
+        if (peek() === '@') skipDirectives();
+        else next();
+      }
+      const fields: GqlField[] = [];
+      if (peek() === '{') {
+        next();
+        while (peek() !== '}') {
+          if (peek() === undefined) throw new Error(`GraphQL parse error: unterminated ${keyword} ${name}`);
+          const fieldDescription = readDescription();
+          const fieldName = next();
+          if (peek() === '(') skipBalanced('(', ')');
+          expect(':');
+          const type = readType();
+          if (peek() === '=') {
+            next();
+            next();
+          }
+          skipDirectives();
+          fields.push({ name: fieldName, type, description: fieldDescription });
+        }
+        next();
+      }
+      const existing = defs.get(name);
+      if (extend && existing && 'fields' in existing) existing.fields.push(...fields);
+      else defs.set(name, { kind: keyword, name, description, fields });
+    } else if (keyword === 'enum') {
+      const name = next();
+      skipDirectives();
+      const values: string[] = [];
+      if (peek() === '{') {
+        next();
+        while (peek() !== '}') {
+          if (peek() === undefined) throw new Error(`GraphQL parse error: unterminated enum ${name}`);
+          readDescription();
+          values.push(next());
+          skipDirectives();
+        }
+        next();
+      }
+      const existing = defs.get(name);
+      if (extend && existing?.kind === 'enum') existing.values.push(...values);
+      else defs.set(name, { kind: 'enum', name, description, values });
+    } else if (keyword === 'union') {
+      const name = next();
+      skipDirectives();
+      const members: string[] = [];
+      if (peek() === '=') {
+        next();
+        if (peek() === '|') next();
+        members.push(next());
+        while (peek() === '|') {
+          next();
+          members.push(next());
+        }
+      }
+      defs.set(name, { kind: 'union', name, description, members });
+    } else if (keyword === 'scalar') {
+      const name = next();
+      skipDirectives();
+      defs.set(name, { kind: 'scalar', name, description });
+    } else if (keyword === 'schema') {
+      skipDirectives();
+      skipBalanced('{', '}');
+    } else if (keyword === 'directive') {
+      expect('@');
+      next();
+      if (peek() === '(') skipBalanced('(', ')');
+      if (peek() === 'repeatable') next();
+      expect('on');
+      if (peek() === '|') next();
+      next();
+      while (peek() === '|') {
+        next();
+        next();
+      }
+    } else {
+      throw new Error(`GraphQL parse error: unexpected "${keyword}"`);
+    }
+  }
+  return defs;
+};
+
+const graphQlTargetSchema = (defs: Map<string, GqlDefinition>, rootName: string) => {
+  const definitions: Record<string, any> = {};
+
+  const refTo = (name: string): Record<string, any> => {
+    if (GQL_SCALARS[name]) return { ...GQL_SCALARS[name] };
+    if (name === rootName) return { $ref: '#' };
+    const def = defs.get(name);
+    if (!def) return { description: `Unknown GraphQL type ${name}` };
+    if (def.kind === 'scalar') return { ...customScalarSchema(name), ...(def.description ? { description: def.description } : {}) };
+    if (!(name in definitions)) {
+      definitions[name] = {};
+      definitions[name] = definitionSchema(def);
+    }
+    return { $ref: `#/definitions/${name}` };
+  };
+
+  const typeSchema = (ref: GqlTypeRef): Record<string, any> =>
+    ref.kind === 'list' ? { type: 'array', items: typeSchema(ref.of) } : refTo(ref.name);
+
+  const definitionSchema = (def: GqlDefinition): Record<string, any> => {
+    const described = def.description ? { description: def.description } : {};
+    switch (def.kind) {
+      case 'enum':
+        return { ...described, type: 'string', enum: def.values };
+      case 'union':
+        return { ...described, anyOf: def.members.map(refTo) };
+      case 'scalar':
+        return { ...described, ...customScalarSchema(def.name) };
+      default:
+        return {
+          ...described,
+          type: 'object',
+          properties: Object.fromEntries(def.fields.map(field => [
+            field.name,
+            { ...typeSchema(field.type), ...(field.description ? { description: field.description } : {}) }
+          ])),
+          required: def.fields.filter(field => field.type.nonNull).map(field => field.name),
+          additionalProperties: false
+        };
+    }
+  };
+
+  const root = definitionSchema(defs.get(rootName)!);
+  return finishSchema(root, definitions, rootName);
+};
+
+const ROOT_OPERATION_TYPES = new Set(['Query', 'Mutation', 'Subscription']);
+
+const collectGraphQlTargets = (defs: Map<string, GqlDefinition>): SpecTarget[] =>
+  Array.from(defs.values())
+    .filter(def => (def.kind === 'type' || def.kind === 'input' || def.kind === 'interface') && !ROOT_OPERATION_TYPES.has(def.name))
+    .map(def => ({
+      id: `${def.kind}#${def.name}`,
+      kind: 'type' as const,
+      label: `${def.kind} ${def.name}`,
+      rootName: def.name,
+      schema: graphQlTargetSchema(defs, def.name)
+    }));
+
+/**
+ * Parses an OpenAPI 3.x (JSON or YAML), Swagger 2.0 or GraphQL SDL document and lists the
+ * bodies and types that can be turned into a prompt package.
+ */
+export const parseSpec = (text: string, fileName = ''): ParsedSpec => {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error('The spec is empty.');
+
+  const looksLikeSdl = /\.(graphqls?|gql)$/i.test(fileName) || /^\s*(?:"""[\s\S]*?"""\s*)?(?:extend\s+)?(type|input|interface|enum|union|scalar|schema|directive)\b/m.test(trimmed) && !/^\s*(openapi|swagger)\s*:/m.test(trimmed) && !trimmed.startsWith('{');
+  if (looksLikeSdl) {
+    const defs = parseSdl(trimmed);
+    const targets = collectGraphQlTargets(defs);
+    if (targets.length === 0) throw new Error('No object or input types were found in the GraphQL schema.');
+    return { format: 'graphql', title: fileName || 'GraphQL Schema', version: '', uri: '#', targets };
+  }
+
+  let doc: any;
+  try {
+    doc = trimmed.startsWith('{') ? JSON.parse(trimmed) : parseYaml(trimmed);
+  } catch (e: any) {
+    throw new Error(`Could not parse the spec as JSON or YAML: ${e.message}`);
+  }
+  if (!isObject(doc)) throw new Error('The spec must be a JSON or YAML object.');
+
+  const format: SpecFormat | null =
+    typeof doc.openapi === 'string' && doc.openapi.startsWith('3') ? 'openapi3' :
+    String(doc.swagger) === '2.0' ? 'swagger2' : null;
+  if (!format) throw new Error('Unsupported spec: expected an "openapi: 3.x" or "swagger: 2.0" document, or GraphQL SDL.');
+
+  const uri =
+    (format === 'openapi3' ? doc.servers?.[0]?.url : doc.host ? `${(doc.schemes || ['https'])[0]}://${doc.host}${doc.basePath || ''}` : undefined) ||
+    doc.externalDocs?.url ||
+    '#';
+  const targets = collectOpenApiTargets(doc, format);
+  if (targets.length === 0) throw new Error('The spec has no JSON request bodies, 2xx responses or component schemas.');
+  return { format, title: doc.info?.title || fileName || 'API Specification', version: doc.info?.version || '', uri, targets };
+};
+
+const PLACEHOLDER_STRINGS: Record<string, string> = {
+  'date-time': '2024-01-15T09:30:00Z',
+  date: '2024-01-15',
+  time: '09:30:00',
+  email: 'user@example.com',
+  uuid: '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+  uri: 'https://example.com/resource',
+  url: 'https://example.com/resource',
+  hostname: 'api.example.com',
+  ipv4: '192.0.2.10',
+  binary: '<binary>',
+  byte: 'U3dhZ2dlcg=='
+};
+
+/**
+ * Builds a representative document from a schema, preferring the spec's own examples,
+ * defaults and enums over generated placeholders.
+ */
+export const exampleFromSchema = (schema: Record<string, any>, root: Record<string, any> = schema, seen: string[] = ['#']): any => {
+  if (!isObject(schema)) return null;
+  if (typeof schema.$ref === 'string') {
+    // Recursive references end the branch; the caller drops the key or the array item
+    if (seen.includes(schema.$ref)) return undefined;
+    const target = schema.$ref === '#' ? root : pointerGet(root, schema.$ref);
+    return exampleFromSchema(target, root, [...seen, schema.$ref]);
+  }
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+  if (schema.default !== undefined) return schema.default;
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum.find((v: unknown) => v !== null) ?? schema.enum[0];
+  if (Array.isArray(schema.allOf)) {
+    return schema.allOf.reduce((merged: any, part: any) => {
+      const value = exampleFromSchema(part, root, seen);
+      return isObject(merged) && isObject(value) ? { ...merged, ...value } : value === undefined ? merged : value;
+    }, {});
+  }
+  const variants = schema.anyOf || schema.oneOf;
+  if (Array.isArray(variants) && variants.length > 0) return exampleFromSchema(variants[0], root, seen);
+
+  const types: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  const type = types.find(t => t !== 'null') || (schema.properties ? 'object' : schema.items ? 'array' : types[0]);
+  switch (type) {
+    case 'object': {
+      const out: Record<string, any> = {};
+      for (const [key, child] of Object.entries<any>(schema.properties || {})) {
+        const value = exampleFromSchema(child, root, seen);
+        if (value !== undefined) out[key] = value;
+      }
+      return out;
+    }
+    case 'array': {
+      const item = exampleFromSchema(schema.items || {}, root, seen);
+      return item === undefined ? [] : Array.from({ length: Math.max(1, schema.minItems || 1) }, () => item);
+    }
+    case 'integer':
+      return typeof schema.minimum === 'number' ? Math.ceil(schema.minimum) : 1;
+    case 'number':
+      return typeof schema.minimum === 'number' ? schema.minimum : 1.5;
+    case 'boolean':
+      return true;
+    case 'string':
+      return PLACEHOLDER_STRINGS[schema.format] || 'string';
+    case 'null':
+      return null;
+    default:
+      return null;
+  }
+};
+
+export interface SpecImportOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * Turns one spec target into a prompt package. The schema, TypeScript and example are derived
+ * locally from the spec; the model only writes the description, prompt and variations.
+ */
+export const importSpecTarget = async (spec: ParsedSpec, target: SpecTarget, options: SpecImportOptions = {}): Promise<SearchResult> => {
+  const { signal } = options;
+  const jsonSchema = JSON.stringify(target.schema, null, 2);
+  const tsInterface = schemaToTypeScript(target.schema, target.rootName);
+  const exampleJson = JSON.stringify(exampleFromSchema(target.schema) ?? null, null, 2);
+  const specLabel = [spec.title, spec.version && `v${spec.version}`].filter(Boolean).join(' ');
+
+  try {
+    const { provider, model } = resolveStage('synthesis');
+    const usageTag = createUsageTag('spec-import');
+    const prompt = `
+      As a Senior AI Architect, write the prompt layer for a JSON prompt package generated from an API specification.
+
+      Specification: ${specLabel} (${spec.format})
+      Target: ${target.label}
+
+      JSON Schema (authoritative, do not alter):
+      ${jsonSchema}
+
+      Return a JSON object with:
+      1. "description": Deep overview in Markdown of what this payload represents and how it is used.
+      2. "jsonPrompt": A precise, highly explicit LLM system prompt that makes a model emit JSON conforming to the schema above. It MUST:
+         - Explicitly list every key name exactly as spelled in the schema.
+         - Specify the data type and format of every field.
+         - Define array structures, enums and nested objects.
+         - Mention mandatory vs. optional fields.
+      3. "promptVariations": 3 alternative prompt strategies.
+    `;
+
+    const parsed = await withRetry(async () => {
+      const response = await provider.generate({
+        model,
+        prompt,
+        json: true,
+        signal,
+        usageTag,
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            description: { type: Type.STRING },
+            jsonPrompt: { type: Type.STRING },
+            promptVariations: { type: Type.ARRAY, items: { type: Type.STRING } }
+          },
+          required: ['description', 'jsonPrompt', 'promptVariations']
+        }
+      });
+      try {
+        return JSON.parse(cleanJsonResponse(response.text || '{}'));
+      } catch (e: any) {
+        throw new MalformedJsonError(`Synthesis output is not valid JSON: ${e.message}`, e, 'synthesis');
+      }
+    }, { stage: 'synthesis', signal });
+
+    const source: Source = { title: `${specLabel} — ${target.label}`, uri: spec.uri };
+    const result: SearchResult = {
+      title: `${target.rootName} (${spec.title})`,
+      description: parsed.description || '',
+      jsonPrompt: parsed.jsonPrompt || '',
+      promptVariations: Array.isArray(parsed.promptVariations) ? parsed.promptVariations : [],
+      exampleJson,
+      jsonSchema,
+      tsInterface,
+      sources: [source]
+    };
+    return { ...result, consistency: checkConsistency(result), usage: usageForTag(usageTag) };
+  } catch (error: any) {
+    if (signal?.aborted || isAbortError(error)) {
+      throw new DOMException("Import cancelled.", "AbortError");
+    }
+    throw classifyError(error, 'synthesis');
+  }
+};
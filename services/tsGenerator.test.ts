@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { schemaToTypeScript } from './tsGenerator';
+
+const declaredNames = (source: string) => Array.from(source.matchAll(/export (?:interface|type) (\w+)/g), match => match[1]);
+
+describe('schemaToTypeScript', () => {
+  it('renames the root when a definition already uses its name', () => {
+    const source = schemaToTypeScript({
+      type: 'object',
+      properties: { items: { type: 'array', items: { $ref: '#/definitions/Product' } } },
+      definitions: { Product: { type: 'object', properties: { sku: { type: 'string' } } } }
+    }, 'Product');
+    const names = declaredNames(source);
+    expect(new Set(names).size).toBe(names.length);
+    expect(names).toEqual(['Product2', 'Product']);
+    expect(source).toContain('items?: Product[];');
+  });
+
+  it('points self references at the renamed root', () => {
+    const source = schemaToTypeScript({
+      type: 'object',
+      properties: { parent: { $ref: '#' } },
+      definitions: { Category: { type: 'string' } }
+    }, 'Category');
+    expect(source).toContain('export interface Category2 {\n  parent?: Category2;\n}');
+  });
+
+  it('keeps a root that only references its same-named definition', () => {
+    const source = schemaToTypeScript({
+      $ref: '#/definitions/Product',
+      definitions: { Product: { type: 'object', properties: { sku: { type: 'string' } } } }
+    }, 'Product');
+    expect(declaredNames(source)).toEqual(['Product']);
+  });
+});
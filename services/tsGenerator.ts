@@ -0,0 +1,133 @@
+type JsonSchema = Record<string, any> | boolean;
+
+export const toPascalCase = (value: string) =>
+  value
+    .replace(/[^a-zA-Z0-9]+(.)?/g, (_, ch: string | undefined) => (ch ? ch.toUpperCase() : ''))
+    .replace(/^[a-z]/, ch => ch.toUpperCase())
+    .replace(/^(\d)/, '_$1') || 'Root';
+
+const refName = (ref: string) => toPascalCase(ref.split('/').pop() || 'Ref');
+
+const propertyKey = (key: string) => (/^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key));
+
+const docComment = (description: unknown, indent: string) =>
+  typeof description === 'string' && description.trim()
+    ? `${indent}/** ${description.trim().replace(/\*\//g, '*\\/').replace(/\s*\n\s*/g, ' ')} */\n`
+    : '';
+
+/**
+ * Emits TypeScript declarations for a JSON Schema. Definitions and nested objects become named
+ * interfaces so the output reads like a hand-written model file.
+ */
+export const schemaToTypeScript = (schema: JsonSchema, rootName = 'Root'): string => {
+  const declarations: string[] = [];
+  const usedNames = new Set<string>();
+
+  const freeName = (base: string) => {
+    let name = toPascalCase(base);
+    let n = 2;
+    while (usedNames.has(name)) name = `${toPascalCase(base)}${n++}`;
+    return name;
+  };
+
+  const uniqueName = (base: string) => {
+    const name = freeName(base);
+    usedNames.add(name);
+    return name;
+  };
+
+  let rootTypeName = toPascalCase(rootName);
+
+  const typeFor = (node: JsonSchema, nameHint: string): string => {
+    if (node === true || node === undefined) return 'unknown';
+    if (node === false) return 'never';
+    if (typeof node.$ref === 'string') return node.$ref === '#' ? rootTypeName : refName(node.$ref);
+    if (node.const !== undefined) return JSON.stringify(node.const);
+    if (Array.isArray(node.enum)) return node.enum.map((v: unknown) => JSON.stringify(v)).join(' | ') || 'never';
+    if (Array.isArray(node.anyOf) || Array.isArray(node.oneOf)) {
+      const variants: JsonSchema[] = node.anyOf || node.oneOf;
+      return Array.from(new Set(variants.map((v, i) => typeFor(v, `${nameHint}Option${i + 1}`)))).join(' | ');
+    }
+    if (Array.isArray(node.allOf)) {
+      return node.allOf.map((v: JsonSchema, i: number) => typeFor(v, `${nameHint}Part${i + 1}`)).join(' & ');
+    }
+
+    const types: string[] = Array.isArray(node.type) ? node.type : node.type ? [node.type] : [];
+    if (types.length === 0) {
+      if (node.properties) types.push('object');
+      else if (node.items) types.push('array');
+      else return 'unknown';
+    }
+    const variants = types.map(type => {
+      switch (type) {
+        case 'string':
+          return 'string';
+        case 'integer':
+        case 'number':
+          return 'number';
+        case 'boolean':
+          return 'boolean';
+        case 'null':
+          return 'null';
+        case 'array': {
+          const items = Array.isArray(node.prefixItems) ? node.prefixItems : Array.isArray(node.items) ? node.items : null;
+          if (items) return `[${items.map((item: JsonSchema, i: number) => typeFor(item, `${nameHint}Item${i + 1}`)).join(', ')}]`;
+          const inner = typeFor(node.items ?? true, `${nameHint}Item`);
+          return /[|&\s]/.test(inner) ? `Array<${inner}>` : `${inner}[]`;
+        }
+        case 'object':
+          if (node.properties && Object.keys(node.properties).length > 0) {
+            return emitInterface(node, uniqueName(nameHint));
+          }
+          if (node.additionalProperties && typeof node.additionalProperties === 'object') {
+            return `Record<string, ${typeFor(node.additionalProperties, `${nameHint}Value`)}>`;
+          }
+          return 'Record<string, unknown>';
+        default:
+          return 'unknown';
+      }
+    });
+    return variants.join(' | ');
+  };
+
+  const emitInterface = (node: Record<string, any>, name: string): string => {
+    const required: string[] = Array.isArray(node.required) ? node.required : [];
+    // Reserve the slot so parents are declared before their nested children
+    const index = declarations.push('') - 1;
+    const lines = Object.entries<JsonSchema>(node.properties || {}).map(([key, child]) => {
+      const description = typeof child === 'object' ? child.description : undefined;
+      const optional = required.includes(key) ? '' : '?';
+      return `${docComment(description, '  ')}  ${propertyKey(key)}${optional}: ${typeFor(child, `${name}${toPascalCase(key)}`)};`;
+    });
+    if (node.additionalProperties && typeof node.additionalProperties === 'object') {
+      lines.push(`  [key: string]: ${typeFor(node.additionalProperties, `${name}Value`)} | undefined;`);
+    }
+    declarations[index] = `${docComment(node.description, '')}export interface ${name} {\n${lines.join('\n')}\n}`;
+    return name;
+  };
+
+  const root = typeof schema === 'object' ? schema : {};
+  const definitions: Record<string, JsonSchema> = { ...(root.definitions || {}), ...(root.$defs || {}) };
+  Object.keys(definitions).forEach(key => usedNames.add(refName(key)));
+
+  // The root only shares a definition's name when it is a plain reference to that definition
+  if (usedNames.has(rootTypeName) && !(typeof root.$ref === 'string' && refName(root.$ref) === rootTypeName)) {
+    rootTypeName = freeName(rootTypeName);
+  }
+  const rootType = typeFor({ ...root, definitions: undefined, $defs: undefined }, rootTypeName);
+  if (rootType !== rootTypeName) {
+    declarations.unshift(`${docComment(root.description, '')}export type ${rootTypeName} = ${rootType};`);
+  }
+
+  for (const [key, definition] of Object.entries(definitions)) {
+    const name = refName(key);
+    if (typeof definition === 'object' && definition.properties && !definition.anyOf && !definition.oneOf) {
+      emitInterface(definition, name);
+    } else {
+      const index = declarations.push('') - 1;
+      declarations[index] = `${docComment(typeof definition === 'object' ? definition.description : undefined, '')}export type ${name} = ${typeFor(definition, name)};`;
+    }
+  }
+
+  return declarations.join('\n\n') + '\n';
+};
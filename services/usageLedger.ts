@@ -0,0 +1,137 @@
+import { ModelPrice, PipelineStage, PricingSettings, TokenUsage, UsageRecord, UsageSummary } from "../types";
+import { BudgetExceededError } from "./engineErrors";
+
+const USAGE_KEY = 'json_prompter_usage_v1';
+const PRICING_KEY = 'json_prompter_pricing_v1';
+const MAX_RECORDS = 5000;
+const SESSION_START = Date.now();
+
+// USD list prices at the time of writing; every row is editable in the Usage panel
+export const DEFAULT_PRICING: PricingSettings = {
+  prices: {
+    'gemini-3-flash-preview': { inputPerMillion: 0.5, outputPerMillion: 3, groundingPerThousand: 14 },
+    'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5, groundingPerThousand: 35 },
+    'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10, groundingPerThousand: 35 },
+    'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6, groundingPerThousand: 0 },
+    'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10, groundingPerThousand: 0 },
+    '*': { inputPerMillion: 0, outputPerMillion: 0, groundingPerThousand: 0 }
+  },
+  monthlyBudgetUsd: null
+};
+
+export const EMPTY_USAGE: UsageSummary = {
+  promptTokens: 0,
+  outputTokens: 0,
+  groundingTokens: 0,
+  groundedRequests: 0,
+  calls: 0,
+  costUsd: 0
+};
+
+export const formatUsd = (value: number) => `$${value < 0.01 && value > 0 ? value.toFixed(4) : value.toFixed(2)}`;
+
+export const formatTokens = (value: number) =>
+  value >= 1e6 ? `${(value / 1e6).toFixed(2)}M` : value >= 1000 ? `${(value / 1000).toFixed(1)}k` : String(value);
+
+const listeners = new Set<() => void>();
+
+export const subscribeUsage = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const loadPricing = (): PricingSettings => {
+  try {
+    const raw = localStorage.getItem(PRICING_KEY);
+    if (!raw) return DEFAULT_PRICING;
+    const parsed = JSON.parse(raw);
+    return {
+      // A saved table is complete, so removed default rows stay removed
+      prices: parsed.prices ? { '*': DEFAULT_PRICING.prices['*'], ...parsed.prices } : DEFAULT_PRICING.prices,
+      monthlyBudgetUsd: typeof parsed.monthlyBudgetUsd === 'number' ? parsed.monthlyBudgetUsd : null
+    };
+  } catch (e) {
+    return DEFAULT_PRICING;
+  }
+};
+
+export const savePricing = (pricing: PricingSettings) => {
+  localStorage.setItem(PRICING_KEY, JSON.stringify(pricing));
+  listeners.forEach(listener => listener());
+};
+
+export const priceFor = (model: string, pricing = loadPricing()): ModelPrice =>
+  pricing.prices[model] || pricing.prices['*'] || DEFAULT_PRICING.prices['*'];
+
+export const costOf = (usage: TokenUsage, model: string, pricing = loadPricing()) => {
+  const price = priceFor(model, pricing);
+  // Search results fed back to the model are billed as input tokens
+  return ((usage.promptTokens + usage.groundingTokens) * price.inputPerMillion
+    + usage.outputTokens * price.outputPerMillion) / 1e6
+    + usage.groundedRequests * price.groundingPerThousand / 1000;
+};
+
+export const loadUsageRecords = (): UsageRecord[] => {
+  try {
+    return JSON.parse(localStorage.getItem(USAGE_KEY) || '[]');
+  } catch (e) {
+    return [];
+  }
+};
+
+// Roughly four characters per token; only used when a provider reports no usage
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const recordUsage = (stage: PipelineStage, provider: UsageRecord['provider'], model: string, usage: TokenUsage, tag?: string) => {
+  const record: UsageRecord = { ...usage, at: Date.now(), stage, provider, model, tag, costUsd: costOf(usage, model) };
+  const records = [...loadUsageRecords(), record].slice(-MAX_RECORDS);
+  localStorage.setItem(USAGE_KEY, JSON.stringify(records));
+  listeners.forEach(listener => listener());
+  return record;
+};
+
+export const clearUsage = () => {
+  localStorage.removeItem(USAGE_KEY);
+  listeners.forEach(listener => listener());
+};
+
+export const summarizeUsage = (records: UsageRecord[]): UsageSummary =>
+  records.reduce((sum, r) => ({
+    promptTokens: sum.promptTokens + r.promptTokens,
+    outputTokens: sum.outputTokens + r.outputTokens,
+    groundingTokens: sum.groundingTokens + r.groundingTokens,
+    groundedRequests: sum.groundedRequests + r.groundedRequests,
+    calls: sum.calls + 1,
+    costUsd: sum.costUsd + r.costUsd
+  }), EMPTY_USAGE);
+
+const startOfMonth = () => {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+};
+
+export const sessionUsage = (records = loadUsageRecords()) => summarizeUsage(records.filter(r => r.at >= SESSION_START));
+
+export const monthUsage = (records = loadUsageRecords()) => summarizeUsage(records.filter(r => r.at >= startOfMonth()));
+
+export const usageForTag = (tag: string) => summarizeUsage(loadUsageRecords().filter(r => r.tag === tag));
+
+export const createUsageTag = (label: string) => `${label}:${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * Blocks new calls once the month-to-date spend reaches the cap. Calls already in flight finish.
+ */
+export const assertWithinBudget = (stage?: string) => {
+  const { monthlyBudgetUsd } = loadPricing();
+  if (monthlyBudgetUsd === null) return;
+  const spent = monthUsage().costUsd;
+  if (spent >= monthlyBudgetUsd) {
+    throw new BudgetExceededError(
+      `Month-to-date spend $${spent.toFixed(4)} has reached the $${monthlyBudgetUsd.toFixed(2)} budget cap.`,
+      undefined,
+      stage
+    );
+  }
+};
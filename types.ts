@@ -8,11 +8,53 @@ export interface SearchResult {
   tsInterface?: string;
   sources: Source[];
   promptVariations?: string[];
+  consistency?: ConsistencyReport;
+  // Grounding supports from the research pass; indices point into `sources`
+  evidence?: GroundingEvidence[];
+  usage?: UsageSummary;
+  // Set on copies saved from the editor; the title of the result they were edited from
+  editedFrom?: string;
+}
+
+export type ArtifactKey = 'exampleJson' | 'jsonSchema' | 'tsInterface' | 'jsonPrompt';
+
+export interface Discrepancy {
+  path: string;
+  artifact: ArtifactKey;
+  issue: 'missing' | 'extra' | 'type-mismatch' | 'unparseable';
+  detail: string;
+}
+
+export interface ConsistencyReport {
+  // 0-100, share of field checks on which all artifacts agree
+  score: number;
+  discrepancies: Discrepancy[];
+  repaired: Discrepancy[];
+  // Repairs that failed or were rejected; the artifact kept its previous text
+  failedRepairs?: RepairFailure[];
+}
+
+export interface RepairFailure {
+  artifact: ArtifactKey;
+  reason: string;
+}
+
+export type RevisionSource = 'saved' | 'edit' | 'rediscovery' | 'chat' | 'restore';
+
+export type RevisionSnapshot = Pick<SearchResult, 'description' | 'jsonPrompt' | 'exampleJson' | 'jsonSchema' | 'tsInterface' | 'promptVariations'>;
+
+export interface Revision {
+  id: string;
+  createdAt: number;
+  source: RevisionSource;
+  snapshot: RevisionSnapshot;
 }
 
 export interface SavedResult extends SearchResult {
   id: string;
   savedAt: number;
+  // Oldest first; the last entry matches the favorite's current content
+  revisions?: Revision[];
 }
 
 export interface Source {
@@ -20,13 +62,110 @@ export interface Source {
   uri: string;
 }
 
+export interface GroundingEvidence {
+  text: string;
+  sourceIndices: number[];
+  confidence?: number;
+}
+
+export interface FieldProvenance {
+  path: string;
+  key: string;
+  sourceIndices: number[];
+  passages: string[];
+  // false when no grounded passage names the field: possibly hallucinated
+  grounded: boolean;
+}
+
+export interface CacheStatus {
+  cachedAt: number;
+  stale: boolean;
+}
+
+export type EngineErrorKind =
+  | 'quota'
+  | 'safety'
+  | 'grounding_unavailable'
+  | 'malformed_json'
+  | 'network'
+  | 'missing_api_key'
+  | 'budget_exceeded'
+  | 'unknown';
+
+export interface EngineFault {
+  kind: EngineErrorKind;
+  title: string;
+  message: string;
+  remediation: string;
+  stage?: string;
+  retryable: boolean;
+}
+
 export interface AppState {
   isSearching: boolean;
   query: string;
   results: SearchResult | null;
-  error: string | null;
+  cacheStatus: CacheStatus | null;
+  error: EngineFault | null;
   favorites: SavedResult[];
   searchHistory: string[];
   useCount: number;
   isSubscribed: boolean;
 }
+export type ProviderKind = 'gemini' | 'openai' | 'local';
+
+export type PipelineStage = 'research' | 'synthesis' | 'test' | 'chat';
+
+export interface StageConfig {
+  provider: ProviderKind;
+  model: string;
+}
+
+export interface ProviderSettings {
+  stages: Record<PipelineStage, StageConfig>;
+  openai: {
+    baseUrl: string;
+    apiKey: string;
+    // Sends stream_options.include_usage; servers that reject unknown fields need it off
+    streamUsage: boolean;
+  };
+  local: {
+    baseUrl: string;
+    streamUsage: boolean;
+  };
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  // Tool-use prompt tokens spent on search results
+  groundingTokens: number;
+  groundedRequests: number;
+}
+
+export interface UsageSummary extends TokenUsage {
+  calls: number;
+  costUsd: number;
+}
+
+export interface UsageRecord extends TokenUsage {
+  at: number;
+  stage: PipelineStage;
+  provider: ProviderKind;
+  model: string;
+  costUsd: number;
+  // Groups the calls of one discovery or import
+  tag?: string;
+}
+
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  groundingPerThousand: number;
+}
+
+export interface PricingSettings {
+  // Keyed by model id; `*` prices any model without its own row
+  prices: Record<string, ModelPrice>;
+  monthlyBudgetUsd: number | null;
+}